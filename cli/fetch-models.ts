@@ -0,0 +1,46 @@
+import { existsSync, mkdirSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+
+/**
+ * Copie locale des poids FaceMesh (format graphe TF.js) dans `public/models`, pour que
+ * l’application les serve elle-même et fonctionne hors ligne. Sans effet si les fichiers
+ * sont déjà présents ; `--force` les retélécharge.
+ */
+const MODELS: Record<string, string> = {
+  face_detection_short: "https://tfhub.dev/mediapipe/tfjs-model/face_detection/short/1",
+  face_landmarks_attention_mesh: "https://tfhub.dev/mediapipe/tfjs-model/face_landmarks_detection/attention_mesh/1",
+};
+
+const OUT = join(import.meta.dirname, "..", "public", "models");
+
+type ModelJSON = { weightsManifest: Array<{ paths: string[] }> };
+
+async function download(url: string) {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} : HTTP ${res.status}`);
+  return new Uint8Array(await res.arrayBuffer());
+}
+
+async function fetchModel(dir: string, hubURL: string, force: boolean) {
+  const target = join(OUT, dir);
+  if (!force && existsSync(join(target, "model.json"))) return;
+  mkdirSync(target, { recursive: true });
+  // Même convention que `loadGraphModel(…, { fromTFHub: true })` : fichiers sous l’URL du modèle.
+  const file = (name: string) => `${hubURL}/${name}?tfjs-format=file`;
+  const json = await download(file("model.json"));
+  const model = JSON.parse(new TextDecoder().decode(json)) as ModelJSON;
+  for (const path of model.weightsManifest.flatMap((g) => g.paths)) {
+    writeFileSync(join(target, path), await download(file(path)));
+  }
+  // Écrit en dernier : un téléchargement interrompu sera repris au prochain lancement.
+  writeFileSync(join(target, "model.json"), json);
+  console.log(`${dir} → ${target}`);
+}
+
+const force = process.argv.includes("--force");
+try {
+  for (const [dir, url] of Object.entries(MODELS)) await fetchModel(dir, url, force);
+} catch (e) {
+  console.error(`Téléchargement des modèles impossible : ${(e as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,214 @@
+import { readFileSync, readdirSync, statSync } from "node:fs";
+import { basename, join } from "node:path";
+import { parseArgs } from "node:util";
+import {
+  BUILT_IN_METHODOLOGIES,
+  LITERATURE_COHORT_ID,
+  METHODOLOGY,
+  MessageError,
+  SYMMETRY_REGIONS,
+  buildPopulationModel,
+  calibrationNote,
+  compareToPopulation,
+  describeDeviation,
+  errorMessage,
+  literatureCohort,
+  msg,
+  normDeviation,
+  parseCohort,
+  parseLandmarkFile,
+  round1,
+  scoreLandmarks,
+  uniquenessNote,
+  validateMethodology,
+  type Message,
+  type Methodology,
+  type PopulationModel,
+  type ScoreOptions,
+  type ScoreReport,
+} from "../src/engine";
+import { DEFAULT_LOCALE, createTranslator, isLocale, type Translator } from "../src/i18n";
+
+/** Traducteur des sorties texte ; la langue est fixée par `--lang`. */
+let tr: Translator = createTranslator(DEFAULT_LOCALE);
+
+type Entry = { source: string; report?: ScoreReport; warnings: Message[]; error?: Message };
+
+function collectFiles(paths: string[]) {
+  const files: string[] = [];
+  for (const p of paths) {
+    if (statSync(p).isDirectory()) {
+      readdirSync(p)
+        .filter((f) => f.toLowerCase().endsWith(".json"))
+        .sort()
+        .forEach((f) => files.push(join(p, f)));
+    } else {
+      files.push(p);
+    }
+  }
+  return files;
+}
+
+function loadMethodology(arg: string): Methodology {
+  const builtIn = BUILT_IN_METHODOLOGIES.find((m) => m.id === arg);
+  if (builtIn) return builtIn;
+  const { methodology, errors } = validateMethodology(JSON.parse(readFileSync(arg, "utf8")));
+  if (!methodology) throw new Error([tr.t("cli.invalidMethodology", { file: arg }), ...errors.map(tr.m)].join("\n- "));
+  return methodology;
+}
+
+/** Cohorte de référence : `literature` (intégrée), `none`, ou fichier JSON/CSV ; `group` la restreint. */
+function loadPopulation(arg: string, group: string | undefined): PopulationModel | null {
+  if (arg === "none") return null;
+  const cohort = arg === LITERATURE_COHORT_ID ? literatureCohort() : parseCohort(readFileSync(arg, "utf8"), basename(arg), basename(arg));
+  return buildPopulationModel(cohort, group ?? null);
+}
+
+function processFile(
+  file: string,
+  opts: Pick<ScoreOptions, "repeats" | "seed">,
+  methodology: Methodology,
+  population: PopulationModel | null
+): Entry[] {
+  let content: unknown;
+  try {
+    content = JSON.parse(readFileSync(file, "utf8"));
+  } catch (e) {
+    return [{ source: file, warnings: [], error: msg("cli.unreadable", { error: (e as Error).message }) }];
+  }
+
+  // Un fichier peut contenir un seul jeu de landmarks ou un tableau de jeux.
+  const items = Array.isArray(content) ? content : [content];
+  return items.map((item, i) => {
+    const source = items.length > 1 ? `${file}#${i}` : file;
+    const warnings: Message[] = [];
+    try {
+      const input = parseLandmarkFile(item);
+      if (input.methodologyVersion && input.methodologyVersion !== methodology.version) {
+        warnings.push(msg("cli.versionMismatch", { file: input.methodologyVersion, used: methodology.version }));
+      }
+      const report = scoreLandmarks(input.landmarks, input.width, input.height, { ...opts, methodology, calibration: input.calibration, pose: input.pose });
+      return { source, warnings, report: compareToPopulation(report, population) };
+    } catch (e) {
+      return { source, warnings, error: errorMessage(e) };
+    }
+  });
+}
+
+function formatTable(entry: Entry) {
+  const { t, m, num } = tr;
+  const lines = [`== ${basename(entry.source)}`];
+  entry.warnings.forEach((w) => lines.push(`! ${m(w)}`));
+  if (!entry.report) {
+    lines.push(t("cli.error", { error: entry.error ? m(entry.error) : "" }));
+    return lines.join("\n");
+  }
+  const { scores, ci, ratios, targets, measures, feedback } = entry.report;
+
+  lines.push("", t("cli.scores"));
+  for (const key of Object.keys(scores) as Array<keyof typeof scores>) {
+    const c = ci[key];
+    lines.push(`  ${t(`score.${key}`).padEnd(40)} ${num(scores[key]).padStart(7)}${typeof c === "number" ? ` ± ${num(c)}` : ""}`);
+  }
+  lines.push(`  ${m(uniquenessNote(entry.report, tr.cohortLabel))}`);
+  if (entry.report.uncertainty.warning) lines.push(`! ${m(entry.report.uncertainty.warning)}`);
+
+  const { pose, poseWarnings, poseNormalized } = entry.report;
+  if (pose) {
+    lines.push("", `${t("cli.pose", pose)}${poseNormalized ? t("cli.poseNormalized") : ""}`);
+    poseWarnings.forEach((w) => lines.push(`! ${m(w)}`));
+  }
+
+  lines.push("", t("report.symmetry.title"));
+  for (const r of SYMMETRY_REGIONS) {
+    const reg = entry.report.symmetry.regions[r];
+    const direction = describeDeviation(reg).map(m).join(", ") || t("deviation.none");
+    lines.push(`  ${t(`region.${r}`).padEnd(40)} ${num(reg.score).padStart(7)}  ${direction}`);
+  }
+
+  const population = entry.report.population;
+  const rank = (k: string) => {
+    const f = population?.features[k];
+    return population ? ` ${(f ? t("report.population.cell", { percentile: round1(f.percentile), z: f.z > 0 ? `+${num(f.z)}` : f.z }) : "—").padStart(16)}` : "";
+  };
+  const ranked = Object.keys(measures).some((k) => population?.features[k]);
+
+  const calibration = entry.report.calibration;
+  const mm = (k: string) => (calibration ? ` ${(k in calibration.measures ? `${num(calibration.measures[k])} ± ${num(calibration.measureCI[k])} mm` : "—").padStart(18)}` : "");
+
+  lines.push("", t("cli.measures"), `  ${m(calibrationNote(calibration))}`);
+  if (calibration?.warning) lines.push(`! ${m(calibration.warning)}`);
+  for (const [k, v] of Object.entries(measures)) lines.push(`  ${tr.measure(k).padEnd(40)} ${`${num(v)} px`.padStart(10)}${mm(k)}${ranked ? rank(k) : ""}`);
+
+  const header = [t("report.ratios.measured").padStart(7), t("cli.target").padStart(11), t("report.ratios.deviation").padStart(8)];
+  if (population) header.push(t("report.ratios.population").padStart(16));
+  lines.push("", `  ${t("report.ratios.ratio").padEnd(40)} ${header.join(" ")}`);
+  for (const k of Object.keys(ratios)) {
+    const val = ratios[k];
+    const tgt = targets[k];
+    const norm = entry.report.norms[k];
+    const ref = tgt !== undefined ? num(tgt) : norm ? `${num(norm[0])}–${num(norm[1])}` : "—";
+    const rel = tgt !== undefined ? (tgt > 0 ? Math.abs(val - tgt) / tgt : 1) : norm ? normDeviation(val, norm) : null;
+    const dev = rel === null ? "—" : `${num(rel * 100)}%`;
+    lines.push(`  ${tr.measure(k).padEnd(40)} ${num(val).padStart(7)} ${ref.padStart(11)} ${dev.padStart(8)}${rank(k)}`);
+  }
+
+  lines.push("", ...feedback.map((f) => `  ${m(f)}`));
+  return lines.join("\n");
+}
+
+function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      format: { type: "string", short: "f", default: "json" },
+      methodology: { type: "string", short: "m", default: METHODOLOGY.id },
+      repeats: { type: "string", short: "r" },
+      seed: { type: "string", short: "s" },
+      lang: { type: "string", short: "l", default: DEFAULT_LOCALE },
+      cohort: { type: "string", short: "c", default: LITERATURE_COHORT_ID },
+      group: { type: "string", short: "g" },
+      "no-ci": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (!isLocale(values.lang)) throw new MessageError(msg("cli.unknownLang", { lang: values.lang }));
+  tr = createTranslator(values.lang);
+
+  if (values.help || positionals.length === 0) {
+    console.log(
+      tr.t("cli.usage", { methodologies: BUILT_IN_METHODOLOGIES.map((m) => m.id).join(", "), default: METHODOLOGY.id, cohort: LITERATURE_COHORT_ID })
+    );
+    process.exit(values.help ? 0 : 1);
+  }
+  if (values.format !== "json" && values.format !== "table") {
+    throw new MessageError(msg("cli.unknownFormat", { format: values.format }));
+  }
+  const methodology = loadMethodology(values.methodology);
+  const repeats = values["no-ci"] ? 0 : values.repeats !== undefined ? Number(values.repeats) : methodology.uncertainty.repeats;
+  if (!Number.isInteger(repeats) || repeats < 0) throw new MessageError(msg("cli.invalidRepeats", { value: String(values.repeats) }));
+  const seed = values.seed !== undefined ? Number(values.seed) : methodology.uncertainty.seed;
+  if (!Number.isInteger(seed) || seed < 0) throw new MessageError(msg("cli.invalidSeed", { value: String(values.seed) }));
+
+  const population = loadPopulation(values.cohort, values.group);
+
+  const entries = collectFiles(positionals).flatMap((f) => processFile(f, { repeats, seed }, methodology, population));
+  entries.forEach((e) => e.warnings.forEach((w) => console.error(`${e.source} : ${tr.m(w)}`)));
+
+  if (values.format === "json") {
+    const out = entries.map(({ source, report, warnings, error }) => ({ source, ...report, warnings, error }));
+    console.log(JSON.stringify(out.length === 1 ? out[0] : out, null, 2));
+  } else {
+    console.log(entries.map(formatTable).join("\n\n"));
+  }
+
+  if (entries.some((e) => e.error)) process.exitCode = 1;
+}
+
+try {
+  main();
+} catch (e) {
+  console.error(tr.m(errorMessage(e)));
+  process.exit(1);
+}
@@ -1,364 +1,97 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
-import * as tf from "@tensorflow/tfjs";
-import * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
-import "@tensorflow/tfjs-backend-webgl";
-
-type LM = { x: number; y: number; z?: number };
-
-const METHODOLOGY = {
-  weights: { symmetry: 0.35, golden: 0.25, harmony: 0.40 },
-  eyeSpacing: { idealMin: 0.28, idealMax: 0.36, low: 0.26, high: 0.38 },
-  quality: { blurVarMin: 1500, luminanceMin: 60, luminanceMax: 200 },
-  uncertainty: { repeats: 40, jitterSigma: 0.003 },
-  version: "1.2.0",
-};
-
-function Card({ children, className = "" }: { children: React.ReactNode; className?: string }) {
-  return (
-    <div className={`rounded-2xl border border-black/[0.06] bg-white/70 shadow-[0_10px_35px_-15px_rgba(0,0,0,0.25)] backdrop-blur-sm ${className}`}>
-      {children}
-    </div>
-  );
-}
-function CardBody({ children, className = "" }: { children: React.ReactNode; className?: string }) {
-  return <div className={`p-6 md:p-8 ${className}`}>{children}</div>;
-}
-function Button({
-  children,
-  onClick,
-  disabled = false,
-  variant = "primary",
-  size = "md",
-}: {
-  children: React.ReactNode;
-  onClick?: () => void;
-  disabled?: boolean;
-  variant?: "primary" | "secondary" | "outline";
-  size?: "sm" | "md" | "lg";
-}) {
-  const base =
-    "inline-flex items-center justify-center rounded-xl font-medium transition-colors focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed";
-  const sizes: Record<string, string> = {
-    sm: "px-3 py-2 text-sm",
-    md: "px-4 py-2.5 text-sm",
-    lg: "px-5 py-3 text-base",
-  };
-  const variants: Record<string, string> = {
-    primary: "bg-neutral-900 text-white hover:bg-black",
-    secondary: "bg-white text-neutral-900 border border-neutral-300 hover:bg-neutral-100",
-    outline: "bg-transparent text-neutral-900 border border-neutral-300 hover:bg-neutral-50",
-  };
-  return (
-    <button onClick={onClick} disabled={disabled} className={`${base} ${sizes[size]} ${variants[variant]}`}>
-      {children}
-    </button>
-  );
-}
-function Progress({ value, className = "" }: { value: number; className?: string }) {
-  const pct = Math.max(0, Math.min(100, value));
-  return (
-    <div className={`w-full h-2 rounded-full bg-neutral-200 ${className}`}>
-      <div className="h-full rounded-full bg-neutral-900 transition-[width] duration-500" style={{ width: `${pct}%` }} />
-    </div>
-  );
-}
-
-const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
-const round1 = (v: number) => Math.round(v * 10) / 10;
-const round2 = (v: number) => Math.round(v * 100) / 100;
-const round3 = (v: number) => Math.round(v * 1000) / 1000;
-const euclid = (p1: [number, number], p2: [number, number]) => Math.hypot(p1[0] - p2[0], p1[1] - p2[1]);
-
-const symmetricPairs: Array<[number, number]> = [
-  [234, 454], [93, 323], [132, 361], [58, 288], [127, 356],
-  [50, 280], [101, 330], [205, 425], [98, 327], [55, 285],
-  [65, 295], [107, 336], [52, 282], [66, 296], [3, 13],
-];
-
-function calcSymmetryScore(landmarks: LM[]): number {
-  const diffs = symmetricPairs.map(([i, j]) => Math.abs(landmarks[i].x - (1 - landmarks[j].x)));
-  const mean = diffs.reduce((a, b) => a + b, 0) / diffs.length;
-  return Math.max(0, Math.round((100 - mean * 1000) * 100) / 100);
-}
-
-function project(idx: number, w: number, h: number, lms: LM[]): [number, number] {
-  return [lms[idx].x * w, lms[idx].y * h];
-}
-
-type GoldenOut = {
-  score: number;
-  values: Record<string, number | Record<string, number>>;
-  faceWidth: number;
-  eyeDist: number;
-  eyeL: [number, number];
-  eyeR: [number, number];
-  ratios: Record<string, number>;
-  targets: Record<string, number>;
-};
-
-function analyzeGolden(imageW: number, imageH: number, lms: LM[]): GoldenOut {
-  const top = project(10, imageW, imageH, lms);
-  const bottom = project(152, imageW, imageH, lms);
-  const left = project(234, imageW, imageH, lms);
-  const right = project(454, imageW, imageH, lms);
-  const eyeL = project(133, imageW, imageH, lms);
-  const eyeR = project(362, imageW, imageH, lms);
-  const mouthL = project(61, imageW, imageH, lms);
-  const mouthR = project(291, imageW, imageH, lms);
-  const nose = project(1, imageW, imageH, lms);
-  const chin = project(152, imageW, imageH, lms);
-  const lipU = project(13, imageW, imageH, lms);
-  const lipD = project(14, imageW, imageH, lms);
-
-  const faceLength = euclid(top, bottom);
-  const faceWidth = euclid(left, right);
-  const eyeDist = euclid(eyeL, eyeR);
-  const mouthWidth = euclid(mouthL, mouthR);
-  const noseToChin = euclid(nose, chin);
-  const lipHeight = euclid(lipU, lipD);
-
-  const ratios: Record<string, number> = {
-    "Rapport Longueur/ Largeur du visage": faceWidth > 0 ? faceLength / faceWidth : 0,
-    "Distance inter-oculaire / Largeur bouche": mouthWidth > 0 ? eyeDist / mouthWidth : 0,
-    "Distance inter-oculaire / Largeur visage": faceWidth > 0 ? eyeDist / faceWidth : 0,
-    "Nez→Menton / Longueur visage": faceLength > 0 ? noseToChin / faceLength : 0,
-    "Hauteur lèvres / Largeur bouche": mouthWidth > 0 ? lipHeight / mouthWidth : 0,
-  };
-
-  const targets: Record<string, number> = {
-    "Rapport Longueur/ Largeur du visage": 1.618,
-    "Distance inter-oculaire / Largeur bouche": 1.618,
-    "Distance inter-oculaire / Largeur visage": 0.32,
-    "Nez→Menton / Longueur visage": 0.618,
-    "Hauteur lèvres / Largeur bouche": 0.2,
-  };
-
-  const relErrors = Object.keys(ratios).map((k) => {
-    const ideal = targets[k];
-    const val = ratios[k];
-    return ideal > 0 ? Math.abs(val - ideal) / ideal : 1;
-  });
-
-  const avgDev = relErrors.reduce((a, b) => a + b, 0) / relErrors.length;
-  const score = Math.round(100 * Math.exp(-5 * avgDev) * 100) / 100;
-
-  const values: Record<string, number | Record<string, number>> = {
-    "Longueur du visage": round2(faceLength),
-    "Largeur du visage": round2(faceWidth),
-    "Distance inter-oculaire": round2(eyeDist),
-    "Largeur de la bouche": round2(mouthWidth),
-    "Nez→Menton": round2(noseToChin),
-    "Hauteur des lèvres": round2(lipHeight),
-    "Score Nombre d’Or": score,
-    "Ratios évalués": Object.fromEntries(Object.entries(ratios).map(([k, v]) => [k, round3(v)])),
-  };
-
-  return { score, values, faceWidth, eyeDist, eyeL, eyeR, ratios, targets };
-}
-
-function computeOverall(symmetry: number, golden: number, faceWidth: number, eyeDist: number) {
-  let base = 0.4 * symmetry + 0.4 * golden;
-  let eyeScore = 75;
-  let eyeSpacingRatio = 0;
-
-  if (faceWidth > 0) {
-    eyeSpacingRatio = eyeDist / faceWidth;
-    const es = METHODOLOGY.eyeSpacing;
-    if (eyeSpacingRatio > es.idealMin && eyeSpacingRatio < es.idealMax) eyeScore = 100;
-    else if (eyeSpacingRatio <= es.low || eyeSpacingRatio >= es.high) eyeScore = 60;
-    else eyeScore = 80;
-  }
-  base += 0.2 * eyeScore;
-
-  const harmony = clamp(base, 20, 100);
-  const weighted = METHODOLOGY.weights.symmetry * symmetry + METHODOLOGY.weights.golden * golden + METHODOLOGY.weights.harmony * harmony;
-  const raw = weighted / 100;
-  const scaled = Math.pow(raw, 1.8);
-  const overall = clamp(4 + scaled * 9, 1, 10);
-
-  const asymFactor = Math.abs(50 - symmetry) / 50;
-  const goldenDev = Math.abs(60 - golden) / 60;
-  const harmVar = Math.abs(70 - harmony) / 70;
-  const uniqRaw = 0.4 * asymFactor + 0.3 * goldenDev + 0.3 * harmVar;
-  const uniqueness = clamp(5 + 4 * uniqRaw, 1, 10);
-
-  const fb = buildFeedback(symmetry, golden, eyeSpacingRatio);
-  return { harmony: round2(harmony), overall: round1(overall), uniqueness: round1(uniqueness), feedback: fb };
-}
-
-function buildFeedback(symmetry: number, golden: number, eyeSpacingRatio: number) {
-  const lines: string[] = [];
-  if (symmetry > 90) lines.push("Symétrie faciale très élevée — indicateur de régularité morphologique.");
-  else if (symmetry > 75) lines.push("Symétrie globalement bonne avec de légères asymétries naturelles.");
-  else lines.push("Asymétries plus marquées — fréquentes et non pathologiques.");
-
-  if (golden > 90) lines.push("Proportions très proches du nombre d’or.");
-  else if (golden > 75) lines.push("Légères déviations par rapport au nombre d’or, sans conséquence esthétique directe.");
-  else lines.push("Proportions éloignées du nombre d’or — rappel : la beauté ne se réduit pas à un ratio.");
-
-  if (eyeSpacingRatio > 0) {
-    const es = METHODOLOGY.eyeSpacing;
-    if (eyeSpacingRatio > es.idealMin && eyeSpacingRatio < es.idealMax) lines.push("Espacement inter-oculaire dans une plage considérée harmonieuse.");
-    else if (eyeSpacingRatio <= es.low) lines.push("Espacement inter-oculaire relativement réduit (aspect plus concentré).");
-    else if (eyeSpacingRatio >= es.high) lines.push("Espacement inter-oculaire relativement large (impression plus ouverte).");
-  }
-
-  lines.push("Remarque : ces indicateurs sont descriptifs. La perception esthétique reste multidimensionnelle.");
-  return lines.join("\n");
-}
-
-function getImageData(el: HTMLImageElement) {
-  const c = document.createElement("canvas");
-  c.width = el.naturalWidth; c.height = el.naturalHeight;
-  const g = c.getContext("2d")!;
-  g.drawImage(el, 0, 0);
-  return g.getImageData(0, 0, c.width, c.height);
-}
-function qualityChecks(img: HTMLImageElement) {
-  const gray = getImageData(img);
-  const { data, width, height } = gray;
-
-  let sum = 0, sum2 = 0, n = 0;
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const i = (y * width + x) * 4;
-      const dx = data[i + 0] - data[i - 4];
-      const dy = data[i + 0] - data[i - width * 4];
-      const g = Math.abs(dx) + Math.abs(dy);
-      sum += g; sum2 += g * g; n++;
-    }
-  }
-  const mean = sum / n;
-  const variance = sum2 / n - mean * mean;
-
-  let lumSum = 0;
-  for (let i = 0; i < data.length; i += 4) lumSum += data[i];
-  const luminance = lumSum / (data.length / 4);
-
-  return {
-    blurOK: variance > METHODOLOGY.quality.blurVarMin,
-    exposureOK: luminance > METHODOLOGY.quality.luminanceMin && luminance < METHODOLOGY.quality.luminanceMax,
-    variance,
-    luminance,
-  };
-}
-
-function alignAndCrop(img: HTMLImageElement, eyeL: [number, number], eyeR: [number, number]) {
-  const angle = Math.atan2(eyeR[1] - eyeL[1], eyeR[0] - eyeL[0]);
-  const w = img.naturalWidth, h = img.naturalHeight;
-
-  const tmp = document.createElement("canvas");
-  tmp.width = w; tmp.height = h;
-  const tctx = tmp.getContext("2d")!;
-  tctx.translate(w / 2, h / 2);
-  tctx.rotate(-angle);
-  tctx.drawImage(img, -w / 2, -h / 2);
-
-  const cx = (eyeL[0] + eyeR[0]) / 2;
-  const cy = (eyeL[1] + eyeR[1]) / 2;
-  const d = Math.hypot(eyeR[0] - eyeL[0], eyeR[1] - eyeL[1]);
-  const size = d * 5.0;
-  const x = clamp(cx - size / 2, 0, w - size);
-  const y = clamp(cy - size * 0.6, 0, h - size * 1.1);
-  const bw = Math.min(w - x, size);
-  const bh = Math.min(h - y, size * 1.1);
-
-  const canvas = document.createElement("canvas");
-  canvas.width = 800;
-  canvas.height = Math.round(800 * (bh / bw));
-  const ctx = canvas.getContext("2d")!;
-  ctx.drawImage(tmp, x, y, bw, bh, 0, 0, canvas.width, canvas.height);
-  return canvas;
-}
-
-async function estimateStableLandmarks(
-  detector: faceLandmarksDetection.FaceLandmarksDetector,
-  video: HTMLVideoElement,
-  frames = 7
-) {
-  const all: Array<Array<{ x: number; y: number }>> = [];
-  for (let i = 0; i < frames; i++) {
-    const preds = await detector.estimateFaces(video, { flipHorizontal: false });
-    if (preds?.[0]) {
-      const kps = preds[0].keypoints.map((k) => ({
-        x: k.x / video.videoWidth,
-        y: k.y / video.videoHeight,
-      }));
-      all.push(kps);
-    }
-    await new Promise((r) => setTimeout(r, 100));
-  }
-  if (!all.length) return null;
-  const nPts = all[0].length;
-  const median: LM[] = [];
-  for (let p = 0; p < nPts; p++) {
-    const xs = all.map((a) => a[p].x).sort((a, b) => a - b);
-    const ys = all.map((a) => a[p].y).sort((a, b) => a - b);
-    const mid = Math.floor(xs.length / 2);
-    median.push({ x: xs[mid], y: ys[mid] });
-  }
-  return median;
-}
-
-function jitterLandmarks(lms: LM[], sigma: number) {
-  const rnd = () => (Math.random() * 2 - 1) * sigma;
-  return lms.map((p) => ({ x: clamp(p.x + rnd(), 0, 1), y: clamp(p.y + rnd(), 0, 1), z: p.z }));
-}
-function withUncertainty<T>(calcOnce: () => T & { scalar: number }, repeats: number) {
-  const vals: number[] = [];
-  for (let i = 0; i < repeats; i++) {
-    vals.push(calcOnce().scalar);
-  }
-  const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
-  const sd = Math.sqrt(vals.reduce((a, b) => a + (b - mean) * (b - mean), 0) / vals.length);
-  return { mean, sd, ci95: 1.96 * sd };
-}
+import { AnalysisProgress } from "./components/AnalysisProgress";
+import { BatchPanel } from "./components/BatchPanel";
+import { CohortPanel } from "./components/CohortPanel";
+import { Button } from "./components/Button";
+import { Card, CardBody } from "./components/Card";
+import { ComparePanel } from "./components/ComparePanel";
+import { DiagnosticsPanel } from "./components/DiagnosticsPanel";
+import { ExportBar } from "./components/ExportBar";
+import { FaceOverlay } from "./components/FaceOverlay";
+import { FaceReport } from "./components/FaceReport";
+import { FaceSummary } from "./components/FaceSummary";
+import { HistoryPanel } from "./components/HistoryPanel";
+import { MethodologyPanel } from "./components/MethodologyPanel";
+import { OfflineStatus } from "./components/OfflineStatus";
+import { Metric } from "./components/Metric";
+import { Progress } from "./components/Progress";
+import { VideoTimeline } from "./components/VideoTimeline";
+import { errorMessage } from "./engine";
+import { useAnalysis } from "./hooks/useAnalysis";
+import { useCohorts } from "./hooks/useCohorts";
+import { useHistory } from "./hooks/useHistory";
+import { useI18n } from "./hooks/useI18n";
+import { useLiveAnalysis } from "./hooks/useLiveAnalysis";
+import { useMethodologies } from "./hooks/useMethodologies";
+import { useVideoAnalysis } from "./hooks/useVideoAnalysis";
+import { rescoreFace, withPopulation, type FaceResult } from "./utils/detection";
+import { ingestImage, type IngestedImage } from "./utils/ingest";
+import { VIDEO_SAMPLING, isVideoFile, type VideoResult } from "./utils/video";
+import { LOCALES, isLocale, type Locale } from "./i18n";
 
 export default function App() {
-  const [model, setModel] = useState<faceLandmarksDetection.FaceLandmarksDetector | null>(null);
+  const i18n = useI18n();
+  const { t, m } = i18n;
+  const analysis = useAnalysis();
   const [imageURL, setImageURL] = useState<string | null>(null);
   const [fileName, setFileName] = useState<string>("");
-  const [processing, setProcessing] = useState(false);
+  const [source, setSource] = useState<IngestedImage | null>(null);
+
+  const [multiFace, setMultiFace] = useState(false);
+  const [faces, setFaces] = useState<FaceResult[]>([]);
+  const [selectedFace, setSelectedFace] = useState<number>(1);
+  const [faceView, setFaceView] = useState<"single" | "side-by-side">("single");
+  const [imageSize, setImageSize] = useState<{ w: number; h: number } | null>(null);
 
-  const [scores, setScores] = useState<{ symmetry?: number; golden?: number; harmony?: number; overall?: number; uniqueness?: number }>({});
-  const [ci, setCi] = useState<{ symmetry?: number; golden?: number; harmony?: number; overall?: number; uniqueness?: number }>({});
-  const [feedback, setFeedback] = useState<string>("");
-  const [measures, setMeasures] = useState<Record<string, number | Record<string, number>>>({});
-  const [ratios, setRatios] = useState<Record<string, number>>({});
-  const [targets, setTargets] = useState<Record<string, number>>({});
-  const [quality, setQuality] = useState<{ blurOK: boolean; exposureOK: boolean; variance: number; luminance: number } | null>(null);
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [videoRate, setVideoRate] = useState(VIDEO_SAMPLING.defaultRate);
 
   const inputRef = useRef<HTMLInputElement | null>(null);
   const imgRef = useRef<HTMLImageElement | null>(null);
-  const canvasLeftRef = useRef<HTMLCanvasElement | null>(null);
-  const canvasRightRef = useRef<HTMLCanvasElement | null>(null);
-  const canvasFullLeftRef = useRef<HTMLCanvasElement | null>(null);
-  const canvasFullRightRef = useRef<HTMLCanvasElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
-
+  const liveOverlayRef = useRef<HTMLCanvasElement | null>(null);
+  const methodologies = useMethodologies();
+  const methodology = methodologies.active;
+  const liveAnalysis = useLiveAnalysis(analysis.ready ? analysis.detectLandmarks : null, videoRef, liveOverlayRef, methodology);
+  const history = useHistory();
+  const cohorts = useCohorts();
+  const population = cohorts.model;
+  const videoAnalysis = useVideoAnalysis(analysis.ready ? analysis.analyze : null, methodology);
+
+  // Une vidéo analysée remplace les visages de l’image par son visage agrégé.
+  const activeFaces = useMemo(() => (videoAnalysis.result ? (videoAnalysis.face ? [videoAnalysis.face] : []) : faces), [videoAnalysis.result, videoAnalysis.face, faces]);
+  // Rapports affichés, exportés et archivés : situés dans la cohorte retenue.
+  const shownFaces = useMemo(() => activeFaces.map((f) => withPopulation(f, population)), [activeFaces, population]);
+  const currentFace = shownFaces.find((f) => f.id === selectedFace);
+
+  // Coupe la caméra au démontage.
   useEffect(() => {
-    (async () => {
-      await tf.setBackend("webgl");
-      await tf.ready();
-      const detector = await faceLandmarksDetection.createDetector(
-        faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh,
-        { runtime: "tfjs", refineLandmarks: true }
-      );
-      try { await detector.estimateFaces(document.createElement("canvas"), { flipHorizontal: false }); } catch {}
-      setModel(detector);
-    })();
+    const video = videoRef.current;
     return () => {
-      if (videoRef.current && videoRef.current.srcObject) {
-        (videoRef.current.srcObject as MediaStream).getTracks().forEach((t) => t.stop());
-      }
+      if (video?.srcObject) (video.srcObject as MediaStream).getTracks().forEach((t) => t.stop());
     };
   }, []);
 
-  const onSelectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // L’URL blob d’une image importée est libérée dès qu’une autre image la remplace, et au démontage.
+  useEffect(() => () => {
+    if (imageURL?.startsWith("blob:")) URL.revokeObjectURL(imageURL);
+  }, [imageURL]);
+
+  // L’image affichée et analysée est la version importée : orientée, réduite et sans métadonnées.
+  const onSelectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0];
     if (!f) return;
-    setFileName(f.name);
-    setImageURL(URL.createObjectURL(f));
+    try {
+      const ingested = await ingestImage(f);
+      setFileName(f.name);
+      setSource(ingested);
+      setImageURL(ingested.url);
+      analysis.cancel();
+      videoAnalysis.clear();
+      setFaces([]);
+    } catch (err) {
+      alert(m(errorMessage(err)));
+    }
   };
 
   const startCamera = async () => {
@@ -369,7 +102,7 @@ export default function App() {
         await videoRef.current.play();
       }
     } catch {
-      alert("Impossible d'accéder à la caméra. Veuillez autoriser l'accès ou téléverser une image.");
+      alert(t("app.camera.denied"));
     }
   };
 
@@ -384,160 +117,132 @@ export default function App() {
     if (!ctx) return;
     ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
     setFileName("capture.jpg");
+    setSource(null);
     setImageURL(canvas.toDataURL("image/jpeg"));
+    analysis.cancel();
+    videoAnalysis.clear();
+    setFaces([]);
   };
 
+  // Un changement de profil recalcule les rapports existants à partir des mêmes landmarks.
+  const selectMethodology = (id: string) => {
+    methodologies.setActiveId(id);
+    const next = methodologies.all.find((p) => p.id === id);
+    if (next) {
+      setFaces((fs) => fs.map((f) => rescoreFace(f, next)));
+      videoAnalysis.rescore(next);
+    }
+  };
+
+  const freezeLive = async () => {
+    const snap = liveAnalysis.freeze();
+    if (!snap) { alert(t("app.live.unstable")); return; }
+    const { frame, landmarks } = snap;
+    setFileName("capture-temps-reel.jpg");
+    setSource(null);
+    setImageURL(frame.toDataURL("image/jpeg"));
+    setImageSize({ w: frame.width, h: frame.height });
+    analysis.cancel();
+    videoAnalysis.clear();
+    setFaces([]);
+    try {
+      const face = await analysis.scoreFrame(frame, landmarks, methodology);
+      setFaces([face]);
+      void history.record([face], "capture-temps-reel.jpg");
+      setSelectedFace(1);
+      setFaceView("single");
+    } catch (e) {
+      alert(m(errorMessage(e)));
+    }
+  };
+
+  // Une analyse annulée ou remplacée par une plus récente renvoie null et ne modifie rien.
   const analyze = async () => {
-    if (!model) { alert("Modèle non prêt."); return; }
-    if (!imgRef.current) { alert("Aucune image chargée."); return; }
+    if (!analysis.ready) { alert(t("app.modelNotReady")); return; }
+    if (!imgRef.current) { alert(t("app.noImage")); return; }
 
-    setProcessing(true);
+    videoAnalysis.clear();
     try {
       const img = imgRef.current;
-
-      const qc = qualityChecks(img);
-      setQuality(qc);
-      if (!qc.blurOK || !qc.exposureOK) {
-        alert("Image trop floue ou mal exposée. Essayez une photo plus nette/éclairée.");
+      const outcome = await analysis.run(img, multiFace, methodology);
+      if (!outcome) return;
+      const results = outcome.faces;
+      setFaces(results);
+      void history.record(results, fileName);
+      setImageSize({ w: img.naturalWidth, h: img.naturalHeight });
+      const firstScored = results.find((f) => f.report);
+      setSelectedFace(firstScored?.id ?? results[0].id);
+      if (!multiFace && !firstScored) {
+        const f = results[0];
+        alert((f.error ? [f.error] : f.flags).map(m).join("\n"));
       }
+    } catch (e) {
+      alert(m(errorMessage(e)));
+    }
+  };
 
-      const firstPreds = await model.estimateFaces(img, { flipHorizontal: false });
-      if (!firstPreds || firstPreds.length === 0) throw new Error("Aucun visage détecté. Fournissez une vue de face nette et centrée.");
-      const kps0 = firstPreds[0].keypoints;
-      const eyeL0: [number, number] = [kps0[133].x, kps0[133].y];
-      const eyeR0: [number, number] = [kps0[362].x, kps0[362].y];
-
-      const alignedCanvas = alignAndCrop(img, eyeL0, eyeR0);
-
-      const secondPreds = await model.estimateFaces(alignedCanvas, { flipHorizontal: false });
-      if (!secondPreds || secondPreds.length === 0) throw new Error("Le visage n’a pas pu être confirmé après alignement.");
-      const useW = alignedCanvas.width;
-      const useH = alignedCanvas.height;
-      const baseLm: LM[] = secondPreds[0].keypoints.map((k: any) => ({ x: k.x / useW, y: k.y / useH }));
-
-      const symmetryBase = calcSymmetryScore(baseLm);
-      const gBase = analyzeGolden(useW, useH, baseLm);
-      const overallBase = computeOverall(symmetryBase, gBase.score, gBase.faceWidth, gBase.eyeDist);
-
-      const rep = METHODOLOGY.uncertainty.repeats;
-      const sigma = METHODOLOGY.uncertainty.jitterSigma;
-
-      const symCI = withUncertainty(() => {
-        const lm = jitterLandmarks(baseLm, sigma);
-        return { scalar: calcSymmetryScore(lm) };
-      }, rep);
-
-      const goldCI = withUncertainty(() => {
-        const lm = jitterLandmarks(baseLm, sigma);
-        return { scalar: analyzeGolden(useW, useH, lm).score };
-      }, rep);
-
-      const harmCI = withUncertainty(() => {
-        const lm = jitterLandmarks(baseLm, sigma);
-        const g = analyzeGolden(useW, useH, lm);
-        const s = calcSymmetryScore(lm);
-        return { scalar: computeOverall(s, g.score, g.faceWidth, g.eyeDist).harmony };
-      }, rep);
-
-      const overallCI = withUncertainty(() => {
-        const lm = jitterLandmarks(baseLm, sigma);
-        const g = analyzeGolden(useW, useH, lm);
-        const s = calcSymmetryScore(lm);
-        return { scalar: computeOverall(s, g.score, g.faceWidth, g.eyeDist).overall };
-      }, rep);
-
-      const uniqCI = withUncertainty(() => {
-        const lm = jitterLandmarks(baseLm, sigma);
-        const g = analyzeGolden(useW, useH, lm);
-        const s = calcSymmetryScore(lm);
-        return { scalar: computeOverall(s, g.score, g.faceWidth, g.eyeDist).uniqueness };
-      }, rep);
-
-      setScores({
-        symmetry: round2(symmetryBase),
-        golden: round2(gBase.score),
-        harmony: overallBase.harmony,
-        overall: overallBase.overall,
-        uniqueness: overallBase.uniqueness,
-      });
-      setCi({
-        symmetry: round2(symCI.ci95),
-        golden: round2(goldCI.ci95),
-        harmony: round2(harmCI.ci95),
-        overall: round2(overallCI.ci95),
-        uniqueness: round2(uniqCI.ci95),
-      });
-      setFeedback(overallBase.feedback);
-      setMeasures(gBase.values);
-      setRatios(gBase.ratios);
-      setTargets(gBase.targets);
-
-      renderProfilesFromCanvas(alignedCanvas);
-
-    } catch (e: any) {
-      alert(e?.message || String(e));
-    } finally {
-      setProcessing(false);
+  // La frame choisie devient l’image affichée et exportée, sous le nom de la vidéo.
+  const showVideoFrame = (result: VideoResult, index: number) => {
+    const frame = result.frames[index];
+    if (!frame?.imageURL) return;
+    setFileName(result.name);
+    setSource(null);
+    setImageURL(frame.imageURL);
+    setImageSize({ w: frame.width, h: frame.height });
+    setSelectedFace(1);
+    setFaceView("single");
+  };
+
+  const analyzeVideo = async () => {
+    if (!analysis.ready) { alert(t("app.modelNotReady")); return; }
+    if (!videoFile) return;
+    analysis.cancel();
+    try {
+      const analysed = await videoAnalysis.run(videoFile, videoRate);
+      if (!analysed) return;
+      const { result, face } = analysed;
+      setFaces([]);
+      showVideoFrame(result, result.visual);
+      // Trop peu de frames retenues : rien à archiver, le motif est affiché sous la frise.
+      if (face) void history.record([face], result.name);
+    } catch (e) {
+      alert(m(errorMessage(e)));
     }
   };
 
-  function renderProfilesFromCanvas(source: HTMLCanvasElement) {
-    if (!canvasLeftRef.current || !canvasRightRef.current || !canvasFullLeftRef.current || !canvasFullRightRef.current) return;
-
-    const w = source.width, h = source.height;
-    const cx = Math.floor(w / 2);
-
-    const leftCtx = canvasLeftRef.current.getContext("2d");
-    const rightCtx = canvasRightRef.current.getContext("2d");
-    const fullLCtx = canvasFullLeftRef.current.getContext("2d");
-    const fullRCtx = canvasFullRightRef.current.getContext("2d");
-    if (!leftCtx || !rightCtx || !fullLCtx || !fullRCtx) return;
-
-    [canvasLeftRef.current, canvasRightRef.current, canvasFullLeftRef.current, canvasFullRightRef.current].forEach((c) => {
-      c.width = cx;
-      c.height = h;
-    });
-
-    leftCtx.clearRect(0, 0, cx, h);
-    rightCtx.clearRect(0, 0, cx, h);
-    leftCtx.drawImage(source, 0, 0, cx, h, 0, 0, cx, h);
-    rightCtx.drawImage(source, cx, 0, cx, h, 0, 0, cx, h);
-
-    fullLCtx.clearRect(0, 0, cx, h);
-    fullLCtx.drawImage(source, 0, 0, cx, h, 0, 0, cx, h);
-    fullLCtx.save();
-    fullLCtx.translate(cx, 0);
-    fullLCtx.scale(-1, 1);
-    fullLCtx.drawImage(source, 0, 0, cx, h, 0, 0, cx, h);
-    fullLCtx.restore();
-
-    fullRCtx.clearRect(0, 0, cx, h);
-    fullRCtx.save();
-    fullRCtx.scale(-1, 1);
-    fullRCtx.drawImage(source, cx, 0, cx, h, -cx, 0, cx, h);
-    fullRCtx.restore();
-    fullRCtx.drawImage(source, cx, 0, cx, h, 0, 0, cx, h);
-  }
+  const selectVideoFrame = (index: number) => {
+    if (!videoAnalysis.result) return;
+    videoAnalysis.selectFrame(index);
+    showVideoFrame(videoAnalysis.result, index);
+  };
 
   return (
     <div className="app-bg min-h-screen text-neutral-900">
       <div className="mx-auto max-w-6xl px-5 md:px-8 py-10 md:py-14">
         <header className="mb-10 md:mb-14">
-          <div className="mb-2 text-[12px] uppercase tracking-[0.18em] text-neutral-600">Analyse faciale</div>
-          <h1 className="text-4xl md:text-5xl font-semibold tracking-tight leading-tight">Rapport personnalisé d’harmonie faciale</h1>
-          <p className="mt-4 max-w-3xl text-[15px] leading-7 text-neutral-700">
-            L’analyse repose sur des mesures géométriques de landmarks faciaux détectés localement dans votre navigateur.
-            Les résultats sont descriptifs, comparés à des cibles, et assortis d’une incertitude statistique.
-          </p>
+          <div className="mb-2 flex items-center justify-between gap-4">
+            <div className="text-[12px] uppercase tracking-[0.18em] text-neutral-600">{t("app.kicker")}</div>
+            <OfflineStatus modelReady={analysis.ready} />
+            <label className="inline-flex items-center gap-2 text-xs text-neutral-600">
+              {t("app.language")}
+              <select
+                value={i18n.locale}
+                onChange={(e) => { if (isLocale(e.target.value)) i18n.setLocale(e.target.value); }}
+                className="rounded-lg border border-neutral-300 bg-white px-2 py-1 text-xs text-neutral-900"
+              >
+                {(Object.keys(LOCALES) as Locale[]).map((l) => <option key={l} value={l}>{LOCALES[l].label}</option>)}
+              </select>
+            </label>
+          </div>
+          <h1 className="text-4xl md:text-5xl font-semibold tracking-tight leading-tight">{t("app.title")}</h1>
+          <p className="mt-4 max-w-3xl text-[15px] leading-7 text-neutral-700">{t("app.intro")}</p>
         </header>
 
         <section className="grid gap-6 md:grid-cols-2">
           <Card>
             <CardBody>
-              <h2 className="text-lg font-medium">Import de l’image</h2>
-              <p className="mt-2 text-sm text-neutral-700">
-                Téléversez une photo de face, nette, correctement exposée, visage centré, expression neutre.
-              </p>
+              <h2 className="text-lg font-medium">{t("app.import.title")}</h2>
+              <p className="mt-2 text-sm text-neutral-700">{t("app.import.hint")}</p>
 
               <div className="mt-5">
                 <div className="file-field">
@@ -550,196 +255,368 @@ export default function App() {
                     className="file-input"
                   />
                   <label htmlFor="file-input" className="file-label">
-                    <span>Choisir un fichier</span>
-                    <span className="file-name">{fileName || "Aucun fichier"}</span>
+                    <span>{t("app.import.choose")}</span>
+                    <span className="file-name">{fileName || t("app.import.none")}</span>
                   </label>
                 </div>
               </div>
 
               <div className="mt-8 border-t border-neutral-200 pt-6">
-                <h3 className="text-sm font-medium">Ou utiliser la caméra</h3>
+                <h3 className="text-sm font-medium">{t("app.camera.title")}</h3>
                 <div className="mt-3 flex flex-wrap items-center gap-3">
-                  <Button onClick={startCamera}>Activer la caméra</Button>
+                  <Button onClick={startCamera}>{t("app.camera.start")}</Button>
                   <Button variant="outline" onClick={takeSnapshot}>
-                    Capturer
+                    {t("app.camera.snapshot")}
+                  </Button>
+                  <Button
+                    variant={liveAnalysis.active ? "primary" : "outline"}
+                    disabled={!analysis.ready}
+                    onClick={() => liveAnalysis.setActive(!liveAnalysis.active)}
+                  >
+                    {liveAnalysis.active ? t("app.camera.stopLive") : t("app.camera.live")}
                   </Button>
+                  {liveAnalysis.active && (
+                    <Button variant="secondary" onClick={freezeLive}>
+                      {t("app.camera.freeze")}
+                    </Button>
+                  )}
                 </div>
-                <video ref={videoRef} className="mt-4 w-full rounded-xl border border-neutral-200" autoPlay muted playsInline />
+                <div className="relative mt-4">
+                  <video ref={videoRef} className="block w-full rounded-xl border border-neutral-200" autoPlay muted playsInline />
+                  <canvas ref={liveOverlayRef} className="pointer-events-none absolute inset-0 h-full w-full" />
+                </div>
+                {liveAnalysis.active && (
+                  <div className="mt-4 grid gap-3">
+                    {liveAnalysis.live ? (
+                      <>
+                        <Metric label={t("app.live.symmetry")} value={liveAnalysis.live.scores.symmetry} max={100} />
+                        <Metric label={t("app.live.golden")} value={liveAnalysis.live.scores.golden} max={100} />
+                        <Metric label={t("app.live.harmony")} value={liveAnalysis.live.scores.harmony} max={100} />
+                        <p className="text-xs text-neutral-500">
+                          {t("app.live.status", { frames: liveAnalysis.live.frames, fps: i18n.num(liveAnalysis.live.fps, 1) })}
+                        </p>
+                      </>
+                    ) : (
+                      <p className="text-sm text-neutral-600">{t("app.live.searching")}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+
+              <div className="mt-8 border-t border-neutral-200 pt-6">
+                <h3 className="text-sm font-medium">{t("app.video.title")}</h3>
+                <p className="mt-2 text-sm text-neutral-700">{t("app.video.hint")}</p>
+                <div className="file-field mt-3">
+                  <input
+                    id="video-input"
+                    type="file"
+                    accept="video/*"
+                    onChange={(e) => {
+                      const f = e.target.files?.[0];
+                      if (f && isVideoFile(f)) setVideoFile(f);
+                    }}
+                    className="file-input"
+                  />
+                  <label htmlFor="video-input" className="file-label">
+                    <span>{t("app.video.choose")}</span>
+                    <span className="file-name">{videoFile?.name || t("app.video.none")}</span>
+                  </label>
+                </div>
+                <div className="mt-3 flex flex-wrap items-end gap-3">
+                  <label className="grid gap-1 text-sm text-neutral-700">
+                    {t("app.video.rate")}
+                    <select
+                      value={videoRate}
+                      onChange={(e) => setVideoRate(Number(e.target.value))}
+                      className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900"
+                    >
+                      {VIDEO_SAMPLING.rates.map((r) => <option key={r} value={r}>{t("app.video.rateOption", { rate: r })}</option>)}
+                    </select>
+                  </label>
+                  <Button disabled={!videoFile || !analysis.ready || videoAnalysis.running} onClick={analyzeVideo}>{t("app.video.analyze")}</Button>
+                </div>
+                {videoAnalysis.progress && (
+                  <div className="mt-4 rounded-xl border border-neutral-200 bg-white/70 p-4 text-sm" role="status" aria-live="polite">
+                    <div className="flex items-center justify-between gap-3">
+                      <span className="text-neutral-700">
+                        {videoAnalysis.progress.total ? t("app.video.progress", { done: videoAnalysis.progress.done, total: videoAnalysis.progress.total }) : t("app.analyzing")}
+                      </span>
+                      <Button size="sm" variant="outline" onClick={videoAnalysis.cancel}>{t("app.cancel")}</Button>
+                    </div>
+                    <Progress value={videoAnalysis.progress.total ? (videoAnalysis.progress.done / videoAnalysis.progress.total) * 100 : 2} className="mt-3" />
+                  </div>
+                )}
               </div>
             </CardBody>
           </Card>
 
           <Card>
             <CardBody>
-              <h2 className="text-lg font-medium">Aperçu</h2>
+              <h2 className="text-lg font-medium">{t("app.preview.title")}</h2>
               <div className="mt-4 rounded-xl border border-neutral-200 p-3 bg-white">
                 {imageURL ? (
-                  <img ref={imgRef} src={imageURL} alt="aperçu" className="mx-auto max-h-[460px] object-contain" />
+                  <div className="relative mx-auto w-fit">
+                    <img ref={imgRef} src={imageURL} alt={t("app.preview.alt")} className="block max-h-[460px] object-contain" />
+                    {imageSize && activeFaces.length > 0 && (
+                      <FaceOverlay
+                        width={imageSize.w}
+                        height={imageSize.h}
+                        faces={activeFaces}
+                        selected={faceView === "single" ? selectedFace : undefined}
+                        onSelect={(id) => { setSelectedFace(id); setFaceView("single"); }}
+                      />
+                    )}
+                  </div>
                 ) : (
-                  <div className="h-48 grid place-items-center text-sm text-neutral-600">Aucune image sélectionnée.</div>
+                  <div className="h-48 grid place-items-center text-sm text-neutral-600">{t("app.preview.empty")}</div>
                 )}
               </div>
 
-              {quality && (
-                <div className="mt-4 grid gap-2 text-sm">
-                  <div className={`inline-flex items-center gap-2 ${quality.blurOK ? "text-emerald-700" : "text-red-700"}`}>
-                    Netteté : {quality.blurOK ? "OK" : "Insuffisante"} <span className="text-neutral-500">(variance ≈ {Math.round(quality.variance)})</span>
-                  </div>
-                  <div className={`inline-flex items-center gap-2 ${quality.exposureOK ? "text-emerald-700" : "text-red-700"}`}>
-                    Exposition : {quality.exposureOK ? "OK" : "À corriger"} <span className="text-neutral-500">(luminance ≈ {Math.round(quality.luminance)})</span>
+              <label className="mt-6 flex items-center gap-2 text-sm text-neutral-700">
+                <input type="checkbox" checked={multiFace} onChange={(e) => setMultiFace(e.target.checked)} />
+                {t("app.multiFace")}
+              </label>
+
+              <div className="mt-4">
+                <Button size="lg" disabled={!imageURL || !analysis.ready} onClick={analyze}>
+                  {t("app.analyze")}
+                </Button>
+              </div>
+              {analysis.running && <AnalysisProgress progress={analysis.progress} onCancel={analysis.cancel} />}
+              {analysis.status === "loading" && <p className="mt-3 text-sm text-neutral-600">{t("app.model.loading")}</p>}
+              {analysis.error && (
+                <div role="alert" className="mt-4 rounded-xl border border-red-200 bg-red-50 p-4 text-sm text-red-800">
+                  <p>{m(analysis.error)}</p>
+                  <div className="mt-3">
+                    <Button size="sm" variant="outline" onClick={analysis.retry}>{t("app.model.retry")}</Button>
                   </div>
                 </div>
               )}
+            </CardBody>
+          </Card>
+        </section>
 
-              <div className="mt-6">
-                <Button size="lg" disabled={!imageURL || !model || processing} onClick={analyze}>
-                  {processing ? "Analyse en cours…" : "Lancer l’analyse"}
-                </Button>
-              </div>
+        <section className="mt-10 md:mt-14">
+          <Card>
+            <CardBody>
+              <details>
+                <summary className="cursor-pointer text-lg font-medium">
+                  {t("app.methodology.title")} <span className="text-sm font-normal text-neutral-600">— {i18n.methodologyName(methodology)} v{methodology.version}</span>
+                </summary>
+                <div className="mt-5">
+                  <MethodologyPanel
+                    all={methodologies.all}
+                    active={methodology}
+                    onSelect={selectMethodology}
+                    onSave={(saved) => {
+                      // Le profil enregistré devient le profil actif.
+                      const errors = methodologies.saveCustom(saved);
+                      if (!errors.length) {
+                        setFaces((fs) => fs.map((f) => rescoreFace(f, saved)));
+                        videoAnalysis.rescore(saved);
+                      }
+                      return errors;
+                    }}
+                    onRemove={methodologies.removeCustom}
+                    onImport={(text) => {
+                      const result = methodologies.importJSON(text);
+                      const imported = result.methodology;
+                      if (imported) {
+                        setFaces((fs) => fs.map((f) => rescoreFace(f, imported)));
+                        videoAnalysis.rescore(imported);
+                      }
+                      return result;
+                    }}
+                  />
+                </div>
+              </details>
             </CardBody>
           </Card>
         </section>
 
-        {scores.symmetry !== undefined && (
-          <>
-            <section className="mt-10 md:mt-14 grid gap-6 md:grid-cols-2">
-              <Card>
-                <CardBody>
-                  <h2 className="text-lg font-medium">Résultats quantitatifs</h2>
-                  <div className="mt-5 grid gap-5">
-                    <Metric label="Score de symétrie" value={scores.symmetry!} ci={ci.symmetry} max={100} />
-                    <Metric label="Concordance au nombre d’or" value={scores.golden!} ci={ci.golden} max={100} />
-                    <Metric label="Score d’harmonie faciale" value={scores.harmony!} ci={ci.harmony} max={100} />
-                    <Metric label="Indice global" value={scores.overall!} ci={ci.overall} max={10} />
-                    <Metric label="Indice d’originalité" value={scores.uniqueness!} ci={ci.uniqueness} max={10} />
-                  </div>
-                </CardBody>
-              </Card>
-
-              <Card>
-                <CardBody>
-                  <h2 className="text-lg font-medium">Analyse et conclusions</h2>
-                  <pre className="mt-4 whitespace-pre-wrap rounded-xl bg-neutral-50 border border-neutral-200 p-4 text-sm leading-6 text-neutral-800">
-                    {feedback}
-                  </pre>
-                  <details className="group mt-5">
-                    <summary className="cursor-pointer text-sm font-medium text-neutral-900">Contexte et limites</summary>
-                    <p className="mt-2 text-sm text-neutral-700">
-                      Indicateurs calculés à partir de landmarks faciaux (MediaPipe FaceMesh) et de ratios géométriques.
-                      Les intervalles ±IC95 proviennent d’un bootstrap par jitter aléatoire sur les points détectés.
-                    </p>
-                  </details>
-                </CardBody>
-              </Card>
-            </section>
-
-            {/* Mesures Faciales détaillées */}
-            <section className="mt-10 md:mt-14">
-              <h2 className="text-lg font-medium">Mesures faciales</h2>
-              <p className="mt-1 text-sm text-neutral-700">Distances exprimées en pixels sur l’image alignée.</p>
-              <div className="mt-4 grid gap-4 md:grid-cols-3">
-                <Measure label="Longueur du visage" value={measures["Longueur du visage"]} unit="px" />
-                <Measure label="Largeur du visage" value={measures["Largeur du visage"]} unit="px" />
-                <Measure label="Distance inter-oculaire" value={measures["Distance inter-oculaire"]} unit="px" />
-                <Measure label="Largeur de la bouche" value={measures["Largeur de la bouche"]} unit="px" />
-                <Measure label="Nez→Menton" value={measures["Nez→Menton"]} unit="px" />
-                <Measure label="Hauteur des lèvres" value={measures["Hauteur des lèvres"]} unit="px" />
-                <Measure label="Score Nombre d’Or" value={measures["Score Nombre d’Or"]} unit="/100" />
-              </div>
-            </section>
-
-            {/* Ratios détaillés avec cibles et erreur relative */}
-            <section className="mt-10 md:mt-14">
-              <h2 className="text-lg font-medium">Ratios évalués</h2>
-              <p className="mt-1 text-sm text-neutral-700">Comparaison aux valeurs cibles et erreur relative.</p>
-              <div className="mt-4 overflow-hidden rounded-xl border border-neutral-200 bg-white">
-                <table className="w-full text-sm">
-                  <thead className="bg-neutral-50 text-neutral-800">
-                    <tr>
-                      <th className="px-4 py-3 text-left font-medium">Ratio</th>
-                      <th className="px-4 py-3 text-right font-medium">Mesuré</th>
-                      <th className="px-4 py-3 text-right font-medium">Cible</th>
-                      <th className="px-4 py-3 text-right font-medium">Erreur relative</th>
-                    </tr>
-                  </thead>
-                  <tbody className="divide-y divide-neutral-100">
-                    {Object.keys(ratios).map((k) => {
-                      const val = ratios[k];
-                      const tgt = targets[k];
-                      const rel = typeof tgt === "number" && tgt > 0 ? Math.abs(val - tgt) / tgt : 1;
-                      return (
-                        <tr key={k} className="hover:bg-neutral-50/60">
-                          <td className="px-4 py-3 text-neutral-800">{k}</td>
-                          <td className="px-4 py-3 text-right tabular-nums">{round3(val)}</td>
-                          <td className="px-4 py-3 text-right tabular-nums">{round3(tgt)}</td>
-                          <td className="px-4 py-3 text-right tabular-nums">{round3(rel * 100)}%</td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
+        <section className="mt-6">
+          <Card>
+            <CardBody>
+              <details>
+                <summary className="cursor-pointer text-lg font-medium">
+                  {t("app.cohort.title")}{" "}
+                  <span className="text-sm font-normal text-neutral-600">
+                    — {cohorts.active ? i18n.cohortName(cohorts.active) : t("app.cohort.none")}
+                    {cohorts.group ? ` · ${cohorts.group}` : ""}
+                  </span>
+                </summary>
+                <div className="mt-5">
+                  <CohortPanel
+                    all={cohorts.all}
+                    active={cohorts.active}
+                    group={cohorts.group}
+                    model={population}
+                    error={cohorts.error}
+                    onSelect={cohorts.select}
+                    onImport={cohorts.importFile}
+                    onRemove={cohorts.remove}
+                  />
+                </div>
+              </details>
+            </CardBody>
+          </Card>
+        </section>
+
+        <section className="mt-6">
+          <Card>
+            <CardBody>
+              <details open={analysis.status === "error" || undefined}>
+                <summary className="cursor-pointer text-lg font-medium">
+                  {t("diagnostics.title")} <span className="text-sm font-normal text-neutral-600">— {analysis.diagnostics.backend ? t(`backend.${analysis.diagnostics.backend}`) : t(`diagnostics.status.${analysis.status}`)}</span>
+                </summary>
+                <div className="mt-5">
+                  <DiagnosticsPanel
+                    status={analysis.status}
+                    choice={analysis.choice}
+                    onChoice={analysis.setChoice}
+                    diagnostics={analysis.diagnostics}
+                    worker={analysis.worker}
+                  />
+                </div>
+              </details>
+            </CardBody>
+          </Card>
+        </section>
+
+        {videoAnalysis.result && (
+          <section className="mt-10 md:mt-14">
+            <Card>
+              <CardBody>
+                <VideoTimeline result={videoAnalysis.result} report={videoAnalysis.face?.report ?? null} error={videoAnalysis.error} onSelect={selectVideoFrame} />
+              </CardBody>
+            </Card>
+          </section>
+        )}
+
+        {activeFaces.length > 1 && (
+          <section className="mt-10 md:mt-14">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-medium">{t("app.faces.count", { count: activeFaces.length })}</h2>
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" variant={faceView === "side-by-side" ? "primary" : "outline"} onClick={() => setFaceView("side-by-side")}>
+                  {t("app.faces.sideBySide")}
+                </Button>
+                {activeFaces.map((f) => (
+                  <Button
+                    key={f.id}
+                    size="sm"
+                    variant={faceView === "single" && selectedFace === f.id ? "primary" : "outline"}
+                    onClick={() => { setSelectedFace(f.id); setFaceView("single"); }}
+                  >
+                    {t("app.face", { id: f.id })}{f.status !== "ok" ? " ⚠" : ""}
+                  </Button>
+                ))}
               </div>
-            </section>
-
-            <section className="mt-10 md:mt-14">
-              <h2 className="text-lg font-medium">Profils symétrisés</h2>
-              <p className="mt-1 text-sm text-neutral-700">Visualisations générées à partir des moitiés gauche et droite (image alignée).</p>
-              <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-4">
-                <CanvasFrame title="Profil gauche" canvasRef={canvasLeftRef} />
-                <CanvasFrame title="Profil droit" canvasRef={canvasRightRef} />
-                <CanvasFrame title="Visage complet (depuis le gauche)" canvasRef={canvasFullLeftRef} />
-                <CanvasFrame title="Visage complet (depuis le droit)" canvasRef={canvasFullRightRef} />
+            </div>
+            {faceView === "side-by-side" && (
+              <div className="mt-4 grid gap-4 md:grid-cols-3">
+                {shownFaces.map((f) => (
+                  <FaceSummary key={f.id} face={f} onOpen={() => { setSelectedFace(f.id); setFaceView("single"); }} />
+                ))}
               </div>
-            </section>
-          </>
+            )}
+          </section>
         )}
 
-        <footer className="mt-16 md:mt-20 border-t border-neutral-200 pt-6 text-xs text-neutral-600">
-          <p>Traitement local dans votre navigateur, aucune image n’est envoyée sur un serveur.</p>
-          <p className="mt-1">Méthodologie v{METHODOLOGY.version} — pondérations : sym {METHODOLOGY.weights.symmetry}, or {METHODOLOGY.weights.golden}, harmonie {METHODOLOGY.weights.harmony}.</p>
-        </footer>
-      </div>
-    </div>
-  );
-}
+        {faceView === "single" && currentFace && !currentFace.report && (
+          <section className="mt-10 md:mt-14">
+            <Card>
+              <CardBody>
+                <h2 className="text-lg font-medium">{t("app.face.notScored", { id: currentFace.id })}</h2>
+                <ul className="mt-3 list-disc pl-5 text-sm text-amber-700">
+                  {currentFace.flags.map((f, i) => <li key={i}>{m(f)}</li>)}
+                  {currentFace.error && <li className="text-red-700">{m(currentFace.error)}</li>}
+                </ul>
+              </CardBody>
+            </Card>
+          </section>
+        )}
 
-function Metric({ label, value, max, ci }: { label: string; value: number; max: number; ci?: number }) {
-  const pct = Math.max(0, Math.min(100, (value / max) * 100));
-  return (
-    <div className="rounded-xl border border-neutral-200 p-4 bg-white/70">
-      <div className="flex items-baseline justify-between">
-        <span className="text-sm text-neutral-700">{label}</span>
-        <span className="text-sm font-semibold">
-          {value}
-          {typeof ci === "number" ? ` ± ${ci}` : ""}{max === 10 ? " / 10" : " / 100"}
-        </span>
-      </div>
-      <Progress value={pct} className="mt-3" />
-    </div>
-  );
-}
+        {faceView === "single" && currentFace?.report && (
+          <FaceReport
+            key={videoAnalysis.result ? `video-${videoAnalysis.result.visual}` : currentFace.id}
+            report={currentFace.report}
+            aligned={currentFace.aligned}
+            landmarks={currentFace.landmarks}
+            detectedLandmarks={currentFace.detectedLandmarks}
+            onLandmarksChange={(lms) =>
+              videoAnalysis.result
+                ? videoAnalysis.rescore(methodology, { landmarks: lms })
+                : setFaces((fs) => fs.map((f) => (f.id === currentFace.id ? rescoreFace(f, methodology, lms) : f)))
+            }
+            onCalibrationChange={(c) =>
+              videoAnalysis.result
+                ? videoAnalysis.rescore(methodology, { calibration: c })
+                : setFaces((fs) => fs.map((f) => (f.id === currentFace.id ? rescoreFace(f, methodology, f.landmarks, c) : f)))
+            }
+          />
+        )}
 
-function Measure({ label, value, unit }: { label: string; value: number | Record<string, number> | undefined; unit?: string }) {
-  const v = typeof value === "number" ? value : undefined;
-  return (
-    <div className="rounded-xl border border-neutral-200 p-4 bg-white/70">
-      <div className="flex items-baseline justify-between">
-        <span className="text-sm text-neutral-700">{label}</span>
-        <span className="text-sm font-semibold">{typeof v === "number" ? `${round2(v)}${unit ? " " + unit : ""}` : "—"}</span>
+        {faceView === "single" && currentFace?.report && (
+          <ExportBar face={currentFace} methodology={methodology} imageURL={imageURL} fileName={fileName} source={source} />
+        )}
+
+        <section className="mt-10 md:mt-14">
+          <Card>
+            <CardBody>
+              <details>
+                <summary className="cursor-pointer text-lg font-medium">{t("app.batch.title")}</summary>
+                <div className="mt-5">
+                  <BatchPanel analyze={analysis.ready ? analysis.analyze : null} methodology={methodology} population={population} />
+                </div>
+              </details>
+            </CardBody>
+          </Card>
+        </section>
+
+        <section className="mt-10 md:mt-14">
+          <Card>
+            <CardBody>
+              <details>
+                <summary className="cursor-pointer text-lg font-medium">{t("app.compare.title")}</summary>
+                <div className="mt-5">
+                  <ComparePanel analyze={analysis.ready ? analysis.analyze : null} methodology={methodology} population={population} />
+                </div>
+              </details>
+            </CardBody>
+          </Card>
+        </section>
+
+        <section className="mt-10 md:mt-14">
+          <Card>
+            <CardBody>
+              <details>
+                <summary className="cursor-pointer text-lg font-medium">
+                  {t("app.history.title")} <span className="text-sm font-normal text-neutral-600">— {t("app.history.count", { count: history.entries.length })}</span>
+                </summary>
+                <div className="mt-5">
+                  <HistoryPanel
+                    entries={history.entries}
+                    population={population}
+                    error={history.error}
+                    prefs={history.prefs}
+                    onPrefsChange={history.setPrefs}
+                    onRemove={history.remove}
+                    onClear={history.clear}
+                  />
+                </div>
+              </details>
+            </CardBody>
+          </Card>
+        </section>
+
+        <footer className="mt-16 md:mt-20 border-t border-neutral-200 pt-6 text-xs text-neutral-600">
+          <p>{t("app.footer.local")}</p>
+          <p className="mt-1">
+            {t("app.footer.methodology", { name: i18n.methodologyName(methodology), version: methodology.version, ...methodology.weights })}
+          </p>
+        </footer>
       </div>
     </div>
   );
 }
-
-function CanvasFrame({ title, canvasRef }: { title: string; canvasRef: React.RefObject<HTMLCanvasElement> }) {
-  return (
-    <Card>
-      <CardBody className="p-4">
-        <div className="text-sm font-medium">{title}</div>
-        <div className="mt-3 overflow-hidden rounded-xl border border-neutral-200 bg-white">
-          <canvas ref={canvasRef} className="block w-full" />
-        </div>
-      </CardBody>
-    </Card>
-  );
-}
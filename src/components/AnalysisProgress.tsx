@@ -0,0 +1,36 @@
+import { useI18n } from "../hooks/useI18n";
+import { STAGES, type StageEvent } from "../utils/detection";
+import { Button } from "./Button";
+import { Progress } from "./Progress";
+
+/** Étapes répétées pour chaque visage, entre la détection et la préparation de l’affichage. */
+const FACE_STAGES = STAGES.filter((s) => s !== "detect" && s !== "render");
+
+/** Avancement estimé (%) : détection, puis chaque visage à parts égales, puis affichage. */
+function percent(p: StageEvent | null) {
+  if (!p || p.stage === "detect") return 2;
+  if (p.stage === "render") return 97;
+  const k = FACE_STAGES.indexOf(p.stage);
+  const faces = p.faces ?? 1;
+  return 5 + (90 * ((p.face ?? 1) - 1 + k / FACE_STAGES.length)) / faces;
+}
+
+/** Étape en cours de l’analyse, avec annulation. */
+export function AnalysisProgress({ progress, onCancel }: { progress: StageEvent | null; onCancel: () => void }) {
+  const { t } = useI18n();
+  const stage = progress ? t(`diagnostics.stage.${progress.stage}`) : t("app.analyzing");
+  return (
+    <div className="mt-4 rounded-xl border border-neutral-200 bg-white/70 p-4 text-sm" role="status" aria-live="polite">
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-neutral-700">
+          {stage}
+          {progress?.faces && progress.faces > 1 ? ` — ${t("app.face", { id: progress.face ?? 1 })} / ${progress.faces}` : ""}
+        </span>
+        <Button size="sm" variant="outline" onClick={onCancel}>
+          {t("app.cancel")}
+        </Button>
+      </div>
+      <Progress value={percent(progress)} className="mt-3" />
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import React, { useMemo, useRef, useState } from "react";
+import { compareToPopulation, type Methodology, type PopulationModel, type ScoreKey } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { batchCSV, batchRows, filesFromDrop, filesFromInput, runBatch, type BatchItem, type BatchStatus } from "../utils/batch";
+import type { Analyzer } from "../utils/detection";
+import { downloadBlob, downloadJSON } from "../utils/download";
+import { SCORE_KEYS } from "../utils/labels";
+import { Button } from "./Button";
+import { Progress } from "./Progress";
+
+const STATUS_COLORS: Record<BatchStatus, string> = {
+  pending: "text-neutral-500",
+  running: "text-blue-700",
+  done: "text-emerald-700",
+  failed: "text-red-700",
+  cancelled: "text-neutral-500",
+};
+
+type SortKey = "path" | "status" | ScoreKey;
+
+/** Traitement par lot d’un ensemble d’images ou d’un dossier, avec tableau de résultats. */
+export function BatchPanel({
+  analyze,
+  methodology,
+  population,
+}: {
+  analyze: Analyzer | null;
+  methodology: Methodology;
+  population: PopulationModel | null;
+}) {
+  const tr = useI18n();
+  const { t, m, num } = tr;
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [running, setRunning] = useState(false);
+  const [dragOver, setDragOver] = useState(false);
+  const [sort, setSort] = useState<{ key: SortKey; dir: 1 | -1 }>({ key: "path", dir: 1 });
+  const abortRef = useRef<AbortController | null>(null);
+  const dirInputRef = useRef<HTMLInputElement | null>(null);
+
+  const enqueue = (files: Array<{ file: File; path: string }>) =>
+    setItems((prev) => {
+      const start = prev.reduce((m, i) => Math.max(m, i.id), 0) + 1;
+      return [...prev, ...files.map((f, i): BatchItem => ({ id: start + i, file: f.file, path: f.path, status: "pending" }))];
+    });
+
+  const onDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    setDragOver(false);
+    if (!running) enqueue(await filesFromDrop(e.dataTransfer));
+  };
+
+  const start = async () => {
+    if (!analyze) return;
+    const ctrl = new AbortController();
+    abortRef.current = ctrl;
+    setRunning(true);
+    await runBatch(analyze, items, methodology, ctrl.signal, (it) => setItems((prev) => prev.map((p) => (p.id === it.id ? it : p))));
+    setRunning(false);
+    abortRef.current = null;
+  };
+
+  const retry = () => setItems((prev) => prev.map((p) => (p.status === "cancelled" || p.status === "failed" ? { ...p, status: "pending", reasons: undefined } : p)));
+
+  const finished = items.filter((i) => i.status === "done" || i.status === "failed" || i.status === "cancelled").length;
+  const pending = items.some((i) => i.status === "pending");
+  const failed = items.filter((i) => i.status === "failed").length;
+
+  const toggleSort = (key: SortKey) => setSort((s) => ({ key, dir: s.key === key ? (-s.dir as 1 | -1) : 1 }));
+  const sortValue = (it: BatchItem) => (sort.key === "path" ? it.path : sort.key === "status" ? t(`batch.status.${it.status}`) : it.report?.scores[sort.key] ?? -Infinity);
+  // La cohorte s’applique à l’affichage : en changer ne relance pas l’analyse.
+  const shown = useMemo(
+    () => (population ? items.map((it) => (it.report ? { ...it, report: compareToPopulation(it.report, population) } : it)) : items),
+    [items, population]
+  );
+  const sorted = [...shown].sort((a, b) => {
+    const va = sortValue(a), vb = sortValue(b);
+    return (typeof va === "string" ? va.localeCompare(vb as string, tr.locale, { numeric: true }) : va - (vb as number)) * sort.dir;
+  });
+  const header = (key: SortKey, label: string, right = false) => (
+    <th className={`py-2 font-medium ${right ? "text-right" : ""}`}>
+      <button onClick={() => toggleSort(key)} className="hover:text-neutral-900">
+        {label}{sort.key === key ? (sort.dir === 1 ? " ▲" : " ▼") : ""}
+      </button>
+    </th>
+  );
+
+  return (
+    <div>
+      <div
+        onDragOver={(e) => { e.preventDefault(); setDragOver(true); }}
+        onDragLeave={() => setDragOver(false)}
+        onDrop={onDrop}
+        className={`rounded-xl border-2 border-dashed p-6 text-center text-sm ${dragOver ? "border-neutral-900 bg-neutral-50" : "border-neutral-300"}`}
+      >
+        <p className="text-neutral-700">{t("batch.drop")}</p>
+        <div className="mt-3 flex flex-wrap justify-center gap-2">
+          <label className="cursor-pointer rounded-lg border border-neutral-300 bg-white px-3 py-1.5 text-xs text-neutral-800 hover:bg-neutral-50">
+            {t("batch.chooseFiles")}
+            <input type="file" accept="image/*" multiple className="hidden" disabled={running} onChange={(e) => { if (e.target.files) enqueue(filesFromInput(e.target.files)); e.target.value = ""; }} />
+          </label>
+          <Button size="sm" variant="outline" disabled={running} onClick={() => dirInputRef.current?.click()}>{t("batch.chooseFolder")}</Button>
+          <input
+            ref={(el) => {
+              dirInputRef.current = el;
+              el?.setAttribute("webkitdirectory", "");
+            }}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => { if (e.target.files) enqueue(filesFromInput(e.target.files)); e.target.value = ""; }}
+          />
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <>
+          <div className="mt-4 flex flex-wrap items-center gap-2">
+            {running ? (
+              <Button size="sm" variant="secondary" onClick={() => abortRef.current?.abort()}>{t("batch.cancel")}</Button>
+            ) : (
+              <Button size="sm" disabled={!analyze || !pending} onClick={start}>{t("batch.start")}</Button>
+            )}
+            {!running && failed + items.filter((i) => i.status === "cancelled").length > 0 && (
+              <Button size="sm" variant="outline" onClick={retry}>{t("batch.retry")}</Button>
+            )}
+            {!running && <Button size="sm" variant="outline" onClick={() => setItems([])}>{t("batch.clear")}</Button>}
+            <span className="ml-auto flex gap-2">
+              <Button size="sm" variant="outline" disabled={running || finished === 0} onClick={() => downloadBlob("lot-resultats.csv", new Blob([batchCSV(sorted, tr)], { type: "text/csv" }))}>
+                CSV
+              </Button>
+              <Button size="sm" variant="outline" disabled={running || finished === 0} onClick={() => downloadJSON("lot-resultats.json", batchRows(sorted, tr))}>
+                JSON
+              </Button>
+            </span>
+          </div>
+
+          <div className="mt-4">
+            <Progress value={(finished / items.length) * 100} />
+            <p className="mt-1 text-xs text-neutral-600">
+              {t("batch.progress", { done: finished, total: items.length })}{failed ? t("batch.failures", { count: failed }) : ""}
+            </p>
+          </div>
+
+          <div className="mt-4 max-h-[520px] overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="border-b border-neutral-200 text-left text-neutral-600">
+                  {header("path", t("batch.file"))}
+                  {header("status", t("batch.status"))}
+                  {SCORE_KEYS.map((k) => <React.Fragment key={k}>{header(k, t(`score.short.${k}`), true)}</React.Fragment>)}
+                </tr>
+              </thead>
+              <tbody>
+                {sorted.map((it) => (
+                  <tr key={it.id} className="border-b border-neutral-100 align-top">
+                    <td className="max-w-[220px] truncate py-1.5" title={it.path}>{it.path}</td>
+                    <td className={`py-1.5 ${STATUS_COLORS[it.status]}`}>
+                      {t(`batch.status.${it.status}`)}
+                      {it.reasons && <div className="text-xs text-neutral-600">{it.reasons.map(m).join(" ")}</div>}
+                    </td>
+                    {SCORE_KEYS.map((k) => (
+                      <td key={k} className="py-1.5 text-right tabular-nums">
+                        {it.report ? `${num(it.report.scores[k])}${it.report.ci[k] ? ` ± ${num(it.report.ci[k]!)}` : ""}` : "—"}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+import React from "react";
+
+export function Button({
+  children,
+  onClick,
+  disabled = false,
+  variant = "primary",
+  size = "md",
+}: {
+  children: React.ReactNode;
+  onClick?: () => void;
+  disabled?: boolean;
+  variant?: "primary" | "secondary" | "outline";
+  size?: "sm" | "md" | "lg";
+}) {
+  const base =
+    "inline-flex items-center justify-center rounded-xl font-medium transition-colors focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed";
+  const sizes: Record<string, string> = {
+    sm: "px-3 py-2 text-sm",
+    md: "px-4 py-2.5 text-sm",
+    lg: "px-5 py-3 text-base",
+  };
+  const variants: Record<string, string> = {
+    primary: "bg-neutral-900 text-white hover:bg-black",
+    secondary: "bg-white text-neutral-900 border border-neutral-300 hover:bg-neutral-100",
+    outline: "bg-transparent text-neutral-900 border border-neutral-300 hover:bg-neutral-50",
+  };
+  return (
+    <button onClick={onClick} disabled={disabled} className={`${base} ${sizes[size]} ${variants[variant]}`}>
+      {children}
+    </button>
+  );
+}
@@ -0,0 +1,123 @@
+import React, { useMemo, useRef, useState } from "react";
+import { clamp, round1, type ManualCalibration } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { Button } from "./Button";
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4];
+
+type Point = ManualCalibration["segment"][number];
+
+/**
+ * Tracé d’une référence de longueur connue sur l’image alignée : deux clics pour les extrémités,
+ * glisser pour les ajuster, puis saisie de la longueur réelle.
+ */
+export function CalibrationTool({
+  aligned,
+  initial,
+  onApply,
+  onCancel,
+}: {
+  aligned: HTMLCanvasElement;
+  initial?: ManualCalibration | null;
+  onApply: (calibration: ManualCalibration) => void;
+  onCancel: () => void;
+}) {
+  const tr = useI18n();
+  const src = useMemo(() => aligned.toDataURL("image/jpeg", 0.9), [aligned]);
+  const w = aligned.width, h = aligned.height;
+  const unit = w / 400;
+
+  const [points, setPoints] = useState<Point[]>(initial?.segment ?? []);
+  const [lengthMm, setLengthMm] = useState(initial?.lengthMm ?? NaN);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [zoom, setZoom] = useState(0);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const scale = ZOOM_LEVELS[zoom];
+
+  const toSvg = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: clamp(p.x / w, 0, 1), y: clamp(p.y / h, 0, 1) };
+  };
+
+  // Un clic hors des poignées place une extrémité ; au-delà de deux, le segment est recommencé.
+  const place = (e: React.PointerEvent) => {
+    const p = toSvg(e);
+    if (p) setPoints((ps) => (ps.length >= 2 ? [p] : [...ps, p]));
+  };
+  const move = (index: number, e: React.PointerEvent) => {
+    const p = toSvg(e);
+    if (p) setPoints((ps) => ps.map((q, i) => (i === index ? p : q)));
+  };
+
+  const [a, b] = points;
+  const px = a && b ? Math.hypot((a.x - b.x) * w, (a.y - b.y) * h) : 0;
+  const valid = points.length === 2 && px > 0 && lengthMm > 0;
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-2">
+        <label className="grid gap-1 text-xs text-neutral-700">
+          {tr.t("calibrationTool.length")}
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={Number.isFinite(lengthMm) ? lengthMm : ""}
+            onChange={(e) => setLengthMm(e.target.valueAsNumber)}
+            className="w-28 rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm tabular-nums text-neutral-900"
+          />
+        </label>
+        <Button size="sm" disabled={!valid} onClick={() => valid && onApply({ segment: [a, b], lengthMm })}>{tr.t("calibrationTool.apply")}</Button>
+        <Button size="sm" variant="outline" onClick={onCancel}>{tr.t("calibrationTool.cancel")}</Button>
+        <span className="ml-auto inline-flex items-center gap-2 text-xs text-neutral-700">
+          {tr.t("editor.zoom")}
+          <Button size="sm" variant="outline" disabled={zoom === 0} onClick={() => setZoom(zoom - 1)}>−</Button>
+          <span className="tabular-nums">×{scale}</span>
+          <Button size="sm" variant="outline" disabled={zoom === ZOOM_LEVELS.length - 1} onClick={() => setZoom(zoom + 1)}>+</Button>
+        </span>
+      </div>
+
+      <div className="mt-3 max-h-[640px] overflow-auto rounded-xl border border-neutral-200 bg-white">
+        <div className="relative" style={{ width: `${scale * 100}%` }}>
+          <img src={src} alt={tr.t("calibrationTool.alt")} className="block w-full select-none" draggable={false} />
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${w} ${h}`}
+            className="absolute inset-0 h-full w-full cursor-crosshair touch-none"
+            onPointerDown={(e) => e.target === e.currentTarget && place(e)}
+            onPointerMove={(e) => dragging !== null && move(dragging, e)}
+            onPointerUp={() => setDragging(null)}
+            onPointerLeave={() => setDragging(null)}
+          >
+            {a && b && <line x1={a.x * w} y1={a.y * h} x2={b.x * w} y2={b.y * h} stroke="#2563eb" strokeWidth={(1.5 * unit) / scale} />}
+            {points.map((p, i) => (
+              <circle
+                key={i}
+                cx={p.x * w}
+                cy={p.y * h}
+                r={((dragging === i ? 6 : 4) * unit) / scale}
+                fill="#2563eb"
+                stroke="#fff"
+                strokeWidth={unit / scale}
+                className="cursor-grab"
+                onPointerDown={(e) => {
+                  e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                  setDragging(i);
+                }}
+              >
+                <title>{tr.t("calibrationTool.point", { n: i + 1 })}</title>
+              </circle>
+            ))}
+          </svg>
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-neutral-500">
+        {tr.t("calibrationTool.hint")}
+        {px > 0 && <span className="ml-1 tabular-nums">{tr.t("calibrationTool.segment", { px: round1(px) })}</span>}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import React from "react";
+import { Card, CardBody } from "./Card";
+
+export function CanvasFrame({ title, canvasRef }: { title: string; canvasRef: React.RefObject<HTMLCanvasElement | null> }) {
+  return (
+    <Card>
+      <CardBody className="p-4">
+        <div className="text-sm font-medium">{title}</div>
+        <div className="mt-3 overflow-hidden rounded-xl border border-neutral-200 bg-white">
+          <canvas ref={canvasRef} className="block w-full" />
+        </div>
+      </CardBody>
+    </Card>
+  );
+}
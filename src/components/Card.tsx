@@ -0,0 +1,12 @@
+import React from "react";
+
+export function Card({ children, className = "" }: { children: React.ReactNode; className?: string }) {
+  return (
+    <div className={`rounded-2xl border border-black/[0.06] bg-white/70 shadow-[0_10px_35px_-15px_rgba(0,0,0,0.25)] backdrop-blur-sm ${className}`}>
+      {children}
+    </div>
+  );
+}
+export function CardBody({ children, className = "" }: { children: React.ReactNode; className?: string }) {
+  return <div className={`p-6 md:p-8 ${className}`}>{children}</div>;
+}
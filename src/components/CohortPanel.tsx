@@ -0,0 +1,98 @@
+import React, { useRef, useState } from "react";
+import { LITERATURE_COHORT_ID, cohortGroups, type Message, type PopulationModel, type ReferenceCohort } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { Button } from "./Button";
+
+const NONE = "";
+
+/** Choix, import et suppression des cohortes de référence ; stratification par groupe déclaré. */
+export function CohortPanel({
+  all,
+  active,
+  group,
+  model,
+  error,
+  onSelect,
+  onImport,
+  onRemove,
+}: {
+  all: ReferenceCohort[];
+  active: ReferenceCohort | null;
+  group: string | null;
+  model: PopulationModel | null;
+  error: Message | null;
+  onSelect: (id: string | null, group?: string | null) => void;
+  onImport: (text: string, fileName: string) => Message[];
+  onRemove: (id: string) => void;
+}) {
+  const tr = useI18n();
+  const { t, m } = tr;
+  const [errors, setErrors] = useState<Message[]>([]);
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const groups = active ? cohortGroups(active) : [];
+  const builtIn = active?.id === LITERATURE_COHORT_ID;
+
+  const onImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    setErrors(onImport(await f.text(), f.name));
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="grid gap-1 text-sm text-neutral-700">
+          {t("cohort.select")}
+          <select
+            value={active?.id ?? NONE}
+            onChange={(e) => { onSelect(e.target.value || null); setErrors([]); }}
+            className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900"
+          >
+            <option value={NONE}>{t("cohort.none")}</option>
+            {all.map((c) => (
+              <option key={c.id} value={c.id}>
+                {tr.cohortName(c)}{c.id === LITERATURE_COHORT_ID ? "" : ` ${t("cohort.custom")}`}
+              </option>
+            ))}
+          </select>
+        </label>
+        {active && groups.length > 0 && (
+          <label className="grid gap-1 text-sm text-neutral-700">
+            {t("cohort.group")}
+            <select
+              value={group ?? NONE}
+              onChange={(e) => onSelect(active.id, e.target.value || null)}
+              className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900"
+            >
+              <option value={NONE}>{t("cohort.allGroups", { n: active.subjects.length })}</option>
+              {groups.map((g) => <option key={g.group} value={g.group}>{t("cohort.groupOption", g)}</option>)}
+            </select>
+          </label>
+        )}
+        {active && !builtIn && <Button size="sm" variant="outline" onClick={() => onRemove(active.id)}>{t("cohort.remove")}</Button>}
+        <Button size="sm" variant="outline" onClick={() => importRef.current?.click()}>{t("cohort.import")}</Button>
+        <input ref={importRef} type="file" accept="application/json,.json,text/csv,.csv" className="hidden" onChange={onImportFile} />
+      </div>
+
+      {active && (
+        <div className="mt-3 grid gap-1 text-sm text-neutral-600">
+          {builtIn && <p>{t("cohort.literature.description")}</p>}
+          <p>
+            {active.subjects.length ? t("cohort.subjects", { n: model?.ref.n ?? active.subjects.length }) : t("cohort.summaryOnly")}
+            {model && <> — {t("cohort.features", { count: Object.keys(model.stats).length, ratios: model.features.length })}</>}
+          </p>
+          {active.source && <p className="text-xs">{t("cohort.source", { source: active.source })}</p>}
+        </div>
+      )}
+      <p className="mt-3 text-xs text-neutral-500">{t("cohort.format")}</p>
+
+      {(error || errors.length > 0) && (
+        <ul className="mt-3 list-disc pl-5 text-sm text-red-700">
+          {error && <li>{m(error)}</li>}
+          {errors.map((e, i) => <li key={i}>{m(e)}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+import React, { useEffect, useMemo, useState } from "react";
+import { compareReports, errorMessage, landmarkDisplacements, round2, round3, type DeltaRow, type Message, type Methodology, type PopulationModel, type ScoreKey } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { withPopulation, type Analyzer, type FaceResult } from "../utils/detection";
+import { ingestImage } from "../utils/ingest";
+import { Button } from "./Button";
+
+type Slot = { url: string; name: string; image?: HTMLCanvasElement; face?: FaceResult; error?: Message[] };
+type View = "side" | "swipe" | "blend";
+
+const GROUPS: DeltaRow["group"][] = ["score", "measure", "ratio"];
+const AMPLIFICATIONS = [1, 3, 5, 10];
+
+/** Rapport calculé avec un autre profil (ou une autre version) que celui actif. */
+const isStale = (slot: Slot | null, methodology: Methodology) =>
+  Boolean(slot?.face?.report && (slot.face.report.methodology.id !== methodology.id || slot.face.report.methodologyVersion !== methodology.version));
+
+async function analyzeSlot(analyze: Analyzer, slot: Slot, methodology: Methodology, signal?: AbortSignal): Promise<Slot> {
+  try {
+    if (!slot.image) return slot;
+    const { faces: [face] } = await analyze(slot.image, false, methodology, { signal });
+    if (!face.report) return { ...slot, face: undefined, error: face.error ? [face.error] : face.flags };
+    return { ...slot, face, error: undefined };
+  } catch (e) {
+    return { ...slot, face: undefined, error: [errorMessage(e)] };
+  }
+}
+
+function FilePicker({ label, slot, onChange }: { label: string; slot: Slot | null; onChange: (s: Slot) => void }) {
+  const { m } = useI18n();
+  const onFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    if (!f) return;
+    try {
+      const { url, name, canvas } = await ingestImage(f);
+      onChange({ url, name, image: canvas });
+    } catch (err) {
+      onChange({ url: "", name: f.name, error: [errorMessage(err)] });
+    }
+  };
+  return (
+    <label className="grid gap-2 text-sm text-neutral-700">
+      {label}
+      <input type="file" accept="image/*" onChange={onFile} className="text-xs" />
+      {slot?.url && <img src={slot.url} alt={label} className="max-h-48 w-fit rounded-lg border border-neutral-200 object-contain" />}
+      {slot?.error && <span className="text-xs text-red-700">{slot.error.map(m).join(" ")}</span>}
+    </label>
+  );
+}
+
+/** Comparaison avant / après de deux photos d’une même personne. */
+export function ComparePanel({
+  analyze,
+  methodology,
+  population,
+}: {
+  analyze: Analyzer | null;
+  methodology: Methodology;
+  population: PopulationModel | null;
+}) {
+  const tr = useI18n();
+  const { t, num } = tr;
+  const [before, setBefore] = useState<Slot | null>(null);
+  const [after, setAfter] = useState<Slot | null>(null);
+  const [processing, setProcessing] = useState(false);
+  const [view, setView] = useState<View>("side");
+  const [position, setPosition] = useState(50);
+  const [amplification, setAmplification] = useState(3);
+  const [showVectors, setShowVectors] = useState(true);
+
+  // Chaque photo importée libère son URL blob quand elle est remplacée, et au démontage.
+  const revoke = (url: string | undefined) => () => {
+    if (url?.startsWith("blob:")) URL.revokeObjectURL(url);
+  };
+  useEffect(() => revoke(before?.url), [before?.url]);
+  useEffect(() => revoke(after?.url), [after?.url]);
+
+  const run = async () => {
+    if (!analyze || !before || !after) return;
+    setProcessing(true);
+    setBefore(await analyzeSlot(analyze, before, methodology));
+    setAfter(await analyzeSlot(analyze, after, methodology));
+    setProcessing(false);
+  };
+
+  // Un changement de profil relance l’analyse des photos déjà analysées, hors du fil principal.
+  useEffect(() => {
+    if (!analyze || processing) return;
+    const stale = isStale(before, methodology) ? { slot: before!, set: setBefore } : isStale(after, methodology) ? { slot: after!, set: setAfter } : null;
+    if (!stale) return;
+    const controller = new AbortController();
+    void analyzeSlot(analyze, stale.slot, methodology, controller.signal).then((next) => {
+      if (!controller.signal.aborted) stale.set(next);
+    });
+    return () => controller.abort();
+  }, [analyze, processing, before, after, methodology]);
+
+  // La cohorte active est appliquée à l’affichage ; les rapports conservés restent bruts.
+  const faceA = useMemo(() => before?.face && withPopulation(before.face, population), [before, population]);
+  const faceB = useMemo(() => after?.face && withPopulation(after.face, population), [after, population]);
+  const srcA = useMemo(() => faceA?.aligned?.toDataURL("image/jpeg", 0.9), [faceA?.aligned]);
+  const srcB = useMemo(() => faceB?.aligned?.toDataURL("image/jpeg", 0.9), [faceB?.aligned]);
+
+  const rows = faceA?.report && faceB?.report ? compareReports(faceA.report, faceB.report) : [];
+  const vectors = useMemo(() => {
+    if (!faceA?.aligned || !faceA.landmarks || !faceB?.aligned || !faceB.landmarks) return [];
+    return landmarkDisplacements(faceA.landmarks, faceA.aligned.width, faceA.aligned.height, faceB.landmarks, faceB.aligned.width, faceB.aligned.height);
+  }, [faceA, faceB]);
+
+  const w = faceA?.aligned?.width ?? 1, h = faceA?.aligned?.height ?? 1;
+  const unit = w / 400;
+  const maxDist = Math.max(1, ...vectors.map((v) => v.distance));
+  const label = (r: DeltaRow) => (r.group === "score" ? t(`score.${r.key as ScoreKey}`) : tr.measure(r.key));
+  const fmt = (r: DeltaRow, v: number) => num(r.group === "ratio" ? round3(v) : round2(v));
+
+  const vectorLayer = showVectors && (
+    <svg viewBox={`0 0 ${w} ${h}`} className="pointer-events-none absolute inset-0 h-full w-full">
+      {vectors.map((v) => {
+        const x2 = v.from.x * w + (v.to.x - v.from.x) * w * amplification;
+        const y2 = v.from.y * h + (v.to.y - v.from.y) * h * amplification;
+        const k = v.distance / maxDist;
+        const color = `hsl(${200 - 200 * k} 90% 45%)`;
+        return (
+          <g key={v.index} stroke={color} strokeWidth={unit * (0.6 + k)}>
+            <line x1={v.from.x * w} y1={v.from.y * h} x2={x2} y2={y2} />
+            <circle cx={x2} cy={y2} r={unit * (0.6 + k)} fill={color} />
+          </g>
+        );
+      })}
+    </svg>
+  );
+
+  return (
+    <div>
+      <div className="grid gap-5 md:grid-cols-2">
+        <FilePicker label={t("compare.before")} slot={before} onChange={setBefore} />
+        <FilePicker label={t("compare.after")} slot={after} onChange={setAfter} />
+      </div>
+      <div className="mt-4">
+        <Button disabled={!analyze || !before || !after || processing} onClick={run}>
+          {processing ? t("compare.running") : t("compare.run")}
+        </Button>
+      </div>
+
+      {srcA && srcB && (
+        <>
+          <div className="mt-6 flex flex-wrap items-center gap-2">
+            {(["side", "swipe", "blend"] as View[]).map((v) => (
+              <Button key={v} size="sm" variant={view === v ? "primary" : "outline"} onClick={() => setView(v)}>
+                {t(`compare.view.${v}`)}
+              </Button>
+            ))}
+            {view !== "side" && (
+              <input type="range" min={0} max={100} value={position} onChange={(e) => setPosition(Number(e.target.value))} aria-label={t("compare.position")} className="ml-2" />
+            )}
+            <label className="ml-auto inline-flex items-center gap-2 text-xs text-neutral-700">
+              <input type="checkbox" checked={showVectors} onChange={(e) => setShowVectors(e.target.checked)} />
+              {t("compare.vectors")}
+              <select value={amplification} onChange={(e) => setAmplification(Number(e.target.value))} className="rounded border border-neutral-300 bg-white px-1 py-0.5">
+                {AMPLIFICATIONS.map((a) => <option key={a} value={a}>×{a}</option>)}
+              </select>
+            </label>
+          </div>
+
+          {view === "side" ? (
+            <div className="mt-3 grid gap-3 md:grid-cols-2">
+              <figure className="relative overflow-hidden rounded-xl border border-neutral-200">
+                <img src={srcA} alt={t("compare.beforeAligned")} className="block w-full" />
+                {vectorLayer}
+              </figure>
+              <figure className="overflow-hidden rounded-xl border border-neutral-200">
+                <img src={srcB} alt={t("compare.afterAligned")} className="block w-full" />
+              </figure>
+            </div>
+          ) : (
+            <div className="relative mx-auto mt-3 max-w-md overflow-hidden rounded-xl border border-neutral-200">
+              <img src={srcA} alt={t("compare.beforeAligned")} className="block w-full" />
+              <img
+                src={srcB}
+                alt={t("compare.afterAligned")}
+                className="absolute inset-0 h-full w-full"
+                style={view === "swipe" ? { clipPath: `inset(0 0 0 ${position}%)` } : { opacity: position / 100 }}
+              />
+              {vectorLayer}
+            </div>
+          )}
+          <p className="mt-2 text-xs text-neutral-500">
+            {t("compare.vectorsHint", { max: round2(maxDist), factor: amplification })}
+          </p>
+
+          <table className="mt-6 w-full text-sm">
+            <thead>
+              <tr className="border-b border-neutral-200 text-left text-neutral-600">
+                <th className="py-2 font-medium">{t("compare.indicator")}</th>
+                <th className="py-2 text-right font-medium">{t("compare.before")}</th>
+                <th className="py-2 text-right font-medium">{t("compare.after")}</th>
+                <th className="py-2 text-right font-medium">{t("compare.delta")}</th>
+                <th className="py-2 text-right font-medium">{t("compare.ci")}</th>
+                <th className="py-2 pl-3 font-medium">{t("compare.significant")}</th>
+              </tr>
+            </thead>
+            {GROUPS.map((g) => (
+              <tbody key={g}>
+                <tr>
+                  <th colSpan={6} className="pt-4 pb-1 text-left text-xs uppercase tracking-wide text-neutral-500">{t(`compare.group.${g}`)}</th>
+                </tr>
+                {rows.filter((r) => r.group === g).map((r) => (
+                  <tr key={r.key} className="border-b border-neutral-100">
+                    <td className="py-1.5">{label(r)}</td>
+                    <td className="py-1.5 text-right tabular-nums">{fmt(r, r.before)}</td>
+                    <td className="py-1.5 text-right tabular-nums">{fmt(r, r.after)}</td>
+                    <td className="py-1.5 text-right tabular-nums">{r.delta > 0 ? "+" : ""}{fmt(r, r.delta)}</td>
+                    <td className="py-1.5 text-right tabular-nums">{r.ci !== undefined ? fmt(r, r.ci) : "—"}</td>
+                    <td className={`py-1.5 pl-3 ${r.significant ? "font-medium text-emerald-700" : "text-neutral-500"}`}>
+                      {r.significant === null ? "—" : r.significant ? t("compare.yes") : t("compare.no")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+          </table>
+          <p className="mt-2 text-xs text-neutral-500">
+            {t("compare.significanceHint")}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
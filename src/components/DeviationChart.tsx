@@ -0,0 +1,88 @@
+import { useId } from "react";
+import type { ScoreReport } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { niceStep, ratioDeviations } from "../utils/charts";
+
+const W = 640, ROW = 24;
+const PAD = { left: 210, right: 16, top: 8, bottom: 26 };
+const MAX_LABEL = 32;
+
+/**
+ * Écart relatif signé de chaque ratio à sa cible, en barres divergentes autour de zéro, avec
+ * l’IC95 bootstrap en moustaches. Survol et focus clavier signalent le ratio via `onHover`.
+ */
+export function DeviationChart({
+  report,
+  highlighted,
+  onHover,
+}: {
+  report: Pick<ScoreReport, "ratios" | "targets" | "ratioIntervals">;
+  highlighted?: string | null;
+  onHover?: (key: string | null) => void;
+}) {
+  const tr = useI18n();
+  const { t, num } = tr;
+  const id = useId();
+  const rows = ratioDeviations(report);
+  if (rows.length === 0) return <p className="text-sm text-neutral-600">{t("chart.deviation.empty")}</p>;
+
+  const extent = Math.max(...rows.flatMap((r) => [Math.abs(r.error), ...(r.interval ?? []).map(Math.abs)]), 0.01);
+  const step = niceStep(extent, 2);
+  const limit = Math.ceil(extent / step - 1e-9) * step;
+  const n = Math.round(limit / step);
+  const ticks = Array.from({ length: 2 * n + 1 }, (_, i) => (i - n) * step);
+  const H = PAD.top + rows.length * ROW + PAD.bottom;
+  const mid = (PAD.left + W - PAD.right) / 2;
+  const x = (v: number) => mid + (v / limit) * (W - PAD.right - mid);
+  const pct = (v: number, digits = 1) => `${v > 0 ? "+" : ""}${num(v * 100, digits)}`;
+  const label = (r: (typeof rows)[number]) => {
+    const params = { label: tr.measure(r.key), error: pct(r.error) };
+    return r.interval ? t("chart.deviation.pointCI", { ...params, low: pct(r.interval[0]), high: pct(r.interval[1]) }) : t("chart.deviation.point", params);
+  };
+  const hover = (key: string | null) => () => onHover?.(key);
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full" role="group" aria-labelledby={`${id}t`} aria-describedby={`${id}d`}>
+      <title id={`${id}t`}>{t("chart.deviation.title")}</title>
+      <desc id={`${id}d`}>{t("chart.deviation.desc")}</desc>
+      {ticks.map((v) => (
+        <g key={v}>
+          <line x1={x(v)} x2={x(v)} y1={PAD.top} y2={H - PAD.bottom} stroke={v === 0 ? "#a3a3a3" : "#e5e5e5"} />
+          <text x={x(v)} y={H - 8} textAnchor="middle" fontSize={11} fill="#525252">{t("chart.deviation.tick", { value: pct(v, step * 100 >= 1 ? 0 : 1) })}</text>
+        </g>
+      ))}
+      {rows.map((r, i) => {
+        const y = PAD.top + i * ROW;
+        const name = tr.measure(r.key);
+        const text = label(r);
+        const color = r.error > 0 ? "#d97706" : "#2563eb";
+        return (
+          <g
+            key={r.key}
+            tabIndex={0}
+            role="img"
+            aria-label={text}
+            onMouseEnter={hover(r.key)}
+            onMouseLeave={hover(null)}
+            onFocus={hover(r.key)}
+            onBlur={hover(null)}
+          >
+            <title>{text}</title>
+            {highlighted === r.key && <rect x={0} y={y} width={W} height={ROW} fill="#f5f5f5" />}
+            <text x={PAD.left - 8} y={y + ROW / 2 + 4} textAnchor="end" fontSize={11} fill="#262626">
+              {name.length > MAX_LABEL ? `${name.slice(0, MAX_LABEL - 1)}…` : name}
+            </text>
+            <rect x={Math.min(x(0), x(r.error))} y={y + 5} width={Math.abs(x(r.error) - x(0))} height={ROW - 10} fill={color} fillOpacity={0.75} />
+            {r.interval && (
+              <g stroke="#404040" strokeWidth={1.25}>
+                <line x1={x(r.interval[0])} x2={x(r.interval[1])} y1={y + ROW / 2} y2={y + ROW / 2} />
+                <line x1={x(r.interval[0])} x2={x(r.interval[0])} y1={y + 7} y2={y + ROW - 7} />
+                <line x1={x(r.interval[1])} x2={x(r.interval[1])} y1={y + 7} y2={y + ROW - 7} />
+              </g>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,87 @@
+import type { WorkerInfo } from "../hooks/useAnalysis";
+import type { DetectorDiagnostics, DetectorStatus } from "../hooks/useDetector";
+import { useI18n } from "../hooks/useI18n";
+import { BACKENDS, isBackendChoice, type BackendChoice } from "../utils/backend";
+import { STAGES } from "../utils/detection";
+
+type Props = {
+  status: DetectorStatus;
+  choice: BackendChoice;
+  onChoice: (choice: BackendChoice) => void;
+  diagnostics: DetectorDiagnostics;
+  worker: WorkerInfo;
+};
+
+const MB = 1024 * 1024;
+
+/** Moteur d’inférence actif, temps de chargement et d’inférence, mémoire TF.js. */
+export function DiagnosticsPanel({ status, choice, onChoice, diagnostics: d, worker }: Props) {
+  const { t, m, num } = useI18n();
+  const ms = (v: number | null | undefined) => (v == null ? "—" : `${num(v, 0)} ms`);
+  const rows: Array<[string, string]> = [
+    [t("diagnostics.status"), t(`diagnostics.status.${status}`)],
+    [t("diagnostics.backend"), d.backend ? t(`backend.${d.backend}`) : "—"],
+    [t("diagnostics.loadTime"), ms(d.loadMs)],
+    [t("diagnostics.warmup"), ms(d.warmupMs)],
+    [t("diagnostics.tensors"), d.memory ? num(d.memory.tensors, 0) : "—"],
+    [t("diagnostics.memory"), d.memory ? `${num(d.memory.bytes / MB, 1)} Mo` : "—"],
+  ];
+  if (d.memory?.gpuBytes != null) rows.push([t("diagnostics.gpuMemory"), `${num(d.memory.gpuBytes / MB, 1)} Mo`]);
+  rows.push([
+    t("diagnostics.worker"),
+    worker.backend ? `${t(`backend.${worker.backend}`)} · ${ms(worker.loadMs)}` : t(`diagnostics.worker.${worker.status}`),
+  ]);
+  const failures = d.attempts.filter((a) => !a.ok);
+
+  return (
+    <div className="grid gap-6 text-sm md:grid-cols-2">
+      <div>
+        <label className="flex items-center gap-2 text-neutral-700">
+          {t("diagnostics.choice")}
+          <select
+            value={choice}
+            onChange={(e) => { if (isBackendChoice(e.target.value)) onChoice(e.target.value); }}
+            className="rounded-lg border border-neutral-300 bg-white px-2 py-1 text-neutral-900"
+          >
+            <option value="auto">{t("backend.auto")}</option>
+            {BACKENDS.map((b) => <option key={b} value={b}>{t(`backend.${b}`)}</option>)}
+          </select>
+        </label>
+        <dl className="mt-4 grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5">
+          {rows.map(([k, v]) => (
+            <div key={k} className="contents">
+              <dt className="text-neutral-600">{k}</dt>
+              <dd className="font-medium tabular-nums">{v}</dd>
+            </div>
+          ))}
+        </dl>
+        {worker.error && <p className="mt-4 text-xs text-amber-700">{t("diagnostics.worker.failure", { error: m(worker.error) })}</p>}
+        {failures.length > 0 && (
+          <ul className="mt-4 list-disc pl-5 text-xs text-amber-700">
+            {failures.map((a) => {
+              const backend = t(`backend.${a.backend}`);
+              return <li key={a.backend}>{a.error ? t("diagnostics.fallback", { backend, error: a.error }) : t("diagnostics.refused", { backend })}</li>;
+            })}
+          </ul>
+        )}
+      </div>
+      <div>
+        <h3 className="font-medium">{t("diagnostics.stages")}</h3>
+        {d.timings ? (
+          <table className="mt-2 w-full">
+            <tbody>
+              {STAGES.filter((s) => d.timings![s] !== undefined).map((s) => (
+                <tr key={s} className="border-b border-neutral-100">
+                  <td className="py-1 text-neutral-600">{t(`diagnostics.stage.${s}`)}</td>
+                  <td className="py-1 text-right tabular-nums">{ms(d.timings![s])}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="mt-2 text-neutral-600">{t("diagnostics.noRun")}</p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { useState } from "react";
+import { errorMessage } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { downloadBlob, downloadJSON } from "../utils/download";
+import { baseFileName, buildReportHTML, exportCSV, exportJSON, imageSHA256, printReport, type ExportContext } from "../utils/reportExport";
+import { Button } from "./Button";
+import { Card, CardBody } from "./Card";
+
+/** Export du rapport du visage affiché, entièrement généré dans le navigateur. */
+export function ExportBar(ctx: ExportContext) {
+  const tr = useI18n();
+  const { t, m } = tr;
+  const [busy, setBusy] = useState(false);
+  const base = baseFileName(ctx);
+
+  const run = (task: () => Promise<void> | void) => async () => {
+    setBusy(true);
+    try {
+      await task();
+    } catch (e) {
+      alert(t("export.failed", { error: m(errorMessage(e)) }));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const html = async () => buildReportHTML(ctx, await imageSHA256(ctx), tr);
+
+  return (
+    <section className="mt-10 md:mt-14">
+      <Card>
+        <CardBody>
+          <h2 className="text-lg font-medium">{t("export.title")}</h2>
+          <p className="mt-1 text-sm text-neutral-700">{t("export.hint")}</p>
+          <div className="mt-4 flex flex-wrap gap-2">
+            <Button size="sm" variant="outline" disabled={busy} onClick={run(async () => downloadBlob(`${base}.html`, new Blob([await html()], { type: "text/html" })))}>
+              {t("export.html")}
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={busy}
+              onClick={run(async () => {
+                if (!printReport(await html())) alert(t("export.popupBlocked"));
+              })}
+            >
+              {t("export.print")}
+            </Button>
+            <Button size="sm" variant="outline" disabled={busy} onClick={run(async () => downloadJSON(`${base}.json`, await exportJSON(ctx)))}>
+              {t("export.json")}
+            </Button>
+            <Button size="sm" variant="outline" disabled={busy} onClick={run(() => downloadBlob(`${base}-ratios.csv`, new Blob([exportCSV(ctx.face.report!, tr)], { type: "text/csv" })))}>
+              {t("export.csv")}
+            </Button>
+          </div>
+        </CardBody>
+      </Card>
+    </section>
+  );
+}
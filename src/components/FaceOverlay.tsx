@@ -0,0 +1,63 @@
+import { useI18n } from "../hooks/useI18n";
+import type { FaceResult } from "../utils/detection";
+
+const STATUS_COLORS: Record<FaceResult["status"], string> = {
+  ok: "#059669",
+  flagged: "#d97706",
+  failed: "#dc2626",
+};
+
+/** Contours numérotés des visages détectés, superposés à l’aperçu (coordonnées de l’image source). */
+export function FaceOverlay({
+  width,
+  height,
+  faces,
+  selected,
+  onSelect,
+}: {
+  width: number;
+  height: number;
+  faces: FaceResult[];
+  selected?: number;
+  onSelect?: (id: number) => void;
+}) {
+  const { t, m } = useI18n();
+  const fontSize = Math.max(width, height) * 0.03;
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="none" className="absolute inset-0 h-full w-full">
+      {faces.map((f) => {
+        const color = STATUS_COLORS[f.status];
+        const active = f.id === selected;
+        return (
+          <g key={f.id} className="cursor-pointer" onClick={() => onSelect?.(f.id)}>
+            <title>{[t("app.face", { id: f.id }), ...f.flags.map(m), ...(f.error ? [m(f.error)] : [])].join(" — ")}</title>
+            <rect
+              x={f.box.xMin}
+              y={f.box.yMin}
+              width={f.box.width}
+              height={f.box.height}
+              fill={active ? `${color}22` : "transparent"}
+              stroke={color}
+              strokeWidth={active ? 3 : 2}
+              strokeDasharray={f.status === "ok" ? undefined : "6 4"}
+              vectorEffect="non-scaling-stroke"
+              rx={fontSize / 3}
+            />
+            <circle cx={f.box.xMin} cy={f.box.yMin} r={fontSize * 0.75} fill={color} />
+            <text
+              x={f.box.xMin}
+              y={f.box.yMin}
+              fill="#fff"
+              fontSize={fontSize}
+              fontWeight={600}
+              textAnchor="middle"
+              dominantBaseline="central"
+            >
+              {f.id}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
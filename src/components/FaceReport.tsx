@@ -0,0 +1,339 @@
+import { useState } from "react";
+import { DISTANCE_MEASURES, RATIO_MEASURES, calibrationNote, measureDef, normDeviation, SYMMETRY_REGIONS, describeDeviation, diffLandmarks, round1, round2, round3, uniquenessNote, type LM, type ManualCalibration, type ScoreReport, type SymmetryRegion } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import type { Translator } from "../i18n";
+import { SCORE_KEYS, SCORE_MAX } from "../utils/labels";
+import { Card, CardBody } from "./Card";
+import { Button } from "./Button";
+import { DeviationChart } from "./DeviationChart";
+import { CalibrationTool } from "./CalibrationTool";
+import { ScoreHistograms } from "./HistogramChart";
+import { LandmarkEditor } from "./LandmarkEditor";
+import { MeasureOverlay } from "./MeasureOverlay";
+import { Measure, Metric } from "./Metric";
+import { QualityPanel } from "./QualityPanel";
+import { RadarChart } from "./RadarChart";
+import { SymmetryViews } from "./SymmetryViews";
+
+/** Description et source d’une grandeur du catalogue, affichées en infobulle. */
+const definitionText = ({ has, m }: Translator, id: string) => {
+  const d = measureDef(id);
+  const description = has(`measure.${id}.description`) ? m({ code: `measure.${id}.description` }) : "";
+  return d && [description, d.reference].filter(Boolean).join("\n");
+};
+
+/** Élément survolé : une mesure (segment) ou un ratio (ligne du tableau). */
+type Hover = { kind: "measure" | "ratio"; key: string } | null;
+
+export function FaceReport({
+  report,
+  aligned,
+  landmarks,
+  detectedLandmarks,
+  onLandmarksChange,
+  onCalibrationChange,
+}: {
+  report: ScoreReport;
+  aligned?: HTMLCanvasElement;
+  landmarks?: LM[];
+  detectedLandmarks?: LM[];
+  onLandmarksChange?: (landmarks: LM[]) => void;
+  /** Référence tracée par l’utilisateur, `null` pour revenir à l’étalonnage par l’iris. */
+  onCalibrationChange?: (calibration: ManualCalibration | null) => void;
+}) {
+  const tr = useI18n();
+  const { t, m, num } = tr;
+  const { scores, ci, feedback, measures, ratios, targets } = report;
+  const norms = report.norms ?? {};
+  const calibration = report.calibration;
+  const population = report.population;
+  const rank = (k: string) => {
+    const f = population?.features[k];
+    return f && t("report.population.cell", { percentile: round1(f.percentile), z: f.z > 0 ? `+${num(f.z)}` : num(f.z) });
+  };
+  const [hover, setHover] = useState<Hover>(null);
+  const [editing, setEditing] = useState(false);
+  const [calibrating, setCalibrating] = useState(false);
+  const [hoverRegion, setHoverRegion] = useState<SymmetryRegion | null>(null);
+  const edits = aligned && landmarks && detectedLandmarks ? diffLandmarks(detectedLandmarks, landmarks, aligned.width, aligned.height) : [];
+  const canEdit = Boolean(aligned && landmarks && detectedLandmarks && onLandmarksChange);
+  const highlightedMeasures = !hover ? [] : hover.kind === "measure" ? [hover.key] : RATIO_MEASURES[hover.key] ?? [];
+  const ratioHighlighted = (k: string) =>
+    hover?.kind === "ratio" ? hover.key === k : hover?.kind === "measure" ? (RATIO_MEASURES[k] ?? []).includes(hover.key) : false;
+  const hoverMeasure = (key: string) => (on: boolean) => setHover(on ? { kind: "measure", key } : null);
+  return (
+    <>
+      <section className="mt-10 md:mt-14 grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardBody>
+            <h2 className="text-lg font-medium">{t("report.results")}</h2>
+            <p className="mt-1 text-xs text-neutral-600">
+              {t("report.profile", { name: tr.methodologyName(report.methodology), version: report.methodology.version })}
+            </p>
+            {report.temporal && (
+              <p className="mt-1 text-xs text-neutral-600">
+                {t("report.temporal", { kept: report.temporal.kept, sampled: report.temporal.sampled, time: num(report.temporal.visualTime, 1) })}
+              </p>
+            )}
+            <div className="mt-5 grid gap-5">
+              {SCORE_KEYS.map((k) => (
+                <Metric key={k} label={t(`score.${k}`)} value={scores[k]} ci={ci[k]} max={SCORE_MAX[k]} />
+              ))}
+            </div>
+            <p className="mt-3 text-xs text-neutral-600">{m(uniquenessNote(report, tr.cohortLabel))}</p>
+            {report.uncertainty.warning && <p className="mt-2 text-xs text-amber-700">{m(report.uncertainty.warning)}</p>}
+            <div className="mt-5">
+              <RadarChart report={report} />
+            </div>
+            <div className="mt-5 rounded-xl border border-neutral-200 p-4 text-sm">
+              <div className="font-medium text-neutral-900">{t("report.pose.title")}</div>
+              {report.pose ? (
+                <p className="mt-1 tabular-nums text-neutral-700">
+                  {t("report.pose.angles", report.pose)}
+                  {report.poseNormalized && <span className="text-neutral-500"> — {t("report.pose.normalized")}</span>}
+                </p>
+              ) : (
+                <p className="mt-1 text-neutral-500">{t("report.pose.unavailable")}</p>
+              )}
+              {report.poseWarnings.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-amber-700">
+                  {report.poseWarnings.map((w, i) => <li key={i}>{m(w)}</li>)}
+                </ul>
+              )}
+            </div>
+            {report.quality && (
+              <div className="mt-4">
+                <QualityPanel quality={report.quality} />
+              </div>
+            )}
+          </CardBody>
+        </Card>
+
+        <Card>
+          <CardBody>
+            <h2 className="text-lg font-medium">{t("report.conclusions")}</h2>
+            <div className="mt-4 grid gap-2 rounded-xl bg-neutral-50 border border-neutral-200 p-4 text-sm leading-6 text-neutral-800">
+              {feedback.map((f, i) => <p key={i}>{m(f)}</p>)}
+            </div>
+            <details className="group mt-5">
+              <summary className="cursor-pointer text-sm font-medium text-neutral-900">{t("report.limits.title")}</summary>
+              <p className="mt-2 text-sm text-neutral-700">{t("report.limits.body")}</p>
+            </details>
+          </CardBody>
+        </Card>
+      </section>
+
+      <section className="mt-10 md:mt-14">
+        <h2 className="text-lg font-medium">{t(report.temporal ? "chart.histogram.titleTemporal" : "chart.histogram.title")}</h2>
+        <p className="mt-1 text-sm text-neutral-700">{t(report.temporal ? "chart.histogram.hintTemporal" : "chart.histogram.hint")}</p>
+        <div className="mt-4">
+          <ScoreHistograms report={report} />
+        </div>
+      </section>
+
+      <div className="mt-10 md:mt-14 grid gap-6 md:grid-cols-5">
+        {aligned && landmarks && (
+          <section className="md:col-span-2">
+            <div className="md:sticky md:top-4">
+              <div className="flex items-baseline justify-between gap-3">
+                <h2 className="text-lg font-medium">{t("report.points.title")}</h2>
+                {canEdit && (
+                  <Button size="sm" variant={editing ? "primary" : "outline"} onClick={() => { setEditing(!editing); setCalibrating(false); }}>
+                    {editing ? t("report.points.done") : t("report.points.edit")}
+                  </Button>
+                )}
+              </div>
+              <p className="mt-1 text-sm text-neutral-700">
+                {calibrating ? t("report.points.calibrateHint") : editing ? t("report.points.editHint") : t("report.points.hoverHint")}
+              </p>
+              <div className="mt-4">
+                {calibrating && onCalibrationChange ? (
+                  <CalibrationTool
+                    aligned={aligned}
+                    initial={calibration?.method === "manual" && calibration.segment ? { segment: calibration.segment, lengthMm: calibration.referenceMm } : null}
+                    onApply={(c) => { onCalibrationChange(c); setCalibrating(false); }}
+                    onCancel={() => setCalibrating(false)}
+                  />
+                ) : editing && detectedLandmarks && onLandmarksChange ? (
+                  <LandmarkEditor aligned={aligned} landmarks={landmarks} detected={detectedLandmarks} onCommit={onLandmarksChange} />
+                ) : (
+                  <MeasureOverlay
+                    aligned={aligned}
+                    landmarks={landmarks}
+                    highlighted={highlightedMeasures}
+                    onHoverMeasure={(k) => setHover(k ? { kind: "measure", key: k } : null)}
+                    symmetry={report.symmetry}
+                    highlightedRegion={hoverRegion}
+                  />
+                )}
+              </div>
+              {edits.length > 0 && (
+                <div className="mt-4 rounded-xl border border-amber-300 bg-amber-50 p-4 text-sm">
+                  <div className="font-medium text-amber-900">
+                    {t("report.edits.count", { count: edits.length })}
+                  </div>
+                  <ul className="mt-2 grid gap-1 text-amber-900">
+                    {edits.map((e) => (
+                      <li key={e.index} className="flex justify-between gap-3">
+                        <span>{tr.landmark(e.index)} ({e.index})</span>
+                        <span className="tabular-nums">
+                          {t("report.edits.detail", { distance: round1(e.distance), dx: round1(e.dx), dy: round1(e.dy) })}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          </section>
+        )}
+
+        <div className={aligned && landmarks ? "md:col-span-3" : "md:col-span-5"}>
+          {/* Mesures Faciales détaillées */}
+          <section className="mt-10 md:mt-14 first:mt-0">
+            <h2 className="text-lg font-medium">{t("report.measures.title")}</h2>
+            <p className="mt-1 text-sm text-neutral-700">{t(calibration ? "report.measures.hintMm" : "report.measures.hint")}</p>
+            {population && DISTANCE_MEASURES.some((d) => population.features[d.id]) && <p className="mt-1 text-xs text-neutral-600">{t("report.measures.populationHint", { name: tr.cohortLabel(population.ref) })}</p>}
+            <div className="mt-4 rounded-xl border border-neutral-200 p-4 text-sm">
+              <div className="flex flex-wrap items-baseline justify-between gap-3">
+                <span className="font-medium text-neutral-900">{t("report.calibration.title")}</span>
+                {aligned && onCalibrationChange && (
+                  <span className="flex gap-2">
+                    {calibration?.method === "manual" && (
+                      <Button size="sm" variant="outline" onClick={() => { onCalibrationChange(null); setCalibrating(false); }}>{t("report.calibration.useIris")}</Button>
+                    )}
+                    <Button size="sm" variant={calibrating ? "primary" : "outline"} onClick={() => { setCalibrating(!calibrating); setEditing(false); }}>{t("report.calibration.draw")}</Button>
+                  </span>
+                )}
+              </div>
+              <p className="mt-1 tabular-nums text-neutral-700">
+                {m(calibrationNote(calibration))}
+              </p>
+              {calibration && <p className="mt-1 text-xs text-neutral-600">{t("report.calibration.uncertainty")}</p>}
+              {calibration?.warning && <p className="mt-2 text-amber-700">{m(calibration.warning)}</p>}
+            </div>
+            <div className="mt-4 grid gap-4 md:grid-cols-2">
+              {DISTANCE_MEASURES.map(({ id: k, unit }) => (
+                <Measure
+                  key={k}
+                  label={tr.measure(k)}
+                  value={calibration?.measures[k] ?? measures[k]}
+                  ci={calibration?.measureCI[k]}
+                  unit={calibration && k in calibration.measures ? "mm" : unit}
+                  title={definitionText(tr, k)}
+                  detail={[calibration && k in calibration.measures && t("report.measures.pixels", { value: num(round2(measures[k])) }), rank(k)].filter(Boolean).join(" · ") || undefined}
+                  highlighted={highlightedMeasures.includes(k)}
+                  onHover={hoverMeasure(k)}
+                />
+              ))}
+            </div>
+          </section>
+
+          {/* Ratios détaillés avec cibles et erreur relative */}
+          <section className="mt-10 md:mt-14 first:mt-0">
+            <h2 className="text-lg font-medium">{t("report.ratios.title")}</h2>
+            <p className="mt-1 text-sm text-neutral-700">{t("report.ratios.hint")}</p>
+            <div className="mt-4 rounded-xl border border-neutral-200 bg-white p-4">
+              <DeviationChart
+                report={report}
+                highlighted={hover?.kind === "ratio" ? hover.key : null}
+                onHover={(k) => setHover(k ? { kind: "ratio", key: k } : null)}
+              />
+            </div>
+            <div className="mt-4 overflow-hidden rounded-xl border border-neutral-200 bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-neutral-50 text-neutral-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium">{t("report.ratios.ratio")}</th>
+                    <th className="px-4 py-3 text-right font-medium">{t("report.ratios.measured")}</th>
+                    <th className="px-4 py-3 text-right font-medium">{t("report.ratios.reference")}</th>
+                    <th className="px-4 py-3 text-right font-medium">{t("report.ratios.deviation")}</th>
+                    {population && <th className="px-4 py-3 text-right font-medium">{t("report.ratios.population")}</th>}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-100">
+                  {Object.keys(ratios).map((k) => {
+                    const val = ratios[k];
+                    const tgt = targets[k];
+                    const norm = norms[k];
+                    const def = measureDef(k);
+                    const unit = def?.unit === "°" ? "°" : "";
+                    const rel = typeof tgt === "number" ? (tgt > 0 ? Math.abs(val - tgt) / tgt : 1) : norm ? normDeviation(val, norm) : null;
+                    return (
+                      <tr
+                        key={k}
+                        className={ratioHighlighted(k) ? "bg-neutral-100" : "hover:bg-neutral-50/60"}
+                        onMouseEnter={() => setHover({ kind: "ratio", key: k })}
+                        onMouseLeave={() => setHover(null)}
+                      >
+                        <td className="px-4 py-3 text-neutral-800" title={definitionText(tr, k)}>
+                          {tr.measure(k)}
+                          {def?.golden && <span className="ml-1 text-amber-600">★</span>}
+                        </td>
+                        <td className="px-4 py-3 text-right tabular-nums">{num(round3(val))}{unit}</td>
+                        <td className="px-4 py-3 text-right tabular-nums">
+                          {typeof tgt === "number" ? `${num(round3(tgt))}${unit}` : ""}
+                          {norm && <span className="block text-xs text-neutral-500">{num(norm[0])}–{num(norm[1])}{unit}</span>}
+                          {typeof tgt !== "number" && !norm && "—"}
+                        </td>
+                        <td className="px-4 py-3 text-right tabular-nums">
+                          {rel === null ? "—" : typeof tgt !== "number" && rel === 0 ? t("report.ratios.inRange") : `${num(round3(rel * 100))}%`}
+                        </td>
+                        {population && <td className="px-4 py-3 text-right tabular-nums">{rank(k) || "—"}</td>}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+
+          <section className="mt-10 md:mt-14 first:mt-0">
+            <h2 className="text-lg font-medium">{t("report.symmetry.title")}</h2>
+            <p className="mt-1 text-sm text-neutral-700">
+              {t("report.symmetry.hint", { angle: report.symmetry.midline.angleDeg, offset: report.symmetry.midline.offsetPx })}
+            </p>
+            <div className="mt-4 overflow-hidden rounded-xl border border-neutral-200 bg-white">
+              <table className="w-full text-sm">
+                <thead className="bg-neutral-50 text-neutral-800">
+                  <tr>
+                    <th className="px-4 py-3 text-left font-medium">{t("report.symmetry.region")}</th>
+                    <th className="px-4 py-3 text-right font-medium">{t("report.symmetry.score")}</th>
+                    <th className="px-4 py-3 text-right font-medium">{t("report.symmetry.deviation")}</th>
+                    <th className="px-4 py-3 text-left font-medium">{t("report.symmetry.direction")}</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-neutral-100">
+                  {SYMMETRY_REGIONS.map((r) => {
+                    const reg = report.symmetry.regions[r];
+                    return (
+                      <tr
+                        key={r}
+                        className={hoverRegion === r ? "bg-neutral-100" : "hover:bg-neutral-50/60"}
+                        onMouseEnter={() => setHoverRegion(r)}
+                        onMouseLeave={() => setHoverRegion(null)}
+                      >
+                        <td className="px-4 py-3 text-neutral-800">{t(`region.${r}`)}</td>
+                        <td className="px-4 py-3 text-right tabular-nums">{num(reg.score)}</td>
+                        <td className="px-4 py-3 text-right tabular-nums">{num(reg.deviation)} %</td>
+                        <td className="px-4 py-3 text-neutral-700">{describeDeviation(reg).map(m).join(", ") || t("deviation.none")}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        </div>
+      </div>
+
+      {aligned && landmarks && (
+        <section className="mt-10 md:mt-14">
+          <h2 className="text-lg font-medium">{t("report.profiles.title")}</h2>
+          <p className="mt-1 text-sm text-neutral-700">{t("report.profiles.hint")}</p>
+          <SymmetryViews aligned={aligned} landmarks={landmarks} />
+        </section>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,40 @@
+import { useMemo } from "react";
+import { useI18n } from "../hooks/useI18n";
+import type { FaceResult } from "../utils/detection";
+import { SCORE_KEYS, SCORE_MAX } from "../utils/labels";
+import { Card, CardBody } from "./Card";
+import { Metric } from "./Metric";
+
+/** Carte compacte d’un visage, pour la vue côte à côte. */
+export function FaceSummary({ face, onOpen }: { face: FaceResult; onOpen?: () => void }) {
+  const { t, m } = useI18n();
+  const report = face.report;
+  const thumb = useMemo(() => face.aligned?.toDataURL("image/jpeg", 0.8), [face.aligned]);
+  return (
+    <Card>
+      <CardBody className="p-4">
+        <div className="flex items-baseline justify-between">
+          <div className="text-sm font-medium">{t("app.face", { id: face.id })}</div>
+          {face.report && onOpen && (
+            <button onClick={onOpen} className="text-xs text-neutral-600 underline hover:text-neutral-900">
+              {t("report.detailed")}
+            </button>
+          )}
+        </div>
+        {thumb && <img src={thumb} alt={t("report.alignedAlt", { id: face.id })} className="mt-3 w-full rounded-xl border border-neutral-200" />}
+        {report ? (
+          <div className="mt-4 grid gap-3">
+            {SCORE_KEYS.map((k) => (
+              <Metric key={k} label={t(`score.short.${k}`)} value={report.scores[k]} ci={report.ci[k]} max={SCORE_MAX[k]} />
+            ))}
+          </div>
+        ) : (
+          <ul className="mt-3 list-disc pl-5 text-sm text-amber-700">
+            {face.flags.map((f, i) => <li key={i}>{m(f)}</li>)}
+            {face.error && <li className="text-red-700">{m(face.error)}</li>}
+          </ul>
+        )}
+      </CardBody>
+    </Card>
+  );
+}
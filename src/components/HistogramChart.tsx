@@ -0,0 +1,64 @@
+import { useId } from "react";
+import { quantile, type ScoreReport } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { histogram } from "../utils/charts";
+import { SCORE_KEYS } from "../utils/labels";
+
+const W = 300, H = 150;
+const PAD = { left: 8, right: 8, top: 18, bottom: 22 };
+const BINS = 20;
+
+/** Distribution Monte-Carlo d’un score : histogramme, valeur mesurée et bornes de l’IC95. */
+export function HistogramChart({ label, values, value, interval }: { label: string; values: number[]; value: number; interval?: [number, number] }) {
+  const { t, num } = useI18n();
+  const id = useId();
+  const lo = Math.min(...values, value), hi = Math.max(...values, value);
+  const bins = histogram(values, BINS, lo, hi);
+  const peak = Math.max(...bins.map((b) => b.count), 1);
+  const from = bins[0].from, to = bins[bins.length - 1].to;
+  const x = (v: number) => PAD.left + ((v - from) / (to - from)) * (W - PAD.left - PAD.right);
+  const y = (c: number) => H - PAD.bottom - (c / peak) * (H - PAD.top - PAD.bottom);
+  const fmt = (v: number) => num(v, to - from >= 10 ? 0 : to - from >= 1 ? 1 : 2);
+  const median = quantile([...values].sort((a, b) => a - b), 0.5);
+  const summary = t(interval ? "chart.histogram.summaryCI" : "chart.histogram.summary", {
+    label,
+    samples: values.length,
+    median: fmt(median),
+    value: fmt(value),
+    low: interval ? fmt(interval[0]) : "",
+    high: interval ? fmt(interval[1]) : "",
+  });
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full" role="img" tabIndex={0} aria-labelledby={`${id}t`}>
+      <title id={`${id}t`}>{summary}</title>
+      <text x={PAD.left} y={12} fontSize={11} fontWeight={600} fill="#262626">{label}</text>
+      {bins.map((b, i) => (
+        <rect key={i} x={x(b.from) + 0.5} y={y(b.count)} width={Math.max(0, x(b.to) - x(b.from) - 1)} height={H - PAD.bottom - y(b.count)} fill="#2563eb" fillOpacity={0.55}>
+          <title>{t("chart.histogram.bin", { from: fmt(b.from), to: fmt(b.to), count: b.count })}</title>
+        </rect>
+      ))}
+      {interval?.map((v, i) => (
+        <line key={i} x1={x(v)} x2={x(v)} y1={PAD.top} y2={H - PAD.bottom} stroke="#525252" strokeDasharray="4 3" />
+      ))}
+      <line x1={x(value)} x2={x(value)} y1={PAD.top - 4} y2={H - PAD.bottom} stroke="#d97706" strokeWidth={2} />
+      <line x1={PAD.left} x2={W - PAD.right} y1={H - PAD.bottom} y2={H - PAD.bottom} stroke="#a3a3a3" />
+      <text x={PAD.left} y={H - 6} fontSize={10} fill="#525252">{fmt(from)}</text>
+      <text x={W - PAD.right} y={H - 6} textAnchor="end" fontSize={10} fill="#525252">{fmt(to)}</text>
+    </svg>
+  );
+}
+
+/** Un histogramme par score, ou un message si les IC sont désactivés. */
+export function ScoreHistograms({ report }: { report: Pick<ScoreReport, "scores" | "scoreIntervals" | "distributions"> }) {
+  const { t } = useI18n();
+  const keys = SCORE_KEYS.filter((k) => (report.distributions?.scores[k]?.length ?? 0) > 0);
+  if (keys.length === 0) return <p className="text-sm text-neutral-600">{t("chart.histogram.empty")}</p>;
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      {keys.map((k) => (
+        <HistogramChart key={k} label={t(`score.short.${k}`)} values={report.distributions.scores[k]!} value={report.scores[k]} interval={report.scoreIntervals?.[k]} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useMemo, useState } from "react";
+import { compareToPopulation, type PopulationModel, type ScoreKey } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { LOCALES, type MessageKey } from "../i18n";
+import type { HistoryEntry, HistoryPrefs } from "../utils/historyStore";
+import { SCORE_KEYS } from "../utils/labels";
+import { Button } from "./Button";
+import { TrendChart, type TrendPoint } from "./TrendChart";
+
+/** Indicateur suivi : `score:<clé>` ou `ratio:<identifiant>`. */
+type Series = string;
+
+/**
+ * Historique local : réglages d’enregistrement, courbe d’évolution et liste des analyses. Les
+ * rapports sont archivés bruts et situés dans la cohorte active à l’affichage.
+ */
+export function HistoryPanel({
+  entries: stored,
+  population,
+  error,
+  prefs,
+  onPrefsChange,
+  onRemove,
+  onClear,
+}: {
+  entries: HistoryEntry[];
+  population: PopulationModel | null;
+  error: MessageKey | null;
+  prefs: HistoryPrefs;
+  onPrefsChange: (prefs: HistoryPrefs) => void;
+  onRemove: (id: number) => void;
+  onClear: () => void;
+}) {
+  const tr = useI18n();
+  const { t, num } = tr;
+  const date = (iso: string) => new Date(iso).toLocaleString(LOCALES[tr.locale].intl);
+  const entries = useMemo(() => stored.map((e) => ({ ...e, report: compareToPopulation(e.report, population) })), [stored, population]);
+  const subjects = useMemo(() => [...new Set(entries.map((e) => e.subject))].sort(), [entries]);
+  const [subject, setSubject] = useState<string | null>(null);
+  const [series, setSeries] = useState<Series>("score:overall");
+  const shownSubject = subject !== null && subjects.includes(subject) ? subject : subjects[0] ?? "";
+  const shown = entries.filter((e) => e.subject === shownSubject);
+  const ratioKeys = [...new Set(shown.flatMap((e) => Object.keys(e.report.ratios)))];
+
+  const kind = series.slice(0, series.indexOf(":")), key = series.slice(series.indexOf(":") + 1);
+  const points: TrendPoint[] = shown
+    .filter((e) => (kind === "score" ? key in e.report.scores : key in e.report.ratios))
+    .map((e) => ({
+      date: new Date(e.createdAt),
+      value: kind === "score" ? e.report.scores[key as ScoreKey] : e.report.ratios[key],
+      ci: kind === "score" ? e.report.ci[key as ScoreKey] : e.report.ratioCI?.[key],
+      label: t("history.pointLabel", { file: e.fileName, name: tr.methodologyName(e.report.methodology), version: e.report.methodologyVersion }),
+    }));
+  const last = shown[shown.length - 1];
+  const target = kind === "ratio" ? last?.report.targets[key] : undefined;
+  const versions = new Set(shown.map((e) => `${e.report.methodology.id}@${e.report.methodologyVersion}`));
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-4">
+        <label className="grid gap-1 text-sm text-neutral-700">
+          {t("history.subject")}
+          <input
+            value={prefs.subject}
+            placeholder={t("history.subjectPlaceholder")}
+            onChange={(e) => onPrefsChange({ ...prefs, subject: e.target.value })}
+            className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900"
+          />
+        </label>
+        <label className="inline-flex items-center gap-2 pb-2 text-sm text-neutral-700">
+          <input type="checkbox" checked={prefs.thumbnails} onChange={(e) => onPrefsChange({ ...prefs, thumbnails: e.target.checked })} />
+          {t("history.thumbnails")}
+        </label>
+      </div>
+      <p className="mt-2 text-xs text-neutral-500">
+        {t("history.hint")}
+      </p>
+      {error && <p className="mt-2 text-sm text-red-700">{t(error)}</p>}
+
+      {entries.length === 0 ? (
+        <p className="mt-5 text-sm text-neutral-600">{t("history.empty")}</p>
+      ) : (
+        <>
+          <div className="mt-5 flex flex-wrap items-end gap-3">
+            <label className="grid gap-1 text-sm text-neutral-700">
+              {t("history.subjectFilter")}
+              <select
+                value={shownSubject}
+                onChange={(e) => setSubject(e.target.value)}
+                className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900"
+              >
+                {subjects.map((s) => <option key={s} value={s}>{s || t("history.noSubject")}</option>)}
+              </select>
+            </label>
+            <label className="grid gap-1 text-sm text-neutral-700">
+              {t("history.indicator")}
+              <select
+                value={series}
+                onChange={(e) => setSeries(e.target.value)}
+                className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900"
+              >
+                <optgroup label={t("history.scores")}>
+                  {SCORE_KEYS.map((k) => <option key={k} value={`score:${k}`}>{t(`score.${k}`)}</option>)}
+                </optgroup>
+                <optgroup label={t("history.ratios")}>
+                  {ratioKeys.map((k) => <option key={k} value={`ratio:${k}`}>{tr.measure(k)}</option>)}
+                </optgroup>
+              </select>
+            </label>
+          </div>
+
+          <div className="mt-4 rounded-xl border border-neutral-200 bg-white p-3">
+            <TrendChart points={points} target={target} />
+          </div>
+          {versions.size > 1 && (
+            <p className="mt-2 text-xs text-amber-700">
+              {t("history.mixedVersions")}
+            </p>
+          )}
+
+          <ul className="mt-5 divide-y divide-neutral-200 text-sm">
+            {[...shown].reverse().map((e) => (
+              <li key={e.id} className="flex items-center gap-3 py-2">
+                {e.thumbnail && <img src={e.thumbnail} alt="" className="h-12 w-12 rounded object-cover" />}
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-neutral-900">
+                    {date(e.createdAt)} — {e.fileName}{e.faceId > 1 ? t("history.entryFace", { id: e.faceId }) : ""}
+                  </div>
+                  <div className="text-xs text-neutral-600">
+                    {t("history.entrySummary", {
+                      overall: `${num(e.report.scores.overall)}${e.report.ci.overall ? ` ± ${num(e.report.ci.overall)}` : ""}`,
+                      symmetry: e.report.scores.symmetry,
+                      name: tr.methodologyName(e.report.methodology),
+                      version: e.report.methodologyVersion,
+                    })}
+                  </div>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => e.id !== undefined && onRemove(e.id)}>{t("history.remove")}</Button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-4">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => { if (confirm(t("history.confirmClear"))) onClear(); }}
+            >
+              {t("history.clear")}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
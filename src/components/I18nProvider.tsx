@@ -0,0 +1,7 @@
+import React from "react";
+import { I18nContext, useLocale } from "../hooks/useI18n";
+
+/** Fournit la langue courante et le traducteur à toute l’application. */
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  return <I18nContext.Provider value={useLocale()}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,158 @@
+import React, { useMemo, useRef, useState } from "react";
+import { KEY_LANDMARKS, MEASURE_SEGMENTS, clamp, type LM } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { Button } from "./Button";
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4];
+
+/**
+ * Édition des landmarks clés sur l’image alignée : glisser-déposer, zoom, annuler/rétablir.
+ * Chaque dépôt d’un point valide une modification transmise via `onCommit`.
+ */
+export function LandmarkEditor({
+  aligned,
+  landmarks,
+  detected,
+  onCommit,
+}: {
+  aligned: HTMLCanvasElement;
+  landmarks: LM[];
+  detected: LM[];
+  onCommit: (landmarks: LM[]) => void;
+}) {
+  const tr = useI18n();
+  const src = useMemo(() => aligned.toDataURL("image/jpeg", 0.9), [aligned]);
+  const w = aligned.width, h = aligned.height;
+  const unit = w / 400;
+
+  const [history, setHistory] = useState<LM[][]>([landmarks]);
+  const [cursor, setCursor] = useState(0);
+  const [draft, setDraft] = useState<LM[] | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null);
+  const [zoom, setZoom] = useState(0);
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  const current = draft ?? history[cursor];
+
+  const toSvg = (e: React.PointerEvent) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const p = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    return { x: clamp(p.x / w, 0, 1), y: clamp(p.y / h, 0, 1) };
+  };
+
+  const commit = (next: LM[]) => {
+    const kept = history.slice(0, cursor + 1);
+    setHistory([...kept, next]);
+    setCursor(kept.length);
+    onCommit(next);
+  };
+
+  const move = (index: number, e: React.PointerEvent) => {
+    const p = toSvg(e);
+    if (!p) return;
+    setDraft((d) => (d ?? history[cursor]).map((q, i) => (i === index ? { ...q, x: p.x, y: p.y } : q)));
+  };
+
+  const release = () => {
+    if (dragging !== null && draft) commit(draft);
+    setDragging(null);
+    setDraft(null);
+  };
+
+  const undo = () => {
+    if (cursor === 0) return;
+    setCursor(cursor - 1);
+    onCommit(history[cursor - 1]);
+  };
+  const redo = () => {
+    if (cursor >= history.length - 1) return;
+    setCursor(cursor + 1);
+    onCommit(history[cursor + 1]);
+  };
+  const reset = () => commit(detected);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+    e.preventDefault();
+    if (e.shiftKey) redo();
+    else undo();
+  };
+
+  return (
+    <div tabIndex={0} onKeyDown={onKeyDown} className="outline-none">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant="outline" disabled={cursor === 0} onClick={undo}>{tr.t("editor.undo")}</Button>
+        <Button size="sm" variant="outline" disabled={cursor >= history.length - 1} onClick={redo}>{tr.t("editor.redo")}</Button>
+        <Button size="sm" variant="outline" onClick={reset}>{tr.t("editor.reset")}</Button>
+        <span className="ml-auto inline-flex items-center gap-2 text-xs text-neutral-700">
+          {tr.t("editor.zoom")}
+          <Button size="sm" variant="outline" disabled={zoom === 0} onClick={() => setZoom(zoom - 1)}>−</Button>
+          <span className="tabular-nums">×{ZOOM_LEVELS[zoom]}</span>
+          <Button size="sm" variant="outline" disabled={zoom === ZOOM_LEVELS.length - 1} onClick={() => setZoom(zoom + 1)}>+</Button>
+        </span>
+      </div>
+
+      <div className="mt-3 max-h-[640px] overflow-auto rounded-xl border border-neutral-200 bg-white">
+        <div className="relative" style={{ width: `${ZOOM_LEVELS[zoom] * 100}%` }}>
+          <img src={src} alt={tr.t("editor.alt")} className="block w-full select-none" draggable={false} />
+          <svg
+            ref={svgRef}
+            viewBox={`0 0 ${w} ${h}`}
+            className="absolute inset-0 h-full w-full touch-none"
+            onPointerMove={(e) => dragging !== null && move(dragging, e)}
+            onPointerUp={release}
+            onPointerLeave={release}
+          >
+            {Object.entries(MEASURE_SEGMENTS).map(([name, [i, j]]) => (
+              <line
+                key={name}
+                x1={current[i].x * w}
+                y1={current[i].y * h}
+                x2={current[j].x * w}
+                y2={current[j].y * h}
+                stroke="#111827"
+                strokeOpacity={0.35}
+                strokeWidth={unit}
+              />
+            ))}
+            {KEY_LANDMARKS.map((i) => {
+              const p = current[i], d = detected[i];
+              const moved = Math.hypot((p.x - d.x) * w, (p.y - d.y) * h) > 0.5;
+              const r = (dragging === i ? 6 : 4) * unit / ZOOM_LEVELS[zoom];
+              return (
+                <g key={i}>
+                  {moved && (
+                    <>
+                      <line x1={d.x * w} y1={d.y * h} x2={p.x * w} y2={p.y * h} stroke="#d97706" strokeWidth={unit / ZOOM_LEVELS[zoom]} />
+                      <circle cx={d.x * w} cy={d.y * h} r={r / 2} fill="#9ca3af" />
+                    </>
+                  )}
+                  <circle
+                    cx={p.x * w}
+                    cy={p.y * h}
+                    r={r}
+                    fill={moved ? "#d97706" : "#10b981"}
+                    stroke="#fff"
+                    strokeWidth={unit / ZOOM_LEVELS[zoom]}
+                    className="cursor-grab"
+                    onPointerDown={(e) => {
+                      e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId);
+                      setDragging(i);
+                    }}
+                  >
+                    <title>{`${tr.landmark(i)} (${i})`}</title>
+                  </circle>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+      </div>
+      <p className="mt-2 text-xs text-neutral-500">
+        {tr.t("editor.hint")}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { useMemo, useState } from "react";
+import { MEASURE_SEGMENTS, symmetricPairs, type LM, type SymmetryOut, type SymmetryRegion } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+
+/** Couleurs attribuées aux segments dans l’ordre du catalogue. */
+const SEGMENT_COLORS = ["#2563eb", "#7c3aed", "#db2777", "#ea580c", "#0d9488", "#ca8a04", "#4f46e5", "#be123c", "#15803d", "#0369a1"];
+
+type Layers = { points: boolean; segments: boolean; pairs: boolean; heatmap: boolean };
+
+/** Vert (écart nul) → rouge (écart ≥ 6 % de la largeur du visage). */
+const heatColor = (deviation: number) => `hsl(${Math.round(140 * (1 - Math.min(deviation / 6, 1)))} 80% 45%)`;
+
+/**
+ * Image alignée avec, en surimpression, les points FaceMesh, les segments mesurés
+ * et les paires symétriques. `highlighted` met en avant les segments d’une mesure ou d’un ratio.
+ * La carte d’asymétrie colore chaque paire bilatérale selon son écart à la ligne médiane ajustée.
+ */
+export function MeasureOverlay({
+  aligned,
+  landmarks,
+  highlighted,
+  onHoverMeasure,
+  symmetry,
+  highlightedRegion,
+}: {
+  aligned: HTMLCanvasElement;
+  landmarks: LM[];
+  highlighted: string[];
+  onHoverMeasure?: (measure: string | null) => void;
+  symmetry?: SymmetryOut;
+  highlightedRegion?: SymmetryRegion | null;
+}) {
+  const tr = useI18n();
+  const [layers, setLayers] = useState<Layers>({ points: true, segments: true, pairs: false, heatmap: false });
+  const showHeat = Boolean(symmetry) && (layers.heatmap || Boolean(highlightedRegion));
+  const src = useMemo(() => aligned.toDataURL("image/jpeg", 0.9), [aligned]);
+  const w = aligned.width, h = aligned.height;
+  const pt = (i: number) => [landmarks[i].x * w, landmarks[i].y * h] as const;
+  const unit = w / 400;
+
+  const toggle = (k: keyof Layers) => setLayers((l) => ({ ...l, [k]: !l[k] }));
+  const layerLabels: Record<keyof Layers, string> = {
+    points: tr.t("overlay.points"),
+    segments: tr.t("overlay.segments"),
+    pairs: tr.t("overlay.pairs"),
+    heatmap: tr.t("overlay.heatmap"),
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-3 text-xs text-neutral-700">
+        {(Object.keys(layerLabels) as Array<keyof Layers>).map((k) => (
+          <label key={k} className="inline-flex items-center gap-1.5">
+            <input type="checkbox" checked={layers[k]} onChange={() => toggle(k)} />
+            {layerLabels[k]}
+          </label>
+        ))}
+      </div>
+      <div className="relative mt-3 overflow-hidden rounded-xl border border-neutral-200 bg-white">
+        <img src={src} alt={tr.t("report.aligned")} className="block w-full" />
+        <svg viewBox={`0 0 ${w} ${h}`} className="absolute inset-0 h-full w-full">
+          {layers.pairs &&
+            symmetricPairs.map(([i, j]) => {
+              const [x1, y1] = pt(i), [x2, y2] = pt(j);
+              return <line key={`${i}-${j}`} x1={x1} y1={y1} x2={x2} y2={y2} stroke="#0ea5e9" strokeOpacity={0.6} strokeWidth={unit} strokeDasharray={`${4 * unit} ${3 * unit}`} />;
+            })}
+          {showHeat && symmetry && (
+            <>
+              <line
+                x1={symmetry.midline.top.x * w}
+                y1={symmetry.midline.top.y * h}
+                x2={symmetry.midline.bottom.x * w}
+                y2={symmetry.midline.bottom.y * h}
+                stroke="#111827"
+                strokeWidth={unit}
+                strokeDasharray={`${6 * unit} ${4 * unit}`}
+              />
+              {symmetry.pairs.map((p) => {
+                const dimmed = highlightedRegion && p.region !== highlightedRegion;
+                return [p.left, p.right].map((i) => (
+                  <circle key={i} cx={landmarks[i].x * w} cy={landmarks[i].y * h} r={5 * unit} fill={heatColor(p.deviation)} fillOpacity={dimmed ? 0.1 : 0.75}>
+                    <title>{`${i} ↔ ${i === p.left ? p.right : p.left} : ${p.deviation} %`}</title>
+                  </circle>
+                ));
+              })}
+            </>
+          )}
+          {layers.points &&
+            landmarks.map((p, i) => <circle key={i} cx={p.x * w} cy={p.y * h} r={unit} fill="#10b981" fillOpacity={0.7} />)}
+          {layers.segments &&
+            Object.entries(MEASURE_SEGMENTS).map(([name, [i, j]], n) => {
+              const [x1, y1] = pt(i), [x2, y2] = pt(j);
+              const active = highlighted.includes(name);
+              const dimmed = highlighted.length > 0 && !active;
+              const color = SEGMENT_COLORS[n % SEGMENT_COLORS.length];
+              return (
+                <g
+                  key={name}
+                  className="cursor-pointer"
+                  opacity={dimmed ? 0.25 : 1}
+                  onMouseEnter={() => onHoverMeasure?.(name)}
+                  onMouseLeave={() => onHoverMeasure?.(null)}
+                >
+                  <title>{`${tr.measure(name)} (${i} → ${j})`}</title>
+                  {/* Zone de survol élargie */}
+                  <line x1={x1} y1={y1} x2={x2} y2={y2} stroke="transparent" strokeWidth={10 * unit} />
+                  <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth={(active ? 4 : 2) * unit} strokeLinecap="round" />
+                  <circle cx={x1} cy={y1} r={(active ? 5 : 3) * unit} fill={color} />
+                  <circle cx={x2} cy={y2} r={(active ? 5 : 3) * unit} fill={color} />
+                </g>
+              );
+            })}
+        </svg>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,291 @@
+import React, { useRef, useState } from "react";
+import { msg, validateMethodology, type Message, type Methodology } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { downloadJSON } from "../utils/download";
+import { newMethodologyId } from "../utils/methodologyStore";
+import { Button } from "./Button";
+
+/** Champ numérique ; son libellé est la clé `methodology.field.<groupe>.<clé>`. */
+type Field = { path: [keyof Methodology, string]; step?: number };
+
+const FIELD_GROUPS: Array<{ id: "weights" | "eyeSpacing" | "quality" | "uncertainty" | "pose"; fields: Field[] }> = [
+  {
+    id: "weights",
+    fields: [
+      { path: ["weights", "symmetry"], step: 0.01 },
+      { path: ["weights", "golden"], step: 0.01 },
+      { path: ["weights", "harmony"], step: 0.01 },
+    ],
+  },
+  {
+    id: "eyeSpacing",
+    fields: [
+      { path: ["eyeSpacing", "low"], step: 0.01 },
+      { path: ["eyeSpacing", "idealMin"], step: 0.01 },
+      { path: ["eyeSpacing", "idealMax"], step: 0.01 },
+      { path: ["eyeSpacing", "high"], step: 0.01 },
+    ],
+  },
+  {
+    id: "quality",
+    fields: [
+      { path: ["quality", "laplacianVarMin"], step: 5 },
+      { path: ["quality", "luminanceMin"], step: 1 },
+      { path: ["quality", "luminanceMax"], step: 1 },
+      { path: ["quality", "contrastMin"], step: 1 },
+      { path: ["quality", "lightingImbalanceMax"], step: 0.01 },
+      { path: ["quality", "faceWidthMinPx"], step: 10 },
+      { path: ["quality", "eyeOpennessMin"], step: 0.01 },
+      { path: ["quality", "mouthOpennessMax"], step: 0.01 },
+      { path: ["quality", "fairCIFactor"], step: 0.1 },
+      { path: ["quality", "poorCIFactor"], step: 0.1 },
+    ],
+  },
+  {
+    id: "uncertainty",
+    fields: [
+      { path: ["uncertainty", "repeats"], step: 1 },
+      { path: ["uncertainty", "jitterSigma"], step: 0.001 },
+      { path: ["uncertainty", "seed"], step: 1 },
+      { path: ["faces", "minSizePx"], step: 10 },
+      { path: ["faces", "maxOutsideFraction"], step: 0.01 },
+    ],
+  },
+  {
+    id: "pose",
+    fields: [
+      { path: ["pose", "maxYawDeg"], step: 1 },
+      { path: ["pose", "maxPitchDeg"], step: 1 },
+      { path: ["pose", "maxRollDeg"], step: 1 },
+    ],
+  },
+];
+
+function NumberField({ label, value, step, disabled, onChange }: { label: string; value: number; step?: number; disabled: boolean; onChange: (v: number) => void }) {
+  return (
+    <label className="grid gap-1 text-xs text-neutral-700">
+      {label}
+      <input
+        type="number"
+        step={step}
+        value={Number.isFinite(value) ? value : ""}
+        disabled={disabled}
+        onChange={(e) => onChange(e.target.valueAsNumber)}
+        className="rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm tabular-nums text-neutral-900 disabled:bg-neutral-50"
+      />
+    </label>
+  );
+}
+
+/** Sélection, édition, import et export des profils méthodologiques. */
+export function MethodologyPanel({
+  all,
+  active,
+  onSelect,
+  onSave,
+  onRemove,
+  onImport,
+}: {
+  all: Methodology[];
+  active: Methodology;
+  onSelect: (id: string) => void;
+  onSave: (m: Methodology) => Message[];
+  onRemove: (id: string) => void;
+  onImport: (text: string) => { errors: Message[] };
+}) {
+  const tr = useI18n();
+  const { t, m } = tr;
+  const [draft, setDraft] = useState<Methodology | null>(null);
+  const [errors, setErrors] = useState<Message[]>([]);
+  const importRef = useRef<HTMLInputElement | null>(null);
+  const shown = draft ?? active;
+  const editable = Boolean(draft);
+
+  const setField = ([group, key]: Field["path"], v: number) =>
+    setDraft((d) => d && { ...d, [group]: { ...(d[group] as Record<string, number>), [key]: v } });
+
+  const duplicate = () => {
+    const copy: Methodology = { ...active, id: newMethodologyId(), name: t("methodology.copySuffix", { name: tr.methodologyName(active) }), version: "1.0.0" };
+    delete copy.builtIn;
+    setDraft(copy);
+    setErrors([]);
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const errs = onSave(draft);
+    setErrors(errs);
+    if (!errs.length) {
+      onSelect(draft.id);
+      setDraft(null);
+    }
+  };
+
+  const onImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const f = e.target.files?.[0];
+    e.target.value = "";
+    if (!f) return;
+    setErrors(onImport(await f.text()).errors);
+  };
+
+  const liveErrors = draft ? validateMethodology(draft).errors : [];
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="grid gap-1 text-sm text-neutral-700">
+          {t("methodology.active")}
+          <select
+            value={active.id}
+            disabled={editable}
+            onChange={(e) => onSelect(e.target.value)}
+            className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900"
+          >
+            {all.map((p) => (
+              <option key={p.id} value={p.id}>
+                {tr.methodologyName(p)} — v{p.version}{p.builtIn ? "" : ` ${t("methodology.custom")}`}
+              </option>
+            ))}
+          </select>
+        </label>
+        {!editable && (
+          <>
+            <Button size="sm" variant="outline" onClick={duplicate}>{t("methodology.duplicate")}</Button>
+            {!active.builtIn && (
+              <>
+                <Button size="sm" variant="outline" onClick={() => { setDraft({ ...active }); setErrors([]); }}>{t("methodology.edit")}</Button>
+                <Button size="sm" variant="outline" onClick={() => onRemove(active.id)}>{t("methodology.remove")}</Button>
+              </>
+            )}
+            <Button size="sm" variant="outline" onClick={() => downloadJSON(`methodologie-${active.id}-v${active.version}.json`, active)}>
+              {t("methodology.export")}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => importRef.current?.click()}>{t("methodology.import")}</Button>
+            <input ref={importRef} type="file" accept="application/json,.json" className="hidden" onChange={onImportFile} />
+          </>
+        )}
+      </div>
+
+      {!editable && tr.methodologyDescription(shown) && <p className="mt-3 text-sm text-neutral-600">{tr.methodologyDescription(shown)}</p>}
+
+      {editable && draft && (
+        <div className="mt-4 grid gap-3 md:grid-cols-3">
+          <label className="grid gap-1 text-xs text-neutral-700 md:col-span-2">
+            {t("methodology.name")}
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm text-neutral-900"
+            />
+          </label>
+          <label className="grid gap-1 text-xs text-neutral-700">
+            {t("methodology.version")}
+            <input
+              value={draft.version}
+              onChange={(e) => setDraft({ ...draft, version: e.target.value })}
+              className="rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm text-neutral-900"
+            />
+          </label>
+        </div>
+      )}
+
+      <div className="mt-5 grid gap-5 md:grid-cols-2">
+        {FIELD_GROUPS.map((g) => (
+          <fieldset key={g.id} className="rounded-xl border border-neutral-200 p-4">
+            <legend className="px-1 text-xs font-medium text-neutral-800">{t(`methodology.group.${g.id}`)}</legend>
+            <div className="grid grid-cols-2 gap-3">
+              {g.fields.map((f) => (
+                <NumberField
+                  key={f.path.join(".")}
+                  label={m(msg(`methodology.field.${f.path.join(".")}`))}
+                  step={f.step}
+                  disabled={!editable}
+                  value={(shown[f.path[0]] as Record<string, number>)[f.path[1]]}
+                  onChange={(v) => setField(f.path, v)}
+                />
+              ))}
+            </div>
+          </fieldset>
+        ))}
+        <fieldset className="rounded-xl border border-neutral-200 p-4">
+          <legend className="px-1 text-xs font-medium text-neutral-800">{t("methodology.group.gates")}</legend>
+          <div className="grid gap-3">
+            <label className="grid gap-1 text-xs text-neutral-700">
+              {t("methodology.uncertaintyMode")}
+              <select
+                value={shown.uncertainty.mode}
+                disabled={!editable}
+                onChange={(e) => setDraft((d) => d && { ...d, uncertainty: { ...d.uncertainty, mode: e.target.value as Methodology["uncertainty"]["mode"] } })}
+                className="rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm text-neutral-900 disabled:bg-neutral-50"
+              >
+                <option value="jitter">{t("methodology.uncertaintyMode.jitter")}</option>
+                <option value="detector">{t("methodology.uncertaintyMode.detector")}</option>
+              </select>
+            </label>
+            <label className="grid gap-1 text-xs text-neutral-700">
+              {t("methodology.onPoor")}
+              <select
+                value={shown.quality.onPoor}
+                disabled={!editable}
+                onChange={(e) => setDraft((d) => d && { ...d, quality: { ...d.quality, onPoor: e.target.value as Methodology["quality"]["onPoor"] } })}
+                className="rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm text-neutral-900 disabled:bg-neutral-50"
+              >
+                <option value="widen">{t("methodology.onPoor.widen")}</option>
+                <option value="block">{t("methodology.onPoor.block")}</option>
+              </select>
+            </label>
+            <label className="grid gap-1 text-xs text-neutral-700">
+              {t("methodology.poseGate")}
+              <select
+                value={shown.pose.gate}
+                disabled={!editable}
+                onChange={(e) => setDraft((d) => d && { ...d, pose: { ...d.pose, gate: e.target.value as Methodology["pose"]["gate"] } })}
+                className="rounded-lg border border-neutral-300 bg-white px-2 py-1.5 text-sm text-neutral-900 disabled:bg-neutral-50"
+              >
+                <option value="warn">{t("methodology.poseGate.warn")}</option>
+                <option value="refuse">{t("methodology.poseGate.refuse")}</option>
+              </select>
+            </label>
+            <label className="inline-flex items-center gap-2 text-xs text-neutral-700">
+              <input
+                type="checkbox"
+                checked={shown.pose.normalize}
+                disabled={!editable}
+                onChange={(e) => setDraft((d) => d && { ...d, pose: { ...d.pose, normalize: e.target.checked } })}
+              />
+              {t("methodology.normalize")}
+            </label>
+          </div>
+        </fieldset>
+        <fieldset className="rounded-xl border border-neutral-200 p-4 md:col-span-2">
+          <legend className="px-1 text-xs font-medium text-neutral-800">{t("methodology.group.targets")}</legend>
+          <div className="grid gap-3 md:grid-cols-3">
+            {Object.keys(shown.targets).map((k) => (
+              <NumberField
+                key={k}
+                label={tr.measure(k)}
+                step={0.001}
+                disabled={!editable}
+                value={shown.targets[k]}
+                onChange={(v) => setDraft((d) => d && { ...d, targets: { ...d.targets, [k]: v } })}
+              />
+            ))}
+          </div>
+        </fieldset>
+      </div>
+
+      {(errors.length > 0 || liveErrors.length > 0) && (
+        <ul className="mt-4 list-disc pl-5 text-sm text-red-700">
+          {[...new Set([...errors, ...liveErrors].map(m))].map((e) => <li key={e}>{e}</li>)}
+        </ul>
+      )}
+
+      {editable && (
+        <div className="mt-4 flex gap-2">
+          <Button size="sm" disabled={liveErrors.length > 0} onClick={save}>{t("methodology.save")}</Button>
+          <Button size="sm" variant="outline" onClick={() => { setDraft(null); setErrors([]); }}>{t("methodology.cancel")}</Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { round2 } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { Progress } from "./Progress";
+
+export function Metric({ label, value, max, ci }: { label: string; value: number; max: number; ci?: number }) {
+  const { num } = useI18n();
+  const pct = Math.max(0, Math.min(100, (value / max) * 100));
+  return (
+    <div className="rounded-xl border border-neutral-200 p-4 bg-white/70">
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm text-neutral-700">{label}</span>
+        <span className="text-sm font-semibold">
+          {num(value)}
+          {typeof ci === "number" ? ` ± ${num(ci)}` : ""}{max === 10 ? " / 10" : " / 100"}
+        </span>
+      </div>
+      <Progress value={pct} className="mt-3" />
+    </div>
+  );
+}
+
+export function Measure({
+  label,
+  value,
+  unit,
+  highlighted = false,
+  onHover,
+  title,
+  detail,
+  ci,
+}: {
+  label: string;
+  value: number | Record<string, number> | undefined;
+  unit?: string;
+  highlighted?: boolean;
+  onHover?: (hovering: boolean) => void;
+  title?: string;
+  /** Ligne secondaire, par exemple le rang dans la cohorte de référence. */
+  detail?: string;
+  /** Demi-largeur de l’IC95, dans l’unité de `value`. */
+  ci?: number;
+}) {
+  const { num } = useI18n();
+  const v = typeof value === "number" ? value : undefined;
+  return (
+    <div
+      title={title}
+      className={`rounded-xl border p-4 transition-colors ${highlighted ? "border-neutral-900 bg-neutral-100" : "border-neutral-200 bg-white/70"}`}
+      onMouseEnter={onHover && (() => onHover(true))}
+      onMouseLeave={onHover && (() => onHover(false))}
+    >
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm text-neutral-700">{label}</span>
+        <span className="text-sm font-semibold">{typeof v === "number" ? `${num(round2(v))}${typeof ci === "number" ? ` ± ${num(round2(ci))}` : ""}${unit ? " " + unit : ""}` : "—"}</span>
+      </div>
+      {detail && <div className="mt-1 text-right text-xs tabular-nums text-neutral-500">{detail}</div>}
+    </div>
+  );
+}
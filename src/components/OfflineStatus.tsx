@@ -0,0 +1,28 @@
+import { useI18n } from "../hooks/useI18n";
+import { useOfflineStatus } from "../hooks/useOfflineStatus";
+
+const DOT = {
+  loading: "bg-neutral-400",
+  caching: "bg-amber-500",
+  ready: "bg-emerald-600",
+  unavailable: "bg-neutral-400",
+};
+
+/** Pastille d’état du modèle et du mode hors ligne, avec la mise à jour éventuelle de l’application. */
+export function OfflineStatus({ modelReady }: { modelReady: boolean }) {
+  const { t } = useI18n();
+  const { state, needRefresh, update } = useOfflineStatus(modelReady);
+  return (
+    <div className="inline-flex items-center gap-3 text-xs text-neutral-600" role="status" aria-live="polite">
+      <span className="inline-flex items-center gap-1.5" title={t(`app.offline.${state}.hint`)}>
+        <span className={`h-2 w-2 rounded-full ${DOT[state]}`} aria-hidden />
+        {t(`app.offline.${state}`)}
+      </span>
+      {needRefresh && (
+        <button type="button" onClick={() => void update()} className="rounded-lg border border-neutral-300 bg-white px-2 py-1 text-neutral-900">
+          {t("app.offline.update")}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,8 @@
+export function Progress({ value, className = "" }: { value: number; className?: string }) {
+  const pct = Math.max(0, Math.min(100, value));
+  return (
+    <div className={`w-full h-2 rounded-full bg-neutral-200 ${className}`}>
+      <div className="h-full rounded-full bg-neutral-900 transition-[width] duration-500" style={{ width: `${pct}%` }} />
+    </div>
+  );
+}
@@ -0,0 +1,44 @@
+import type { QualityAssessment, QualityGrade } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { QUALITY_CHECK_UNITS } from "../utils/labels";
+
+const GRADE_STYLES: Record<QualityGrade, string> = {
+  good: "bg-emerald-50 text-emerald-700 border-emerald-200",
+  fair: "bg-amber-50 text-amber-800 border-amber-200",
+  poor: "bg-red-50 text-red-700 border-red-200",
+};
+
+function GradeBadge({ grade }: { grade: QualityGrade }) {
+  const { t } = useI18n();
+  return <span className={`rounded-full border px-2 py-0.5 text-xs font-medium ${GRADE_STYLES[grade]}`}>{t(`quality.grade.${grade}`)}</span>;
+}
+
+/** Contrôles qualité gradués de la région du visage, avec leurs conseils de prise de vue. */
+export function QualityPanel({ quality }: { quality: QualityAssessment }) {
+  const { t, m, num } = useI18n();
+  return (
+    <div className="rounded-xl border border-neutral-200 p-4 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <span className="font-medium text-neutral-900">{t("quality.title")}</span>
+        <GradeBadge grade={quality.grade} />
+      </div>
+      {quality.ciFactor > 1 && (
+        <p className="mt-1 text-xs text-neutral-600">{t("quality.widened", { factor: quality.ciFactor })}</p>
+      )}
+      <ul className="mt-3 grid gap-2">
+        {quality.checks.map((c) => (
+          <li key={c.id}>
+            <div className="flex items-baseline justify-between gap-3">
+              <span className="text-neutral-700">{t(`quality.check.${c.id}`)}</span>
+              <span className="inline-flex items-center gap-2 tabular-nums text-neutral-600">
+                {num(c.value)}{QUALITY_CHECK_UNITS[c.id] && ` ${QUALITY_CHECK_UNITS[c.id]}`}
+                <GradeBadge grade={c.grade} />
+              </span>
+            </div>
+            {c.recommendation && <p className="mt-0.5 text-xs text-neutral-600">{m(c.recommendation)}</p>}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
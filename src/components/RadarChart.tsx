@@ -0,0 +1,68 @@
+import { useId } from "react";
+import type { ScoreReport } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { SCORE_KEYS, SCORE_MAX } from "../utils/labels";
+
+const W = 360, H = 320;
+const CX = W / 2, CY = H / 2 + 4, R = 108;
+const RINGS = [0.25, 0.5, 0.75, 1];
+
+/** Radar des cinq indices, chacun rapporté à son maximum, avec la bande IC95 bootstrap. */
+export function RadarChart({ report }: { report: Pick<ScoreReport, "scores" | "scoreIntervals"> }) {
+  const { t } = useI18n();
+  const id = useId();
+  const angle = (i: number) => -Math.PI / 2 + (2 * Math.PI * i) / SCORE_KEYS.length;
+  const at = (i: number, f: number) => [CX + Math.cos(angle(i)) * R * f, CY + Math.sin(angle(i)) * R * f] as const;
+  const frac = (k: (typeof SCORE_KEYS)[number], v: number) => Math.max(0, Math.min(1, v / SCORE_MAX[k]));
+  const polygon = (f: (i: number) => number) => SCORE_KEYS.map((_, i) => at(i, f(i)).join(",")).join(" ");
+
+  const intervals = SCORE_KEYS.map((k) => report.scoreIntervals?.[k]);
+  const hasBand = intervals.every(Boolean);
+  const label = (k: (typeof SCORE_KEYS)[number], i: number) => {
+    const iv = intervals[i];
+    const params = { label: t(`score.short.${k}`), value: report.scores[k], max: SCORE_MAX[k] };
+    return iv ? t("chart.radar.pointCI", { ...params, low: iv[0], high: iv[1] }) : t("chart.radar.point", params);
+  };
+  const labels = SCORE_KEYS.map(label);
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full max-w-md mx-auto" role="group" aria-labelledby={`${id}t`} aria-describedby={`${id}d`}>
+      <title id={`${id}t`}>{t("chart.radar.title")}</title>
+      <desc id={`${id}d`}>{`${t("chart.radar.desc")} ${labels.join(". ")}.`}</desc>
+      {RINGS.map((f) => (
+        <polygon key={f} points={polygon(() => f)} fill="none" stroke="#e5e5e5" />
+      ))}
+      {SCORE_KEYS.map((k, i) => {
+        const [x, y] = at(i, 1);
+        const [lx, ly] = at(i, 1.16);
+        const cos = Math.cos(angle(i));
+        return (
+          <g key={k}>
+            <line x1={CX} y1={CY} x2={x} y2={y} stroke="#e5e5e5" />
+            <text x={lx} y={ly + 4} textAnchor={Math.abs(cos) < 0.2 ? "middle" : cos > 0 ? "start" : "end"} fontSize={11} fill="#525252">
+              {t(`score.short.${k}`)}
+            </text>
+          </g>
+        );
+      })}
+      {hasBand && (
+        <path
+          d={`M${polygon((i) => frac(SCORE_KEYS[i], intervals[i]![1]))}Z M${polygon((i) => frac(SCORE_KEYS[i], intervals[i]![0]))}Z`}
+          fill="#2563eb"
+          fillOpacity={0.12}
+          fillRule="evenodd"
+        />
+      )}
+      <polygon points={polygon((i) => frac(SCORE_KEYS[i], report.scores[SCORE_KEYS[i]]))} fill="#2563eb" fillOpacity={0.2} stroke="#2563eb" strokeWidth={2} />
+      {SCORE_KEYS.map((k, i) => {
+        const [x, y] = at(i, frac(k, report.scores[k]));
+        return (
+          <g key={k} tabIndex={0} role="img" aria-label={labels[i]}>
+            <title>{labels[i]}</title>
+            <circle cx={x} cy={y} r={4.5} fill="#2563eb" stroke="#fff" strokeWidth={1.5} />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,48 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { SYMMETRIZE_MODES, type LM } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { drawFaded, renderSymmetrized } from "../utils/profiles";
+import { CanvasFrame } from "./CanvasFrame";
+
+/** Composites symétriques (gauche, moyen, droit) avec un fondu commun depuis l’image d’origine. */
+export function SymmetryViews({ aligned, landmarks }: { aligned: HTMLCanvasElement; landmarks: LM[] }) {
+  const { t } = useI18n();
+  const [fade, setFade] = useState(100);
+  const composites = useMemo(() => renderSymmetrized(aligned, landmarks), [aligned, landmarks]);
+  const leftRef = useRef<HTMLCanvasElement | null>(null);
+  const averageRef = useRef<HTMLCanvasElement | null>(null);
+  const rightRef = useRef<HTMLCanvasElement | null>(null);
+  const refs = { left: leftRef, average: averageRef, right: rightRef };
+
+  useEffect(() => {
+    const targets = { left: leftRef.current, average: averageRef.current, right: rightRef.current };
+    for (const mode of SYMMETRIZE_MODES) {
+      const target = targets[mode];
+      if (target) drawFaded(target, aligned, composites[mode], fade / 100);
+    }
+  }, [aligned, composites, fade]);
+
+  return (
+    <>
+      <label className="mt-4 flex max-w-md items-center gap-3 text-sm text-neutral-700">
+        <span className="shrink-0">{t("report.profiles.fade")}</span>
+        <input
+          type="range"
+          min={0}
+          max={100}
+          step={5}
+          value={fade}
+          onChange={(e) => setFade(Number(e.target.value))}
+          aria-valuetext={t("report.profiles.fadeValue", { value: fade })}
+          className="w-full"
+        />
+        <span className="w-12 shrink-0 text-right tabular-nums">{fade} %</span>
+      </label>
+      <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-3">
+        {SYMMETRIZE_MODES.map((mode) => (
+          <CanvasFrame key={mode} title={t(`report.profiles.${mode}`)} canvasRef={refs[mode]} />
+        ))}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+import { useI18n } from "../hooks/useI18n";
+import { LOCALES } from "../i18n";
+
+export type TrendPoint = { date: Date; value: number; ci?: number; label: string };
+
+const W = 640, H = 220;
+const PAD = { left: 48, right: 16, top: 12, bottom: 28 };
+
+/** Évolution d’un indicateur dans le temps, avec bande IC95 et cible éventuelle. */
+export function TrendChart({ points, target, unit }: { points: TrendPoint[]; target?: number; unit?: string }) {
+  const { locale, t, num } = useI18n();
+  if (points.length === 0) return <p className="text-sm text-neutral-600">{t("chart.empty")}</p>;
+
+  const lows = points.map((p) => p.value - (p.ci ?? 0));
+  const highs = points.map((p) => p.value + (p.ci ?? 0));
+  let yMin = Math.min(...lows, target ?? Infinity), yMax = Math.max(...highs, target ?? -Infinity);
+  if (yMax - yMin < 1e-9) { yMin -= 1; yMax += 1; }
+  const margin = (yMax - yMin) * 0.1;
+  yMin -= margin; yMax += margin;
+
+  const t0 = points[0].date.getTime(), t1 = points[points.length - 1].date.getTime();
+  const x = (d: Date) => (t1 === t0 ? (PAD.left + W - PAD.right) / 2 : PAD.left + ((d.getTime() - t0) / (t1 - t0)) * (W - PAD.left - PAD.right));
+  const y = (v: number) => PAD.top + (1 - (v - yMin) / (yMax - yMin)) * (H - PAD.top - PAD.bottom);
+
+  const band = [
+    ...points.map((p, i) => `${x(p.date)},${y(highs[i])}`),
+    ...points.map((p, i) => `${x(p.date)},${y(lows[i])}`).reverse(),
+  ].join(" ");
+  const line = points.map((p) => `${x(p.date)},${y(p.value)}`).join(" ");
+  const fmt = (v: number) => num(v, Math.abs(v) >= 10 ? 0 : 2);
+  const date = (d: Date) => d.toLocaleDateString(LOCALES[locale].intl);
+
+  return (
+    <svg viewBox={`0 0 ${W} ${H}`} className="w-full" role="img" aria-label={t("chart.label")}>
+      {[yMin + margin, (yMin + yMax) / 2, yMax - margin].map((v) => (
+        <g key={v}>
+          <line x1={PAD.left} x2={W - PAD.right} y1={y(v)} y2={y(v)} stroke="#e5e5e5" />
+          <text x={PAD.left - 6} y={y(v) + 4} textAnchor="end" fontSize={11} fill="#525252">{fmt(v)}</text>
+        </g>
+      ))}
+      {target !== undefined && (
+        <line x1={PAD.left} x2={W - PAD.right} y1={y(target)} y2={y(target)} stroke="#d97706" strokeDasharray="6 4">
+          <title>{t("chart.target", { value: target })}</title>
+        </line>
+      )}
+      {points.some((p) => p.ci) && <polygon points={band} fill="#2563eb" fillOpacity={0.12} />}
+      <polyline points={line} fill="none" stroke="#2563eb" strokeWidth={2} />
+      {points.map((p, i) => (
+        <circle key={i} cx={x(p.date)} cy={y(p.value)} r={4} fill="#2563eb">
+          <title>{`${p.date.toLocaleString(LOCALES[locale].intl)} — ${num(p.value)}${p.ci ? ` ± ${num(p.ci)}` : ""}${unit ?? ""}\n${p.label}`}</title>
+        </circle>
+      ))}
+      <text x={PAD.left} y={H - 8} fontSize={11} fill="#525252">{date(points[0].date)}</text>
+      <text x={W - PAD.right} y={H - 8} textAnchor="end" fontSize={11} fill="#525252">{date(points[points.length - 1].date)}</text>
+    </svg>
+  );
+}
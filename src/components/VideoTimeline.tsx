@@ -0,0 +1,167 @@
+import { useState } from "react";
+import type { Message, ScoreKey, ScoreReport } from "../engine";
+import { useI18n } from "../hooks/useI18n";
+import { niceStep } from "../utils/charts";
+import { SCORE_KEYS } from "../utils/labels";
+import { isKept, type VideoResult } from "../utils/video";
+
+const W = 640, H = 240;
+const PAD = { left: 48, right: 16, top: 12, bottom: 40 };
+
+/** Grandeur suivie : `score:<clé>` ou `ratio:<identifiant>`. */
+type Metric = `score:${ScoreKey}` | `ratio:${string}`;
+
+function metricValue(report: ScoreReport | undefined, metric: Metric) {
+  if (!report) return undefined;
+  const [group, key] = [metric.slice(0, metric.indexOf(":")), metric.slice(metric.indexOf(":") + 1)];
+  return group === "score" ? report.scores[key as ScoreKey] : report.ratios[key];
+}
+
+/** Médiane et bande de dispersion temporelle du rapport agrégé. */
+function aggregateBand(report: ScoreReport | null, metric: Metric) {
+  if (!report) return null;
+  const key = metric.slice(metric.indexOf(":") + 1);
+  const bounds = metric.startsWith("score:") ? report.scoreIntervals[key as ScoreKey] : report.ratioIntervals[key];
+  const median = metricValue(report, metric);
+  return typeof median === "number" ? { median, bounds } : null;
+}
+
+/**
+ * Frise frame par frame d’une grandeur : frames retenues et écartées, médiane et dispersion
+ * temporelle. Un clic (ou Entrée) sur une frame retenue la choisit pour le rapport visuel.
+ */
+export function VideoTimeline({
+  result,
+  report,
+  error,
+  onSelect,
+}: {
+  result: VideoResult;
+  report: ScoreReport | null;
+  error: Message | null;
+  onSelect: (index: number) => void;
+}) {
+  const tr = useI18n();
+  const { t, m, num } = tr;
+  const [metric, setMetric] = useState<Metric>("score:harmony");
+  const kept = result.frames.filter(isKept);
+  const rejected = result.frames.filter((f) => !isKept(f));
+  const ratioKeys = Object.keys(kept[0]?.face?.report?.ratios ?? {});
+  const band = aggregateBand(report, metric);
+
+  const points = kept.flatMap((f) => {
+    const v = metricValue(f.face?.report, metric);
+    return typeof v === "number" ? [{ frame: f, value: v }] : [];
+  });
+  const values = [...points.map((p) => p.value), ...(band ? [band.median, ...(band.bounds ?? [])] : [])];
+  let yMin = values.length ? Math.min(...values) : 0, yMax = values.length ? Math.max(...values) : 1;
+  if (yMax - yMin < 1e-9) { yMin -= 1; yMax += 1; }
+  const margin = (yMax - yMin) * 0.1;
+  yMin -= margin; yMax += margin;
+
+  const x = (time: number) => PAD.left + (time / result.durationS) * (W - PAD.left - PAD.right);
+  const y = (v: number) => PAD.top + (1 - (v - yMin) / (yMax - yMin)) * (H - PAD.top - PAD.bottom);
+  const base = H - PAD.bottom;
+  const step = niceStep(result.durationS, 6);
+  const ticks = Array.from({ length: Math.floor(result.durationS / step + 1e-9) + 1 }, (_, i) => i * step);
+  const fmt = (v: number) => num(v, Math.abs(v) >= 10 ? 1 : 3);
+  const time = (s: number) => num(s, 1);
+  const visual = result.frames[result.visual];
+
+  return (
+    <div>
+      <h2 className="text-lg font-medium">{t("video.timeline.title", { name: result.name })}</h2>
+      <p className="mt-1 text-sm text-neutral-700">
+        {t("video.timeline.summary", { kept: kept.length, sampled: result.frames.length, duration: time(result.durationS) })}
+      </p>
+      {error && <p className="mt-2 text-sm text-amber-700">{m(error)}</p>}
+
+      <label className="mt-4 grid max-w-xs gap-1 text-sm text-neutral-700">
+        {t("video.timeline.metric")}
+        <select
+          value={metric}
+          onChange={(e) => setMetric(e.target.value as Metric)}
+          className="rounded-lg border border-neutral-300 bg-white px-3 py-2 text-sm text-neutral-900"
+        >
+          <optgroup label={t("video.timeline.scores")}>
+            {SCORE_KEYS.map((k) => <option key={k} value={`score:${k}`}>{t(`score.${k}`)}</option>)}
+          </optgroup>
+          {ratioKeys.length > 0 && (
+            <optgroup label={t("video.timeline.ratios")}>
+              {ratioKeys.map((k) => <option key={k} value={`ratio:${k}`}>{tr.measure(k)}</option>)}
+            </optgroup>
+          )}
+        </select>
+      </label>
+
+      <div className="mt-4 rounded-xl border border-neutral-200 bg-white p-4">
+        <svg viewBox={`0 0 ${W} ${H}`} className="w-full" role="img" aria-label={t("video.timeline.label")}>
+          {[yMin + margin, (yMin + yMax) / 2, yMax - margin].map((v) => (
+            <g key={v}>
+              <line x1={PAD.left} x2={W - PAD.right} y1={y(v)} y2={y(v)} stroke="#e5e5e5" />
+              <text x={PAD.left - 6} y={y(v) + 4} textAnchor="end" fontSize={11} fill="#525252">{fmt(v)}</text>
+            </g>
+          ))}
+          {band?.bounds && (
+            <rect x={PAD.left} width={W - PAD.left - PAD.right} y={y(band.bounds[1])} height={Math.max(0, y(band.bounds[0]) - y(band.bounds[1]))} fill="#2563eb" fillOpacity={0.1} />
+          )}
+          {band && <line x1={PAD.left} x2={W - PAD.right} y1={y(band.median)} y2={y(band.median)} stroke="#2563eb" strokeDasharray="6 4" />}
+          {points.length > 1 && <polyline points={points.map((p) => `${x(p.frame.time)},${y(p.value)}`).join(" ")} fill="none" stroke="#93c5fd" strokeWidth={1.5} />}
+
+          <line x1={PAD.left} x2={W - PAD.right} y1={base} y2={base} stroke="#a3a3a3" />
+          {ticks.map((s) => (
+            <g key={s}>
+              <line x1={x(s)} x2={x(s)} y1={base} y2={base + 4} stroke="#a3a3a3" />
+              <text x={x(s)} y={base + 16} textAnchor="middle" fontSize={11} fill="#525252">{t("video.timeline.time", { time: time(s) })}</text>
+            </g>
+          ))}
+          {rejected.map((f) => (
+            <g key={f.index} stroke="#a3a3a3" strokeWidth={1.5}>
+              <line x1={x(f.time) - 3} x2={x(f.time) + 3} y1={base - 9} y2={base - 3} />
+              <line x1={x(f.time) - 3} x2={x(f.time) + 3} y1={base - 3} y2={base - 9} />
+              <title>{t("video.timeline.rejectedPoint", { time: time(f.time), reasons: f.reasons.map(m).join(" ") })}</title>
+            </g>
+          ))}
+          {points.map(({ frame, value }) => {
+            const selected = frame.index === result.visual;
+            return (
+              <circle
+                key={frame.index}
+                cx={x(frame.time)}
+                cy={y(value)}
+                r={selected ? 6 : 4}
+                fill={selected ? "#d97706" : "#2563eb"}
+                stroke="#fff"
+                strokeWidth={1.5}
+                className="cursor-pointer focus:outline-none"
+                role="button"
+                tabIndex={0}
+                aria-pressed={selected}
+                onClick={() => onSelect(frame.index)}
+                onKeyDown={(e) => { if (e.key === "Enter" || e.key === " ") { e.preventDefault(); onSelect(frame.index); } }}
+              >
+                <title>{t("video.timeline.point", { time: time(frame.time), value: fmt(value) })}</title>
+              </circle>
+            );
+          })}
+        </svg>
+      </div>
+      <p className="mt-2 text-xs text-neutral-600">{t("video.timeline.hint")}</p>
+      {visual && isKept(visual) && <p className="mt-1 text-sm text-neutral-800">{t("video.timeline.visual", { time: time(visual.time) })}</p>}
+
+      {rejected.length > 0 && (
+        <details className="mt-4">
+          <summary className="cursor-pointer text-sm font-medium text-neutral-900">{t("video.timeline.rejected", { count: rejected.length })}</summary>
+          <ul className="mt-2 grid gap-1 text-sm text-neutral-700">
+            {rejected.map((f) => (
+              <li key={f.index} className="flex gap-3">
+                <span className="w-16 shrink-0 text-right tabular-nums">{t("video.timeline.time", { time: time(f.time) })}</span>
+                <span>{f.reasons.map(m).join(" ")}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+}
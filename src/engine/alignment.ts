@@ -0,0 +1,50 @@
+import type { LM, Point } from "./types";
+
+export const ALIGNED_WIDTH = 800;
+
+/** Paramètres géométriques de l’alignement (rotation autour du centre de l’image puis recadrage). */
+export type Alignment = {
+  angle: number;
+  source: { width: number; height: number };
+  crop: { x: number; y: number; width: number; height: number };
+  output: { width: number; height: number };
+  /** Débord (px) du cadre au-delà des bords de l’image source, comblé par un fond neutre. */
+  padding: { left: number; top: number; right: number; bottom: number };
+};
+
+export function computeAlignment(eyeL: Point, eyeR: Point, w: number, h: number): Alignment {
+  const angle = Math.atan2(eyeR[1] - eyeL[1], eyeR[0] - eyeL[0]);
+
+  const cx = (eyeL[0] + eyeR[0]) / 2;
+  const cy = (eyeL[1] + eyeR[1]) / 2;
+  const d = Math.hypot(eyeR[0] - eyeL[0], eyeR[1] - eyeL[1]);
+  const size = d * 5.0;
+  // Le cadre reste centré sur les yeux même près d’un bord : on le complète au lieu de le rogner.
+  const x = cx - size / 2;
+  const y = cy - size * 0.6;
+  const bw = size;
+  const bh = size * 1.1;
+
+  return {
+    angle,
+    source: { width: w, height: h },
+    crop: { x, y, width: bw, height: bh },
+    output: { width: ALIGNED_WIDTH, height: Math.round(ALIGNED_WIDTH * (bh / bw)) },
+    padding: { left: Math.max(0, -x), top: Math.max(0, -y), right: Math.max(0, x + bw - w), bottom: Math.max(0, y + bh - h) },
+  };
+}
+
+/**
+ * Projette des points (pixels de l’image source, z compris) dans le repère normalisé de l’image alignée,
+ * sans redétection : utile quand les landmarks sont déjà stabilisés.
+ */
+export function alignLandmarks(points: LM[], a: Alignment): LM[] {
+  const c = [a.source.width / 2, a.source.height / 2];
+  const cos = Math.cos(-a.angle), sin = Math.sin(-a.angle);
+  return points.map((p) => {
+    const dx = p.x - c[0], dy = p.y - c[1];
+    const qx = c[0] + cos * dx - sin * dy;
+    const qy = c[1] + sin * dx + cos * dy;
+    return { x: (qx - a.crop.x) / a.crop.width, y: (qy - a.crop.y) / a.crop.height, z: p.z === undefined ? undefined : p.z / a.crop.width };
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Appariements bilatéraux complets de FaceMesh (468 points), dérivés du maillage canonique
+ * de MediaPipe (`geometry_pipeline_metadata_landmarks`) : chaque point d’abscisse négative est
+ * associé au point miroir exact. Dans chaque paire, le premier indice est du côté gauche de l’image.
+ */
+import type { SymmetryRegion } from "./types";
+
+/** Points situés sur le plan médian du maillage canonique. */
+export const MIDLINE_LANDMARKS: number[] = [
+  0, 1, 2, 4, 5, 6, 8, 9, 10, 11, 12, 13, 14, 15,
+  16, 17, 18, 19, 94, 151, 152, 164, 168, 175, 195, 197, 199, 200,
+];
+
+export const BILATERAL_PAIRS: Record<SymmetryRegion, Array<[number, number]>> = {
+  eyes: [
+    [7, 249], [22, 252], [23, 253], [24, 254], [25, 255], [26, 256], [27, 257], [28, 258],
+    [29, 259], [30, 260], [31, 261], [33, 263], [35, 265], [56, 286], [110, 339], [111, 340],
+    [112, 341], [113, 342], [114, 343], [120, 349], [121, 350], [124, 353], [128, 357], [130, 359],
+    [133, 362], [144, 373], [145, 374], [153, 380], [154, 381], [155, 382], [157, 384], [158, 385],
+    [159, 386], [160, 387], [161, 388], [163, 390], [173, 398], [189, 413], [190, 414], [221, 441],
+    [222, 442], [223, 443], [224, 444], [225, 445], [226, 446], [228, 448], [229, 449], [230, 450],
+    [231, 451], [232, 452], [233, 453], [243, 463], [244, 464], [246, 466], [247, 467],
+  ],
+  brows: [
+    [21, 251], [46, 276], [52, 282], [53, 283], [54, 284], [55, 285], [63, 293], [65, 295],
+    [66, 296], [67, 297], [68, 298], [69, 299], [70, 300], [71, 301], [103, 332], [104, 333],
+    [105, 334], [107, 336], [108, 337], [109, 338],
+  ],
+  nose: [
+    [3, 248], [20, 250], [44, 274], [45, 275], [47, 277], [48, 278], [49, 279], [51, 281],
+    [59, 289], [60, 290], [64, 294], [75, 305], [79, 309], [97, 326], [98, 327], [99, 328],
+    [102, 331], [115, 344], [122, 351], [125, 354], [126, 355], [129, 358], [131, 360], [134, 363],
+    [141, 370], [165, 391], [166, 392], [167, 393], [174, 399], [188, 412], [193, 417], [196, 419],
+    [198, 420], [209, 429], [217, 437], [218, 438], [219, 439], [220, 440], [235, 455], [236, 456],
+    [237, 457], [238, 458], [239, 459], [240, 460], [241, 461], [242, 462], [245, 465],
+  ],
+  mouth: [
+    [37, 267], [38, 268], [39, 269], [40, 270], [41, 271], [42, 272], [43, 273], [57, 287],
+    [61, 291], [62, 292], [72, 302], [73, 303], [74, 304], [76, 306], [77, 307], [78, 308],
+    [80, 310], [81, 311], [82, 312], [83, 313], [84, 314], [85, 315], [86, 316], [87, 317],
+    [88, 318], [89, 319], [90, 320], [91, 321], [92, 322], [95, 324], [96, 325], [106, 335],
+    [146, 375], [178, 402], [179, 403], [180, 404], [181, 405], [182, 406], [183, 407], [184, 408],
+    [185, 409], [186, 410], [191, 415], [202, 422], [204, 424],
+  ],
+  jaw: [
+    [32, 262], [58, 288], [93, 323], [123, 352], [132, 361], [135, 364], [136, 365], [137, 366],
+    [138, 367], [140, 369], [147, 376], [148, 377], [149, 378], [150, 379], [169, 394], [170, 395],
+    [171, 396], [172, 397], [176, 400], [177, 401], [194, 418], [201, 421], [208, 428], [210, 430],
+    [211, 431], [213, 433], [215, 435],
+  ],
+  cheeks: [
+    [34, 264], [36, 266], [50, 280], [100, 329], [101, 330], [116, 345], [117, 346], [118, 347],
+    [119, 348], [127, 356], [139, 368], [142, 371], [143, 372], [156, 383], [162, 389], [187, 411],
+    [192, 416], [203, 423], [205, 425], [206, 426], [207, 427], [212, 432], [214, 434], [216, 436],
+    [227, 447], [234, 454],
+  ],
+};
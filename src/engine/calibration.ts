@@ -0,0 +1,117 @@
+import { round2 } from "./geometry";
+import { msg, type Message } from "./messages";
+import type { LM, ScaleCalibration } from "./types";
+import { inflatedInterval } from "./uncertainty";
+
+/** Diamètre irien visible horizontal moyen de l’adulte (mm), indépendant de la morphologie du visage. */
+export const IRIS_DIAMETER_MM = 11.7;
+/** Dispersion interindividuelle de ce diamètre (écart-type, mm). */
+export const IRIS_DIAMETER_SD_MM = 0.5;
+/** Incertitude de pointé d’une extrémité d’un segment de référence tracé à la main (écart-type, px). */
+export const RULER_POINT_SD_PX = 1.5;
+/** Écart relatif toléré entre les deux iris avant de signaler l’étalonnage. */
+const IRIS_MISMATCH = 0.15;
+
+/** Bords horizontaux de chaque iris (landmarks raffinés 468–477 de FaceMesh). */
+const IRIS_EDGES: Array<[number, number]> = [
+  [469, 471],
+  [474, 476],
+];
+
+/** Référence tracée par l’utilisateur : segment (coordonnées normalisées de l’image alignée) et sa longueur réelle. */
+export type ManualCalibration = { segment: [{ x: number; y: number }, { x: number; y: number }]; lengthMm: number };
+
+/** Référence d’échelle d’un jeu de landmarks, avant propagation des incertitudes. */
+export type ScaleReference = {
+  method: ScaleCalibration["method"];
+  referenceMm: number;
+  referencePx: number;
+  /** Incertitude relative propre à la référence (écart-type), hors bruit des landmarks. */
+  relativeSD: number;
+  segment?: ManualCalibration["segment"];
+  warning?: Message;
+};
+
+const round5 = (v: number) => Math.round(v * 1e5) / 1e5;
+
+/** Diamètre de chaque iris (px), `null` sans landmarks raffinés. */
+export function irisDiametersPx(lms: LM[], w: number, h: number): [number, number] | null {
+  if (lms.length < 478) return null;
+  const d = IRIS_EDGES.map(([a, b]) => Math.hypot((lms[a].x - lms[b].x) * w, (lms[a].y - lms[b].y) * h));
+  return d.every((v) => v > 0) ? [d[0], d[1]] : null;
+}
+
+/**
+ * Référence d’échelle : le segment tracé s’il est fourni, sinon le diamètre moyen des deux iris.
+ * `null` sans iris détecté (468 points) ni segment exploitable.
+ */
+export function scaleReference(lms: LM[], w: number, h: number, manual?: ManualCalibration | null): ScaleReference | null {
+  if (manual) {
+    const [a, b] = manual.segment;
+    const px = Math.hypot((a.x - b.x) * w, (a.y - b.y) * h);
+    if (!(px > 0) || !(manual.lengthMm > 0)) return null;
+    return { method: "manual", referenceMm: manual.lengthMm, referencePx: px, relativeSD: (Math.SQRT2 * RULER_POINT_SD_PX) / px, segment: manual.segment };
+  }
+  const iris = irisDiametersPx(lms, w, h);
+  if (!iris) return null;
+  const px = (iris[0] + iris[1]) / 2;
+  const mismatch = Math.abs(iris[0] - iris[1]) / px > IRIS_MISMATCH;
+  return {
+    method: "iris",
+    referenceMm: IRIS_DIAMETER_MM,
+    referencePx: px,
+    relativeSD: IRIS_DIAMETER_SD_MM / IRIS_DIAMETER_MM,
+    warning: mismatch ? msg("calibration.irisMismatch", { left: round2(iris[0]), right: round2(iris[1]) }) : undefined,
+  };
+}
+
+/** Échelle (mm/px) d’un tirage Monte-Carlo : l’iris est remesuré, un segment tracé reste fixe. */
+export function scaleOf(ref: ScaleReference, lms: LM[], w: number, h: number) {
+  const iris = ref.method === "iris" ? irisDiametersPx(lms, w, h) : null;
+  return ref.referenceMm / (iris ? (iris[0] + iris[1]) / 2 : ref.referencePx);
+}
+
+/**
+ * Distances en millimètres. L’IC95 combine, en quadrature, l’intervalle Monte-Carlo de
+ * `distance × échelle` (tirages appariés : le bruit commun à la mesure et à l’iris se compense)
+ * et l’incertitude propre à la référence (dispersion du diamètre irien ou pointé du segment).
+ */
+export function calibrateMeasures(
+  ref: ScaleReference,
+  measures: Record<string, number>,
+  samples: { measures: Record<string, number[]>; scale: number[] },
+  inflate: number
+): ScaleCalibration {
+  const mmPerPx = ref.referenceMm / ref.referencePx;
+  const z = 1.96;
+  const combine = (value: number, mcHalf: number) => Math.sqrt(mcHalf ** 2 + (z * ref.relativeSD * value) ** 2);
+  const scaleHalf = samples.scale.length ? inflatedInterval(mmPerPx, samples.scale, inflate, (v) => v).half : 0;
+
+  const mm: Record<string, number> = {};
+  const mmCI: Record<string, number> = {};
+  for (const [k, px] of Object.entries(measures)) {
+    const value = px * mmPerPx;
+    const draws = samples.measures[k] ?? [];
+    const mcHalf = draws.length === samples.scale.length && draws.length ? inflatedInterval(value, draws.map((d, i) => d * samples.scale[i]), inflate, (v) => v).half : 0;
+    mm[k] = round2(value);
+    mmCI[k] = round2(combine(value, mcHalf));
+  }
+  return {
+    method: ref.method,
+    mmPerPx: round5(mmPerPx),
+    mmPerPxCI: round5(combine(mmPerPx, scaleHalf)),
+    referenceMm: ref.referenceMm,
+    referencePx: round2(ref.referencePx),
+    ...(ref.segment ? { segment: ref.segment } : {}),
+    ...(ref.warning ? { warning: ref.warning } : {}),
+    measures: mm,
+    measureCI: mmCI,
+  };
+}
+
+/** Phrase décrivant l’étalonnage d’un rapport (échelle en µm/px, plus lisible que des mm/px). */
+export function calibrationNote(calibration: ScaleCalibration | null): Message {
+  if (!calibration) return msg("report.calibration.none");
+  const { method, referencePx: px, referenceMm: mm, mmPerPx, mmPerPxCI } = calibration;
+  return msg(`report.calibration.${method}`, { px, mm, sd: IRIS_DIAMETER_SD_MM, scale: round2(mmPerPx * 1000), ci: round2(mmPerPxCI * 1000) });
+}
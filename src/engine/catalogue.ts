@@ -0,0 +1,210 @@
+import type { Point } from "./types";
+
+const FARKAS = "Farkas LG. Anthropometry of the Head and Face. 2e éd. New York : Raven Press, 1994.";
+const POWELL = "Powell N, Humphreys B. Proportions of the Aesthetic Face. New York : Thieme-Stratton, 1984.";
+const RICKETTS = "Ricketts RM. Divine proportion in facial esthetics. Clin Plast Surg. 1982;9(4):401-422.";
+const RHEE = "Rhee SC, Woo KS, Kwon B. Biometric study of eyelid shape and dimensions of different races with references to beauty. Aesthetic Plast Surg. 2012;36(5):1236-1245.";
+const POPENKO = "Popenko NA, Tripathi PB, Devcic Z, et al. A quantitative approach to determining the ideal female lip aesthetic and its effect on facial attractiveness. JAMA Facial Plast Surg. 2017;19(4):261-267.";
+
+type BaseDef = {
+  /**
+   * Identifiant stable et indépendant de la langue : clé des mesures et ratios dans les rapports
+   * et les exports, et préfixe des libellés traduits (`measure.<id>`, `measure.<id>.description`).
+   */
+  id: string;
+  unit: "px" | "" | "°";
+  /** Valeur cible par défaut (remplacée par `Methodology.targets` pour les ratios du score). */
+  target?: number;
+  /** Plage de référence [min, max] issue de la littérature. */
+  norm?: [number, number];
+  /** Le ratio entre dans le score « nombre d’or » (sa cible vient du profil méthodologique). */
+  golden?: boolean;
+  reference: string;
+};
+
+/** Distance euclidienne (px, image alignée) entre deux landmarks FaceMesh. */
+export type DistanceDef = BaseDef & { kind: "distance"; segment: [number, number] };
+
+/**
+ * Grandeur dérivée : ratio ou indice calculé à partir des distances du catalogue,
+ * ou angle calculé directement sur les points (px).
+ */
+export type DerivedDef = BaseDef & {
+  kind: "ratio" | "angle";
+  /** Distances du catalogue utilisées (mise en évidence des segments). */
+  measures: string[];
+  compute: (distances: Record<string, number>, pt: (i: number) => Point) => number;
+};
+
+export type MeasureDef = DistanceDef | DerivedDef;
+
+const distance = (id: string, segment: [number, number], reference: string): DistanceDef => ({
+  kind: "distance",
+  id,
+  segment,
+  unit: "px",
+  reference,
+});
+
+/** Ratio `num / den` (× `scale`), nul si le dénominateur est nul. */
+const ratio = (
+  id: string,
+  num: string,
+  den: string,
+  opts: Omit<BaseDef, "id" | "unit"> & { scale?: number }
+): DerivedDef => {
+  const { scale = 1, ...rest } = opts;
+  return {
+    kind: "ratio",
+    id,
+    unit: "",
+    measures: [num, den],
+    compute: (d) => (d[den] > 0 ? (scale * d[num]) / d[den] : 0),
+    ...rest,
+  };
+};
+
+/**
+ * Inclinaison canthale moyenne (°) : angle de la ligne canthus interne → canthus externe
+ * par rapport à la ligne inter-canthale, positif quand le canthus externe est plus haut.
+ */
+function canthalTilt(_d: Record<string, number>, pt: (i: number) => Point) {
+  const [mlx, mly] = pt(133), [mrx, mry] = pt(362);
+  const roll = Math.atan2(mry - mly, mrx - mlx);
+  const c = Math.cos(-roll), s = Math.sin(-roll);
+  const rot = (i: number) => {
+    const [x, y] = pt(i);
+    return [x * c - y * s, x * s + y * c];
+  };
+  const [ax, ay] = rot(133), [bx, by] = rot(33);
+  const [cx, cy] = rot(362), [dx, dy] = rot(263);
+  const left = Math.atan2(ay - by, ax - bx);
+  const right = Math.atan2(cy - dy, dx - cx);
+  return ((left + right) / 2) * (180 / Math.PI);
+}
+
+/**
+ * Catalogue des mesures anthropométriques. Chaque entrée décrit ses landmarks, sa formule,
+ * sa cible ou sa plage de référence, son unité et sa source ; le calcul, les cartes de mesures,
+ * le tableau des ratios et le score « nombre d’or » en sont dérivés. Ajouter une entrée (et ses
+ * libellés dans les catalogues de traduction) suffit à l’afficher et à l’exporter. Les identifiants
+ * sont stables : ne jamais renommer une entrée existante.
+ */
+export const MEASURE_CATALOGUE: MeasureDef[] = [
+  distance("face_length", [10, 152], FARKAS),
+  distance("face_width", [234, 454], FARKAS),
+  distance("intercanthal_width", [133, 362], FARKAS),
+  distance("mouth_width", [61, 291], FARKAS),
+  distance("nose_tip_chin", [1, 152], FARKAS),
+  distance("lip_gap", [13, 14], FARKAS),
+  distance("upper_third", [10, 9], POWELL),
+  distance("middle_third", [9, 2], POWELL),
+  distance("lower_third", [2, 152], POWELL),
+  distance("lateral_fifth_left", [234, 33], POWELL),
+  distance("eye_width_left", [33, 133], POWELL),
+  distance("eye_width_right", [362, 263], POWELL),
+  distance("lateral_fifth_right", [263, 454], POWELL),
+  distance("nose_width", [129, 358], FARKAS),
+  distance("nose_height", [168, 2], FARKAS),
+  distance("upper_lip_height", [2, 13], POWELL),
+  distance("lower_lip_chin_height", [14, 152], POWELL),
+  distance("upper_vermilion", [0, 13], POPENKO),
+  distance("lower_vermilion", [14, 17], POPENKO),
+  distance("brow_height_left", [159, 105], FARKAS),
+  distance("brow_height_right", [386, 334], FARKAS),
+  distance("bigonial_width", [172, 397], FARKAS),
+
+  ratio("face_length_to_width", "face_length", "face_width", { golden: true, reference: RICKETTS }),
+  ratio("intercanthal_to_mouth", "intercanthal_width", "mouth_width", { golden: true, reference: RICKETTS }),
+  ratio("intercanthal_to_face_width", "intercanthal_width", "face_width", { golden: true, reference: RICKETTS }),
+  ratio("nose_chin_to_face_length", "nose_tip_chin", "face_length", { golden: true, reference: RICKETTS }),
+  ratio("lip_gap_to_mouth", "lip_gap", "mouth_width", { golden: true, reference: RICKETTS }),
+
+  ratio("middle_to_lower_third", "middle_third", "lower_third", { target: 1, norm: [0.9, 1.1], reference: POWELL }),
+  ratio("upper_to_middle_third", "upper_third", "middle_third", { reference: POWELL }),
+  ...(
+    [
+      ["lateral_fifth_left", "fifth_1"],
+      ["eye_width_left", "fifth_2"],
+      ["intercanthal_width", "fifth_3"],
+      ["eye_width_right", "fifth_4"],
+      ["lateral_fifth_right", "fifth_5"],
+    ] as const
+  ).map(([num, id]) => ratio(id, num, "face_width", { target: 0.2, norm: [0.18, 0.22], reference: POWELL })),
+  {
+    kind: "angle",
+    id: "canthal_tilt",
+    unit: "°",
+    measures: ["eye_width_left", "eye_width_right"],
+    compute: canthalTilt,
+    norm: [4, 8],
+    reference: RHEE,
+  },
+  ratio("nasal_index", "nose_width", "nose_height", { scale: 100, norm: [60, 85], reference: FARKAS }),
+  ratio("philtrum_to_chin", "upper_lip_height", "lower_lip_chin_height", { target: 0.5, norm: [0.4, 0.6], reference: POWELL }),
+  ratio("vermilion_ratio", "upper_vermilion", "lower_vermilion", { target: 0.5, norm: [0.5, 0.75], reference: POPENKO }),
+  ratio("brow_height_ratio", "brow_height_left", "brow_height_right", { target: 1, norm: [0.95, 1.05], reference: FARKAS }),
+  ratio("bigonial_to_bizygomatic", "bigonial_width", "face_width", { norm: [0.7, 0.8], reference: FARKAS }),
+];
+
+export const DISTANCE_MEASURES = MEASURE_CATALOGUE.filter((d): d is DistanceDef => d.kind === "distance");
+export const DERIVED_MEASURES = MEASURE_CATALOGUE.filter((d): d is DerivedDef => d.kind !== "distance");
+/** Ratios pris en compte dans le score « nombre d’or ». */
+export const GOLDEN_RATIOS = DERIVED_MEASURES.filter((d) => d.golden).map((d) => d.id);
+
+export const measureDef = (id: string) => MEASURE_CATALOGUE.find((d) => d.id === id);
+
+/** Écart relatif à la plage de référence : 0 à l’intérieur, distance à la borne la plus proche sinon. */
+export function normDeviation(value: number, [lo, hi]: [number, number]) {
+  if (value < lo) return (lo - value) / Math.abs(lo || 1);
+  if (value > hi) return (value - hi) / Math.abs(hi || 1);
+  return 0;
+}
+
+/** Clés françaises des rapports et profils antérieurs aux identifiants stables. */
+export const LEGACY_METRIC_IDS: Record<string, string> = {
+  "Longueur du visage": "face_length",
+  "Largeur du visage": "face_width",
+  "Distance inter-oculaire": "intercanthal_width",
+  "Largeur de la bouche": "mouth_width",
+  "Nez→Menton": "nose_tip_chin",
+  "Hauteur des lèvres": "lip_gap",
+  "Tiers supérieur (front → glabelle)": "upper_third",
+  "Tiers moyen (glabelle → subnasal)": "middle_third",
+  "Tiers inférieur (subnasal → menton)": "lower_third",
+  "Cinquième latéral (côté image gauche)": "lateral_fifth_left",
+  "Largeur de l’œil (côté image gauche)": "eye_width_left",
+  "Largeur de l’œil (côté image droit)": "eye_width_right",
+  "Cinquième latéral (côté image droit)": "lateral_fifth_right",
+  "Largeur du nez (ailes)": "nose_width",
+  "Hauteur du nez (nasion → subnasal)": "nose_height",
+  "Étage labial supérieur (subnasal → stomion)": "upper_lip_height",
+  "Étage labio-mentonnier (stomion → menton)": "lower_lip_chin_height",
+  "Vermillon supérieur": "upper_vermilion",
+  "Vermillon inférieur": "lower_vermilion",
+  "Hauteur du sourcil (côté image gauche)": "brow_height_left",
+  "Hauteur du sourcil (côté image droit)": "brow_height_right",
+  "Largeur bigoniaque": "bigonial_width",
+  "Rapport Longueur/ Largeur du visage": "face_length_to_width",
+  "Distance inter-oculaire / Largeur bouche": "intercanthal_to_mouth",
+  "Distance inter-oculaire / Largeur visage": "intercanthal_to_face_width",
+  "Nez→Menton / Longueur visage": "nose_chin_to_face_length",
+  "Hauteur lèvres / Largeur bouche": "lip_gap_to_mouth",
+  "Tiers moyen / Tiers inférieur": "middle_to_lower_third",
+  "Tiers supérieur / Tiers moyen": "upper_to_middle_third",
+  "1er cinquième / Largeur visage": "fifth_1",
+  "2e cinquième / Largeur visage": "fifth_2",
+  "3e cinquième / Largeur visage": "fifth_3",
+  "4e cinquième / Largeur visage": "fifth_4",
+  "5e cinquième / Largeur visage": "fifth_5",
+  "Inclinaison canthale": "canthal_tilt",
+  "Indice nasal": "nasal_index",
+  "Philtrum / menton": "philtrum_to_chin",
+  "Vermillon supérieur / inférieur": "vermilion_ratio",
+  "Hauteur des sourcils gauche / droite": "brow_height_ratio",
+  "Largeur bigoniaque / bizygomatique": "bigonial_to_bizygomatic",
+};
+
+/** Renomme les clés françaises historiques d’une table de valeurs ; les clés inconnues sont conservées. */
+export const migrateMetricKeys = <T>(values: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(Object.entries(values).map(([k, v]) => [LEGACY_METRIC_IDS[k] ?? k, v]));
@@ -0,0 +1,69 @@
+import { MEASURE_SEGMENTS } from "./golden";
+import type { LM, ScoreKey, ScoreReport } from "./types";
+
+export type DeltaRow = {
+  group: "score" | "measure" | "ratio";
+  key: string;
+  before: number;
+  after: number;
+  delta: number;
+  /** Demi-largeur de l’IC95 de la différence (IC supposés indépendants), si disponible. */
+  ci?: number;
+  significant: boolean | null;
+};
+
+function row(group: DeltaRow["group"], key: string, before: number, after: number, ciA?: number, ciB?: number): DeltaRow {
+  const delta = after - before;
+  const ci = ciA !== undefined && ciB !== undefined ? Math.sqrt(ciA * ciA + ciB * ciB) : undefined;
+  return { group, key, before, after, delta, ci, significant: ci === undefined ? null : Math.abs(delta) > ci };
+}
+
+/**
+ * Différences après − avant pour chaque score, mesure et ratio. Une différence est
+ * significative lorsqu’elle dépasse l’IC95 combiné des deux analyses ; `null` sans IC.
+ */
+export function compareReports(before: ScoreReport, after: ScoreReport): DeltaRow[] {
+  const scores = (Object.keys(before.scores) as ScoreKey[]).map((k) =>
+    row("score", k, before.scores[k], after.scores[k], before.ci[k], after.ci[k])
+  );
+  const measures = Object.keys(MEASURE_SEGMENTS).map((k) =>
+    row("measure", k, before.measures[k], after.measures[k], before.measureCI[k], after.measureCI[k])
+  );
+  const ratios = Object.keys(before.ratios)
+    .filter((k) => k in after.ratios)
+    .map((k) => row("ratio", k, before.ratios[k], after.ratios[k], before.ratioCI[k], after.ratioCI[k]));
+  return [...scores, ...measures, ...ratios];
+}
+
+export type Displacement = { index: number; from: LM; to: LM; distance: number };
+
+/** Repère centré sur le milieu inter-oculaire, axe x sur la ligne des yeux, unité = distance inter-oculaire. */
+function eyeFrame(lms: LM[], w: number, h: number) {
+  const l = { x: lms[133].x * w, y: lms[133].y * h }, r = { x: lms[362].x * w, y: lms[362].y * h };
+  const mid = { x: (l.x + r.x) / 2, y: (l.y + r.y) / 2 };
+  const d = Math.hypot(r.x - l.x, r.y - l.y) || 1;
+  const angle = Math.atan2(r.y - l.y, r.x - l.x);
+  return { mid, d, cos: Math.cos(angle), sin: Math.sin(angle) };
+}
+
+/**
+ * Déplacement de chaque landmark entre deux visages alignés, après recalage sur les yeux
+ * (translation, rotation, échelle). Les positions sont exprimées dans le repère normalisé
+ * de l’image « avant », les distances en pixels de cette même image.
+ */
+export function landmarkDisplacements(before: LM[], bw: number, bh: number, after: LM[], aw: number, ah: number): Displacement[] {
+  const fa = eyeFrame(after, aw, ah), fb = eyeFrame(before, bw, bh);
+  return before.map((p, index) => {
+    const q = after[index];
+    // Après → repère yeux → image « avant »
+    const ax = q.x * aw - fa.mid.x, ay = q.y * ah - fa.mid.y;
+    const u = (ax * fa.cos + ay * fa.sin) / fa.d, v = (-ax * fa.sin + ay * fa.cos) / fa.d;
+    const x = fb.mid.x + (u * fb.cos - v * fb.sin) * fb.d, y = fb.mid.y + (u * fb.sin + v * fb.cos) * fb.d;
+    return {
+      index,
+      from: { x: p.x, y: p.y },
+      to: { x: x / bw, y: y / bh },
+      distance: Math.hypot(x - p.x * bw, y - p.y * bh),
+    };
+  });
+}
@@ -0,0 +1,116 @@
+import { measureDef } from "./catalogue";
+import { diffLandmarks } from "./landmarks";
+import type { ImageSourceInfo } from "./ingest";
+import type { Methodology } from "./methodology";
+import type { FaceBox, LM, ScoreReport } from "./types";
+
+export const REPORT_SCHEMA = "harmonie-faciale/report";
+/** 2 : mesures, ratios et cibles indexés par identifiant stable ; messages sous forme de codes. */
+export const REPORT_SCHEMA_VERSION = 2;
+
+export type ReportExportInput = {
+  report: ScoreReport;
+  landmarks: LM[];
+  detectedLandmarks?: LM[];
+  methodology: Methodology;
+  /** `width`/`height` : image alignée ; `source` : fichier d’origine et réduction appliquée à l’import. */
+  image?: { name: string; sha256: string; width: number; height: number; source?: ImageSourceInfo };
+  face?: { id: number; box: FaceBox };
+  model?: Record<string, unknown>;
+  generatedAt?: string;
+};
+
+/** Erreur relative de chaque ratio ayant une cible. */
+export function relativeErrors(ratios: Record<string, number>, targets: Record<string, number>) {
+  return Object.fromEntries(
+    Object.keys(ratios)
+      .filter((k) => k in targets)
+      .map((k) => [k, targets[k] > 0 ? Math.abs(ratios[k] - targets[k]) / targets[k] : 1])
+  );
+}
+
+/**
+ * Rapport complet lisible par machine. Les champs `width`, `height`, `landmarks`,
+ * `methodologyVersion` et `calibration` reprennent le format d’entrée de la CLI : un export peut
+ * être recalculé tel quel, étalonnage manuel compris.
+ */
+export function buildReportJSON(input: ReportExportInput) {
+  const { report, landmarks, detectedLandmarks, methodology } = input;
+  const { width, height } = report.image;
+  return {
+    schema: REPORT_SCHEMA,
+    schemaVersion: REPORT_SCHEMA_VERSION,
+    generatedAt: input.generatedAt ?? new Date().toISOString(),
+    width,
+    height,
+    landmarks,
+    methodologyVersion: report.methodologyVersion,
+    detectedLandmarks: detectedLandmarks ?? landmarks,
+    manualEdits: detectedLandmarks ? diffLandmarks(detectedLandmarks, landmarks, width, height) : [],
+    image: input.image ?? null,
+    face: input.face ?? null,
+    model: input.model ?? null,
+    methodology,
+    quality: report.quality,
+    pose: report.pose,
+    poseWarnings: report.poseWarnings,
+    poseNormalized: report.poseNormalized,
+    scores: report.scores,
+    ci95: report.ci,
+    intervals95: report.scoreIntervals,
+    symmetry: report.symmetry,
+    measures: report.measures,
+    measureCI95: report.measureCI,
+    calibration: report.calibration,
+    ratios: report.ratios,
+    ratioCI95: report.ratioCI,
+    ratioIntervals95: report.ratioIntervals,
+    targets: report.targets,
+    norms: report.norms,
+    relativeErrors: relativeErrors(report.ratios, report.targets),
+    uncertainty: report.uncertainty,
+    distributions: report.distributions,
+    population: report.population ?? null,
+    temporal: report.temporal ?? null,
+    feedback: report.feedback,
+  };
+}
+
+const csvCell = (v: string | number) => {
+  const s = String(v);
+  return /[",;\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function toCSV(rows: Array<Array<string | number>>) {
+  return rows.map((r) => r.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+/**
+ * Tableau des ratios : identifiant stable, libellé (traduit par `label`), valeur mesurée,
+ * cible ou plage de référence, erreur relative et position dans la cohorte de référence.
+ */
+export function ratiosCSV(report: ScoreReport, label: (id: string) => string = (id) => id) {
+  const errors = relativeErrors(report.ratios, report.targets);
+  const norms = report.norms ?? {};
+  return toCSV([
+    ["ratio", "label", "measured", "ci95", "ci95_low", "ci95_high", "unit", "target", "norm_min", "norm_max", "relative_error", "percentile", "z_score", "cohort", "methodology", "methodology_version"],
+    ...Object.keys(report.ratios).map((k) => [
+      k,
+      label(k),
+      report.ratios[k],
+      report.ratioCI[k] ?? "",
+      report.ratioIntervals?.[k]?.[0] ?? "",
+      report.ratioIntervals?.[k]?.[1] ?? "",
+      measureDef(k)?.unit ?? "",
+      report.targets[k] ?? "",
+      norms[k]?.[0] ?? "",
+      norms[k]?.[1] ?? "",
+      errors[k] ?? "",
+      report.population?.features[k]?.percentile ?? "",
+      report.population?.features[k]?.z ?? "",
+      report.population?.features[k] ? report.population.ref.id : "",
+      report.methodology.id,
+      report.methodologyVersion,
+    ]),
+  ]);
+}
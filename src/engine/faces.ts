@@ -0,0 +1,33 @@
+import { round1 } from "./geometry";
+import { msg, type Message } from "./messages";
+import { METHODOLOGY, type Methodology } from "./methodology";
+import type { FaceBox, Point } from "./types";
+
+/**
+ * Signale les visages trop petits ou coupés par le bord de l’image.
+ * Un visage signalé est affiché mais n’est pas scoré.
+ */
+export function assessFaceFraming(
+  box: FaceBox,
+  keypoints: Point[],
+  imageW: number,
+  imageH: number,
+  methodology: Methodology = METHODOLOGY
+): Message[] {
+  const flags: Message[] = [];
+  const { minSizePx, maxOutsideFraction } = methodology.faces;
+
+  const size = Math.min(box.width, box.height);
+  if (size < minSizePx) flags.push(msg("framing.tooSmall", { size: Math.round(size), min: minSizePx }));
+
+  const outside = keypoints.filter(([x, y]) => x < 0 || y < 0 || x > imageW || y > imageH).length;
+  if (keypoints.length && outside / keypoints.length > maxOutsideFraction) {
+    flags.push(msg("framing.cropped", { percent: round1((100 * outside) / keypoints.length) }));
+  }
+  return flags;
+}
+
+/** Ordonne les visages de gauche à droite pour une numérotation stable. */
+export function sortFacesLeftToRight<T extends { box: FaceBox }>(faces: T[]): T[] {
+  return [...faces].sort((a, b) => a.box.xMin + a.box.width / 2 - (b.box.xMin + b.box.width / 2));
+}
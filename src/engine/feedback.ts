@@ -0,0 +1,24 @@
+import { msg, type Message } from "./messages";
+import { METHODOLOGY, type Methodology } from "./methodology";
+
+/** Commentaires descriptifs sous forme de codes de message (`feedback.*`), traduits à l’affichage. */
+export function buildFeedback(symmetry: number, golden: number, eyeSpacingRatio: number, methodology: Methodology = METHODOLOGY): Message[] {
+  const lines: Message[] = [];
+  if (symmetry > 90) lines.push(msg("feedback.symmetry.high"));
+  else if (symmetry > 75) lines.push(msg("feedback.symmetry.good"));
+  else lines.push(msg("feedback.symmetry.low"));
+
+  if (golden > 90) lines.push(msg("feedback.golden.high"));
+  else if (golden > 75) lines.push(msg("feedback.golden.good"));
+  else lines.push(msg("feedback.golden.low"));
+
+  if (eyeSpacingRatio > 0) {
+    const es = methodology.eyeSpacing;
+    if (eyeSpacingRatio > es.idealMin && eyeSpacingRatio < es.idealMax) lines.push(msg("feedback.eyeSpacing.ideal"));
+    else if (eyeSpacingRatio <= es.low) lines.push(msg("feedback.eyeSpacing.narrow"));
+    else if (eyeSpacingRatio >= es.high) lines.push(msg("feedback.eyeSpacing.wide"));
+  }
+
+  lines.push(msg("feedback.disclaimer"));
+  return lines;
+}
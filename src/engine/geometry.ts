@@ -0,0 +1,11 @@
+import type { LM, Point } from "./types";
+
+export const clamp = (v: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, v));
+export const round1 = (v: number) => Math.round(v * 10) / 10;
+export const round2 = (v: number) => Math.round(v * 100) / 100;
+export const round3 = (v: number) => Math.round(v * 1000) / 1000;
+export const euclid = (p1: Point, p2: Point) => Math.hypot(p1[0] - p2[0], p1[1] - p2[1]);
+
+export function project(idx: number, w: number, h: number, lms: LM[]): Point {
+  return [lms[idx].x * w, lms[idx].y * h];
+}
@@ -0,0 +1,58 @@
+import { euclid, project, round2 } from "./geometry";
+import { DERIVED_MEASURES, DISTANCE_MEASURES, GOLDEN_RATIOS } from "./catalogue";
+import { METHODOLOGY, type Methodology } from "./methodology";
+import { SYMMETRY_ANCHORS } from "./symmetry";
+import type { GoldenOut, LM, MeasureValues } from "./types";
+
+/** Landmarks délimitant chaque distance mesurée (indices FaceMesh). */
+export const MEASURE_SEGMENTS: Record<string, [number, number]> = Object.fromEntries(DISTANCE_MEASURES.map((d) => [d.id, d.segment]));
+
+/** Distances utilisées par chaque ratio, indice ou angle du catalogue. */
+export const RATIO_MEASURES: Record<string, string[]> = Object.fromEntries(DERIVED_MEASURES.map((d) => [d.id, d.measures]));
+
+/** Landmarks utilisés par les mesures et la symétrie, proposés à la correction manuelle. */
+export const KEY_LANDMARKS: number[] = [...new Set([...Object.values(MEASURE_SEGMENTS).flat(), ...SYMMETRY_ANCHORS])].sort((a, b) => a - b);
+
+/**
+ * Calcule toutes les grandeurs du catalogue. Le score « nombre d’or » ne retient que les
+ * ratios marqués `golden`, comparés aux cibles du profil méthodologique.
+ */
+export function analyzeGolden(imageW: number, imageH: number, lms: LM[], methodology: Methodology = METHODOLOGY): GoldenOut {
+  const pt = (i: number) => project(i, imageW, imageH, lms);
+  const distances: Record<string, number> = {};
+  for (const d of DISTANCE_MEASURES) distances[d.id] = euclid(pt(d.segment[0]), pt(d.segment[1]));
+
+  const ratios: Record<string, number> = {};
+  for (const d of DERIVED_MEASURES) ratios[d.id] = d.compute(distances, pt);
+
+  const targets: Record<string, number> = {};
+  const norms: Record<string, [number, number]> = {};
+  for (const d of DERIVED_MEASURES) {
+    const t = d.golden ? methodology.targets[d.id] ?? d.target : d.target;
+    if (t !== undefined) targets[d.id] = t;
+    if (d.norm) norms[d.id] = d.norm;
+  }
+
+  const relErrors = GOLDEN_RATIOS.map((k) => {
+    const ideal = targets[k];
+    const val = ratios[k];
+    return ideal > 0 ? Math.abs(val - ideal) / ideal : 1;
+  });
+
+  const avgDev = relErrors.reduce((a, b) => a + b, 0) / relErrors.length;
+  const score = Math.round(100 * Math.exp(-5 * avgDev) * 100) / 100;
+
+  const values: MeasureValues = Object.fromEntries(Object.entries(distances).map(([k, v]) => [k, round2(v)]));
+
+  return {
+    score,
+    values,
+    faceWidth: distances.face_width,
+    eyeDist: distances.intercanthal_width,
+    eyeL: pt(133),
+    eyeR: pt(362),
+    ratios,
+    targets,
+    norms,
+  };
+}
@@ -0,0 +1,40 @@
+export * from "./types";
+export { MessageError, errorMessage, msg, rawMessage } from "./messages";
+export type { Message } from "./messages";
+export { BUILT_IN_METHODOLOGIES, METHODOLOGY, methodologyRef, validateMethodology } from "./methodology";
+export type { Methodology, MethodologyRef } from "./methodology";
+export { clamp, round1, round2, round3, euclid, project } from "./geometry";
+export { ALIGNED_WIDTH, computeAlignment, alignLandmarks } from "./alignment";
+export type { Alignment } from "./alignment";
+export { WORKING_MAX_DIM, orientationTransform, orientedSize, readExifOrientation, sniffImageFormat, toOriginal, workingScale } from "./ingest";
+export type { ImageFormat, ImageSourceInfo } from "./ingest";
+export { IRIS_DIAMETER_MM, IRIS_DIAMETER_SD_MM, RULER_POINT_SD_PX, calibrationNote, irisDiametersPx, scaleReference } from "./calibration";
+export type { ManualCalibration } from "./calibration";
+export { diffLandmarks, medianLandmarks } from "./landmarks";
+export type { LandmarkEdit } from "./landmarks";
+export { BILATERAL_PAIRS, MIDLINE_LANDMARKS } from "./bilateral";
+export { SYMMETRY_ANCHORS, SYMMETRY_REGIONS, analyzeSymmetry, calcSymmetryScore, describeDeviation, symmetricPairs } from "./symmetry";
+export { SYMMETRIZE_MODES, symmetrizeLandmarks, triangleAffine } from "./symmetrize";
+export type { Affine, SymmetricComposite, SymmetrizeMode, SymmetrizedMesh } from "./symmetrize";
+export { DERIVED_MEASURES, DISTANCE_MEASURES, GOLDEN_RATIOS, LEGACY_METRIC_IDS, MEASURE_CATALOGUE, measureDef, migrateMetricKeys, normDeviation } from "./catalogue";
+export type { DerivedDef, DistanceDef, MeasureDef } from "./catalogue";
+export { analyzeGolden, KEY_LANDMARKS, MEASURE_SEGMENTS, RATIO_MEASURES } from "./golden";
+export { computeOverall } from "./overall";
+export { LITERATURE_COHORT_ID, MIN_COHORT_SUBJECTS, buildPopulationModel, cohortGroups, compareToPopulation, literatureCohort, parseCohort, uniquenessNote } from "./population";
+export type { CohortSubject, PopulationModel, ReferenceCohort } from "./population";
+export { buildFeedback } from "./feedback";
+export { assessFaceFraming, sortFacesLeftToRight } from "./faces";
+export { assessPose, estimatePose, frontalizeLandmarks } from "./pose";
+export type { HeadPose } from "./pose";
+export { assessQuality, lumaFromRGBA, qualityRecommendations } from "./quality";
+export type { LumaImage, QualityAssessment, QualityCheck, QualityCheckId, QualityGrade } from "./quality";
+export { createRng, gaussian, gaussianPerturbations, jitterLandmarks, monteCarlo, perturbLandmarks, quantile, summarize } from "./uncertainty";
+export type { Rng } from "./uncertainty";
+export { scoreLandmarks, parseLandmarkFile, upgradeReport, SUPPORTED_LANDMARK_COUNTS } from "./report";
+export type { ScoreOptions, LandmarkFile, StoredReport } from "./report";
+export { REPORT_SCHEMA, REPORT_SCHEMA_VERSION, buildReportJSON, ratiosCSV, relativeErrors, toCSV } from "./export";
+export type { ReportExportInput } from "./export";
+export { compareReports, landmarkDisplacements } from "./compare";
+export type { DeltaRow, Displacement } from "./compare";
+export { MIN_VIDEO_FRAMES, aggregateFrames, frameRejection, representativeFrame } from "./temporal";
+export type { TimedReport } from "./temporal";
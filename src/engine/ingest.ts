@@ -0,0 +1,103 @@
+import type { Point } from "./types";
+
+/** Plus grand côté (px) de l’image de travail ; au-delà, l’image importée est réduite. */
+export const WORKING_MAX_DIM = 2048;
+
+export type ImageFormat = "jpeg" | "png" | "webp" | "avif" | "heic" | "gif" | "bmp";
+
+/** Origine de l’image de travail : fichier importé, orientation appliquée et facteur de réduction. */
+export type ImageSourceInfo = {
+  format: ImageFormat;
+  /** Valeur EXIF 1–8 (1 = aucune transformation). */
+  orientation: number;
+  /** Dimensions de l’original, orientation appliquée. */
+  original: { width: number; height: number };
+  /** Image de travail = original × `scale` (≤ 1). */
+  scale: number;
+};
+
+const ascii = (b: Uint8Array, start: number, len: number) => String.fromCharCode(...b.subarray(start, start + len));
+
+/** Reconnaît le format d’après la signature du fichier, indépendamment de son extension. */
+export function sniffImageFormat(b: Uint8Array): ImageFormat | null {
+  if (b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff) return "jpeg";
+  if (b[0] === 0x89 && ascii(b, 1, 3) === "PNG") return "png";
+  if (ascii(b, 0, 4) === "RIFF" && ascii(b, 8, 4) === "WEBP") return "webp";
+  if (ascii(b, 0, 3) === "GIF") return "gif";
+  if (ascii(b, 0, 2) === "BM") return "bmp";
+  if (ascii(b, 4, 4) === "ftyp") {
+    // Marque principale puis marques compatibles de la boîte ftyp (ISO BMFF).
+    const size = Math.min((b[0] << 24) | (b[1] << 16) | (b[2] << 8) | b[3], b.length);
+    const brands = [ascii(b, 8, 4)];
+    for (let i = 16; i + 4 <= size; i += 4) brands.push(ascii(b, i, 4));
+    if (brands.some((x) => x === "avif" || x === "avis")) return "avif";
+    if (brands.some((x) => ["heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1"].includes(x))) return "heic";
+  }
+  return null;
+}
+
+/**
+ * Orientation EXIF (balise 0x0112) d’un JPEG, lue dans le segment APP1 ; 1 si absente ou illisible.
+ */
+export function readExifOrientation(b: Uint8Array): number {
+  if (b[0] !== 0xff || b[1] !== 0xd8) return 1;
+  const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+  let offset = 2;
+  while (offset + 4 <= b.length) {
+    if (b[offset] !== 0xff) return 1;
+    const marker = b[offset + 1];
+    // Début des données compressées : plus aucun segment de métadonnées.
+    if (marker === 0xda) return 1;
+    const len = view.getUint16(offset + 2);
+    if (marker === 0xe1 && ascii(b, offset + 4, 6) === "Exif\0\0") {
+      const tiff = offset + 10;
+      if (tiff + 8 > b.length) return 1;
+      const little = ascii(b, tiff, 2) === "II";
+      const u16 = (o: number) => view.getUint16(o, little);
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      if (ifd + 2 > b.length) return 1;
+      const count = u16(ifd);
+      for (let i = 0; i < count; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 12 > b.length) return 1;
+        if (u16(entry) === 0x0112) {
+          const v = u16(entry + 8);
+          return v >= 1 && v <= 8 ? v : 1;
+        }
+      }
+      return 1;
+    }
+    offset += 2 + len;
+  }
+  return 1;
+}
+
+/** Dimensions affichées d’une image brute `w`×`h` : les orientations 5 à 8 permutent les côtés. */
+export function orientedSize(w: number, h: number, orientation: number) {
+  return orientation >= 5 ? { width: h, height: w } : { width: w, height: h };
+}
+
+/**
+ * Matrice de canevas `[a, b, c, d, e, f]` qui, appliquée avant de dessiner l’image brute `w`×`h`
+ * en (0,0), produit l’image orientée.
+ */
+export function orientationTransform(orientation: number, w: number, h: number): [number, number, number, number, number, number] {
+  switch (orientation) {
+    case 2: return [-1, 0, 0, 1, w, 0];
+    case 3: return [-1, 0, 0, -1, w, h];
+    case 4: return [1, 0, 0, -1, 0, h];
+    case 5: return [0, 1, 1, 0, 0, 0];
+    case 6: return [0, 1, -1, 0, h, 0];
+    case 7: return [0, -1, -1, 0, h, w];
+    case 8: return [0, -1, 1, 0, 0, w];
+    default: return [1, 0, 0, 1, 0, 0];
+  }
+}
+
+/** Facteur de réduction (≤ 1) ramenant le plus grand côté à `maxDim`. */
+export function workingScale(w: number, h: number, maxDim = WORKING_MAX_DIM) {
+  return Math.min(1, maxDim / Math.max(w, h));
+}
+
+/** Point de l’image de travail (px) ramené dans l’original orienté. */
+export const toOriginal = (p: Point, info: ImageSourceInfo): Point => [p[0] / info.scale, p[1] / info.scale];
@@ -0,0 +1,30 @@
+import type { LM } from "./types";
+
+/** Médiane point par point d’une série de jeux de landmarks (même nombre de points). */
+export function medianLandmarks(frames: LM[][]): LM[] | null {
+  if (!frames.length) return null;
+  const nPts = frames[0].length;
+  const mid = Math.floor(frames.length / 2);
+  const median: LM[] = [];
+  for (let p = 0; p < nPts; p++) {
+    const xs = frames.map((a) => a[p].x).sort((a, b) => a - b);
+    const ys = frames.map((a) => a[p].y).sort((a, b) => a - b);
+    const zs = frames.map((a) => a[p].z).filter((z): z is number => z !== undefined).sort((a, b) => a - b);
+    median.push(zs.length === frames.length ? { x: xs[mid], y: ys[mid], z: zs[mid] } : { x: xs[mid], y: ys[mid] });
+  }
+  return median;
+}
+
+export type LandmarkEdit = { index: number; dx: number; dy: number; distance: number };
+
+/** Écarts (en pixels de l’image alignée) entre les landmarks corrigés et la sortie du détecteur. */
+export function diffLandmarks(detected: LM[], edited: LM[], w: number, h: number, tolerancePx = 0.5): LandmarkEdit[] {
+  const edits: LandmarkEdit[] = [];
+  edited.forEach((p, index) => {
+    const dx = (p.x - detected[index].x) * w;
+    const dy = (p.y - detected[index].y) * h;
+    const distance = Math.hypot(dx, dy);
+    if (distance > tolerancePx) edits.push({ index, dx, dy, distance });
+  });
+  return edits;
+}
@@ -0,0 +1,27 @@
+/**
+ * Message indépendant de la langue : `code` est une clé des catalogues de traduction
+ * (`src/i18n`), `params` les valeurs interpolées (`{nom}`).
+ */
+export type Message = { code: string; params?: Record<string, string | number> };
+
+export const msg = (code: string, params?: Message["params"]): Message => (params ? { code, params } : { code });
+
+/** Erreur portant un message traduisible ; `message` reprend le code pour les journaux. */
+export class MessageError extends Error {
+  readonly code: string;
+  readonly params?: Message["params"];
+
+  constructor(m: Message) {
+    super(m.code);
+    this.name = "MessageError";
+    this.code = m.code;
+    this.params = m.params;
+  }
+}
+
+/** Texte déjà rédigé (analyses archivées avant la traduction, erreurs tierces), affiché tel quel. */
+export const rawMessage = (text: string) => msg("raw", { text });
+
+/** Message d’une erreur quelconque : code conservé si disponible, texte brut sinon. */
+export const errorMessage = (e: unknown): Message =>
+  e instanceof MessageError ? msg(e.code, e.params) : rawMessage(e instanceof Error ? e.message : String(e));
@@ -0,0 +1,197 @@
+import { GOLDEN_RATIOS, migrateMetricKeys } from "./catalogue";
+import { msg, type Message } from "./messages";
+
+/** Profil méthodologique : pondérations, seuils, cibles et paramètres d’incertitude. */
+export type Methodology = {
+  id: string;
+  name: string;
+  version: string;
+  description?: string;
+  builtIn?: boolean;
+  weights: { symmetry: number; golden: number; harmony: number };
+  eyeSpacing: { idealMin: number; idealMax: number; low: number; high: number };
+  /**
+   * Seuils des contrôles qualité sur la région du visage. Un visage « moyen » voit ses IC95
+   * multipliés par `fairCIFactor`, un visage « mauvais » par `poorCIFactor`, ou n’est pas scoré
+   * si `onPoor` vaut « block ».
+   */
+  quality: {
+    laplacianVarMin: number;
+    luminanceMin: number;
+    luminanceMax: number;
+    contrastMin: number;
+    lightingImbalanceMax: number;
+    faceWidthMinPx: number;
+    eyeOpennessMin: number;
+    mouthOpennessMax: number;
+    fairCIFactor: number;
+    poorCIFactor: number;
+    onPoor: "widen" | "block";
+  };
+  /**
+   * Passage Monte-Carlo : `repeats` tirages, graine `seed` (résultats reproductibles).
+   * `mode` : bruit gaussien de σ `jitterSigma` sur les landmarks, ou redétection sur des copies perturbées de l’image.
+   */
+  uncertainty: { repeats: number; jitterSigma: number; seed: number; mode: "jitter" | "detector" };
+  faces: { minSizePx: number; maxOutsideFraction: number };
+  /**
+   * Limites d’orientation de la tête. `gate` : simple avertissement ou refus du score ;
+   * `normalize` ramène les landmarks 3D en pose frontale avant symétrie et ratios.
+   */
+  pose: { maxYawDeg: number; maxPitchDeg: number; maxRollDeg: number; gate: "warn" | "refuse"; normalize: boolean };
+  /** Valeur cible de chaque ratio du score « nombre d’or », par identifiant (entrées `golden` du catalogue). */
+  targets: Record<string, number>;
+};
+
+/** Référence courte enregistrée dans chaque rapport. */
+export type MethodologyRef = Pick<Methodology, "id" | "name" | "version">;
+
+export const METHODOLOGY: Methodology = {
+  id: "harmonie",
+  name: "Harmonie (défaut)",
+  version: "1.6.0",
+  description: "Méthodologie historique de l’application : symétrie, nombre d’or et espacement inter-oculaire.",
+  builtIn: true,
+  weights: { symmetry: 0.35, golden: 0.25, harmony: 0.40 },
+  eyeSpacing: { idealMin: 0.28, idealMax: 0.36, low: 0.26, high: 0.38 },
+  quality: {
+    laplacianVarMin: 25,
+    luminanceMin: 60,
+    luminanceMax: 200,
+    contrastMin: 25,
+    lightingImbalanceMax: 0.15,
+    faceWidthMinPx: 250,
+    eyeOpennessMin: 0.15,
+    mouthOpennessMax: 0.12,
+    fairCIFactor: 1.5,
+    poorCIFactor: 2,
+    onPoor: "widen",
+  },
+  uncertainty: { repeats: 40, jitterSigma: 0.003, seed: 1, mode: "jitter" },
+  faces: { minSizePx: 120, maxOutsideFraction: 0.02 },
+  pose: { maxYawDeg: 12, maxPitchDeg: 15, maxRollDeg: 10, gate: "warn", normalize: false },
+  targets: {
+    face_length_to_width: 1.618,
+    intercanthal_to_mouth: 1.618,
+    intercanthal_to_face_width: 0.32,
+    nose_chin_to_face_length: 0.618,
+    lip_gap_to_mouth: 0.2,
+  },
+};
+
+const PHI = (1 + Math.sqrt(5)) / 2;
+const phiPow = (n: number) => Math.round(Math.pow(PHI, n) * 1000) / 1000;
+
+export const BUILT_IN_METHODOLOGIES: Methodology[] = [
+  METHODOLOGY,
+  {
+    ...METHODOLOGY,
+    id: "golden-canon",
+    name: "Canon du nombre d’or",
+    version: "1.4.0",
+    description: "Toutes les cibles sont des puissances de φ ; la concordance au nombre d’or pèse davantage.",
+    weights: { symmetry: 0.25, golden: 0.45, harmony: 0.30 },
+    targets: {
+      face_length_to_width: phiPow(1),
+      intercanthal_to_mouth: phiPow(-1),
+      intercanthal_to_face_width: phiPow(-2),
+      nose_chin_to_face_length: phiPow(-1),
+      lip_gap_to_mouth: phiPow(-3),
+    },
+  },
+  {
+    ...METHODOLOGY,
+    id: "neoclassical",
+    name: "Canon néoclassique",
+    version: "1.4.0",
+    description:
+      "Canons néoclassiques (Farkas) : distance inter-oculaire ≈ largeur du nez, bouche ≈ 1,5 nez, visage ≈ 4 nez, étage inférieur ≈ ⅓ de la hauteur.",
+    eyeSpacing: { idealMin: 0.23, idealMax: 0.27, low: 0.21, high: 0.29 },
+    targets: {
+      face_length_to_width: 1.35,
+      intercanthal_to_mouth: 0.667,
+      intercanthal_to_face_width: 0.25,
+      nose_chin_to_face_length: 0.38,
+      lip_gap_to_mouth: 0.2,
+    },
+  },
+];
+
+export const methodologyRef = (m: Methodology): MethodologyRef => ({ id: m.id, name: m.name, version: m.version });
+
+const isNum = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+/**
+ * Valide un profil (typiquement importé en JSON). Renvoie le profil normalisé
+ * ou la liste des erreurs rencontrées (`methodology.error.*`).
+ */
+export function validateMethodology(raw: unknown): { methodology?: Methodology; errors: Message[] } {
+  const errors: Message[] = [];
+  const fail = (code: string, params?: Message["params"]) => errors.push(msg(`methodology.error.${code}`, params));
+  if (!raw || typeof raw !== "object") return { errors: [msg("methodology.error.notObject")] };
+  const m = raw as Partial<Methodology>;
+
+  if (typeof m.id !== "string" || !/^[a-z0-9][a-z0-9-]*$/.test(m.id)) fail("id");
+  if (typeof m.name !== "string" || !m.name.trim()) fail("name");
+  if (typeof m.version !== "string" || !/^\d+\.\d+\.\d+$/.test(m.version)) fail("version");
+
+  const w = m.weights;
+  if (!w || ![w.symmetry, w.golden, w.harmony].every((v) => isNum(v) && v >= 0)) {
+    fail("weights");
+  } else if (Math.abs(w.symmetry + w.golden + w.harmony - 1) > 1e-3) {
+    fail("weightSum");
+  }
+
+  const es = m.eyeSpacing;
+  if (!es || ![es.low, es.idealMin, es.idealMax, es.high].every(isNum)) fail("eyeSpacing");
+  else if (!(es.low < es.idealMin && es.idealMin < es.idealMax && es.idealMax < es.high)) {
+    fail("eyeSpacingOrder");
+  }
+
+  // Les profils antérieurs aux contrôles sur la région du visage reprennent les seuils par défaut manquants.
+  const q: Methodology["quality"] = { ...METHODOLOGY.quality };
+  for (const k of Object.keys(q) as Array<keyof Methodology["quality"]>) {
+    if (m.quality?.[k] !== undefined) Object.assign(q, { [k]: m.quality[k] });
+  }
+  const { onPoor, ...thresholds } = q;
+  if (!Object.values(thresholds).every((v) => isNum(v) && v >= 0)) fail("qualityThresholds");
+  else if (!(q.luminanceMin < q.luminanceMax)) fail("qualityLuminance");
+  else if (!(q.fairCIFactor >= 1 && q.poorCIFactor >= q.fairCIFactor)) fail("qualityCIFactors");
+  if (onPoor !== "widen" && onPoor !== "block") fail("qualityOnPoor");
+
+  const u = m.uncertainty && {
+    ...m.uncertainty,
+    seed: m.uncertainty.seed ?? METHODOLOGY.uncertainty.seed,
+    mode: m.uncertainty.mode ?? METHODOLOGY.uncertainty.mode,
+  };
+  if (!u || !Number.isInteger(u.repeats) || u.repeats < 0 || u.repeats > 2000) fail("repeats");
+  else if (!isNum(u.jitterSigma) || u.jitterSigma < 0 || u.jitterSigma > 0.05) fail("jitterSigma");
+  else if (!Number.isInteger(u.seed) || u.seed < 0 || u.seed > 0xffffffff) fail("seed");
+  else if (u.mode !== "jitter" && u.mode !== "detector") fail("uncertaintyMode");
+
+  const f = m.faces ?? METHODOLOGY.faces;
+  if (!isNum(f.minSizePx) || f.minSizePx < 0 || !isNum(f.maxOutsideFraction) || f.maxOutsideFraction < 0 || f.maxOutsideFraction > 1) {
+    fail("faces");
+  }
+
+  const p = m.pose ?? METHODOLOGY.pose;
+  const angleOK = (v: unknown) => isNum(v) && v >= 0 && v <= 90;
+  if (![p.maxYawDeg, p.maxPitchDeg, p.maxRollDeg].every(angleOK)) fail("poseAngles");
+  if (p.gate !== "warn" && p.gate !== "refuse") fail("poseGate");
+  if (typeof p.normalize !== "boolean") fail("poseNormalize");
+
+  // Les profils antérieurs aux identifiants stables indexent leurs cibles par libellé français.
+  const t = m.targets && typeof m.targets === "object" ? migrateMetricKeys(m.targets) : undefined;
+  if (!t) fail("targets");
+  else {
+    for (const k of GOLDEN_RATIOS) {
+      if (!isNum(t[k]) || t[k] <= 0) fail("target", { id: k });
+    }
+  }
+
+  if (errors.length) return { errors };
+  // Un profil importé n’est jamais considéré comme intégré.
+  const methodology: Methodology = { ...(m as Methodology), quality: q, uncertainty: u!, faces: f, pose: p, targets: t! };
+  delete methodology.builtIn;
+  return { methodology, errors };
+}
@@ -0,0 +1,41 @@
+import { buildFeedback } from "./feedback";
+import { clamp, round1, round2 } from "./geometry";
+import { METHODOLOGY, type Methodology } from "./methodology";
+import type { OverallOut } from "./types";
+
+export function computeOverall(
+  symmetry: number,
+  golden: number,
+  faceWidth: number,
+  eyeDist: number,
+  methodology: Methodology = METHODOLOGY
+): OverallOut {
+  let base = 0.4 * symmetry + 0.4 * golden;
+  let eyeScore = 75;
+  let eyeSpacingRatio = 0;
+
+  if (faceWidth > 0) {
+    eyeSpacingRatio = eyeDist / faceWidth;
+    const es = methodology.eyeSpacing;
+    if (eyeSpacingRatio > es.idealMin && eyeSpacingRatio < es.idealMax) eyeScore = 100;
+    else if (eyeSpacingRatio <= es.low || eyeSpacingRatio >= es.high) eyeScore = 60;
+    else eyeScore = 80;
+  }
+  base += 0.2 * eyeScore;
+
+  const harmony = clamp(base, 20, 100);
+  const { weights } = methodology;
+  const weighted = weights.symmetry * symmetry + weights.golden * golden + weights.harmony * harmony;
+  const raw = weighted / 100;
+  const scaled = Math.pow(raw, 1.8);
+  const overall = clamp(4 + scaled * 9, 1, 10);
+
+  const asymFactor = Math.abs(50 - symmetry) / 50;
+  const goldenDev = Math.abs(60 - golden) / 60;
+  const harmVar = Math.abs(70 - harmony) / 70;
+  const uniqRaw = 0.4 * asymFactor + 0.3 * goldenDev + 0.3 * harmVar;
+  const uniqueness = clamp(5 + 4 * uniqRaw, 1, 10);
+
+  const fb = buildFeedback(symmetry, golden, eyeSpacingRatio, methodology);
+  return { harmony: round2(harmony), overall: round1(overall), uniqueness: round1(uniqueness), feedback: fb };
+}
@@ -0,0 +1,369 @@
+import { DERIVED_MEASURES, DISTANCE_MEASURES, MEASURE_CATALOGUE, migrateMetricKeys } from "./catalogue";
+import { round1, round2 } from "./geometry";
+import { MessageError, msg, type Message } from "./messages";
+import type { PopulationComparison, PopulationRef, ScoreReport } from "./types";
+import { inflatedInterval } from "./uncertainty";
+
+/** Sujet d’une cohorte : groupe déclaré éventuel et grandeurs du catalogue (distances rapportées à la largeur du visage). */
+export type CohortSubject = { group: string | null; values: Record<string, number> };
+
+/**
+ * Cohorte de référence : des sujets individuels, ou seulement la moyenne et l’écart-type publiés
+ * de chaque grandeur (résumé, sans covariance ni groupes).
+ */
+export type ReferenceCohort = {
+  id: string;
+  name: string;
+  source?: string;
+  subjects: CohortSubject[];
+  summary?: Record<string, { mean: number; sd: number }>;
+};
+
+type FeatureStats = { mean: number; sd: number; sorted?: number[] };
+
+/** Statistiques d’une cohorte (ou d’un de ses groupes) prêtes à situer des rapports. */
+export type PopulationModel = {
+  ref: PopulationRef;
+  stats: Record<string, FeatureStats>;
+  /** Ratios de la distance de Mahalanobis, leur moyenne et leur covariance régularisée. */
+  features: string[];
+  mean: number[];
+  cov: number[][];
+};
+
+export const LITERATURE_COHORT_ID = "literature";
+/** Effectif minimal d’une cohorte ou d’un groupe. */
+export const MIN_COHORT_SUBJECTS = 3;
+/** En deçà, le rang centile suppose une distribution normale plutôt que d’être lu sur les sujets. */
+const MIN_EMPIRICAL = 20;
+/** Part de la covariance ramenée vers sa diagonale (effectifs faibles, ratios colinéaires). */
+const SHRINKAGE = 0.1;
+
+const DISTANCE_IDS = new Set(DISTANCE_MEASURES.map((d) => d.id));
+const CATALOGUE_IDS = new Set(MEASURE_CATALOGUE.map((d) => d.id));
+
+/**
+ * Cohorte intégrée tirée des plages de référence du catalogue : chaque plage est lue comme
+ * moyenne ± 2 écarts-types, sans corrélation entre grandeurs. Approximation à défaut de données.
+ */
+export function literatureCohort(): ReferenceCohort {
+  const normed = MEASURE_CATALOGUE.filter((d) => d.norm);
+  return {
+    id: LITERATURE_COHORT_ID,
+    name: "Plages de référence de la littérature",
+    source: [...new Set(normed.map((d) => d.reference))].join(" ; "),
+    subjects: [],
+    summary: Object.fromEntries(normed.map((d) => [d.id, { mean: (d.norm![0] + d.norm![1]) / 2, sd: (d.norm![1] - d.norm![0]) / 4 }])),
+  };
+}
+
+/** Grandeurs du catalogue d’un enregistrement, distances divisées par la largeur du visage. */
+function subjectValues(entries: Record<string, unknown>): Record<string, number> {
+  const values: Record<string, number> = {};
+  for (const [k, v] of Object.entries(migrateMetricKeys(entries))) {
+    const n = typeof v === "string" ? Number(v.replace(",", ".")) : v;
+    if (CATALOGUE_IDS.has(k) && typeof n === "number" && Number.isFinite(n)) values[k] = n;
+  }
+  const width = values.face_width;
+  for (const k of Object.keys(values)) {
+    if (!DISTANCE_IDS.has(k)) continue;
+    if (width > 0) values[k] /= width;
+    else delete values[k];
+  }
+  delete values.face_width;
+  return values;
+}
+
+const groupOf = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : typeof v === "number" ? String(v) : null);
+
+function fromJSON(raw: unknown, id: string, name: string): ReferenceCohort {
+  const obj = (Array.isArray(raw) ? { subjects: raw } : raw) as Record<string, unknown> | null;
+  if (!obj || typeof obj !== "object") throw new MessageError(msg("cohort.empty"));
+  const cohort: ReferenceCohort = {
+    id,
+    name: typeof obj.name === "string" && obj.name ? obj.name : name,
+    source: typeof obj.source === "string" ? obj.source : undefined,
+    subjects: [],
+  };
+  if (obj.summary && typeof obj.summary === "object") {
+    cohort.summary = {};
+    for (const [k, v] of Object.entries(migrateMetricKeys(obj.summary as Record<string, unknown>))) {
+      const { mean, sd } = (v ?? {}) as { mean?: unknown; sd?: unknown };
+      if (!CATALOGUE_IDS.has(k)) continue;
+      if (typeof mean !== "number" || typeof sd !== "number" || !(sd > 0)) throw new MessageError(msg("cohort.invalidSummary", { id: k }));
+      cohort.summary[k] = { mean, sd };
+    }
+  }
+  // Un sujet peut aussi être un rapport JSON exporté : ses mesures et ratios sont repris.
+  for (const s of Array.isArray(obj.subjects) ? obj.subjects : []) {
+    if (!s || typeof s !== "object") continue;
+    const { measures, ratios, group, groupe, ...rest } = s as Record<string, unknown>;
+    const flat = { ...(measures as object), ...(ratios as object), ...rest } as Record<string, unknown>;
+    cohort.subjects.push({ group: groupOf(group ?? groupe), values: subjectValues(flat) });
+  }
+  return cohort;
+}
+
+/** Découpe une ligne CSV (champs entre guillemets, `""` échappé). */
+function splitCSVLine(line: string, sep: string) {
+  const cells: string[] = [];
+  let cell = "", quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') { cell += '"'; i++; }
+      else if (c === '"') quoted = false;
+      else cell += c;
+    } else if (c === '"') quoted = true;
+    else if (c === sep) { cells.push(cell); cell = ""; }
+    else cell += c;
+  }
+  cells.push(cell);
+  return cells.map((c) => c.trim());
+}
+
+function fromCSV(text: string, id: string, name: string): ReferenceCohort {
+  const lines = text.split(/\r?\n/).filter((l) => l.trim());
+  if (lines.length < 2) throw new MessageError(msg("cohort.empty"));
+  // Séparateur « ; » (tableurs en français, virgule décimale) ou « , ».
+  const sep = lines[0].includes(";") ? ";" : ",";
+  const header = splitCSVLine(lines[0], sep);
+  const groupCol = header.findIndex((h) => /^(group|groupe)$/i.test(h));
+  const subjects = lines.slice(1).map((line) => {
+    const cells = splitCSVLine(line, sep);
+    const entries = Object.fromEntries(header.map((h, i) => [h, cells[i] === "" ? undefined : cells[i]]));
+    return { group: groupCol >= 0 ? groupOf(cells[groupCol]) : null, values: subjectValues(entries) };
+  });
+  return { id, name, subjects };
+}
+
+/**
+ * Lit une cohorte JSON ou CSV. JSON : tableau de sujets, `{ name, source, subjects }` ou résumé
+ * publié `{ name, source, summary: { <id>: { mean, sd } } }`. CSV : une ligne par sujet, colonnes
+ * nommées par identifiant du catalogue et colonne `group` facultative. Les distances, dans n’importe
+ * quelle unité, doivent être accompagnées de `face_width`.
+ */
+export function parseCohort(text: string, id: string, name: string): ReferenceCohort {
+  const trimmed = text.trimStart();
+  let cohort: ReferenceCohort;
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(trimmed);
+    } catch (e) {
+      throw new MessageError(msg("cohort.unreadable", { error: (e as Error).message }));
+    }
+    cohort = fromJSON(raw, id, name);
+  } else {
+    cohort = fromCSV(text, id, name);
+  }
+  cohort.subjects = cohort.subjects.filter((s) => Object.keys(s.values).length > 0);
+  if (!cohort.subjects.length && !Object.keys(cohort.summary ?? {}).length) throw new MessageError(msg("cohort.noFeatures"));
+  if (cohort.subjects.length && cohort.subjects.length < MIN_COHORT_SUBJECTS) {
+    throw new MessageError(msg("cohort.tooSmall", { count: cohort.subjects.length, min: MIN_COHORT_SUBJECTS }));
+  }
+  return cohort;
+}
+
+/** Groupes déclarés dans la cohorte, avec leur effectif. */
+export function cohortGroups(cohort: ReferenceCohort) {
+  const counts = new Map<string, number>();
+  for (const s of cohort.subjects) if (s.group) counts.set(s.group, (counts.get(s.group) ?? 0) + 1);
+  return [...counts].map(([group, n]) => ({ group, n })).sort((a, b) => a.group.localeCompare(b.group));
+}
+
+const mean = (vals: number[]) => vals.reduce((a, b) => a + b, 0) / vals.length;
+
+/** Statistiques de la cohorte, restreinte à `group` s’il est donné. */
+export function buildPopulationModel(cohort: ReferenceCohort, group: string | null = null): PopulationModel {
+  const subjects = group === null ? cohort.subjects : cohort.subjects.filter((s) => s.group === group);
+  if (group !== null && subjects.length < MIN_COHORT_SUBJECTS) {
+    throw new MessageError(msg("cohort.tooSmall", { count: subjects.length, min: MIN_COHORT_SUBJECTS }));
+  }
+
+  const stats: Record<string, FeatureStats> = {};
+  for (const [k, s] of Object.entries(cohort.summary ?? {})) stats[k] = { ...s };
+  const ids = new Set(subjects.flatMap((s) => Object.keys(s.values)));
+  for (const k of ids) {
+    const vals = subjects.map((s) => s.values[k]).filter((v) => v !== undefined);
+    if (vals.length < MIN_COHORT_SUBJECTS) continue;
+    const m = mean(vals);
+    const sd = Math.sqrt(vals.reduce((a, v) => a + (v - m) ** 2, 0) / (vals.length - 1));
+    stats[k] = { mean: m, sd, sorted: [...vals].sort((a, b) => a - b) };
+  }
+  for (const k of Object.keys(stats)) if (!(stats[k].sd > 0)) delete stats[k];
+
+  const features = DERIVED_MEASURES.map((d) => d.id).filter((k) => k in stats);
+  // Covariance par paires sur les sujets qui renseignent les deux ratios ; diagonale pour un résumé.
+  const cov = features.map((a, i) =>
+    features.map((b, j) => {
+      if (i === j) return stats[a].sd ** 2;
+      const both = subjects.filter((s) => s.values[a] !== undefined && s.values[b] !== undefined);
+      if (both.length < MIN_COHORT_SUBJECTS) return 0;
+      const ma = mean(both.map((s) => s.values[a])), mb = mean(both.map((s) => s.values[b]));
+      const c = both.reduce((acc, s) => acc + (s.values[a] - ma) * (s.values[b] - mb), 0) / (both.length - 1);
+      return (1 - SHRINKAGE) * c;
+    })
+  );
+
+  return {
+    ref: { id: cohort.id, name: cohort.name, group, n: cohort.subjects.length ? subjects.length : null, source: cohort.source },
+    stats,
+    features,
+    mean: features.map((k) => stats[k].mean),
+    cov,
+  };
+}
+
+/** Facteur de Cholesky (triangulaire inférieur), ou `null` si la matrice n’est pas définie positive. */
+function cholesky(a: number[][]) {
+  const n = a.length;
+  const l = a.map(() => new Array<number>(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = a[i][j];
+      for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k];
+      if (i === j) {
+        if (!(sum > 0)) return null;
+        l[i][i] = Math.sqrt(sum);
+      } else {
+        l[i][j] = sum / l[j][j];
+      }
+    }
+  }
+  return l;
+}
+
+/**
+ * Carré de la distance de Mahalanobis sur les ratios `ids` du modèle. Si la covariance n’est pas
+ * inversible (covariances par paires incohérentes), on se replie sur sa diagonale.
+ */
+function mahalanobis(model: PopulationModel, ids: string[]) {
+  const idx = ids.map((k) => model.features.indexOf(k));
+  const sub = idx.map((i) => idx.map((j) => model.cov[i][j]));
+  const l = cholesky(sub) ?? cholesky(sub.map((row, i) => row.map((v, j) => (i === j ? v : 0))))!;
+  return (values: Record<string, number>) => {
+    const y: number[] = [];
+    idx.forEach((fi, i) => {
+      let r = values[ids[i]] - model.mean[fi];
+      for (let k = 0; k < i; k++) r -= l[i][k] * y[k];
+      y.push(r / l[i][i]);
+    });
+    return y.reduce((a, v) => a + v * v, 0);
+  };
+}
+
+/** ln Γ(x), approximation de Lanczos. */
+function logGamma(x: number) {
+  const c = [76.18009172947146, -86.50532032941678, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  for (const ci of c) ser += ci / ++y;
+  return -tmp + Math.log((2.5066282746310007 * ser) / x);
+}
+
+/** Fonction gamma incomplète régularisée P(a, x) : série, ou fraction continue pour x grand. */
+function gammaP(a: number, x: number) {
+  if (x <= 0) return 0;
+  const front = Math.exp(-x + a * Math.log(x) - logGamma(a));
+  if (x < a + 1) {
+    let term = 1 / a, sum = term;
+    for (let n = 1; n < 500 && Math.abs(term) > Math.abs(sum) * 1e-14; n++) sum += term *= x / (a + n);
+    return Math.min(1, sum * front);
+  }
+  const tiny = 1e-300;
+  let b = x + 1 - a, c = 1 / tiny, d = 1 / b, h = d;
+  for (let i = 1; i < 500; i++) {
+    const an = -i * (i - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 1e-14) break;
+  }
+  return Math.max(0, 1 - front * h);
+}
+
+const normalCDF = (z: number) => 0.5 * (1 + Math.sign(z) * gammaP(0.5, (z * z) / 2));
+/** Sous l’hypothèse de normalité, D² suit une loi du χ² à `k` degrés de liberté. */
+const chiSquareCDF = (d2: number, k: number) => gammaP(k / 2, d2 / 2);
+
+/** Rang centile : lu sur les sujets (rang moyen des ex æquo) s’ils sont assez nombreux, sinon loi normale. */
+function percentileOf(v: number, s: FeatureStats) {
+  if (!s.sorted || s.sorted.length < MIN_EMPIRICAL) return 100 * normalCDF((v - s.mean) / s.sd);
+  const below = s.sorted.filter((x) => x < v).length, equal = s.sorted.filter((x) => x === v).length;
+  return (100 * (below + equal / 2)) / s.sorted.length;
+}
+
+/**
+ * Situe un rapport dans la cohorte : z-score et rang centile de chaque mesure et ratio, et indice
+ * d’originalité tiré de la distance de Mahalanobis (1 + 9 × P(χ²ₖ ≤ D²), sur 10), avec son IC95 sur
+ * les tirages Monte-Carlo des ratios. À appliquer au rapport brut de `scoreLandmarks`.
+ */
+export function compareToPopulation(report: ScoreReport, model: PopulationModel | null): ScoreReport {
+  if (!model) return report;
+  const faceWidth = report.measures.face_width;
+  const value = (k: string) => (DISTANCE_IDS.has(k) ? (faceWidth > 0 ? report.measures[k] / faceWidth : undefined) : report.ratios[k]);
+
+  const features: PopulationComparison["features"] = {};
+  for (const [k, s] of Object.entries(model.stats)) {
+    const v = value(k);
+    if (v === undefined || !Number.isFinite(v)) continue;
+    features[k] = { z: round2((v - s.mean) / s.sd), percentile: round1(percentileOf(v, s)) };
+  }
+
+  const ids = model.features.filter((k) => Number.isFinite(report.ratios[k]));
+  if (!ids.length) return { ...report, population: { ref: model.ref, features, mahalanobis: null } };
+
+  const d2 = mahalanobis(model, ids);
+  const uniqueness = (values: Record<string, number>) => round1(1 + 9 * chiSquareCDF(d2(values), ids.length));
+  const base = d2(report.ratios);
+  const draws = report.distributions?.ratios ?? {};
+  const n = draws[ids[0]]?.length ?? 0;
+  const samples =
+    n > 0 && ids.every((k) => draws[k]?.length === n)
+      ? Array.from({ length: n }, (_, i) => uniqueness(Object.fromEntries(ids.map((k) => [k, draws[k][i]]))))
+      : [];
+
+  const score = uniqueness(report.ratios);
+  // L’IC de l’indice heuristique ne vaut pas pour celui-ci : il est remplacé ou retiré.
+  const ci = { ...report.ci }, scoreIntervals = { ...report.scoreIntervals }, scoreDraws = { ...report.distributions?.scores };
+  delete ci.uniqueness;
+  delete scoreIntervals.uniqueness;
+  delete scoreDraws.uniqueness;
+  const out: ScoreReport = {
+    ...report,
+    scores: { ...report.scores, uniqueness: score },
+    ci,
+    scoreIntervals,
+    distributions: { ratios: report.distributions?.ratios ?? {}, scores: scoreDraws },
+    population: {
+      ref: model.ref,
+      features,
+      mahalanobis: { distance: round2(Math.sqrt(base)), features: ids.length, percentile: round1(100 * chiSquareCDF(base, ids.length)) },
+    },
+  };
+  if (samples.length) {
+    const { half, bounds } = inflatedInterval(score, samples, report.quality?.ciFactor ?? 1, round2);
+    out.ci.uniqueness = half;
+    out.scoreIntervals.uniqueness = bounds;
+    out.distributions.scores.uniqueness = samples;
+  }
+  return out;
+}
+
+/**
+ * Phrase décrivant l’indice d’originalité du rapport : distance à la cohorte, absence de ratio
+ * commun, ou indice heuristique sans cohorte. `label` nomme la cohorte (traduction, groupe).
+ */
+export function uniquenessNote(report: ScoreReport, label: (ref: PopulationRef) => string = (ref) => ref.name): Message {
+  const p = report.population;
+  if (!p) return msg("report.population.heuristic");
+  if (!p.mahalanobis) return msg("report.population.noRatios", { name: label(p.ref) });
+  return msg("report.population.uniqueness", { ...p.mahalanobis, name: label(p.ref) });
+}
@@ -0,0 +1,79 @@
+import { round1 } from "./geometry";
+import { msg, type Message } from "./messages";
+import type { Methodology } from "./methodology";
+import type { LM } from "./types";
+
+/** Orientation de la tête en degrés. */
+export type HeadPose = { yaw: number; pitch: number; roll: number };
+
+type Vec3 = [number, number, number];
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+const unit = (a: Vec3): Vec3 => {
+  const n = Math.hypot(...a) || 1;
+  return [a[0] / n, a[1] / n, a[2] / n];
+};
+const deg = (rad: number) => Math.round(((rad * 180) / Math.PI) * 10) / 10 || 0;
+
+const hasDepth = (lms: LM[]) => lms.every((p) => typeof p.z === "number" && Number.isFinite(p.z));
+
+/** Points en pixels ; z est exprimé dans la même unité que x (normalisé par la largeur). */
+const toPx = (lms: LM[], w: number, h: number): Vec3[] => lms.map((p) => [p.x * w, p.y * h, (p.z ?? 0) * w]);
+
+/**
+ * Repère du visage : x joue d’une joue à l’autre (234 → 454), y descend du front au menton
+ * (10 → 152), z sort du plan du visage.
+ */
+function faceAxes(px: Vec3[]) {
+  const ex = unit(sub(px[454], px[234]));
+  const ez = unit(cross(ex, sub(px[152], px[10])));
+  const ey = cross(ez, ex);
+  return { ex, ey, ez };
+}
+
+/**
+ * Lacet, tangage et roulis à partir des landmarks 3D, ou `null` sans profondeur.
+ * Lacet positif : joue droite de l’image plus éloignée ; tangage positif : menton plus éloigné.
+ */
+export function estimatePose(lms: LM[], w: number, h: number): HeadPose | null {
+  if (!hasDepth(lms)) return null;
+  const { ex, ey } = faceAxes(toPx(lms, w, h));
+  return {
+    yaw: deg(Math.asin(Math.max(-1, Math.min(1, ex[2])))),
+    pitch: deg(Math.asin(Math.max(-1, Math.min(1, ey[2])))),
+    roll: deg(Math.atan2(ex[1], ex[0])),
+  };
+}
+
+/**
+ * Ramène les landmarks 3D en pose frontale (rotation inverse autour du centroïde)
+ * puis les reprojette orthogonalement dans le plan de l’image.
+ */
+export function frontalizeLandmarks(lms: LM[], w: number, h: number): LM[] {
+  if (!hasDepth(lms)) return lms;
+  const px = toPx(lms, w, h);
+  const { ex, ey, ez } = faceAxes(px);
+  const c = px.reduce<Vec3>((s, p) => [s[0] + p[0] / px.length, s[1] + p[1] / px.length, s[2] + p[2] / px.length], [0, 0, 0]);
+  return px.map((p) => {
+    const d = sub(p, c);
+    const x = c[0] + d[0] * ex[0] + d[1] * ex[1] + d[2] * ex[2];
+    const y = c[1] + d[0] * ey[0] + d[1] * ey[1] + d[2] * ey[2];
+    const z = c[2] + d[0] * ez[0] + d[1] * ez[1] + d[2] * ez[2];
+    return { x: x / w, y: y / h, z: z / w };
+  });
+}
+
+/** Messages (`pose.yaw`, `pose.pitch`, `pose.roll`) pour chaque angle dépassant les limites du profil. */
+export function assessPose(pose: HeadPose | null, methodology: Methodology): Message[] {
+  if (!pose) return [];
+  const { maxYawDeg, maxPitchDeg, maxRollDeg } = methodology.pose;
+  const out: Message[] = [];
+  const check = (axis: "yaw" | "pitch" | "roll", v: number, max: number) => {
+    if (Math.abs(v) > max) out.push(msg(`pose.${axis}`, { value: round1(v), max }));
+  };
+  check("yaw", pose.yaw, maxYawDeg);
+  check("pitch", pose.pitch, maxPitchDeg);
+  check("roll", pose.roll, maxRollDeg);
+  return out;
+}
@@ -0,0 +1,174 @@
+import { euclid, project, round1, round2, round3 } from "./geometry";
+import { msg, type Message } from "./messages";
+import type { Methodology } from "./methodology";
+import type { LM } from "./types";
+
+/** Image en niveaux de luminance (0–255, encodage sRGB), ligne par ligne. */
+export type LumaImage = { width: number; height: number; data: Float32Array };
+
+export type QualityGrade = "good" | "fair" | "poor";
+
+export type QualityCheckId = "blur" | "exposure" | "contrast" | "lighting" | "faceSize" | "eyes" | "mouth" | "glasses" | "hair";
+
+export type QualityCheck = {
+  id: QualityCheckId;
+  grade: QualityGrade;
+  value: number;
+  /** Conseil de prise de vue (`quality.advice.*`), `null` si le contrôle est satisfaisant. */
+  recommendation: Message | null;
+};
+
+/**
+ * Bilan qualité d’un visage. `ciFactor` multiplie les demi-largeurs d’IC95 ;
+ * `blocked` indique que le profil refuse de produire un score.
+ */
+export type QualityAssessment = { grade: QualityGrade; checks: QualityCheck[]; ciFactor: number; blocked: boolean };
+
+const RANK: Record<QualityGrade, number> = { good: 0, fair: 1, poor: 2 };
+
+/** Rapports de contraste au-delà desquels une occlusion est jugée probable. */
+const GLASSES_EDGE_RATIO = 2.5;
+const HAIR_DARKNESS_RATIO = 0.65;
+
+const srgbToLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+};
+const linearToSrgb = (v: number) => 255 * (v <= 0.0031308 ? 12.92 * v : 1.055 * Math.pow(v, 1 / 2.4) - 0.055);
+const LINEAR = Array.from({ length: 256 }, (_, i) => srgbToLinear(i));
+
+/**
+ * Luminance relative (Rec. 709, sur les composantes linéarisées) de pixels RGBA,
+ * réencodée en sRGB pour rester comparable aux seuils 0–255.
+ */
+export function lumaFromRGBA(data: ArrayLike<number>, width: number, height: number): LumaImage {
+  const out = new Float32Array(width * height);
+  for (let p = 0, i = 0; p < out.length; p++, i += 4) {
+    out[p] = linearToSrgb(0.2126 * LINEAR[data[i]] + 0.7152 * LINEAR[data[i + 1]] + 0.0722 * LINEAR[data[i + 2]]);
+  }
+  return { width, height, data: out };
+}
+
+type Box = { x0: number; y0: number; x1: number; y1: number };
+
+const clampBox = (b: Box, img: LumaImage): Box => ({
+  x0: Math.max(1, Math.floor(Math.min(b.x0, b.x1))),
+  y0: Math.max(1, Math.floor(Math.min(b.y0, b.y1))),
+  x1: Math.min(img.width - 1, Math.ceil(Math.max(b.x0, b.x1))),
+  y1: Math.min(img.height - 1, Math.ceil(Math.max(b.y0, b.y1))),
+});
+
+/** Moyenne et écart-type de la luminance d’une zone. */
+function stats(img: LumaImage, box: Box) {
+  const { x0, y0, x1, y1 } = clampBox(box, img);
+  let s = 0, s2 = 0, n = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const v = img.data[y * img.width + x];
+      s += v; s2 += v * v; n++;
+    }
+  }
+  const mean = n ? s / n : 0;
+  return { mean, sd: n ? Math.sqrt(Math.max(0, s2 / n - mean * mean)) : 0 };
+}
+
+/** Variance du laplacien (voisinage 4) : chute quand l’image est floue. */
+function laplacianVariance(img: LumaImage, box: Box) {
+  const { x0, y0, x1, y1 } = clampBox(box, img);
+  const { data, width: w } = img;
+  let s = 0, s2 = 0, n = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = y * w + x;
+      const l = data[i - 1] + data[i + 1] + data[i - w] + data[i + w] - 4 * data[i];
+      s += l; s2 += l * l; n++;
+    }
+  }
+  const mean = n ? s / n : 0;
+  return n ? s2 / n - mean * mean : 0;
+}
+
+/** Intensité moyenne des contours horizontaux (gradient vertical) d’une zone. */
+function horizontalEdges(img: LumaImage, box: Box) {
+  const { x0, y0, x1, y1 } = clampBox(box, img);
+  const { data, width: w } = img;
+  let s = 0, n = 0;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      s += Math.abs(data[(y + 1) * w + x] - data[(y - 1) * w + x]);
+      n++;
+    }
+  }
+  return n ? s / n : 0;
+}
+
+const atLeast = (v: number, good: number, fair: number): QualityGrade => (v >= good ? "good" : v >= fair ? "fair" : "poor");
+const atMost = (v: number, good: number, fair: number): QualityGrade => (v <= good ? "good" : v <= fair ? "fair" : "poor");
+
+/**
+ * Contrôles qualité sur la région du visage de l’image alignée : netteté, exposition, contraste,
+ * équilibre d’éclairage gauche/droite, taille du visage dans l’image source, yeux fermés,
+ * bouche ouverte et occlusions probables (lunettes, cheveux sur les sourcils).
+ */
+export function assessQuality(img: LumaImage, lms: LM[], sourceFaceWidthPx: number, methodology: Methodology): QualityAssessment {
+  const q = methodology.quality;
+  const pt = (i: number) => project(i, img.width, img.height, lms);
+  const [xl] = pt(234), [xr] = pt(454), [xm, yBrow] = pt(9), [, yChin] = pt(152);
+  const [, yEye] = pt(133), [, yMouth] = pt(61);
+  const interocular = euclid(pt(133), pt(362));
+
+  // Zone de peau : des joues aux sourcils, du front au menton, marges latérales exclues.
+  const inset = 0.1 * (xr - xl);
+  const face: Box = { x0: xl + inset, y0: yBrow, x1: xr - inset, y1: yChin };
+  const cheekL: Box = { x0: xl + inset, y0: yEye, x1: xm, y1: yMouth };
+  const cheekR: Box = { x0: xm, y0: yEye, x1: xr - inset, y1: yMouth };
+
+  const checks: QualityCheck[] = [];
+  const add = (id: QualityCheckId, value: number, grade: QualityGrade, advice: string = id) =>
+    checks.push({ id, grade, value, recommendation: grade === "good" ? null : msg(`quality.advice.${advice}`) });
+
+  const blur = laplacianVariance(img, face);
+  add("blur", round1(blur), atLeast(blur, q.laplacianVarMin, q.laplacianVarMin / 2));
+
+  const { mean: lum, sd: contrast } = stats(img, face);
+  const outside = Math.max(q.luminanceMin - lum, lum - q.luminanceMax, 0);
+  add("exposure", round1(lum), atMost(outside, 0, 20),
+    lum < q.luminanceMin ? "underexposed" : "overexposed");
+
+  add("contrast", round1(contrast), atLeast(contrast, q.contrastMin, q.contrastMin * 0.6));
+
+  const left = stats(img, cheekL).mean, right = stats(img, cheekR).mean;
+  const imbalance = Math.abs(left - right) / Math.max(left, right, 1);
+  add("lighting", round3(imbalance), atMost(imbalance, q.lightingImbalanceMax, 2 * q.lightingImbalanceMax),
+    left < right ? "lightingLeft" : "lightingRight");
+
+  add("faceSize", Math.round(sourceFaceWidthPx), atLeast(sourceFaceWidthPx, q.faceWidthMinPx, q.faceWidthMinPx / 2));
+
+  const openness = (top: number, bottom: number, outer: number, inner: number) => euclid(pt(top), pt(bottom)) / (euclid(pt(outer), pt(inner)) || 1);
+  const eyes = Math.min(openness(159, 145, 33, 133), openness(386, 374, 263, 362));
+  add("eyes", round3(eyes), atLeast(eyes, q.eyeOpennessMin, q.eyeOpennessMin * 0.6));
+
+  const mouth = euclid(pt(13), pt(14)) / (euclid(pt(61), pt(291)) || 1);
+  add("mouth", round3(mouth), atMost(mouth, q.mouthOpennessMax, 2.5 * q.mouthOpennessMax));
+
+  // Lunettes : arête de la monture au-dessus du nez, bien plus marquée que sur les joues.
+  const [xn, yn] = pt(168);
+  const bridge: Box = { x0: xn - 0.15 * interocular, y0: yn - 0.15 * interocular, x1: xn + 0.15 * interocular, y1: yn + 0.15 * interocular };
+  const glasses = horizontalEdges(img, bridge) / Math.max(horizontalEdges(img, cheekL), horizontalEdges(img, cheekR), 1);
+  add("glasses", round2(glasses), glasses > GLASSES_EDGE_RATIO ? "fair" : "good");
+
+  // Cheveux : bande au-dessus des sourcils nettement plus sombre que les joues.
+  const [, yBrowTop] = pt(105);
+  const forehead: Box = { x0: xm - interocular / 2, y0: yBrowTop - 0.4 * interocular, x1: xm + interocular / 2, y1: yBrowTop };
+  const hair = stats(img, forehead).mean / Math.max((left + right) / 2, 1);
+  add("hair", round2(hair), hair < HAIR_DARKNESS_RATIO ? "fair" : "good");
+
+  const grade = checks.reduce<QualityGrade>((g, c) => (RANK[c.grade] > RANK[g] ? c.grade : g), "good");
+  const blocked = grade === "poor" && q.onPoor === "block";
+  const ciFactor = grade === "poor" ? q.poorCIFactor : grade === "fair" ? q.fairCIFactor : 1;
+  return { grade, checks, ciFactor, blocked };
+}
+
+/** Conseils des contrôles non satisfaisants, du plus grave au moins grave. */
+export const qualityRecommendations = (a: QualityAssessment) =>
+  [...a.checks].sort((x, y) => RANK[y.grade] - RANK[x.grade]).flatMap((c) => (c.recommendation ? [c.recommendation] : []));
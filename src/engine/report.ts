@@ -0,0 +1,244 @@
+import { MEASURE_SEGMENTS, analyzeGolden } from "./golden";
+import { round2, round3 } from "./geometry";
+import { calibrateMeasures, scaleOf, scaleReference, type ManualCalibration } from "./calibration";
+import { migrateMetricKeys } from "./catalogue";
+import { MessageError, msg, rawMessage, type Message } from "./messages";
+import { METHODOLOGY, methodologyRef, type Methodology } from "./methodology";
+import { computeOverall } from "./overall";
+import { assessPose, estimatePose, frontalizeLandmarks, type HeadPose } from "./pose";
+import type { QualityAssessment } from "./quality";
+import { analyzeSymmetry, calcSymmetryScore } from "./symmetry";
+import type { LM, ScaleCalibration, ScoreKey, ScoreReport, Scores } from "./types";
+import { createRng, gaussianPerturbations, inflatedInterval, monteCarlo } from "./uncertainty";
+
+export const SUPPORTED_LANDMARK_COUNTS = [468, 478];
+
+export type ScoreOptions = {
+  methodology?: Methodology;
+  /** Nombre de tirages Monte-Carlo ; 0 désactive les IC. */
+  repeats?: number;
+  jitterSigma?: number;
+  /** Graine du générateur pseudo-aléatoire (défaut : celle du profil). */
+  seed?: number;
+  /**
+   * Déplacements des landmarks mesurés en redétectant des copies perturbées de l’image
+   * (mode détecteur) ; remplacent le bruit gaussien.
+   */
+  perturbations?: LM[][];
+  /** Bilan qualité de l’image : son `ciFactor` élargit tous les IC95. */
+  quality?: QualityAssessment;
+  /** Référence tracée à la main ; remplace l’étalonnage par l’iris. */
+  calibration?: ManualCalibration | null;
+  /**
+   * Orientation de la tête estimée sur l’image source, avant l’alignement qui remet les yeux
+   * à l’horizontale (et annule donc le roulis) ; à défaut, estimée sur `input`.
+   */
+  pose?: HeadPose | null;
+};
+
+/**
+ * Calcule scores, IC95, mesures, ratios, cibles et feedback à partir de landmarks
+ * normalisés dans [0,1] et des dimensions (px) de l’image alignée.
+ */
+export function scoreLandmarks(input: LM[], width: number, height: number, opts: ScoreOptions = {}): ScoreReport {
+  const m = opts.methodology ?? METHODOLOGY;
+  const pose = opts.pose === undefined ? estimatePose(input, width, height) : opts.pose;
+  const poseNormalized = Boolean(pose && m.pose.normalize);
+  const lms = poseNormalized ? frontalizeLandmarks(input, width, height) : input;
+  const symmetry = analyzeSymmetry(lms, width, height);
+  const symmetryBase = symmetry.score;
+  const gBase = analyzeGolden(width, height, lms, m);
+  const overallBase = computeOverall(symmetryBase, gBase.score, gBase.faceWidth, gBase.eyeDist, m);
+  const scaleRef = scaleReference(lms, width, height, opts.calibration);
+
+  const sigma = opts.jitterSigma ?? m.uncertainty.jitterSigma;
+  const seed = opts.seed ?? m.uncertainty.seed;
+  const inflate = opts.quality?.ciFactor ?? 1;
+  const repeats = opts.repeats ?? m.uncertainty.repeats;
+  // Aucune copie perturbée redétectée : sans repli, l’IC disparaîtrait et le résultat paraîtrait exact.
+  const detectorFailed = opts.perturbations?.length === 0 && repeats > 0;
+  const method = opts.perturbations && !detectorFailed ? "detector" : "jitter";
+  const perturbations =
+    method === "detector" && opts.perturbations ? opts.perturbations : gaussianPerturbations(repeats, lms.length, sigma, createRng(seed));
+
+  const samples = monteCarlo(lms, perturbations, (lm) => {
+    const s = calcSymmetryScore(lm, width, height);
+    const g = analyzeGolden(width, height, lm, m);
+    const o = computeOverall(s, g.score, g.faceWidth, g.eyeDist, m);
+    const out: Record<string, number> = {
+      "score:symmetry": s,
+      "score:golden": g.score,
+      "score:harmony": o.harmony,
+      "score:overall": o.overall,
+      "score:uniqueness": o.uniqueness,
+    };
+    for (const k of Object.keys(g.ratios)) out[`ratio:${k}`] = g.ratios[k];
+    for (const k of Object.keys(MEASURE_SEGMENTS)) out[`measure:${k}`] = g.values[k];
+    if (scaleRef) out["scale:mmPerPx"] = scaleOf(scaleRef, lm, width, height);
+    return out;
+  });
+
+  // L’intervalle percentile est élargi autour de la valeur observée selon la qualité de l’image.
+  const interval = (base: number, vals: number[], round: (v: number) => number) => inflatedInterval(base, vals, inflate, round);
+
+  const scores: Scores = {
+    symmetry: round2(symmetryBase),
+    golden: round2(gBase.score),
+    harmony: overallBase.harmony,
+    overall: overallBase.overall,
+    uniqueness: overallBase.uniqueness,
+  };
+  const ci: ScoreReport["ci"] = {};
+  const scoreIntervals: ScoreReport["scoreIntervals"] = {};
+  const ratioCI: ScoreReport["ratioCI"] = {};
+  const ratioIntervals: ScoreReport["ratioIntervals"] = {};
+  const measureCI: ScoreReport["measureCI"] = {};
+  const distributions: ScoreReport["distributions"] = { scores: {}, ratios: {} };
+  const measureSamples: Record<string, number[]> = {};
+  for (const [key, vals] of Object.entries(samples)) {
+    const [group, k] = [key.slice(0, key.indexOf(":")), key.slice(key.indexOf(":") + 1)];
+    if (group === "scale") continue;
+    if (group === "score") {
+      const sk = k as ScoreKey;
+      const { half, bounds } = interval(scores[sk], vals, round2);
+      ci[sk] = half;
+      scoreIntervals[sk] = bounds;
+      distributions.scores[sk] = vals.map(round2);
+    } else if (group === "ratio") {
+      const { half, bounds } = interval(gBase.ratios[k], vals, round3);
+      ratioCI[k] = half;
+      ratioIntervals[k] = bounds;
+      distributions.ratios[k] = vals.map(round3);
+    } else {
+      measureCI[k] = interval(gBase.values[k], vals, round2).half;
+      measureSamples[k] = vals;
+    }
+  }
+  const distances = Object.fromEntries(Object.keys(MEASURE_SEGMENTS).map((k) => [k, gBase.values[k]]));
+  const calibration = scaleRef && calibrateMeasures(scaleRef, distances, { measures: measureSamples, scale: samples["scale:mmPerPx"] ?? [] }, inflate);
+
+  return {
+    methodologyVersion: m.version,
+    methodology: methodologyRef(m),
+    image: { width, height },
+    pose,
+    poseWarnings: assessPose(pose, m),
+    poseNormalized,
+    quality: opts.quality ?? null,
+    scores,
+    ci,
+    scoreIntervals,
+    symmetry,
+    measures: gBase.values,
+    measureCI,
+    calibration,
+    ratios: gBase.ratios,
+    ratioCI,
+    ratioIntervals,
+    distributions,
+    uncertainty: {
+      method,
+      samples: perturbations.length,
+      seed,
+      sigma: method === "jitter" ? sigma : null,
+      ...(detectorFailed ? { warning: msg("uncertainty.detectorFallback", { repeats }) } : {}),
+    },
+    targets: gBase.targets,
+    norms: gBase.norms,
+    feedback: overallBase.feedback,
+  };
+}
+
+/** Rapport enregistré avant les identifiants stables : clés françaises et textes déjà rédigés. */
+export type StoredReport = Omit<ScoreReport, "feedback" | "poseWarnings" | "measures" | "calibration"> & {
+  measures: Record<string, unknown>;
+  calibration?: ScoreReport["calibration"];
+  feedback: Message[] | string;
+  poseWarnings: Array<Message | string>;
+};
+
+/**
+ * Met à niveau un rapport archivé : mesures et ratios renommés vers les identifiants stables,
+ * textes français conservés tels quels. Sans effet sur un rapport récent.
+ */
+export function upgradeReport(stored: StoredReport): ScoreReport {
+  const text = (m: Message | string) => (typeof m === "string" ? rawMessage(m) : m);
+  const measures = Object.entries(migrateMetricKeys(stored.measures)).filter((e): e is [string, number] => typeof e[1] === "number");
+  return {
+    ...stored,
+    measures: Object.fromEntries(measures.filter(([k]) => k !== "Score Nombre d’Or")),
+    measureCI: migrateMetricKeys(stored.measureCI),
+    calibration: stored.calibration ?? null,
+    ratios: migrateMetricKeys(stored.ratios),
+    ratioCI: migrateMetricKeys(stored.ratioCI),
+    ratioIntervals: migrateMetricKeys(stored.ratioIntervals ?? {}),
+    distributions: stored.distributions && { ...stored.distributions, ratios: migrateMetricKeys(stored.distributions.ratios) },
+    targets: migrateMetricKeys(stored.targets),
+    norms: migrateMetricKeys(stored.norms ?? {}),
+    quality: stored.quality && {
+      ...stored.quality,
+      checks: stored.quality.checks.map((c) => ({ ...c, recommendation: c.recommendation && text(c.recommendation as Message | string) })),
+    },
+    poseWarnings: stored.poseWarnings.map(text),
+    feedback: typeof stored.feedback === "string" ? stored.feedback.split("\n").map(rawMessage) : stored.feedback,
+  };
+}
+
+/** Format d’échange d’un jeu de landmarks archivé. */
+export type LandmarkFile = {
+  width: number;
+  height: number;
+  landmarks: LM[];
+  methodologyVersion?: string;
+  /** Référence tracée à la main, reprise d’un rapport exporté. */
+  calibration?: ManualCalibration;
+  /** Orientation mesurée sur l’image source, reprise d’un rapport exporté. */
+  pose?: HeadPose | null;
+};
+
+/** Étalonnage manuel d’un rapport exporté (`calibration.method` = `manual`), ignoré s’il est incomplet. */
+function readManualCalibration(raw: unknown): ManualCalibration | undefined {
+  const c = raw as Partial<ScaleCalibration> | null | undefined;
+  if (c?.method !== "manual" || !Array.isArray(c.segment) || c.segment.length !== 2 || !(Number(c.referenceMm) > 0)) return undefined;
+  const [a, b] = c.segment.map((p) => ({ x: Number(p?.x), y: Number(p?.y) }));
+  if (![a.x, a.y, b.x, b.y].every(Number.isFinite)) return undefined;
+  return { segment: [a, b], lengthMm: Number(c.referenceMm) };
+}
+
+/** Orientation d’un rapport exporté ; absente si le champ manque ou est incomplet. */
+function readPose(raw: unknown): HeadPose | null | undefined {
+  if (raw === null) return null;
+  const p = raw as Partial<HeadPose> | undefined;
+  const pose = { yaw: Number(p?.yaw), pitch: Number(p?.pitch), roll: Number(p?.roll) };
+  return Object.values(pose).every(Number.isFinite) ? pose : undefined;
+}
+
+/**
+ * Valide et normalise le contenu JSON d’un fichier de landmarks.
+ * Les points sont acceptés sous forme `{x, y, z?}` ou `[x, y, z?]`.
+ */
+export function parseLandmarkFile(raw: unknown): LandmarkFile {
+  if (!raw || typeof raw !== "object") throw new MessageError(msg("landmarkFile.notObject"));
+  const obj = raw as Record<string, unknown>;
+  const width = Number(obj.width);
+  const height = Number(obj.height);
+  if (!(width > 0) || !(height > 0)) throw new MessageError(msg("landmarkFile.dimensions"));
+  if (!Array.isArray(obj.landmarks)) throw new MessageError(msg("landmarkFile.missing"));
+  if (!SUPPORTED_LANDMARK_COUNTS.includes(obj.landmarks.length)) {
+    throw new MessageError(msg("landmarkFile.count", { count: obj.landmarks.length }));
+  }
+
+  const landmarks: LM[] = obj.landmarks.map((p: unknown, i: number) => {
+    const [x, y, z] = Array.isArray(p)
+      ? p.map(Number)
+      : [Number((p as LM)?.x), Number((p as LM)?.y), Number((p as LM)?.z)];
+    if (!Number.isFinite(x) || !Number.isFinite(y)) throw new MessageError(msg("landmarkFile.invalidPoint", { index: i }));
+    if (x < 0 || x > 1 || y < 0 || y > 1) throw new MessageError(msg("landmarkFile.outOfRange", { index: i }));
+    return Number.isFinite(z) ? { x, y, z } : { x, y };
+  });
+
+  const methodologyVersion = typeof obj.methodologyVersion === "string" ? obj.methodologyVersion : undefined;
+  const calibration = readManualCalibration(obj.calibration);
+  const pose = readPose(obj.pose);
+  return { width, height, landmarks, methodologyVersion, ...(calibration ? { calibration } : {}), ...(pose !== undefined ? { pose } : {}) };
+}
@@ -0,0 +1,145 @@
+import { fitMidline, symmetricPairs } from "./symmetry";
+import type { LM } from "./types";
+
+type V2 = { x: number; y: number };
+
+/** Composite symétrique : moitié gauche ou droite de l’image réfléchie, ou moyenne des deux moitiés. */
+export type SymmetrizeMode = "left" | "right" | "average";
+
+export const SYMMETRIZE_MODES: SymmetrizeMode[] = ["left", "average", "right"];
+
+/** Transformation affine au format de `CanvasRenderingContext2D.setTransform` : x' = a x + c y + e, y' = b x + d y + f. */
+export type Affine = [a: number, b: number, c: number, d: number, e: number, f: number];
+
+/** Déformation d’un composite : chaque couche est dessinée de `source` vers `target`, avec son opacité. */
+export type SymmetricComposite = { target: V2[]; layers: Array<{ source: V2[]; alpha: number }> };
+
+/** Plans de déformation des trois composites, en pixels de l’image alignée. */
+export type SymmetrizedMesh = {
+  triangles: Array<[number, number, number]>;
+  composites: Record<SymmetrizeMode, SymmetricComposite>;
+  /** Réflexion à travers la ligne médiane ajustée et ses extrémités en haut et en bas de l’image. */
+  mirror: Affine;
+  midline: { top: V2; bottom: V2 };
+};
+
+/** Points du maillage de base : les points d’iris (468–477) sont couverts par les triangles de l’œil. */
+const MESH_POINTS = 468;
+
+/** Homologue de chaque point du maillage ; un point médian est son propre homologue. */
+const MIRROR: number[] = (() => {
+  const m = Array.from({ length: MESH_POINTS }, (_, i) => i);
+  for (const [l, r] of symmetricPairs) {
+    m[l] = r;
+    m[r] = l;
+  }
+  return m;
+})();
+const LEFT = new Set(symmetricPairs.map(([l]) => l));
+
+/** Triangulation de Delaunay (Bowyer–Watson) ; les points confondus sont ignorés. */
+export function delaunay(pts: V2[]): Array<[number, number, number]> {
+  const xs = pts.map((p) => p.x), ys = pts.map((p) => p.y);
+  const minX = Math.min(...xs), minY = Math.min(...ys);
+  const span = Math.max(Math.max(...xs) - minX, Math.max(...ys) - minY, 1);
+  const cx = minX + span / 2, cy = minY + span / 2;
+  const all = [...pts, { x: cx - 20 * span, y: cy - span }, { x: cx, y: cy + 20 * span }, { x: cx + 20 * span, y: cy - span }];
+  const n = pts.length;
+
+  type Tri = { v: [number, number, number]; x: number; y: number; r2: number };
+  const circum = (v: [number, number, number]): Tri => {
+    const [a, b, c] = v.map((i) => all[i]);
+    const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+    const a2 = a.x * a.x + a.y * a.y, b2 = b.x * b.x + b.y * b.y, c2 = c.x * c.x + c.y * c.y;
+    const x = (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d;
+    const y = (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d;
+    return { v, x, y, r2: (a.x - x) ** 2 + (a.y - y) ** 2 };
+  };
+
+  let tris: Tri[] = [circum([n, n + 1, n + 2])];
+  const seen = new Set<string>();
+  for (let i = 0; i < n; i++) {
+    const p = all[i];
+    const key = `${p.x},${p.y}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const bad = tris.filter((t) => (p.x - t.x) ** 2 + (p.y - t.y) ** 2 < t.r2);
+    // Arêtes du trou : celles qui n’appartiennent qu’à un seul triangle supprimé.
+    const edges = new Map<string, [number, number]>();
+    for (const t of bad) {
+      for (const [a, b] of [[t.v[0], t.v[1]], [t.v[1], t.v[2]], [t.v[2], t.v[0]]]) {
+        const k = a < b ? `${a}-${b}` : `${b}-${a}`;
+        if (edges.has(k)) edges.delete(k);
+        else edges.set(k, [a, b]);
+      }
+    }
+    tris = tris.filter((t) => !bad.includes(t));
+    for (const [a, b] of edges.values()) tris.push(circum([a, b, i]));
+  }
+  return tris.filter((t) => t.v.every((i) => i < n)).map((t) => t.v);
+}
+
+/** Affinité qui envoie le triangle `s` sur le triangle `d`, `null` si `s` est dégénéré. */
+export function triangleAffine(s: [V2, V2, V2], d: [V2, V2, V2]): Affine | null {
+  const det = (s[1].x - s[0].x) * (s[2].y - s[0].y) - (s[2].x - s[0].x) * (s[1].y - s[0].y);
+  if (Math.abs(det) < 1e-9) return null;
+  const solve = (k: "x" | "y") => {
+    const u = d[1][k] - d[0][k], v = d[2][k] - d[0][k];
+    const gx = (u * (s[2].y - s[0].y) - v * (s[1].y - s[0].y)) / det;
+    const gy = (v * (s[1].x - s[0].x) - u * (s[2].x - s[0].x)) / det;
+    return [gx, gy, d[0][k] - gx * s[0].x - gy * s[0].y] as const;
+  };
+  const [a, c, e] = solve("x");
+  const [b, d2, f] = solve("y");
+  return [a, b, c, d2, e, f];
+}
+
+/**
+ * Composites symétriques d’un visage aligné : les landmarks sont réfléchis à travers la ligne
+ * médiane ajustée (`fitMidline`), puis la texture est déformée triangle par triangle.
+ * - `left` / `right` : la moitié gauche (droite) de l’image est conservée et son reflet remplace l’autre ;
+ * - `average` : chaque point est placé au milieu de sa position et du reflet de son homologue,
+ *   et les deux textures y sont fondues à parts égales.
+ * La triangulation est celle des landmarks moyens, symétriques : elle vaut pour les trois composites.
+ */
+export function symmetrizeLandmarks(lms: LM[], w: number, h: number): SymmetrizedMesh {
+  const px = lms.slice(0, MESH_POINTS).map((p) => ({ x: p.x * w, y: p.y * h }));
+  const { c, d, n } = fitMidline(px);
+  const reflect = (p: V2) => {
+    const s = (p.x - c.x) * n.x + (p.y - c.y) * n.y;
+    return { x: p.x - 2 * s * n.x, y: p.y - 2 * s * n.y };
+  };
+  const average = px.map((p, i) => {
+    const r = reflect(px[MIRROR[i]]);
+    return { x: (p.x + r.x) / 2, y: (p.y + r.y) / 2 };
+  });
+  // Côté conservé : les points gauches de chaque paire pour `left`, les droits pour `right`.
+  const half = (left: boolean): SymmetricComposite => {
+    const kept = (i: number) => MIRROR[i] === i || LEFT.has(i) === left;
+    return {
+      target: px.map((p, i) => (MIRROR[i] === i ? average[i] : kept(i) ? p : reflect(px[MIRROR[i]]))),
+      layers: [{ source: px.map((p, i) => (kept(i) ? p : px[MIRROR[i]])), alpha: 1 }],
+    };
+  };
+
+  const area = ([a, b, k]: [number, number, number]) =>
+    Math.abs((average[b].x - average[a].x) * (average[k].y - average[a].y) - (average[k].x - average[a].x) * (average[b].y - average[a].y));
+  const corners: [V2, V2, V2] = [{ x: 0, y: 0 }, { x: w, y: 0 }, { x: 0, y: h }];
+  const atY = (y: number) => ({ x: c.x + ((y - c.y) * d.x) / d.y, y });
+  return {
+    triangles: delaunay(average).filter((t) => area(t) > 1e-6),
+    composites: {
+      left: half(true),
+      right: half(false),
+      average: {
+        target: average,
+        layers: [
+          { source: px, alpha: 1 },
+          { source: px.map((_, i) => px[MIRROR[i]]), alpha: 0.5 },
+        ],
+      },
+    },
+    mirror: triangleAffine(corners, corners.map(reflect) as [V2, V2, V2])!,
+    midline: { top: atY(0), bottom: atY(h) },
+  };
+}
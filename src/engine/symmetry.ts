@@ -0,0 +1,106 @@
+import { BILATERAL_PAIRS, MIDLINE_LANDMARKS } from "./bilateral";
+import { round2 } from "./geometry";
+import { msg, type Message } from "./messages";
+import type { LM, RegionSymmetry, SymmetryOut, SymmetryRegion } from "./types";
+
+export const SYMMETRY_REGIONS = Object.keys(BILATERAL_PAIRS) as SymmetryRegion[];
+
+/** Toutes les paires bilatérales (gauche de l’image, droite de l’image). */
+export const symmetricPairs: Array<[number, number]> = SYMMETRY_REGIONS.flatMap((r) => BILATERAL_PAIRS[r]);
+
+/** Paires représentatives de chaque région, proposées à la correction manuelle. */
+export const SYMMETRY_ANCHORS: number[] = [
+  33, 263, 133, 362, 70, 300, 107, 336, 98, 327, 61, 291, 58, 288, 172, 397, 234, 454, 50, 280, 205, 425,
+  10, 168, 1, 152,
+];
+
+/** Pénalité appliquée à l’écart moyen (% de la largeur du visage). */
+const SCORE_SLOPE = 4;
+
+type V2 = { x: number; y: number };
+
+/**
+ * Ajuste la ligne médiane par moindres carrés totaux sur les points médians :
+ * renvoie un point de la ligne, sa direction (vers le bas) et la normale (vers la droite de l’image).
+ */
+export function fitMidline(px: V2[]) {
+  const pts = MIDLINE_LANDMARKS.map((i) => px[i]);
+  const c = { x: pts.reduce((s, p) => s + p.x, 0) / pts.length, y: pts.reduce((s, p) => s + p.y, 0) / pts.length };
+  let sxx = 0, syy = 0, sxy = 0;
+  for (const p of pts) {
+    sxx += (p.x - c.x) ** 2;
+    syy += (p.y - c.y) ** 2;
+    sxy += (p.x - c.x) * (p.y - c.y);
+  }
+  const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  let d = { x: Math.cos(theta), y: Math.sin(theta) };
+  // L’axe principal est vertical pour un visage : on l’oriente du front vers le menton.
+  if (Math.abs(d.y) < Math.abs(d.x)) d = { x: -d.y, y: d.x };
+  if (d.y < 0) d = { x: -d.x, y: -d.y };
+  return { c, d, n: { x: -d.y, y: d.x } };
+}
+
+/**
+ * Symétrie par rapport à la ligne médiane réelle : chaque point du côté droit de l’image est
+ * réfléchi à travers la ligne ajustée puis comparé à son homologue gauche (écart 2D). Les écarts
+ * sont exprimés en % de la largeur du visage, agrégés par région et convertis en scores sur 100.
+ */
+export function analyzeSymmetry(lms: LM[], w: number, h: number): SymmetryOut {
+  const px = lms.map((p) => ({ x: p.x * w, y: p.y * h }));
+  const { c, d, n } = fitMidline(px);
+  const scale = Math.hypot(px[454].x - px[234].x, px[454].y - px[234].y) / 100 || 1;
+  const dot = (a: V2, b: V2) => a.x * b.x + a.y * b.y;
+
+  const pairs: SymmetryOut["pairs"] = [];
+  const regions = {} as Record<SymmetryRegion, RegionSymmetry>;
+  for (const region of SYMMETRY_REGIONS) {
+    let dev = 0, lateral = 0, vertical = 0;
+    for (const [i, j] of BILATERAL_PAIRS[region]) {
+      const pl = px[i], pr = px[j];
+      const sr = dot({ x: pr.x - c.x, y: pr.y - c.y }, n);
+      const mirrored = { x: pr.x - 2 * sr * n.x, y: pr.y - 2 * sr * n.y };
+      const deviation = Math.hypot(pl.x - mirrored.x, pl.y - mirrored.y) / scale;
+      const sl = dot({ x: pl.x - c.x, y: pl.y - c.y }, n);
+      dev += deviation;
+      lateral += (Math.abs(sl) - Math.abs(sr)) / scale;
+      vertical += dot({ x: pl.x - pr.x, y: pl.y - pr.y }, d) / scale;
+      pairs.push({ left: i, right: j, region, deviation: round2(deviation) });
+    }
+    const k = BILATERAL_PAIRS[region].length;
+    regions[region] = {
+      score: round2(Math.max(0, 100 - SCORE_SLOPE * (dev / k))),
+      deviation: round2(dev / k),
+      lateral: round2(lateral / k),
+      vertical: round2(vertical / k),
+    };
+  }
+
+  const mean = pairs.reduce((s, p) => s + p.deviation, 0) / pairs.length;
+  const eyeY = (px[133].y + px[362].y) / 2;
+  const atY = (y: number) => ({ x: c.x + ((y - c.y) * d.x) / d.y, y });
+  const top = atY(px[10].y), bottom = atY(px[152].y);
+  return {
+    score: round2(Math.max(0, 100 - SCORE_SLOPE * mean)),
+    midline: {
+      angleDeg: round2((Math.atan2(d.x, d.y) * 180) / Math.PI),
+      offsetPx: round2(atY(eyeY).x - w / 2),
+      top: { x: top.x / w, y: top.y / h },
+      bottom: { x: bottom.x / w, y: bottom.y / h },
+    },
+    regions,
+    pairs,
+  };
+}
+
+/** Score global de symétrie (0–100). */
+export function calcSymmetryScore(landmarks: LM[], w = 1, h = 1): number {
+  return analyzeSymmetry(landmarks, w, h).score;
+}
+
+/** Sens dominant de l’écart d’une région (`deviation.*`), vide sans sens dominant. */
+export function describeDeviation(r: RegionSymmetry): Message[] {
+  const parts: Message[] = [];
+  if (Math.abs(r.lateral) >= 0.5) parts.push(msg(r.lateral > 0 ? "deviation.lateral.left" : "deviation.lateral.right"));
+  if (Math.abs(r.vertical) >= 0.5) parts.push(msg(r.vertical > 0 ? "deviation.lower.left" : "deviation.lower.right"));
+  return parts;
+}
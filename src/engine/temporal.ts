@@ -0,0 +1,138 @@
+import { buildFeedback } from "./feedback";
+import { round2, round3 } from "./geometry";
+import { MessageError, msg, type Message } from "./messages";
+import type { Methodology } from "./methodology";
+import { qualityRecommendations } from "./quality";
+import type { ScaleCalibration, ScoreKey, ScoreReport, Scores } from "./types";
+import { quantile } from "./uncertainty";
+
+/** Nombre minimal de frames retenues pour agréger une vidéo. */
+export const MIN_VIDEO_FRAMES = 3;
+
+/** Rapport d’une frame retenue et son instant dans la vidéo (s). */
+export type TimedReport = { time: number; report: ScoreReport };
+
+/**
+ * Motifs d’exclusion d’une frame : pose hors des limites du profil ou qualité insuffisante,
+ * quel que soit le mode de contrôle choisi pour les images fixes. Vide si la frame est retenue.
+ */
+export function frameRejection(report: ScoreReport): Message[] {
+  return [...report.poseWarnings, ...(report.quality?.grade === "poor" ? qualityRecommendations(report.quality) : [])];
+}
+
+/** Médiane des frames et dispersion temporelle : bornes 2,5 % et 97,5 %, demi-largeur de l’intervalle. */
+function temporalSpread(vals: number[], round: (v: number) => number) {
+  const sorted = [...vals].sort((a, b) => a - b);
+  const lo = quantile(sorted, 0.025), hi = quantile(sorted, 0.975);
+  return { median: round(quantile(sorted, 0.5)), half: round((hi - lo) / 2), bounds: [round(lo), round(hi)] as [number, number] };
+}
+
+/**
+ * Étalonnage agrégé, repris de la frame visuelle. L’image alignée ramène la distance entre les yeux
+ * à une longueur fixe : une référence tracée sur une frame vaut pour les autres, tandis que l’iris
+ * est remesuré sur chacune. L’incertitude propre de la référence (seule présente dans l’IC d’une
+ * frame calculée sans Monte-Carlo) est combinée en quadrature avec la dispersion temporelle.
+ */
+function aggregateCalibration(frames: TimedReport[], base: ScaleCalibration, measures: Record<string, number>): ScaleCalibration {
+  const scaled = frames.flatMap(({ report: r }) =>
+    base.method === "manual" ? [{ r, scale: base.mmPerPx }] : r.calibration?.method === "iris" ? [{ r, scale: r.calibration.mmPerPx }] : []
+  );
+  const scale = temporalSpread(scaled.map((f) => f.scale), (v) => v);
+  const quadrature = (a: number, b: number) => Math.sqrt(a * a + b * b);
+  const mm: Record<string, number> = {};
+  const mmCI: Record<string, number> = {};
+  for (const k of Object.keys(base.measures)) {
+    const { half } = temporalSpread(scaled.map(({ r, scale }) => r.measures[k] * scale), (v) => v);
+    const value = measures[k] * scale.median;
+    const relative = base.measures[k] > 0 ? (base.measureCI[k] ?? 0) / base.measures[k] : 0;
+    mm[k] = round2(value);
+    mmCI[k] = round2(quadrature(half, relative * value));
+  }
+  const round5 = (v: number) => Math.round(v * 1e5) / 1e5;
+  return {
+    ...base,
+    mmPerPx: round5(scale.median),
+    mmPerPxCI: round5(quadrature(scale.half, base.mmPerPxCI)),
+    referencePx: base.method === "manual" ? base.referencePx : round2(base.referenceMm / scale.median),
+    measures: mm,
+    measureCI: mmCI,
+  };
+}
+
+/**
+ * Rapport d’une vidéo à partir des frames retenues : médiane de chaque score, ratio et distance,
+ * dispersion temporelle en guise d’IC95 et distributions frame par frame. Image, landmarks,
+ * symétrie détaillée, pose et qualité sont ceux de la frame `visual`.
+ */
+export function aggregateFrames(
+  frames: TimedReport[],
+  visual: number,
+  methodology: Methodology,
+  sampling: { sampled: number; durationS: number }
+): ScoreReport {
+  if (frames.length < MIN_VIDEO_FRAMES) throw new MessageError(msg("video.tooFewFrames", { kept: frames.length, min: MIN_VIDEO_FRAMES }));
+  const base = frames[visual].report;
+  const reports = frames.map((f) => f.report);
+
+  const scores = { ...base.scores };
+  const ci: ScoreReport["ci"] = {};
+  const scoreIntervals: ScoreReport["scoreIntervals"] = {};
+  const distributions: ScoreReport["distributions"] = { scores: {}, ratios: {} };
+  for (const k of Object.keys(base.scores) as ScoreKey[]) {
+    const vals = reports.map((r) => r.scores[k]);
+    const s = temporalSpread(vals, round2);
+    scores[k] = s.median;
+    ci[k] = s.half;
+    scoreIntervals[k] = s.bounds;
+    distributions.scores[k] = vals;
+  }
+
+  const ratios: ScoreReport["ratios"] = {};
+  const ratioCI: ScoreReport["ratioCI"] = {};
+  const ratioIntervals: ScoreReport["ratioIntervals"] = {};
+  for (const k of Object.keys(base.ratios)) {
+    const vals = reports.map((r) => r.ratios[k]);
+    if (!vals.every(Number.isFinite)) continue;
+    const s = temporalSpread(vals, round3);
+    ratios[k] = s.median;
+    ratioCI[k] = s.half;
+    ratioIntervals[k] = s.bounds;
+    distributions.ratios[k] = vals;
+  }
+
+  const measures: ScoreReport["measures"] = {};
+  const measureCI: ScoreReport["measureCI"] = {};
+  for (const k of Object.keys(base.measures)) {
+    const s = temporalSpread(reports.map((r) => r.measures[k]), round2);
+    measures[k] = s.median;
+    measureCI[k] = s.half;
+  }
+
+  return {
+    ...base,
+    scores: scores as Scores,
+    ci,
+    scoreIntervals,
+    measures,
+    measureCI,
+    calibration: base.calibration && aggregateCalibration(frames, base.calibration, measures),
+    ratios,
+    ratioCI,
+    ratioIntervals,
+    distributions,
+    uncertainty: { method: "temporal", samples: frames.length, seed: base.uncertainty.seed, sigma: null },
+    feedback: buildFeedback(scores.symmetry, scores.golden, measures.face_width > 0 ? measures.intercanthal_width / measures.face_width : 0, methodology),
+    population: undefined,
+    temporal: { ...sampling, kept: frames.length, times: frames.map((f) => f.time), visualTime: frames[visual].time },
+  };
+}
+
+/**
+ * Frame la plus représentative, proposée pour le rapport visuel : celle dont les scores
+ * s’écartent le moins des médianes, chaque écart étant rapporté à la dispersion temporelle.
+ */
+export function representativeFrame(frames: TimedReport[], aggregate: ScoreReport) {
+  const distance = (r: ScoreReport) =>
+    (Object.keys(aggregate.scores) as ScoreKey[]).reduce((sum, k) => sum + Math.abs(r.scores[k] - aggregate.scores[k]) / (aggregate.ci[k] || 1), 0);
+  return frames.reduce((best, f, i) => (distance(f.report) < distance(frames[best].report) ? i : best), 0);
+}
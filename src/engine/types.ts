@@ -0,0 +1,148 @@
+import type { Message } from "./messages";
+import type { MethodologyRef } from "./methodology";
+import type { HeadPose } from "./pose";
+import type { QualityAssessment } from "./quality";
+
+/** Landmark normalisé dans [0,1] ; `z` (profondeur) est exprimé dans la même unité que `x`. */
+export type LM = { x: number; y: number; z?: number };
+export type Point = [number, number];
+
+/** Boîte englobante d’un visage, en pixels de l’image source. */
+export type FaceBox = { xMin: number; yMin: number; width: number; height: number };
+
+export type ScoreKey = "symmetry" | "golden" | "harmony" | "overall" | "uniqueness";
+export type Scores = Record<ScoreKey, number>;
+
+/** Distances mesurées (px, image alignée), par identifiant du catalogue. */
+export type MeasureValues = Record<string, number>;
+
+export type GoldenOut = {
+  score: number;
+  values: MeasureValues;
+  faceWidth: number;
+  eyeDist: number;
+  eyeL: Point;
+  eyeR: Point;
+  ratios: Record<string, number>;
+  targets: Record<string, number>;
+  norms: Record<string, [number, number]>;
+};
+
+export type OverallOut = {
+  harmony: number;
+  overall: number;
+  uniqueness: number;
+  feedback: Message[];
+};
+
+export type SymmetryRegion = "eyes" | "brows" | "nose" | "mouth" | "jaw" | "cheeks";
+
+export type RegionSymmetry = {
+  score: number;
+  /** Écart moyen des paires, en % de la largeur du visage. */
+  deviation: number;
+  /** > 0 : les points du côté gauche de l’image sont plus éloignés de la ligne médiane (% de la largeur). */
+  lateral: number;
+  /** > 0 : les points du côté gauche de l’image sont plus bas (% de la largeur). */
+  vertical: number;
+};
+
+export type SymmetryOut = {
+  score: number;
+  /** Ligne médiane ajustée : inclinaison par rapport à la verticale et décalage au niveau des yeux. */
+  midline: { angleDeg: number; offsetPx: number; top: { x: number; y: number }; bottom: { x: number; y: number } };
+  regions: Record<SymmetryRegion, RegionSymmetry>;
+  /** Écart de chaque paire (% de la largeur du visage), pour la carte d’asymétrie. */
+  pairs: Array<{ left: number; right: number; region: SymmetryRegion; deviation: number }>;
+};
+
+/** Étalonnage des distances de l’image alignée en millimètres. */
+export type ScaleCalibration = {
+  /** `iris` : diamètre irien horizontal moyen supposé ; `manual` : segment de longueur connue tracé par l’utilisateur. */
+  method: "iris" | "manual";
+  mmPerPx: number;
+  /** Demi-largeur de l’IC95 de `mmPerPx`. */
+  mmPerPxCI: number;
+  /** Longueur de la référence (mm) et sa mesure sur l’image alignée (px). */
+  referenceMm: number;
+  referencePx: number;
+  /** Segment de référence (étalonnage manuel), en coordonnées normalisées de l’image alignée. */
+  segment?: [{ x: number; y: number }, { x: number; y: number }];
+  /** Réserve sur la référence (iris de tailles incohérentes). */
+  warning?: Message;
+  /** Distances en millimètres et demi-largeur de leur IC95, incertitude de l’échelle comprise. */
+  measures: Record<string, number>;
+  measureCI: Record<string, number>;
+};
+
+/** Cohorte de référence utilisée pour situer un rapport (`n` nul pour un résumé publié). */
+export type PopulationRef = { id: string; name: string; group: string | null; n: number | null; source?: string };
+
+/** Position d’un visage dans une cohorte de référence. */
+export type PopulationComparison = {
+  ref: PopulationRef;
+  /** z-score et rang centile (0–100) de chaque grandeur décrite par la cohorte ; distances rapportées à la largeur du visage. */
+  features: Record<string, { z: number; percentile: number }>;
+  /** Distance de Mahalanobis au centre de la cohorte sur les ratios communs ; `null` sans ratio exploitable. */
+  mahalanobis: { distance: number; features: number; percentile: number } | null;
+};
+
+/**
+ * Analyse d’une vidéo : scores, ratios et mesures sont les médianes des frames retenues, leurs
+ * « IC95 » la dispersion temporelle ; `times` (s) est aligné sur `distributions`.
+ */
+export type TemporalSummary = {
+  sampled: number;
+  kept: number;
+  durationS: number;
+  times: number[];
+  /** Instant de la frame choisie pour le rapport visuel (image alignée, landmarks, symétrie). */
+  visualTime: number;
+};
+
+/** Résultat complet d’un calcul de scores à partir d’un jeu de landmarks. */
+export type ScoreReport = {
+  methodologyVersion: string;
+  methodology: MethodologyRef;
+  image: { width: number; height: number };
+  /** Orientation de la tête dans l’image source (première détection, avant alignement), `null` sans coordonnée z. */
+  pose: HeadPose | null;
+  poseWarnings: Message[];
+  /** Vrai si les scores ont été calculés sur les landmarks ramenés en pose frontale. */
+  poseNormalized: boolean;
+  /** Bilan qualité de la région du visage, `null` sans image (CLI). Les IC95 en tiennent compte. */
+  quality: QualityAssessment | null;
+  scores: Scores;
+  /** Demi-largeur de l’IC95 percentile de chaque score. */
+  ci: Partial<Scores>;
+  /** Bornes 2,5 % et 97,5 % de chaque score. */
+  scoreIntervals: Partial<Record<ScoreKey, [number, number]>>;
+  /** Détail de la symétrie : ligne médiane, régions et écarts par paire. */
+  symmetry: SymmetryOut;
+  measures: MeasureValues;
+  /** Demi-largeur de l’IC95 des distances mesurées (px). */
+  measureCI: Record<string, number>;
+  /** Conversion des distances en millimètres ; `null` sans iris détecté (468 points) ni référence tracée. */
+  calibration: ScaleCalibration | null;
+  /** Ratios, indices et angles du catalogue, par identifiant stable. */
+  ratios: Record<string, number>;
+  /** Demi-largeur de l’IC95 de chaque ratio (vide si les IC sont désactivés). */
+  ratioCI: Record<string, number>;
+  ratioIntervals: Record<string, [number, number]>;
+  /** Distribution Monte-Carlo complète des scores et des ratios (vide si les IC sont désactivés). */
+  distributions: { scores: Partial<Record<ScoreKey, number[]>>; ratios: Record<string, number[]> };
+  /**
+   * Paramètres du passage Monte-Carlo, suffisants pour le reproduire (σ nul en mode détecteur).
+   * `warning` signale un repli sur le bruit gaussien faute de redétection aboutie.
+   */
+  uncertainty: { method: "jitter" | "detector" | "temporal"; samples: number; seed: number; sigma: number | null; warning?: Message };
+  targets: Record<string, number>;
+  /** Plage de référence des grandeurs du catalogue qui en ont une. */
+  norms: Record<string, [number, number]>;
+  /** Commentaires descriptifs, à traduire (`feedback.*`). */
+  feedback: Message[];
+  /** Comparaison à la cohorte de référence ; absente, l’originalité reste l’indice heuristique. */
+  population?: PopulationComparison | null;
+  /** Agrégation des frames d’une vidéo ; absente pour une image fixe. */
+  temporal?: TemporalSummary | null;
+};
@@ -0,0 +1,79 @@
+import { clamp } from "./geometry";
+import type { LM } from "./types";
+
+/** Générateur pseudo-aléatoire reproductible (mulberry32) : même graine, même suite dans [0,1). */
+export function createRng(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export type Rng = ReturnType<typeof createRng>;
+
+/** Tirage normal centré réduit (Box–Muller). */
+export function gaussian(rng: Rng) {
+  const u = 1 - rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+}
+
+/** Déplacements gaussiens indépendants (σ en coordonnées normalisées) pour chaque point. */
+export function gaussianPerturbations(count: number, nPoints: number, sigma: number, rng: Rng): LM[][] {
+  return Array.from({ length: count }, () =>
+    Array.from({ length: nPoints }, () => ({ x: gaussian(rng) * sigma, y: gaussian(rng) * sigma }))
+  );
+}
+
+/** Applique un jeu de déplacements aux landmarks (z inchangé). */
+export function perturbLandmarks(lms: LM[], offsets: LM[]) {
+  return lms.map((p, i) => ({ x: clamp(p.x + (offsets[i]?.x ?? 0), 0, 1), y: clamp(p.y + (offsets[i]?.y ?? 0), 0, 1), z: p.z }));
+}
+
+export function jitterLandmarks(lms: LM[], sigma: number, rng: Rng) {
+  return perturbLandmarks(lms, gaussianPerturbations(1, lms.length, sigma, rng)[0]);
+}
+
+/** Quantile empirique (interpolation linéaire entre rangs) d’un échantillon trié. */
+export function quantile(sorted: number[], p: number) {
+  if (!sorted.length) return NaN;
+  const r = (sorted.length - 1) * p;
+  const lo = Math.floor(r), hi = Math.ceil(r);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (r - lo);
+}
+
+/**
+ * Moyenne, écart-type et intervalle percentile à 95 % (bornes 2,5 % et 97,5 %).
+ * `ci95` est la demi-largeur de cet intervalle.
+ */
+export function summarize(vals: number[]) {
+  const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
+  const sd = Math.sqrt(vals.reduce((a, b) => a + (b - mean) * (b - mean), 0) / vals.length);
+  const sorted = [...vals].sort((a, b) => a - b);
+  const lo = quantile(sorted, 0.025), hi = quantile(sorted, 0.975);
+  return { mean, sd, lo, hi, ci95: (hi - lo) / 2 };
+}
+
+/**
+ * IC95 percentile de `vals`, élargi d’un facteur `inflate` autour de la valeur observée `base`
+ * (qualité de l’image) : demi-largeur et bornes, arrondies par `round`.
+ */
+export function inflatedInterval(base: number, vals: number[], inflate: number, round: (v: number) => number) {
+  const { lo, hi, ci95 } = summarize(vals);
+  return { half: round(ci95 * inflate), bounds: [round(base - (base - lo) * inflate), round(base + (hi - base) * inflate)] as [number, number] };
+}
+
+/**
+ * Tire `perturbations.length` jeux de landmarks perturbés et évalue toutes les grandeurs
+ * de `evaluate` sur chacun : un seul passage Monte-Carlo pour l’ensemble des métriques.
+ */
+export function monteCarlo(lms: LM[], perturbations: LM[][], evaluate: (lm: LM[]) => Record<string, number>) {
+  const samples: Record<string, number[]> = {};
+  for (const offsets of perturbations) {
+    for (const [k, v] of Object.entries(evaluate(perturbLandmarks(lms, offsets)))) (samples[k] ??= []).push(v);
+  }
+  return samples;
+}
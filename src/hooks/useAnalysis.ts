@@ -0,0 +1,281 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { MessageError, msg, type LM, type Message, type Methodology } from "../engine";
+import type { WorkerRequest, WorkerResponse } from "../utils/analysisWorker";
+import {
+  loadBackendChoice,
+  memoryUsage,
+  saveBackendChoice,
+  type BackendAttempt,
+  type BackendChoice,
+  type BackendName,
+} from "../utils/backend";
+import {
+  analyzeFacesInPage,
+  detectLandmarks,
+  scoreStableFrame,
+  type AnalysisOutcome,
+  type Analyzer,
+  type FaceResult,
+  type LandmarkDetector,
+  type StageEvent,
+  type StageTimings,
+} from "../utils/detection";
+import { bitmapToCanvas } from "../utils/image";
+import { useDetector, type DetectorDiagnostics, type DetectorStatus } from "./useDetector";
+
+export type WorkerStatus = "unsupported" | "loading" | "ready" | "error";
+
+export type WorkerInfo = {
+  status: WorkerStatus;
+  backend: BackendName | null;
+  attempts: BackendAttempt[];
+  loadMs: number | null;
+  warmupMs: number | null;
+  error: Message | null;
+};
+
+type Reply = Extract<WorkerResponse, { id: number }>;
+
+/** Demande envoyée au worker, en attente de ses réponses. */
+type Pending = { onReply: (res: Reply) => void; fail: (e: unknown) => void };
+
+const workerSupported = () => typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined";
+
+const fromWorker = (f: FaceResult<ImageBitmap>): FaceResult => ({ ...f, aligned: f.aligned && bitmapToCanvas(f.aligned) });
+
+const INITIAL: WorkerInfo = { status: "loading", backend: null, attempts: [], loadMs: null, warmupMs: null, error: null };
+
+/**
+ * Envoie une demande au worker. `handle` reçoit ses réponses intermédiaires et la résout ;
+ * un échec la rejette, une annulation via `signal` la rejette aussitôt avec la raison de l’abandon.
+ */
+function send<T>(
+  jobs: Map<number, Pending>,
+  w: Worker,
+  request: Extract<WorkerRequest, { id: number }>,
+  transfer: Transferable[],
+  signal: AbortSignal | undefined,
+  handle: (res: Reply, resolve: (value: T) => void) => void
+) {
+  const { id } = request;
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      jobs.delete(id);
+      w.postMessage({ type: "cancel", id } satisfies WorkerRequest);
+      reject(signal!.reason);
+    };
+    const finish = () => {
+      jobs.delete(id);
+      signal?.removeEventListener("abort", abort);
+    };
+    jobs.set(id, {
+      onReply: (res) => {
+        if (res.type === "failed") {
+          finish();
+          reject(new MessageError(res.error));
+        } else {
+          handle(res, (value) => {
+            finish();
+            resolve(value);
+          });
+        }
+      },
+      fail: (e) => {
+        finish();
+        reject(e);
+      },
+    });
+    signal?.addEventListener("abort", abort, { once: true });
+    w.postMessage(request, transfer);
+  });
+}
+
+/**
+ * Analyses hors du fil principal : photo, lots, comparaison, vidéo, landmarks et frame figée du
+ * temps réel passent par un worker dédié, qui détient le modèle. Le modèle n’est chargé dans la page qu’en
+ * repli, si le worker est indisponible ou échoue. L’analyse de la photo (`run`) a sa progression
+ * par étape et son annulation ; une nouvelle analyse remplace la précédente, dont le résultat est ignoré.
+ */
+export function useAnalysis() {
+  const [choice, setChoiceState] = useState<BackendChoice>(loadBackendChoice);
+  const [worker, setWorker] = useState<WorkerInfo>(() => (workerSupported() ? INITIAL : { ...INITIAL, status: "unsupported" }));
+  const [progress, setProgress] = useState<StageEvent | null>(null);
+  const [running, setRunning] = useState(false);
+  const [timings, setTimings] = useState<StageTimings | null>(null);
+  const [workerMemory, setWorkerMemory] = useState<DetectorDiagnostics["memory"]>(null);
+  const [pageMemory, setPageMemory] = useState<DetectorDiagnostics["memory"]>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const jobsRef = useRef(new Map<number, Pending>());
+  const mainRef = useRef<AbortController | null>(null);
+  const seq = useRef(0);
+
+  const inWorker = worker.status === "loading" || worker.status === "ready";
+  const page = useDetector(choice, !inWorker);
+  const fallback = page.model;
+
+  /** Abandonne l’analyse de la photo ; sa promesse se résout avec `null`. */
+  const cancel = useCallback(() => {
+    mainRef.current?.abort();
+    mainRef.current = null;
+    setRunning(false);
+    setProgress(null);
+  }, []);
+
+  useEffect(() => {
+    if (!workerSupported()) return;
+    const w = new Worker(new URL("../utils/analysisWorker.ts", import.meta.url), { type: "module" });
+    const jobs = jobsRef.current;
+    const failAll = (error: Message) => [...jobs.values()].forEach((job) => job.fail(new MessageError(error)));
+    workerRef.current = w;
+    setWorker(INITIAL);
+    w.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const res = e.data;
+      if (res.type === "ready") {
+        setWorker({ status: "ready", backend: res.backend, attempts: res.attempts, loadMs: res.loadMs, warmupMs: res.warmupMs, error: null });
+        setWorkerMemory(res.memory);
+      } else if (res.type === "initFailed") {
+        setWorker({ ...INITIAL, status: "error", error: res.error });
+      } else {
+        const job = jobs.get(res.id);
+        if (job) job.onReply(res);
+        // Réponse d’une demande abandonnée : ses images sont libérées.
+        else if (res.type === "done") res.faces.forEach((f) => f.aligned?.close());
+      }
+    };
+    // Worker introuvable ou arrêté brutalement : les analyses suivantes repassent dans la page.
+    w.onerror = () => {
+      setWorker({ ...INITIAL, status: "error", error: msg("worker.crashed") });
+      failAll(msg("worker.crashed"));
+    };
+    w.postMessage({ type: "init", backend: choice } satisfies WorkerRequest);
+    return () => {
+      w.terminate();
+      workerRef.current = null;
+      cancel();
+      failAll(msg("worker.restarted"));
+    };
+  }, [cancel, choice]);
+
+  const analyze: Analyzer = useCallback(
+    async (img, multi, methodology, opts = {}) => {
+      const w = workerRef.current;
+      if (w && inWorker) {
+        const image = await createImageBitmap(img);
+        if (opts.signal?.aborted) {
+          image.close();
+          throw opts.signal.reason;
+        }
+        const id = ++seq.current;
+        return send<AnalysisOutcome>(jobsRef.current, w, { type: "analyze", id, image, multi, methodology }, [image], opts.signal, (res, resolve) => {
+          if (res.type === "stage") {
+            opts.onStage?.(res.event);
+          } else if (res.type === "done") {
+            opts.onStage?.({ stage: "render" });
+            const t0 = performance.now();
+            const faces = res.faces.map(fromWorker);
+            setWorkerMemory(res.memory);
+            resolve({ faces, timings: { ...res.timings, render: performance.now() - t0 } });
+          }
+        });
+      }
+      // Repli dans la page : mêmes étapes, même annulation, sans libérer le fil principal.
+      if (!fallback) throw new MessageError(msg("app.modelNotReady"));
+      const timings: StageTimings = {};
+      const faces = await analyzeFacesInPage(fallback, img, multi, methodology, { ...opts, timings });
+      setPageMemory(memoryUsage());
+      return { faces, timings };
+    },
+    [fallback, inWorker]
+  );
+
+  const detect: LandmarkDetector = useCallback(
+    async (video) => {
+      const w = workerRef.current;
+      if (w && inWorker) {
+        const image = await createImageBitmap(video);
+        const id = ++seq.current;
+        return send<LM[] | null>(jobsRef.current, w, { type: "landmarks", id, image }, [image], undefined, (res, resolve) => {
+          if (res.type === "landmarks") resolve(res.landmarks);
+        });
+      }
+      if (!fallback) throw new MessageError(msg("app.modelNotReady"));
+      return detectLandmarks(fallback, video);
+    },
+    [fallback, inWorker]
+  );
+
+  /** Rapport d’une frame figée du temps réel, calculé dans le worker s’il est disponible. */
+  const scoreFrame = useCallback(
+    async (frame: HTMLCanvasElement, landmarks: LM[], methodology: Methodology): Promise<FaceResult> => {
+      const w = workerRef.current;
+      if (w && inWorker) {
+        const image = await createImageBitmap(frame);
+        const id = ++seq.current;
+        return send<FaceResult>(jobsRef.current, w, { type: "stableFrame", id, image, landmarks, methodology }, [image], undefined, (res, resolve) => {
+          if (res.type === "done") resolve(fromWorker(res.faces[0]));
+        });
+      }
+      // Dans la page, le canevas de travail est un <canvas>.
+      return scoreStableFrame(frame, landmarks, methodology) as FaceResult;
+    },
+    [inWorker]
+  );
+
+  /** Résultat de l’analyse de la photo, ou `null` si elle a été annulée ou remplacée entre-temps. */
+  const run = useCallback(
+    async (img: HTMLImageElement, multi: boolean, methodology: Methodology): Promise<AnalysisOutcome | null> => {
+      cancel();
+      const controller = new AbortController();
+      mainRef.current = controller;
+      setRunning(true);
+      try {
+        const outcome = await analyze(img, multi, methodology, {
+          signal: controller.signal,
+          onStage: (event) => { if (mainRef.current === controller) setProgress(event); },
+        });
+        if (mainRef.current !== controller) return null;
+        setTimings(outcome.timings);
+        return outcome;
+      } catch (e) {
+        if (controller.signal.aborted) return null;
+        throw e;
+      } finally {
+        if (mainRef.current === controller) {
+          mainRef.current = null;
+          setRunning(false);
+          setProgress(null);
+        }
+      }
+    },
+    [analyze, cancel]
+  );
+
+  const setChoice = useCallback((next: BackendChoice) => {
+    setChoiceState(next);
+    saveBackendChoice(next);
+  }, []);
+
+  const status: DetectorStatus = inWorker ? (worker.status === "ready" ? "ready" : "loading") : page.status;
+  const diagnostics: DetectorDiagnostics = inWorker
+    ? { backend: worker.backend, attempts: worker.attempts, loadMs: worker.loadMs, warmupMs: worker.warmupMs, timings, memory: workerMemory }
+    : { ...page.diagnostics, timings, memory: pageMemory ?? page.diagnostics.memory };
+
+  return {
+    choice,
+    setChoice,
+    status,
+    ready: status === "ready",
+    /** Échec du chargement du modèle dans la page (repli). */
+    error: inWorker ? null : page.error,
+    retry: page.retry,
+    diagnostics,
+    worker,
+    running,
+    progress,
+    run,
+    cancel,
+    analyze,
+    detectLandmarks: detect,
+    scoreFrame,
+  };
+}
@@ -0,0 +1,63 @@
+import { useCallback, useMemo, useState } from "react";
+import { buildPopulationModel, errorMessage, literatureCohort, msg, parseCohort, type Message, type ReferenceCohort } from "../engine";
+import { loadCohortSelection, loadCustomCohorts, newCohortId, saveCohortSelection, saveCustomCohorts, type CohortSelection } from "../utils/cohortStore";
+
+const BUILT_IN = [literatureCohort()];
+
+/** Cohortes de référence (intégrée + importées, persistées localement), cohorte et groupe retenus. */
+export function useCohorts() {
+  const [custom, setCustom] = useState<ReferenceCohort[]>(loadCustomCohorts);
+  const [selection, setSelectionState] = useState<CohortSelection>(loadCohortSelection);
+
+  const all = useMemo(() => [...BUILT_IN, ...custom], [custom]);
+  const active = selection.id === null ? null : all.find((c) => c.id === selection.id) ?? null;
+
+  // Un groupe devenu trop petit (ou disparu) laisse le modèle vide et signale l’erreur.
+  const { model, error } = useMemo(() => {
+    if (!active) return { model: null, error: null };
+    try {
+      return { model: buildPopulationModel(active, selection.group), error: null };
+    } catch (e) {
+      return { model: null, error: errorMessage(e) };
+    }
+  }, [active, selection.group]);
+
+  const select = useCallback((id: string | null, group: string | null = null) => {
+    const next = { id, group };
+    setSelectionState(next);
+    saveCohortSelection(next);
+  }, []);
+
+  /** Importe une cohorte JSON ou CSV et la retient ; renvoie les erreurs de lecture. */
+  const importFile = useCallback(
+    (text: string, fileName: string): Message[] => {
+      try {
+        const cohort = parseCohort(text, newCohortId(), fileName.replace(/\.[^.]+$/, ""));
+        const next = [...custom, cohort];
+        try {
+          saveCustomCohorts(next);
+        } catch {
+          return [msg("cohort.storageFull")];
+        }
+        setCustom(next);
+        select(cohort.id);
+        return [];
+      } catch (e) {
+        return [errorMessage(e)];
+      }
+    },
+    [custom, select]
+  );
+
+  const remove = useCallback(
+    (id: string) => {
+      const next = custom.filter((c) => c.id !== id);
+      setCustom(next);
+      saveCustomCohorts(next);
+      if (selection.id === id) select(BUILT_IN[0].id);
+    },
+    [custom, selection.id, select]
+  );
+
+  return { all, active, group: selection.group, model, error, select, importFile, remove };
+}
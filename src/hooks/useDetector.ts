@@ -0,0 +1,84 @@
+import { useCallback, useEffect, useState } from "react";
+import { MessageError, errorMessage, msg, type Message } from "../engine";
+import {
+  createFaceDetector,
+  memoryUsage,
+  negotiateBackend,
+  warmUp,
+  type BackendAttempt,
+  type BackendChoice,
+  type BackendName,
+} from "../utils/backend";
+import type { Detector, StageTimings } from "../utils/detection";
+
+export type DetectorStatus = "loading" | "ready" | "error";
+
+export type DetectorDiagnostics = {
+  backend: BackendName | null;
+  attempts: BackendAttempt[];
+  /** Chargement des poids (ms). */
+  loadMs: number | null;
+  /** Durée médiane d’une inférence après chauffe (ms). */
+  warmupMs: number | null;
+  /** Étapes de la dernière analyse (ms). */
+  timings: StageTimings | null;
+  memory: ReturnType<typeof memoryUsage> | null;
+};
+
+const EMPTY: DetectorDiagnostics = { backend: null, attempts: [], loadMs: null, warmupMs: null, timings: null, memory: null };
+
+/**
+ * Modèle chargé dans la page, en repli du worker d’analyse : moteur d’inférence négocié
+ * (WebGL → WASM → CPU, ou choix forcé), modèle chargé et chauffé seulement si `enabled`,
+ * et mesures pour le panneau de diagnostic. Un échec est exposé dans `error`.
+ */
+export function useDetector(choice: BackendChoice, enabled: boolean) {
+  const [attempt, setAttempt] = useState(0);
+  const [model, setModel] = useState<Detector | null>(null);
+  const [status, setStatus] = useState<DetectorStatus>("loading");
+  const [error, setError] = useState<Message | null>(null);
+  const [diagnostics, setDiagnostics] = useState<DetectorDiagnostics>(EMPTY);
+
+  useEffect(() => {
+    setModel(null);
+    setStatus("loading");
+    setError(null);
+    if (!enabled) return;
+    let cancelled = false;
+    let loaded: Detector | null = null;
+    (async () => {
+      const { backend, attempts } = await negotiateBackend(choice);
+      if (!cancelled) setDiagnostics({ ...EMPTY, backend, attempts });
+      const t0 = performance.now();
+      const detector = await createFaceDetector();
+      const loadMs = performance.now() - t0;
+      let warmupMs: number;
+      try {
+        warmupMs = await warmUp(detector);
+      } catch (e) {
+        detector.dispose();
+        throw new MessageError(msg("backend.warmupFailed", { backend, error: (e as Error).message }));
+      }
+      if (cancelled) {
+        detector.dispose();
+        return;
+      }
+      loaded = detector;
+      setModel(detector);
+      setStatus("ready");
+      setDiagnostics({ ...EMPTY, backend, attempts, loadMs, warmupMs, memory: memoryUsage() });
+    })().catch((e) => {
+      if (cancelled) return;
+      setStatus("error");
+      setError(errorMessage(e));
+    });
+    return () => {
+      cancelled = true;
+      loaded?.dispose();
+    };
+  }, [choice, attempt, enabled]);
+
+  const retry = useCallback(() => setAttempt((n) => n + 1), []);
+
+  return { model, status, error, retry, diagnostics };
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useState } from "react";
+import type { MessageKey } from "../i18n";
+import type { FaceResult } from "../utils/detection";
+import {
+  addHistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  loadHistory,
+  loadHistoryPrefs,
+  makeThumbnail,
+  saveHistoryPrefs,
+  type HistoryEntry,
+  type HistoryPrefs,
+} from "../utils/historyStore";
+
+/** Historique local des analyses et préférences d’enregistrement. */
+export function useHistory() {
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [error, setError] = useState<MessageKey | null>(null);
+  const [prefs, setPrefsState] = useState<HistoryPrefs>(loadHistoryPrefs);
+
+  useEffect(() => {
+    loadHistory()
+      .then(setEntries)
+      .catch(() => setError("history.unavailable"));
+  }, []);
+
+  const setPrefs = useCallback((next: HistoryPrefs) => {
+    setPrefsState(next);
+    saveHistoryPrefs(next);
+  }, []);
+
+  /** Archive chaque visage scoré d’une analyse. */
+  const record = useCallback(
+    async (faces: FaceResult[], fileName: string) => {
+      const createdAt = new Date().toISOString();
+      try {
+        for (const f of faces) {
+          if (!f.report || !f.landmarks) continue;
+          const saved = await addHistoryEntry({
+            createdAt,
+            subject: prefs.subject.trim(),
+            fileName,
+            faceId: f.id,
+            box: f.box,
+            report: f.report,
+            landmarks: f.landmarks,
+            detectedLandmarks: f.detectedLandmarks,
+            thumbnail: prefs.thumbnails && f.aligned ? makeThumbnail(f.aligned) : undefined,
+          });
+          setEntries((es) => [...es, saved]);
+        }
+      } catch {
+        setError("history.saveFailed");
+      }
+    },
+    [prefs]
+  );
+
+  const remove = useCallback(async (id: number) => {
+    try {
+      await deleteHistoryEntry(id);
+      setEntries((es) => es.filter((e) => e.id !== id));
+    } catch {
+      setError("history.deleteFailed");
+    }
+  }, []);
+
+  const clear = useCallback(async () => {
+    try {
+      await clearHistory();
+      setEntries([]);
+    } catch {
+      setError("history.deleteFailed");
+    }
+  }, []);
+
+  return { entries, error, prefs, setPrefs, record, remove, clear };
+}
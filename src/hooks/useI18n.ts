@@ -0,0 +1,42 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import { DEFAULT_LOCALE, createTranslator, isLocale, type Locale, type Translator } from "../i18n";
+
+const LOCALE_KEY = "harmonie-faciale.locale";
+
+/** Langue enregistrée, sinon la première langue du navigateur prise en charge. */
+function initialLocale(): Locale {
+  try {
+    const saved = localStorage.getItem(LOCALE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Stockage indisponible : on s’en remet au navigateur.
+  }
+  const preferred = (navigator.languages ?? [navigator.language]).map((l) => l.slice(0, 2).toLowerCase());
+  return preferred.find(isLocale) ?? DEFAULT_LOCALE;
+}
+
+type I18n = Translator & { setLocale: (locale: Locale) => void };
+
+export const I18nContext = createContext<I18n>({ ...createTranslator(DEFAULT_LOCALE), setLocale: () => {} });
+
+/** Langue courante persistée localement ; fournie à l’application par `I18nProvider`. */
+export function useLocale(): I18n {
+  const [locale, setLocaleState] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(LOCALE_KEY, next);
+    } catch {
+      // Stockage indisponible : la langue vaut pour la session.
+    }
+  }, []);
+
+  return useMemo(() => ({ ...createTranslator(locale), setLocale }), [locale, setLocale]);
+}
+
+export const useI18n = () => useContext(I18nContext);
@@ -0,0 +1,123 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { estimatePose, medianLandmarks, scoreLandmarks, type LM, type Methodology, type Scores } from "../engine";
+import { alignStableLandmarks, type LandmarkDetector } from "../utils/detection";
+
+export const LIVE = {
+  /** Nombre de frames de la fenêtre glissante (médiane point par point). */
+  bufferSize: 7,
+  /** Intervalle minimal entre deux mises à jour des scores affichés. */
+  publishIntervalMs: 250,
+};
+
+export type LiveState = { scores: Scores; fps: number; frames: number } | null;
+
+const nextFrame = () => new Promise<void>((r) => requestAnimationFrame(() => r()));
+
+function drawLiveOverlay(canvas: HTMLCanvasElement | null, video: HTMLVideoElement, lms: LM[] | null) {
+  if (!canvas) return;
+  if (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight) {
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+  }
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return;
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  if (!lms) return;
+  ctx.fillStyle = "rgba(16, 185, 129, 0.85)";
+  for (const p of lms) {
+    ctx.beginPath();
+    ctx.arc(p.x * canvas.width, p.y * canvas.height, 1.2, 0, Math.PI * 2);
+    ctx.fill();
+  }
+}
+
+/**
+ * Détection continue sur le flux caméra : médiane glissante des landmarks,
+ * scores rapides (sans IC) publiés plusieurs fois par seconde et superposition des points.
+ */
+export function useLiveAnalysis(
+  detect: LandmarkDetector | null,
+  videoRef: React.RefObject<HTMLVideoElement | null>,
+  overlayRef: React.RefObject<HTMLCanvasElement | null>,
+  methodology: Methodology
+) {
+  const [active, setActive] = useState(false);
+  const [live, setLive] = useState<LiveState>(null);
+  const bufferRef = useRef<LM[][]>([]);
+
+  useEffect(() => {
+    if (!active || !detect) return;
+    let cancelled = false;
+
+    (async () => {
+      let lastPublish = performance.now();
+      let frames = 0;
+      while (!cancelled) {
+        const video = videoRef.current;
+        if (!video || video.readyState < 2 || video.videoWidth === 0) {
+          await new Promise((r) => setTimeout(r, 100));
+          continue;
+        }
+
+        // Une frame sans réponse du détecteur compte comme une frame sans visage.
+        const kps = await detect(video).catch(() => null);
+        if (cancelled) break;
+        const buffer = bufferRef.current;
+        if (kps) {
+          buffer.push(kps);
+          if (buffer.length > LIVE.bufferSize) buffer.shift();
+        } else {
+          // Visage perdu : on repart d’une fenêtre vide plutôt que de mélanger deux poses.
+          buffer.length = 0;
+        }
+        frames++;
+
+        const stable = medianLandmarks(buffer);
+        drawLiveOverlay(overlayRef.current, video, stable);
+
+        const now = performance.now();
+        if (now - lastPublish >= LIVE.publishIntervalMs) {
+          const fps = (frames * 1000) / (now - lastPublish);
+          if (stable) {
+            const aligned = alignStableLandmarks(stable, video.videoWidth, video.videoHeight);
+            const report = scoreLandmarks(aligned.landmarks, aligned.width, aligned.height, {
+              methodology,
+              repeats: 0,
+              pose: estimatePose(stable, video.videoWidth, video.videoHeight),
+            });
+            setLive({ scores: report.scores, fps, frames: buffer.length });
+          } else {
+            setLive(null);
+          }
+          lastPublish = now;
+          frames = 0;
+        }
+        await nextFrame();
+      }
+    })();
+
+    const overlay = overlayRef.current;
+    return () => {
+      cancelled = true;
+      bufferRef.current = [];
+      overlay?.getContext("2d")?.clearRect(0, 0, overlay.width, overlay.height);
+      setLive(null);
+    };
+  }, [active, detect, videoRef, overlayRef, methodology]);
+
+  /** Arrête le mode temps réel et renvoie la frame courante avec les landmarks stabilisés. */
+  const freeze = useCallback(() => {
+    const video = videoRef.current;
+    const stable = medianLandmarks(bufferRef.current);
+    setActive(false);
+    if (!video || !stable || video.videoWidth === 0) return null;
+
+    const frame = document.createElement("canvas");
+    frame.width = video.videoWidth;
+    frame.height = video.videoHeight;
+    frame.getContext("2d")?.drawImage(video, 0, 0, frame.width, frame.height);
+    return { frame, landmarks: stable };
+  }, [videoRef]);
+
+  return { active, setActive, live, freeze };
+}
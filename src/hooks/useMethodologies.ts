@@ -0,0 +1,70 @@
+import { useCallback, useMemo, useState } from "react";
+import { BUILT_IN_METHODOLOGIES, METHODOLOGY, msg, validateMethodology, type Message, type Methodology } from "../engine";
+import {
+  loadActiveMethodologyId,
+  loadCustomMethodologies,
+  newMethodologyId,
+  saveActiveMethodologyId,
+  saveCustomMethodologies,
+} from "../utils/methodologyStore";
+
+/** Profils intégrés + personnalisés (persistés localement) et profil actif. */
+export function useMethodologies() {
+  const [custom, setCustom] = useState<Methodology[]>(loadCustomMethodologies);
+  const [activeId, setActiveIdState] = useState<string>(() => loadActiveMethodologyId() ?? METHODOLOGY.id);
+
+  const all = useMemo(() => [...BUILT_IN_METHODOLOGIES, ...custom], [custom]);
+  const active = all.find((m) => m.id === activeId) ?? METHODOLOGY;
+
+  const setActiveId = useCallback((id: string) => {
+    setActiveIdState(id);
+    saveActiveMethodologyId(id);
+  }, []);
+
+  const updateCustom = useCallback((next: Methodology[]) => {
+    setCustom(next);
+    saveCustomMethodologies(next);
+  }, []);
+
+  /** Enregistre un profil personnalisé (création ou mise à jour) ; renvoie les erreurs de validation. */
+  const saveCustom = useCallback(
+    (m: Methodology) => {
+      const { methodology, errors } = validateMethodology(m);
+      if (!methodology) return errors;
+      if (BUILT_IN_METHODOLOGIES.some((b) => b.id === methodology.id)) return [msg("methodology.error.builtIn")];
+      const exists = custom.some((c) => c.id === methodology.id);
+      updateCustom(exists ? custom.map((c) => (c.id === methodology.id ? methodology : c)) : [...custom, methodology]);
+      return [] as Message[];
+    },
+    [custom, updateCustom]
+  );
+
+  const removeCustom = useCallback(
+    (id: string) => {
+      updateCustom(custom.filter((c) => c.id !== id));
+      if (id === activeId) setActiveId(METHODOLOGY.id);
+    },
+    [custom, updateCustom, activeId, setActiveId]
+  );
+
+  /** Importe un profil JSON ; un identifiant déjà utilisé est remplacé par un nouveau. */
+  const importJSON = useCallback(
+    (text: string) => {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(text);
+      } catch {
+        return { errors: [msg("methodology.error.unreadable")] };
+      }
+      const { methodology, errors } = validateMethodology(raw);
+      if (!methodology) return { errors };
+      const imported = all.some((m) => m.id === methodology.id) ? { ...methodology, id: newMethodologyId() } : methodology;
+      updateCustom([...custom, imported]);
+      setActiveId(imported.id);
+      return { errors: [], methodology: imported };
+    },
+    [all, custom, updateCustom, setActiveId]
+  );
+
+  return { all, active, setActiveId, saveCustom, removeCustom, importJSON };
+}
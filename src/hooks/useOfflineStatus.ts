@@ -0,0 +1,21 @@
+import { useRegisterSW } from "virtual:pwa-register/react";
+
+export type OfflineState = "loading" | "caching" | "ready" | "unavailable";
+
+/**
+ * État hors ligne de l’application : prêt quand le modèle est chargé et que le service worker
+ * a précaché l’application et ses poids. Signale aussi une nouvelle version en attente.
+ */
+export function useOfflineStatus(modelReady: boolean) {
+  const {
+    offlineReady: [offlineReady],
+    needRefresh: [needRefresh],
+    updateServiceWorker,
+  } = useRegisterSW();
+  const supported = import.meta.env.PROD && "serviceWorker" in navigator;
+  // Une page déjà contrôlée par le service worker a été précachée lors d’une visite précédente.
+  const cached = offlineReady || (supported && Boolean(navigator.serviceWorker.controller));
+
+  const state: OfflineState = !modelReady ? "loading" : !supported ? "unavailable" : cached ? "ready" : "caching";
+  return { state, needRefresh, update: () => updateServiceWorker(true) };
+}
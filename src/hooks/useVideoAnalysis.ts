@@ -0,0 +1,80 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { MIN_VIDEO_FRAMES, msg, type LM, type ManualCalibration, type Message, type Methodology } from "../engine";
+import type { Analyzer, FaceResult } from "../utils/detection";
+import { analyzeVideo, isKept, rescoreVideo, videoFace, type VideoProgress, type VideoResult } from "../utils/video";
+
+/** Vidéo analysée et son visage agrégé, recalculé à chaque changement de frames ou de frame visuelle. */
+export type VideoAnalysis = { result: VideoResult; face: FaceResult | null };
+
+const withFace = (result: VideoResult, methodology: Methodology): VideoAnalysis => ({ result, face: videoFace(result, methodology) });
+
+/**
+ * Analyse d’une vidéo enregistrée : échantillonnage dans la page, analyse des frames par `analyze`,
+ * puis visage agrégé (médianes, dispersion temporelle) sur la frame choisie pour le rapport visuel.
+ */
+export function useVideoAnalysis(analyze: Analyzer | null, methodology: Methodology) {
+  const [state, setState] = useState<VideoAnalysis | null>(null);
+  const [progress, setProgress] = useState<VideoProgress | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  }, []);
+
+  const clear = useCallback(() => {
+    cancel();
+    setState(null);
+  }, [cancel]);
+
+  /** Vidéo analysée avec son visage agrégé, `null` si l’analyse a été annulée ou remplacée entre-temps. */
+  const run = useCallback(
+    async (file: File, rate: number): Promise<VideoAnalysis | null> => {
+      if (!analyze) return null;
+      cancel();
+      setState(null);
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setProgress({ done: 0, total: 0 });
+      try {
+        const result = await analyzeVideo(analyze, file, methodology, rate, controller.signal, (p) => {
+          if (abortRef.current === controller) setProgress(p);
+        });
+        if (abortRef.current !== controller) return null;
+        const next = withFace(result, methodology);
+        setState(next);
+        return next;
+      } catch (e) {
+        if (controller.signal.aborted) return null;
+        throw e;
+      } finally {
+        if (abortRef.current === controller) {
+          abortRef.current = null;
+          setProgress(null);
+        }
+      }
+    },
+    [analyze, cancel, methodology]
+  );
+
+  const selectFrame = useCallback(
+    (index: number) => setState((s) => s && withFace({ ...s.result, visual: index }, methodology)),
+    [methodology]
+  );
+
+  /** Recalcule les frames après un changement de profil, ou la frame visuelle après une correction. */
+  const rescore = useCallback(
+    (next: Methodology, edit?: { landmarks?: LM[]; calibration?: ManualCalibration | null }) =>
+      setState((s) => s && withFace(rescoreVideo(s.result, next, edit), next)),
+    []
+  );
+
+  // Trop peu de frames retenues : la frise reste affichée, sans rapport.
+  const error = useMemo((): Message | null => {
+    if (!state || state.face) return null;
+    return msg("video.tooFewFrames", { kept: state.result.frames.filter(isKept).length, min: MIN_VIDEO_FRAMES });
+  }, [state]);
+
+  return { result: state?.result ?? null, face: state?.face ?? null, error, running: progress !== null, progress, run, cancel, clear, selectFrame, rescore };
+}
@@ -0,0 +1,648 @@
+import type { MessageKey } from "./fr";
+
+/** Catalogue anglais : mêmes clés que le catalogue de référence, toutes obligatoires. */
+export const en: Record<MessageKey, string> = {
+  "app.kicker": "Facial analysis",
+  "app.title": "Personalised facial harmony report",
+  "app.intro":
+    "The analysis relies on geometric measurements of facial landmarks detected locally in your browser. Results are descriptive, compared with targets, and come with a statistical uncertainty.",
+  "app.language": "Language",
+  "app.import.title": "Image upload",
+  "app.import.hint": "Upload a sharp, well-exposed frontal photo with the face centred and a neutral expression.",
+  "app.import.choose": "Choose a file",
+  "app.import.none": "No file",
+  "app.camera.title": "Or use the camera",
+  "app.camera.start": "Start camera",
+  "app.camera.snapshot": "Capture",
+  "app.camera.live": "Live",
+  "app.camera.stopLive": "Stop live analysis",
+  "app.camera.freeze": "Freeze",
+  "app.camera.denied": "Cannot access the camera. Please allow access or upload an image.",
+  "app.video.title": "Or analyse a video",
+  "app.video.hint": "A few seconds facing the camera, neutral expression: sampled frames are analysed one by one, frames with insufficient pose or quality are discarded, then scores are aggregated.",
+  "app.video.choose": "Choose a video",
+  "app.video.none": "No video",
+  "app.video.rate": "Sampling",
+  "app.video.rateOption": "{rate} frame(s) per second",
+  "app.video.analyze": "Analyse the video",
+  "app.video.progress": "Frame {done} of {total}",
+  "app.live.symmetry": "Symmetry (live)",
+  "app.live.golden": "Golden ratio (live)",
+  "app.live.harmony": "Harmony (live)",
+  "app.live.status": "Median over {frames} frame(s) — {fps} fps. “Freeze” produces the full report with 95% CIs.",
+  "app.live.searching": "Looking for a face…",
+  "app.live.unstable": "No stable face: look at the camera for a few moments and try again.",
+  "app.preview.title": "Preview",
+  "app.preview.alt": "preview",
+  "app.preview.empty": "No image selected.",
+  "app.multiFace": "Analyse every face (group photo)",
+  "app.analyze": "Run analysis",
+  "app.analyzing": "Analysing…",
+  "app.cancel": "Cancel",
+  "app.modelNotReady": "Model not ready.",
+  "app.noImage": "No image loaded.",
+  "app.model.loading": "Loading model…",
+  "app.model.retry": "Retry",
+  "app.methodology.title": "Methodology profile",
+  "app.cohort.title": "Reference cohort",
+  "app.cohort.none": "none",
+  "app.faces.count": "{count} faces detected",
+  "app.faces.sideBySide": "Side by side",
+  "app.face": "Face {id}",
+  "app.face.notScored": "Face {id} not scored",
+  "app.batch.title": "Batch processing",
+  "app.compare.title": "Before / after comparison",
+  "app.history.title": "History",
+  "app.history.count": "{count} analysis(es)",
+  "app.offline.loading": "Loading model…",
+  "app.offline.loading.hint": "FaceMesh weights are loaded from the app itself.",
+  "app.offline.caching": "Caching…",
+  "app.offline.caching.hint": "The app and model are being saved for use without a network.",
+  "app.offline.ready": "Ready offline",
+  "app.offline.ready.hint": "The app and model are stored on this device: analysis works without a network.",
+  "app.offline.unavailable": "Model ready",
+  "app.offline.unavailable.hint": "Offline mode unavailable (browser without service workers, or development server).",
+  "app.offline.update": "Update",
+  "app.footer.local": "Processed locally in your browser; no image is sent to a server.",
+  "app.footer.methodology":
+    "Methodology “{name}” v{version} — weights: symmetry {symmetry}, golden {golden}, harmony {harmony}.",
+
+  "score.symmetry": "Symmetry score",
+  "score.golden": "Golden ratio agreement",
+  "score.harmony": "Facial harmony score",
+  "score.overall": "Overall index",
+  "score.uniqueness": "Uniqueness index",
+  "score.short.symmetry": "Symmetry",
+  "score.short.golden": "Golden ratio",
+  "score.short.harmony": "Harmony",
+  "score.short.overall": "Overall index",
+  "score.short.uniqueness": "Uniqueness",
+
+  "region.eyes": "Eyes",
+  "region.brows": "Brows and forehead",
+  "region.nose": "Nose",
+  "region.mouth": "Mouth",
+  "region.jaw": "Jaw and chin",
+  "region.cheeks": "Cheeks",
+
+  "report.results": "Quantitative results",
+  "report.profile": "Profile “{name}” v{version}",
+  "report.temporal": "Video: median of {kept} kept frame(s) out of {sampled}; “±” gives the temporal spread. Image, points and detailed symmetry: frame at {time} s.",
+  "report.pose.title": "Head orientation",
+  "report.pose.angles": "Yaw {yaw}° · pitch {pitch}° · roll {roll}°",
+  "report.pose.normalized": "scores computed on the normalised frontal pose",
+  "report.pose.unavailable": "Not estimated (landmarks without depth).",
+  "report.conclusions": "Analysis and conclusions",
+  "report.limits.title": "Context and limitations",
+  "report.limits.body":
+    "Indicators computed from facial landmarks (MediaPipe FaceMesh) and geometric ratios. The ±95% CI bounds are percentile intervals from a fixed-seed Monte-Carlo pass (Gaussian noise on the detected points or re-detection on perturbed images).",
+  "report.points.title": "Measured points and segments",
+  "report.points.edit": "Correct points",
+  "report.points.done": "Done",
+  "report.points.editHint": "Scores, ratios and CIs are recomputed after every move.",
+  "report.points.hoverHint": "Hover a segment, a measurement or a ratio to link them.",
+  "report.points.calibrateHint": "Place both ends of the reference, enter its length, then apply.",
+  "report.edits.count": "{count} point(s) corrected by hand",
+  "report.edits.detail": "{distance} px (Δx {dx}, Δy {dy})",
+  "report.measures.title": "Facial measurements",
+  "report.measures.hint": "Distances in pixels on the aligned image.",
+  "report.measures.populationHint": "Percentile and z-score of the distances relative to face width, in the “{name}” cohort.",
+  "report.measures.hintMm": "Distances in millimetres (± 95% CI); in small print, the value in pixels on the aligned image.",
+  "report.measures.pixels": "{value} px",
+  "report.calibration.title": "Calibration",
+  "report.calibration.iris":
+    "Horizontal iris diameter: {px} px for {mm} mm (adult mean, {sd} mm standard deviation between individuals), i.e. {scale} ± {ci} µm/px.",
+  "report.calibration.manual": "Drawn reference: {px} px for {mm} mm, i.e. {scale} ± {ci} µm/px.",
+  "report.calibration.none": "No iris landmarks and no drawn reference: distances stay in pixels of the aligned image.",
+  "report.calibration.uncertainty": "Millimetre 95% CIs combine landmark noise and the uncertainty of the scale.",
+  "report.calibration.draw": "Draw a reference",
+  "report.calibration.useIris": "Back to the iris",
+  "report.ratios.title": "Evaluated ratios",
+  "report.ratios.hint":
+    "Compared with target values (relative error) or with reference ranges from the literature (distance outside the range). Ratios marked ★ count towards the golden ratio score.",
+  "report.ratios.ratio": "Ratio",
+  "report.ratios.measured": "Measured",
+  "report.ratios.reference": "Target / range",
+  "report.ratios.deviation": "Deviation",
+  "report.ratios.relativeError": "Relative deviation",
+  "report.ratios.inRange": "within range",
+  "report.ratios.sources": "Sources: {sources}",
+  "report.ratios.population": "Cohort",
+  "report.population.cell": "P{percentile} · z {z}",
+  "report.population.uniqueness":
+    "Uniqueness: Mahalanobis distance {distance} over {features} ratios, farther from the centre of the “{name}” cohort than {percentile}% of expected subjects.",
+  "report.population.group": "{name} — group {group}",
+  "report.population.noRatios": "Uniqueness: no ratio in common with the “{name}” cohort, the heuristic index is kept.",
+  "report.population.heuristic":
+    "Uniqueness: heuristic index (distance of symmetry, golden ratio and harmony from fixed values), for lack of a reference cohort.",
+  "report.symmetry.title": "Symmetry by region",
+  "report.symmetry.hint":
+    "Bilateral pairs reflected across the fitted midline (tilt {angle}°, offset {offset} px at eye level). Deviations as a % of face width.",
+  "report.symmetry.midline": "Fitted midline: tilt {angle}°, offset {offset} px at eye level.",
+  "report.symmetry.region": "Region",
+  "report.symmetry.score": "Score",
+  "report.symmetry.deviation": "Mean deviation",
+  "report.symmetry.direction": "Direction",
+  "report.profiles.title": "Symmetrised faces",
+  "report.profiles.hint":
+    "Landmarks reflected across the fitted midline, texture warped triangle by triangle over the FaceMesh mesh. The average face blends both halves equally.",
+  "report.profiles.left": "Full face (from the left)",
+  "report.profiles.average": "Symmetric average face",
+  "report.profiles.right": "Full face (from the right)",
+  "report.profiles.fade": "Original ↔ symmetrised",
+  "report.profiles.fadeValue": "{value}% symmetrised",
+  "report.aligned": "Aligned face",
+  "report.detailed": "Detailed report",
+  "report.alignedAlt": "Face {id}, aligned",
+
+  "overlay.points": "Points",
+  "overlay.segments": "Measured segments",
+  "overlay.pairs": "Symmetric pairs",
+  "overlay.heatmap": "Asymmetry map",
+
+  "editor.undo": "Undo",
+  "editor.redo": "Redo",
+  "editor.reset": "Detector points",
+  "editor.zoom": "Zoom",
+  "editor.alt": "Aligned face (editing)",
+  "editor.hint": "Drag the points (green: detector, orange: corrected). Ctrl+Z / Ctrl+Shift+Z to undo / redo.",
+
+  "calibration.irisMismatch": "Inconsistent iris diameters ({left} px and {right} px): unreliable calibration, prefer a drawn reference.",
+  "calibrationTool.hint":
+    "Click both ends of an object of known length (ruler, 85.6 mm bank card…) held in the plane of the face, then drag a point to adjust it.",
+  "calibrationTool.length": "Actual length (mm)",
+  "calibrationTool.segment": "Segment: {px} px",
+  "calibrationTool.apply": "Apply",
+  "calibrationTool.cancel": "Cancel",
+  "calibrationTool.alt": "Aligned face (drawing the reference)",
+  "calibrationTool.point": "End {n}",
+
+  "quality.title": "Image quality",
+  "quality.widened": "Confidence intervals widened ×{factor} because of image quality.",
+  "quality.grade.good": "Good",
+  "quality.grade.fair": "Fair",
+  "quality.grade.poor": "Poor",
+  "quality.check.blur": "Sharpness (Laplacian variance)",
+  "quality.check.exposure": "Exposure (mean luminance)",
+  "quality.check.contrast": "Contrast (luminance standard deviation)",
+  "quality.check.lighting": "Left/right lighting balance (relative difference)",
+  "quality.check.faceSize": "Face width in the image",
+  "quality.check.eyes": "Eye openness",
+  "quality.check.mouth": "Mouth openness",
+  "quality.check.glasses": "Glasses (nose bridge contrast)",
+  "quality.check.hair": "Hair over the forehead (relative luminance)",
+  "quality.advice.blur": "Blurred face: steady the camera, focus on the eyes or add light.",
+  "quality.advice.underexposed": "Underexposed face: add a light source facing the subject.",
+  "quality.advice.overexposed": "Overexposed face: avoid direct flash or full sunlight.",
+  "quality.advice.contrast": "Low contrast: avoid backlighting and overly diffuse or hazy light.",
+  "quality.advice.lightingLeft": "Side lighting: the left side of the image is darker; light the face from the front.",
+  "quality.advice.lightingRight": "Side lighting: the right side of the image is darker; light the face from the front.",
+  "quality.advice.faceSize": "Face too small in the image: move closer or use a higher resolution.",
+  "quality.advice.eyes": "Eyes closed or squinting: keep the eyes open and look at the lens.",
+  "quality.advice.mouth": "Mouth open: keep a neutral expression with the lips together.",
+  "quality.advice.glasses": "Glasses likely: remove them, the frame shifts the eye and brow points.",
+  "quality.advice.hair": "Hair likely over the forehead or brows: clear the face.",
+
+  "feedback.symmetry.high": "Very high facial symmetry — an indicator of morphological regularity.",
+  "feedback.symmetry.good": "Generally good symmetry with slight natural asymmetries.",
+  "feedback.symmetry.low": "More pronounced asymmetries — common and not pathological.",
+  "feedback.golden.high": "Proportions very close to the golden ratio.",
+  "feedback.golden.good": "Slight deviations from the golden ratio, with no direct aesthetic consequence.",
+  "feedback.golden.low": "Proportions far from the golden ratio — remember that beauty does not reduce to a ratio.",
+  "feedback.eyeSpacing.ideal": "Eye spacing within a range considered harmonious.",
+  "feedback.eyeSpacing.narrow": "Relatively narrow eye spacing (more concentrated look).",
+  "feedback.eyeSpacing.wide": "Relatively wide eye spacing (more open impression).",
+  "feedback.disclaimer": "Note: these indicators are descriptive. Aesthetic perception remains multidimensional.",
+
+  "pose.yaw": "Head turned (yaw) by {value}°, beyond the {max}° limit.",
+  "pose.pitch": "Head tilted up or down (pitch) by {value}°, beyond the {max}° limit.",
+  "pose.roll": "Head leaning sideways (roll) by {value}°, beyond the {max}° limit.",
+
+  "uncertainty.detectorFallback": "None of the {repeats} re-detections on perturbed copies succeeded: the CI95 rely on Gaussian landmark noise.",
+
+  "framing.tooSmall": "Face too small ({size} px < {min} px).",
+  "framing.cropped": "Face cut off by the image edge ({percent}% of points outside the frame).",
+
+  "deviation.lateral.left": "left side of the image further from the midline",
+  "deviation.lateral.right": "right side of the image further from the midline",
+  "deviation.lower.left": "left side of the image lower",
+  "deviation.lower.right": "right side of the image lower",
+  "deviation.none": "no dominant direction",
+
+  "backend.auto": "Automatic (WebGL → WASM → CPU)",
+  "backend.webgl": "WebGL (GPU)",
+  "backend.wasm": "WebAssembly",
+  "backend.cpu": "CPU (JavaScript)",
+  "backend.none": "No inference backend could start ({details}). Update your browser or enable hardware acceleration, then reload the page.",
+  "backend.warmupFailed": "The {backend} backend fails on its first run ({error}). Pick another backend in the Diagnostics panel.",
+  "model.notFound": "Model weights not found ({url}). Run “npm run models” on a connected machine, rebuild the app and reload the page.",
+  "model.corrupted": "Model weights are unreadable ({error}). Download them again with “npm run models -- --force”.",
+  "model.loadFailed": "Could not load the model: {error}",
+  "diagnostics.title": "Diagnostics",
+  "diagnostics.choice": "Inference backend",
+  "diagnostics.status": "Status",
+  "diagnostics.status.loading": "Loading…",
+  "diagnostics.status.ready": "Ready",
+  "diagnostics.status.error": "Error",
+  "diagnostics.backend": "Active backend",
+  "diagnostics.loadTime": "Model load",
+  "diagnostics.warmup": "Inference after warm-up",
+  "diagnostics.tensors": "Tensors in memory",
+  "diagnostics.memory": "TF.js memory",
+  "diagnostics.gpuMemory": "GPU memory",
+  "diagnostics.fallback": "{backend} unavailable: {error}",
+  "diagnostics.refused": "{backend} unavailable: the browser refused to initialise it",
+  "diagnostics.stages": "Last analysis",
+  "diagnostics.noRun": "No analysis yet.",
+  "diagnostics.stage.detect": "Face detection",
+  "diagnostics.stage.align": "Alignment",
+  "diagnostics.stage.landmarks": "Landmarks (aligned image)",
+  "diagnostics.stage.quality": "Quality checks",
+  "diagnostics.stage.uncertainty": "Uncertainty (re-detections)",
+  "diagnostics.stage.score": "Scores and Monte Carlo",
+  "diagnostics.stage.render": "Preparing display",
+  "diagnostics.worker": "Background analysis",
+  "diagnostics.worker.unsupported": "Unavailable (analysis in the page)",
+  "diagnostics.worker.loading": "Loading…",
+  "diagnostics.worker.ready": "Ready",
+  "diagnostics.worker.error": "Failed, analysis in the page",
+  "diagnostics.worker.failure": "Background analysis unavailable: {error}",
+  "worker.notReady": "The analysis worker is not initialised.",
+  "worker.crashed": "The analysis worker stopped; analyses continue in the page.",
+  "worker.restarted": "Analysis interrupted by the change of inference engine.",
+  "detection.noFace": "No face detected. Provide a sharp, centred frontal view.",
+  "detection.notConfirmed": "The face could not be confirmed after alignment.",
+  "image.loadFailed": "Unreadable image: {name}",
+  "image.unsupported": "Unrecognised image format: {name}",
+  "image.heicFailed": "HEIC conversion failed: {name}",
+  "image.formatNotDecoded": "This browser cannot decode the {format} format: {name}",
+  "video.loadFailed": "This browser cannot read the video: {name}",
+  "video.noDuration": "Unknown video duration: {name}. Record it again or convert it to MP4.",
+  "video.tooFewFrames": "{kept} frame(s) kept: at least {min} are needed to aggregate the video.",
+
+  "landmarkFile.notObject": "Invalid landmark file: JSON object expected.",
+  "landmarkFile.dimensions": "Missing or invalid image dimensions (width/height).",
+  "landmarkFile.missing": "Missing `landmarks` field.",
+  "landmarkFile.count": "Unexpected landmark count: {count} (468 or 478 expected).",
+  "landmarkFile.invalidPoint": "Invalid landmark {index}.",
+  "landmarkFile.outOfRange": "Landmark {index} outside [0,1]: coordinates must be normalised.",
+
+  "methodology.harmonie.name": "Harmony (default)",
+  "methodology.harmonie.description": "The application’s original methodology: symmetry, golden ratio and eye spacing.",
+  "methodology.golden-canon.name": "Golden ratio canon",
+  "methodology.golden-canon.description": "Every target is a power of φ; golden ratio agreement weighs more.",
+  "methodology.neoclassical.name": "Neoclassical canon",
+  "methodology.neoclassical.description":
+    "Neoclassical canons (Farkas): intercanthal distance ≈ nose width, mouth ≈ 1.5 noses, face ≈ 4 noses, lower face ≈ ⅓ of the height.",
+  "methodology.active": "Active profile",
+  "methodology.custom": "(custom)",
+  "methodology.copySuffix": "{name} (copy)",
+  "methodology.duplicate": "Duplicate",
+  "methodology.edit": "Edit",
+  "methodology.remove": "Delete",
+  "methodology.export": "Export JSON",
+  "methodology.import": "Import JSON",
+  "methodology.name": "Name",
+  "methodology.version": "Version",
+  "methodology.save": "Save",
+  "methodology.cancel": "Cancel",
+  "methodology.group.weights": "Overall index weights",
+  "methodology.group.eyeSpacing": "Eye spacing (ratio to face width)",
+  "methodology.group.quality": "Quality checks",
+  "methodology.group.uncertainty": "Uncertainty and framing",
+  "methodology.group.pose": "Head orientation (degrees)",
+  "methodology.group.gates": "Pose, quality and uncertainty handling",
+  "methodology.group.targets": "Ratio targets",
+  "methodology.field.weights.symmetry": "Symmetry",
+  "methodology.field.weights.golden": "Golden ratio",
+  "methodology.field.weights.harmony": "Harmony",
+  "methodology.field.eyeSpacing.low": "Low",
+  "methodology.field.eyeSpacing.idealMin": "Ideal min",
+  "methodology.field.eyeSpacing.idealMax": "Ideal max",
+  "methodology.field.eyeSpacing.high": "High",
+  "methodology.field.quality.laplacianVarMin": "Min Laplacian variance",
+  "methodology.field.quality.luminanceMin": "Min luminance",
+  "methodology.field.quality.luminanceMax": "Max luminance",
+  "methodology.field.quality.contrastMin": "Min contrast",
+  "methodology.field.quality.lightingImbalanceMax": "Max lighting imbalance",
+  "methodology.field.quality.faceWidthMinPx": "Min face width (px)",
+  "methodology.field.quality.eyeOpennessMin": "Min eye openness",
+  "methodology.field.quality.mouthOpennessMax": "Max mouth openness",
+  "methodology.field.quality.fairCIFactor": "CI factor (fair quality)",
+  "methodology.field.quality.poorCIFactor": "CI factor (poor quality)",
+  "methodology.field.uncertainty.repeats": "Monte-Carlo draws",
+  "methodology.field.uncertainty.jitterSigma": "Gaussian noise σ",
+  "methodology.field.uncertainty.seed": "Random seed",
+  "methodology.field.faces.minSizePx": "Min face size (px)",
+  "methodology.field.faces.maxOutsideFraction": "Max share of points outside the frame",
+  "methodology.field.pose.maxYawDeg": "Max yaw",
+  "methodology.field.pose.maxPitchDeg": "Max pitch",
+  "methodology.field.pose.maxRollDeg": "Max roll",
+  "methodology.uncertaintyMode": "Uncertainty source",
+  "methodology.uncertaintyMode.jitter": "Gaussian noise on the landmarks",
+  "methodology.uncertaintyMode.detector": "Re-detection on perturbed copies (slower)",
+  "methodology.onPoor": "Poor quality",
+  "methodology.onPoor.widen": "Widen the CIs",
+  "methodology.onPoor.block": "Refuse to score",
+  "methodology.poseGate": "Pose beyond the limits",
+  "methodology.poseGate.warn": "Warn",
+  "methodology.poseGate.refuse": "Refuse to score",
+  "methodology.normalize": "Bring the landmarks back to a frontal pose before computing",
+  "methodology.error.notObject": "Invalid profile: JSON object expected.",
+  "methodology.error.unreadable": "Unreadable JSON file.",
+  "methodology.error.builtIn": "A built-in profile cannot be modified.",
+  "methodology.error.id": "Invalid identifier (lower-case letters, digits and hyphens).",
+  "methodology.error.name": "Missing name.",
+  "methodology.error.version": "Invalid version (x.y.z expected).",
+  "methodology.error.weights": "Missing or negative weights.",
+  "methodology.error.weightSum": "The weights must add up to 1.",
+  "methodology.error.eyeSpacing": "Missing eye spacing bounds.",
+  "methodology.error.eyeSpacingOrder": "Eye spacing: low < idealMin < idealMax < high must hold.",
+  "methodology.error.qualityThresholds": "Missing or negative quality thresholds.",
+  "methodology.error.qualityLuminance": "Quality: luminanceMin must be lower than luminanceMax.",
+  "methodology.error.qualityCIFactors": "Quality: CI factors must satisfy 1 ≤ fair ≤ poor.",
+  "methodology.error.qualityOnPoor": "Quality: onPoor must be “widen” or “block”.",
+  "methodology.error.repeats": "Uncertainty: repeats must be an integer between 0 and 2000.",
+  "methodology.error.jitterSigma": "Uncertainty: jitterSigma must be between 0 and 0.05.",
+  "methodology.error.seed": "Uncertainty: seed must be a non-negative 32-bit integer.",
+  "methodology.error.uncertaintyMode": "Uncertainty: mode must be “jitter” or “detector”.",
+  "methodology.error.faces": "Invalid face framing thresholds.",
+  "methodology.error.poseAngles": "Pose: maximum angles must be between 0 and 90°.",
+  "methodology.error.poseGate": "Pose: gate must be “warn” or “refuse”.",
+  "methodology.error.poseNormalize": "Pose: normalize must be a boolean.",
+  "methodology.error.targets": "Missing ratio targets.",
+  "methodology.error.target": "Missing or non-positive target: “{id}”.",
+
+  "cohort.literature.name": "Literature reference ranges",
+  "cohort.literature.description":
+    "Each reference range of the catalogue is read as mean ± 2 standard deviations, with no correlation between measures: an approximation, to be replaced by a measured cohort.",
+  "cohort.select": "Cohort",
+  "cohort.none": "None (heuristic uniqueness index)",
+  "cohort.custom": "(imported)",
+  "cohort.group": "Group",
+  "cohort.allGroups": "All subjects ({n})",
+  "cohort.groupOption": "{group} ({n})",
+  "cohort.import": "Import JSON / CSV",
+  "cohort.remove": "Delete",
+  "cohort.subjects": "{n} subjects",
+  "cohort.summaryOnly": "Published summary (means and standard deviations)",
+  "cohort.features": "{count} reference measures, including {ratios} ratios for the Mahalanobis distance.",
+  "cohort.source": "Source: {source}",
+  "cohort.format":
+    "One row (CSV) or object (JSON) per subject, columns named by stable identifier (nasal_index, face_width…) and an optional “group” column for stratification. Distances, in any unit, are taken relative to face_width. A published summary is imported as JSON: { \"summary\": { \"<id>\": { \"mean\": …, \"sd\": … } } }. The data stays in this browser.",
+  "cohort.empty": "Empty cohort: no subject or summary.",
+  "cohort.unreadable": "Unreadable cohort file: {error}",
+  "cohort.noFeatures": "No catalogue measure recognised: columns must be named by stable identifier (e.g. nasal_index).",
+  "cohort.tooSmall": "Not enough subjects: {count}, at least {min} required.",
+  "cohort.invalidSummary": "Invalid summary for “{id}”: a mean and a standard deviation (> 0) are expected.",
+  "cohort.storageFull": "Local storage is full: the cohort could not be saved.",
+
+  "export.title": "Export the report",
+  "export.hint": "Files are generated locally; nothing is sent to a server.",
+  "export.html": "Standalone HTML",
+  "export.print": "Print / PDF",
+  "export.json": "JSON",
+  "export.csv": "Ratios CSV",
+  "export.failed": "Export failed: {error}",
+  "export.popupBlocked": "Window blocked: allow pop-ups to print the report.",
+  "export.htmlTitle": "Facial harmony report",
+  "export.meta.image": "Image: {name} ({width}×{height}) — face {id}",
+  "export.meta.sha": "SHA-256: {sha}",
+  "export.meta.methodology": "Methodology: {name} v{version} — model: {model}",
+  "export.meta.generated": "Generated on {date}, locally in the browser.",
+  "export.scores": "Scores (95% CI)",
+  "export.measures": "Measurements (px, aligned image)",
+  "export.ratios": "Ratios",
+  "export.quality": "Image quality — {grade}",
+
+  "batch.drop": "Drop images or a whole folder here.",
+  "batch.chooseFiles": "Choose files",
+  "batch.chooseFolder": "Choose a folder",
+  "batch.cancel": "Cancel",
+  "batch.start": "Run batch",
+  "batch.retry": "Retry failed and cancelled",
+  "batch.clear": "Clear the list",
+  "batch.progress": "{done} / {total} image(s) processed",
+  "batch.failures": " — {count} failure(s)",
+  "batch.file": "File",
+  "batch.status": "Status",
+  "batch.status.pending": "Pending",
+  "batch.status.running": "Running",
+  "batch.status.done": "Done",
+  "batch.status.failed": "Failed",
+  "batch.status.cancelled": "Cancelled",
+
+  "compare.before": "Before",
+  "compare.after": "After",
+  "compare.run": "Compare",
+  "compare.running": "Analysing…",
+  "compare.view.side": "Side by side",
+  "compare.view.swipe": "Swipe",
+  "compare.view.blend": "Blend",
+  "compare.position": "Position",
+  "compare.vectors": "Displacement vectors",
+  "compare.beforeAligned": "Before, aligned",
+  "compare.afterAligned": "After, aligned",
+  "compare.vectorsHint":
+    "Vectors drawn on the “before” image after registration on the eyes; max. displacement {max} px, amplified ×{factor}.",
+  "compare.group.score": "Scores",
+  "compare.group.measure": "Measurements (px)",
+  "compare.group.ratio": "Ratios",
+  "compare.indicator": "Indicator",
+  "compare.delta": "Δ",
+  "compare.ci": "± 95% CI",
+  "compare.significant": "Significant",
+  "compare.yes": "Yes",
+  "compare.no": "No",
+  "compare.significanceHint":
+    "A difference is deemed significant when it exceeds the combined 95% CI of both analyses (√(CI₁² + CI₂²)), from the Monte-Carlo pass.",
+
+  "history.subject": "Subject of the next analyses",
+  "history.subjectPlaceholder": "e.g. Patient A",
+  "history.thumbnails": "Keep a thumbnail of the face",
+  "history.hint": "Every analysis is stored in this browser (IndexedDB) with its scores, 95% CIs, landmarks and profile version.",
+  "history.empty": "No saved analysis.",
+  "history.subjectFilter": "Subject",
+  "history.noSubject": "(no subject)",
+  "history.indicator": "Indicator",
+  "history.scores": "Scores",
+  "history.ratios": "Ratios",
+  "history.mixedVersions":
+    "These analyses were computed with several methodology profiles or versions: values are not strictly comparable.",
+  "history.pointLabel": "{file} — profile {name} v{version}",
+  "history.entryFace": " (face {id})",
+  "history.entrySummary": "Overall {overall} · symmetry {symmetry} · profile {name} v{version}",
+  "history.remove": "Delete",
+  "history.clear": "Clear all history",
+  "history.confirmClear": "Permanently clear all history stored in this browser?",
+  "history.unavailable": "History unavailable (IndexedDB disabled or private browsing).",
+  "history.saveFailed": "The analysis could not be saved to the history.",
+  "history.deleteFailed": "The history could not be modified: entries are unchanged.",
+
+  "chart.empty": "No data for this indicator.",
+  "chart.label": "Change over time",
+  "chart.target": "Target: {value}",
+  "chart.title": "Charts",
+  "chart.radar.title": "Index profile",
+  "chart.radar.desc": "Radar of the five indices, each relative to its maximum; the light band covers the 95% CI.",
+  "chart.radar.point": "{label}: {value} / {max}",
+  "chart.radar.pointCI": "{label}: {value} / {max} (95% CI {low}–{high})",
+  "chart.deviation.title": "Ratio deviation from target",
+  "chart.deviation.desc":
+    "Signed relative deviation of each ratio from its target: orange above, blue below; whiskers show the bootstrap 95% CI.",
+  "chart.deviation.point": "{label}: {error}% from target",
+  "chart.deviation.pointCI": "{label}: {error}% from target (95% CI {low}% to {high}%)",
+  "chart.deviation.tick": "{value}%",
+  "chart.deviation.empty": "No ratio in this profile has a numeric target.",
+  "chart.histogram.title": "Monte-Carlo distributions",
+  "chart.histogram.hint":
+    "Spread of the scores over the perturbed draws. Orange line: measured value; dashed lines: 95% CI bounds.",
+  "chart.histogram.summary": "{label}: {samples} draws, median {median}, measured value {value}",
+  "chart.histogram.summaryCI": "{label}: {samples} draws, median {median}, 95% CI {low}–{high}, measured value {value}",
+  "chart.histogram.bin": "{from}–{to}: {count} draws",
+  "chart.histogram.empty": "Confidence intervals disabled: no distribution to show.",
+  "chart.histogram.titleTemporal": "Frame-by-frame distributions",
+  "chart.histogram.hintTemporal":
+    "Distribution of the scores over the kept frames of the video. Orange line: median; dotted lines: 2.5% and 97.5% bounds of the temporal spread.",
+
+  "video.timeline.title": "Video: {name}",
+  "video.timeline.summary": "{kept} frame(s) kept out of {sampled}, {duration} s video.",
+  "video.timeline.metric": "Quantity",
+  "video.timeline.scores": "Scores",
+  "video.timeline.ratios": "Ratios",
+  "video.timeline.label": "Frame-by-frame evolution",
+  "video.timeline.time": "{time} s",
+  "video.timeline.point": "{time} s: {value}",
+  "video.timeline.rejectedPoint": "{time} s, discarded: {reasons}",
+  "video.timeline.hint":
+    "Blue dots: kept frames; grey crosses: discarded frames. Dotted line: median; band: temporal spread (2.5%–97.5%). Click a kept frame to use it as the report image.",
+  "video.timeline.visual": "Report image: frame at {time} s.",
+  "video.timeline.rejected": "Discarded frames ({count})",
+
+  "landmark.point": "Point {index}",
+  "landmark.0": "Upper vermilion border",
+  "landmark.1": "Nose tip",
+  "landmark.2": "Subnasale",
+  "landmark.9": "Glabella",
+  "landmark.10": "Top of the forehead",
+  "landmark.13": "Upper lip",
+  "landmark.14": "Lower lip",
+  "landmark.17": "Lower vermilion border",
+  "landmark.33": "Outer canthus (image left)",
+  "landmark.61": "Mouth corner (image left)",
+  "landmark.105": "Brow peak (image left)",
+  "landmark.129": "Nasal ala (image left)",
+  "landmark.133": "Inner canthus (image left)",
+  "landmark.152": "Chin",
+  "landmark.159": "Upper eyelid (image left)",
+  "landmark.168": "Nasion",
+  "landmark.172": "Jaw angle (image left)",
+  "landmark.234": "Face edge (image left)",
+  "landmark.263": "Outer canthus (image right)",
+  "landmark.291": "Mouth corner (image right)",
+  "landmark.334": "Brow peak (image right)",
+  "landmark.358": "Nasal ala (image right)",
+  "landmark.362": "Inner canthus (image right)",
+  "landmark.386": "Upper eyelid (image right)",
+  "landmark.397": "Jaw angle (image right)",
+  "landmark.454": "Face edge (image right)",
+
+  "measure.face_length": "Face length",
+  "measure.face_length.description": "Top of the forehead → chin (the trichion is not detected).",
+  "measure.face_width": "Face width",
+  "measure.face_width.description": "Bizygomatic width approximated by the face edges.",
+  "measure.intercanthal_width": "Intercanthal distance",
+  "measure.intercanthal_width.description": "Between the inner canthi.",
+  "measure.mouth_width": "Mouth width",
+  "measure.nose_tip_chin": "Nose tip→Chin",
+  "measure.lip_gap": "Lip gap",
+  "measure.lip_gap.description": "Opening between the inner lip borders.",
+  "measure.upper_third": "Upper third (forehead → glabella)",
+  "measure.upper_third.description": "Truncated: the FaceMesh forehead top lies below the hairline.",
+  "measure.middle_third": "Middle third (glabella → subnasale)",
+  "measure.lower_third": "Lower third (subnasale → chin)",
+  "measure.lateral_fifth_left": "Lateral fifth (image left)",
+  "measure.eye_width_left": "Eye width (image left)",
+  "measure.eye_width_right": "Eye width (image right)",
+  "measure.lateral_fifth_right": "Lateral fifth (image right)",
+  "measure.nose_width": "Nose width (alae)",
+  "measure.nose_height": "Nose height (nasion → subnasale)",
+  "measure.upper_lip_height": "Upper lip height (subnasale → stomion)",
+  "measure.lower_lip_chin_height": "Lower lip and chin height (stomion → chin)",
+  "measure.upper_vermilion": "Upper vermilion",
+  "measure.lower_vermilion": "Lower vermilion",
+  "measure.brow_height_left": "Brow height (image left)",
+  "measure.brow_height_left.description": "Upper eyelid → brow peak.",
+  "measure.brow_height_right": "Brow height (image right)",
+  "measure.brow_height_right.description": "Upper eyelid → brow peak.",
+  "measure.bigonial_width": "Bigonial width",
+  "measure.bigonial_width.description": "Between the jaw angles (approximate gonions).",
+  "measure.face_length_to_width": "Face length / width",
+  "measure.intercanthal_to_mouth": "Intercanthal distance / mouth width",
+  "measure.intercanthal_to_face_width": "Intercanthal distance / face width",
+  "measure.nose_chin_to_face_length": "Nose tip→Chin / face length",
+  "measure.lip_gap_to_mouth": "Lip gap / mouth width",
+  "measure.middle_to_lower_third": "Middle third / lower third",
+  "measure.middle_to_lower_third.description": "The three facial thirds are ideally equal.",
+  "measure.upper_to_middle_third": "Upper third / middle third",
+  "measure.upper_to_middle_third.description": "Indicative only: the upper third is truncated, no norm is applied.",
+  "measure.fifth_1": "1st fifth / face width",
+  "measure.fifth_1.description": "Face width ideally divides into five eye widths.",
+  "measure.fifth_2": "2nd fifth / face width",
+  "measure.fifth_2.description": "Face width ideally divides into five eye widths.",
+  "measure.fifth_3": "3rd fifth / face width",
+  "measure.fifth_3.description": "Face width ideally divides into five eye widths.",
+  "measure.fifth_4": "4th fifth / face width",
+  "measure.fifth_4.description": "Face width ideally divides into five eye widths.",
+  "measure.fifth_5": "5th fifth / face width",
+  "measure.fifth_5.description": "Face width ideally divides into five eye widths.",
+  "measure.canthal_tilt": "Canthal tilt",
+  "measure.canthal_tilt.description": "Mean of both eyes, relative to the intercanthal line; positive when the outer canthus is higher.",
+  "measure.nasal_index": "Nasal index",
+  "measure.nasal_index.description": "Nose width / height × 100 (leptorrhine < 70, mesorrhine 70–85, platyrrhine > 85).",
+  "measure.philtrum_to_chin": "Philtrum / chin",
+  "measure.philtrum_to_chin.description": "The upper lip height is ideally half the lower lip and chin height.",
+  "measure.vermilion_ratio": "Upper / lower vermilion",
+  "measure.vermilion_ratio.description": "Lip volume ratio; 1:2 was rated most attractive by Popenko et al.",
+  "measure.brow_height_ratio": "Brow height left / right",
+  "measure.bigonial_to_bizygomatic": "Bigonial / bizygomatic width",
+
+  "cli.usage": `Usage: npm run score -- [options] <file.json | folder>...
+
+Computes facial harmony scores from archived FaceMesh landmarks
+(468 or 478 normalised points + aligned image dimensions). Distances are
+converted to millimetres from the iris diameter (478 points) or from the drawn
+reference saved in an exported JSON report.
+
+Options:
+  -f, --format <json|table>  Output format (default: json)
+  -m, --methodology <id|file.json>
+                             Methodology profile: {methodologies}
+                             or a profile exported from the application (default: {default})
+  -r, --repeats <n>          Monte-Carlo draws (default: the profile’s)
+  -s, --seed <n>             Random generator seed (default: the profile’s);
+                             the same seed reproduces the 95% CIs exactly
+  -c, --cohort <literature|none|file>
+                             Reference cohort for percentiles and the uniqueness
+                             index: literature ranges, none, or a JSON/CSV file
+                             of subjects or of a summary (default: {cohort})
+  -g, --group <name>         Restrict the cohort to a declared group
+  -l, --lang <fr|en>         Language of tables and messages (default: fr)
+      --no-ci                Disable the 95% CIs
+  -h, --help                 Show this help`,
+  "cli.invalidMethodology": "Invalid methodology profile ({file}):",
+  "cli.unreadable": "Cannot read file: {error}",
+  "cli.versionMismatch": "Methodology v{file} in the file, v{used} used.",
+  "cli.error": "Error: {error}",
+  "cli.scores": "Scores",
+  "cli.pose": "Pose: yaw {yaw}°, pitch {pitch}°, roll {roll}°",
+  "cli.poseNormalized": " (normalised)",
+  "cli.measures": "Measurements",
+  "cli.target": "Target",
+  "cli.unknownFormat": "Unknown format: {format}",
+  "cli.unknownLang": "Unknown language: {lang}",
+  "cli.invalidRepeats": "Invalid number of draws: {value}",
+  "cli.invalidSeed": "Invalid seed: {value}",
+
+  raw: "{text}",
+};
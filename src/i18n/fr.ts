@@ -0,0 +1,652 @@
+/**
+ * Catalogue de référence (français). Les clés sont stables et partagées par toutes les langues ;
+ * `{nom}` marque une valeur interpolée. Les codes des messages du moteur (`feedback.*`, `pose.*`,
+ * `quality.advice.*`…) et les libellés du catalogue de mesures (`measure.<id>`) en font partie.
+ */
+export const fr = {
+  "app.kicker": "Analyse faciale",
+  "app.title": "Rapport personnalisé d’harmonie faciale",
+  "app.intro":
+    "L’analyse repose sur des mesures géométriques de landmarks faciaux détectés localement dans votre navigateur. Les résultats sont descriptifs, comparés à des cibles, et assortis d’une incertitude statistique.",
+  "app.language": "Langue",
+  "app.import.title": "Import de l’image",
+  "app.import.hint": "Téléversez une photo de face, nette, correctement exposée, visage centré, expression neutre.",
+  "app.import.choose": "Choisir un fichier",
+  "app.import.none": "Aucun fichier",
+  "app.camera.title": "Ou utiliser la caméra",
+  "app.camera.start": "Activer la caméra",
+  "app.camera.snapshot": "Capturer",
+  "app.camera.live": "Temps réel",
+  "app.camera.stopLive": "Arrêter le temps réel",
+  "app.camera.freeze": "Figer",
+  "app.camera.denied": "Impossible d’accéder à la caméra. Veuillez autoriser l’accès ou téléverser une image.",
+  "app.video.title": "Ou analyser une vidéo",
+  "app.video.hint": "Quelques secondes de face, expression neutre : les frames échantillonnées sont analysées une à une, celles de pose ou de qualité insuffisante sont écartées, puis les scores sont agrégés.",
+  "app.video.choose": "Choisir une vidéo",
+  "app.video.none": "Aucune vidéo",
+  "app.video.rate": "Échantillonnage",
+  "app.video.rateOption": "{rate} frame(s) par seconde",
+  "app.video.analyze": "Analyser la vidéo",
+  "app.video.progress": "Frame {done} sur {total}",
+  "app.live.symmetry": "Symétrie (temps réel)",
+  "app.live.golden": "Nombre d’or (temps réel)",
+  "app.live.harmony": "Harmonie (temps réel)",
+  "app.live.status": "Médiane sur {frames} frame(s) — {fps} img/s. « Figer » produit le rapport complet avec IC95.",
+  "app.live.searching": "Recherche d’un visage…",
+  "app.live.unstable": "Aucun visage stabilisé : restez face à la caméra quelques instants puis réessayez.",
+  "app.preview.title": "Aperçu",
+  "app.preview.alt": "aperçu",
+  "app.preview.empty": "Aucune image sélectionnée.",
+  "app.multiFace": "Analyser tous les visages (photo de groupe)",
+  "app.analyze": "Lancer l’analyse",
+  "app.analyzing": "Analyse en cours…",
+  "app.cancel": "Annuler",
+  "app.modelNotReady": "Modèle non prêt.",
+  "app.noImage": "Aucune image chargée.",
+  "app.model.loading": "Chargement du modèle…",
+  "app.model.retry": "Réessayer",
+  "app.methodology.title": "Profil méthodologique",
+  "app.cohort.title": "Cohorte de référence",
+  "app.cohort.none": "aucune",
+  "app.faces.count": "{count} visages détectés",
+  "app.faces.sideBySide": "Côte à côte",
+  "app.face": "Visage {id}",
+  "app.face.notScored": "Visage {id} non scoré",
+  "app.batch.title": "Traitement par lot",
+  "app.compare.title": "Comparaison avant / après",
+  "app.history.title": "Historique",
+  "app.history.count": "{count} analyse(s)",
+  "app.offline.loading": "Chargement du modèle…",
+  "app.offline.loading.hint": "Les poids FaceMesh sont chargés depuis l’application elle-même.",
+  "app.offline.caching": "Mise en cache…",
+  "app.offline.caching.hint": "L’application et le modèle sont en cours d’enregistrement pour un usage sans réseau.",
+  "app.offline.ready": "Prêt hors ligne",
+  "app.offline.ready.hint": "L’application et le modèle sont enregistrés sur cet appareil : l’analyse fonctionne sans réseau.",
+  "app.offline.unavailable": "Modèle prêt",
+  "app.offline.unavailable.hint": "Mode hors ligne indisponible (navigateur sans service worker ou serveur de développement).",
+  "app.offline.update": "Mettre à jour",
+  "app.footer.local": "Traitement local dans votre navigateur, aucune image n’est envoyée sur un serveur.",
+  "app.footer.methodology":
+    "Méthodologie « {name} » v{version} — pondérations : sym {symmetry}, or {golden}, harmonie {harmony}.",
+
+  "score.symmetry": "Score de symétrie",
+  "score.golden": "Concordance au nombre d’or",
+  "score.harmony": "Score d’harmonie faciale",
+  "score.overall": "Indice global",
+  "score.uniqueness": "Indice d’originalité",
+  "score.short.symmetry": "Symétrie",
+  "score.short.golden": "Nombre d’or",
+  "score.short.harmony": "Harmonie",
+  "score.short.overall": "Indice global",
+  "score.short.uniqueness": "Originalité",
+
+  "region.eyes": "Yeux",
+  "region.brows": "Sourcils et front",
+  "region.nose": "Nez",
+  "region.mouth": "Bouche",
+  "region.jaw": "Mâchoire et menton",
+  "region.cheeks": "Joues",
+
+  "report.results": "Résultats quantitatifs",
+  "report.profile": "Profil « {name} » v{version}",
+  "report.temporal": "Vidéo : médiane de {kept} frame(s) retenue(s) sur {sampled} ; « ± » donne la dispersion temporelle. Image, points et symétrie détaillée : frame à {time} s.",
+  "report.pose.title": "Orientation de la tête",
+  "report.pose.angles": "Lacet {yaw}° · tangage {pitch}° · roulis {roll}°",
+  "report.pose.normalized": "scores calculés en pose frontale normalisée",
+  "report.pose.unavailable": "Non estimée (landmarks sans profondeur).",
+  "report.conclusions": "Analyse et conclusions",
+  "report.limits.title": "Contexte et limites",
+  "report.limits.body":
+    "Indicateurs calculés à partir de landmarks faciaux (MediaPipe FaceMesh) et de ratios géométriques. Les intervalles ±IC95 sont des intervalles percentiles issus d’un passage Monte-Carlo à graine fixe (bruit gaussien sur les points détectés ou redétection sur des images perturbées).",
+  "report.points.title": "Points et segments mesurés",
+  "report.points.edit": "Corriger les points",
+  "report.points.done": "Terminer",
+  "report.points.editHint": "Les scores, ratios et IC sont recalculés après chaque déplacement.",
+  "report.points.hoverHint": "Survolez un segment, une mesure ou un ratio pour les relier.",
+  "report.points.calibrateHint": "Placez les deux extrémités de la référence, indiquez sa longueur puis appliquez.",
+  "report.edits.count": "{count} point(s) corrigé(s) à la main",
+  "report.edits.detail": "{distance} px (Δx {dx}, Δy {dy})",
+  "report.measures.title": "Mesures faciales",
+  "report.measures.hint": "Distances exprimées en pixels sur l’image alignée.",
+  "report.measures.populationHint": "Rang centile et z-score des distances rapportées à la largeur du visage, dans la cohorte « {name} ».",
+  "report.measures.hintMm": "Distances en millimètres (± IC95) ; en petit, la valeur en pixels sur l’image alignée.",
+  "report.measures.pixels": "{value} px",
+  "report.calibration.title": "Étalonnage",
+  "report.calibration.iris":
+    "Diamètre horizontal de l’iris : {px} px pour {mm} mm (moyenne de l’adulte, écart-type {sd} mm entre individus), soit {scale} ± {ci} µm/px.",
+  "report.calibration.manual": "Référence tracée : {px} px pour {mm} mm, soit {scale} ± {ci} µm/px.",
+  "report.calibration.none": "Ni landmarks d’iris ni référence tracée : les distances restent en pixels de l’image alignée.",
+  "report.calibration.uncertainty": "Les IC95 en millimètres combinent le bruit des landmarks et l’incertitude de l’échelle.",
+  "report.calibration.draw": "Tracer une référence",
+  "report.calibration.useIris": "Revenir à l’iris",
+  "report.ratios.title": "Ratios évalués",
+  "report.ratios.hint":
+    "Comparaison aux valeurs cibles (erreur relative) ou aux plages de référence de la littérature (écart hors plage). Les ratios marqués ★ entrent dans le score « nombre d’or ».",
+  "report.ratios.ratio": "Ratio",
+  "report.ratios.measured": "Mesuré",
+  "report.ratios.reference": "Cible / plage",
+  "report.ratios.deviation": "Écart",
+  "report.ratios.relativeError": "Écart relatif",
+  "report.ratios.inRange": "dans la plage",
+  "report.ratios.sources": "Sources : {sources}",
+  "report.ratios.population": "Cohorte",
+  "report.population.cell": "P{percentile} · z {z}",
+  "report.population.uniqueness":
+    "Originalité : distance de Mahalanobis {distance} sur {features} ratios, plus éloignée du centre de la cohorte « {name} » que {percentile} % des sujets attendus.",
+  "report.population.group": "{name} — groupe {group}",
+  "report.population.noRatios": "Originalité : aucun ratio commun avec la cohorte « {name} », l’indice heuristique est conservé.",
+  "report.population.heuristic":
+    "Originalité : indice heuristique (écart de la symétrie, du nombre d’or et de l’harmonie à des valeurs fixes), faute de cohorte de référence.",
+  "report.symmetry.title": "Symétrie par région",
+  "report.symmetry.hint":
+    "Paires bilatérales réfléchies à travers la ligne médiane ajustée (inclinaison {angle}°, décalage {offset} px au niveau des yeux). Écarts en % de la largeur du visage.",
+  "report.symmetry.midline": "Ligne médiane ajustée : inclinaison {angle}°, décalage {offset} px au niveau des yeux.",
+  "report.symmetry.region": "Région",
+  "report.symmetry.score": "Score",
+  "report.symmetry.deviation": "Écart moyen",
+  "report.symmetry.direction": "Sens de l’écart",
+  "report.profiles.title": "Visages symétrisés",
+  "report.profiles.hint":
+    "Landmarks réfléchis à travers la ligne médiane ajustée, texture déformée triangle par triangle sur le maillage FaceMesh. Le visage moyen fond les deux moitiés à parts égales.",
+  "report.profiles.left": "Visage complet (depuis le gauche)",
+  "report.profiles.average": "Visage symétrique moyen",
+  "report.profiles.right": "Visage complet (depuis le droit)",
+  "report.profiles.fade": "Original ↔ symétrisé",
+  "report.profiles.fadeValue": "{value} % symétrisé",
+  "report.aligned": "Visage aligné",
+  "report.detailed": "Rapport détaillé",
+  "report.alignedAlt": "Visage {id} aligné",
+
+  "overlay.points": "Points",
+  "overlay.segments": "Segments mesurés",
+  "overlay.pairs": "Paires symétriques",
+  "overlay.heatmap": "Carte d’asymétrie",
+
+  "editor.undo": "Annuler",
+  "editor.redo": "Rétablir",
+  "editor.reset": "Points du détecteur",
+  "editor.zoom": "Zoom",
+  "editor.alt": "Visage aligné (édition)",
+  "editor.hint": "Glissez les points (vert : détecteur, orange : corrigé). Ctrl+Z / Ctrl+Maj+Z pour annuler / rétablir.",
+
+  "calibration.irisMismatch": "Diamètres d’iris incohérents ({left} px et {right} px) : étalonnage peu fiable, préférez une référence tracée.",
+  "calibrationTool.hint":
+    "Cliquez les deux extrémités d’un objet de longueur connue (règle, carte bancaire de 85,6 mm…) tenu dans le plan du visage, puis faites glisser un point pour l’ajuster.",
+  "calibrationTool.length": "Longueur réelle (mm)",
+  "calibrationTool.segment": "Segment : {px} px",
+  "calibrationTool.apply": "Appliquer",
+  "calibrationTool.cancel": "Annuler",
+  "calibrationTool.alt": "Visage aligné (tracé de la référence)",
+  "calibrationTool.point": "Extrémité {n}",
+
+  "quality.title": "Qualité de l’image",
+  "quality.widened": "Intervalles de confiance élargis ×{factor} en raison de la qualité.",
+  "quality.grade.good": "Bonne",
+  "quality.grade.fair": "Moyenne",
+  "quality.grade.poor": "Insuffisante",
+  "quality.check.blur": "Netteté (variance du laplacien)",
+  "quality.check.exposure": "Exposition (luminance moyenne)",
+  "quality.check.contrast": "Contraste (écart-type de luminance)",
+  "quality.check.lighting": "Équilibre d’éclairage gauche/droite (écart relatif)",
+  "quality.check.faceSize": "Largeur du visage dans l’image",
+  "quality.check.eyes": "Ouverture des yeux",
+  "quality.check.mouth": "Ouverture de la bouche",
+  "quality.check.glasses": "Lunettes (contraste de l’arête du nez)",
+  "quality.check.hair": "Cheveux sur le front (luminance relative)",
+  "quality.advice.blur": "Visage flou : stabiliser l’appareil, faire la mise au point sur les yeux ou augmenter l’éclairage.",
+  "quality.advice.underexposed": "Visage sous-exposé : ajouter une source de lumière face au sujet.",
+  "quality.advice.overexposed": "Visage surexposé : éviter le flash direct ou le plein soleil.",
+  "quality.advice.contrast": "Contraste faible : éviter le contre-jour et la lumière trop diffuse ou voilée.",
+  "quality.advice.lightingLeft": "Éclairage latéral : le côté gauche de l’image est plus sombre ; placer la lumière face au visage.",
+  "quality.advice.lightingRight": "Éclairage latéral : le côté droit de l’image est plus sombre ; placer la lumière face au visage.",
+  "quality.advice.faceSize": "Visage trop petit dans l’image : se rapprocher ou utiliser une résolution plus élevée.",
+  "quality.advice.eyes": "Yeux fermés ou plissés : garder les yeux ouverts et le regard vers l’objectif.",
+  "quality.advice.mouth": "Bouche ouverte : garder une expression neutre, lèvres jointes.",
+  "quality.advice.glasses": "Lunettes probables : les retirer, la monture déplace les points des yeux et des sourcils.",
+  "quality.advice.hair": "Mèche probable sur le front ou les sourcils : dégager le visage.",
+
+  "feedback.symmetry.high": "Symétrie faciale très élevée — indicateur de régularité morphologique.",
+  "feedback.symmetry.good": "Symétrie globalement bonne avec de légères asymétries naturelles.",
+  "feedback.symmetry.low": "Asymétries plus marquées — fréquentes et non pathologiques.",
+  "feedback.golden.high": "Proportions très proches du nombre d’or.",
+  "feedback.golden.good": "Légères déviations par rapport au nombre d’or, sans conséquence esthétique directe.",
+  "feedback.golden.low": "Proportions éloignées du nombre d’or — rappel : la beauté ne se réduit pas à un ratio.",
+  "feedback.eyeSpacing.ideal": "Espacement inter-oculaire dans une plage considérée harmonieuse.",
+  "feedback.eyeSpacing.narrow": "Espacement inter-oculaire relativement réduit (aspect plus concentré).",
+  "feedback.eyeSpacing.wide": "Espacement inter-oculaire relativement large (impression plus ouverte).",
+  "feedback.disclaimer": "Remarque : ces indicateurs sont descriptifs. La perception esthétique reste multidimensionnelle.",
+
+  "pose.yaw": "Tête tournée (lacet) de {value}° au-delà de la limite de {max}°.",
+  "pose.pitch": "Tête inclinée vers le haut ou le bas (tangage) de {value}° au-delà de la limite de {max}°.",
+  "pose.roll": "Tête penchée (roulis) de {value}° au-delà de la limite de {max}°.",
+
+  "uncertainty.detectorFallback": "Aucune des {repeats} redétections sur copies perturbées n’a abouti : les IC95 reposent sur le bruit gaussien des landmarks.",
+
+  "framing.tooSmall": "Visage trop petit ({size} px < {min} px).",
+  "framing.cropped": "Visage coupé par le bord de l’image ({percent} % des points hors cadre).",
+
+  "deviation.lateral.left": "côté gauche de l’image plus écarté de la ligne médiane",
+  "deviation.lateral.right": "côté droit de l’image plus écarté de la ligne médiane",
+  "deviation.lower.left": "côté gauche de l’image plus bas",
+  "deviation.lower.right": "côté droit de l’image plus bas",
+  "deviation.none": "pas de sens dominant",
+
+  "backend.auto": "Automatique (WebGL → WASM → CPU)",
+  "backend.webgl": "WebGL (GPU)",
+  "backend.wasm": "WebAssembly",
+  "backend.cpu": "CPU (JavaScript)",
+  "backend.none": "Aucun moteur d’inférence n’a pu démarrer ({details}). Mettez à jour le navigateur ou activez l’accélération matérielle, puis rechargez la page.",
+  "backend.warmupFailed": "Le moteur {backend} échoue au premier calcul ({error}). Choisissez un autre moteur dans le panneau Diagnostic.",
+  "model.notFound": "Poids du modèle introuvables ({url}). Exécutez « npm run models » sur une machine connectée, reconstruisez l’application puis rechargez la page.",
+  "model.corrupted": "Poids du modèle illisibles ({error}). Retéléchargez-les avec « npm run models -- --force ».",
+  "model.loadFailed": "Chargement du modèle impossible : {error}",
+  "diagnostics.title": "Diagnostic",
+  "diagnostics.choice": "Moteur d’inférence",
+  "diagnostics.status": "État",
+  "diagnostics.status.loading": "Chargement…",
+  "diagnostics.status.ready": "Prêt",
+  "diagnostics.status.error": "Erreur",
+  "diagnostics.backend": "Moteur actif",
+  "diagnostics.loadTime": "Chargement du modèle",
+  "diagnostics.warmup": "Inférence après chauffe",
+  "diagnostics.tensors": "Tenseurs en mémoire",
+  "diagnostics.memory": "Mémoire TF.js",
+  "diagnostics.gpuMemory": "Mémoire GPU",
+  "diagnostics.fallback": "{backend} indisponible : {error}",
+  "diagnostics.refused": "{backend} indisponible : initialisation refusée par le navigateur",
+  "diagnostics.stages": "Dernière analyse",
+  "diagnostics.noRun": "Aucune analyse pour l’instant.",
+  "diagnostics.stage.detect": "Détection des visages",
+  "diagnostics.stage.align": "Alignement",
+  "diagnostics.stage.landmarks": "Landmarks (image alignée)",
+  "diagnostics.stage.quality": "Contrôles qualité",
+  "diagnostics.stage.uncertainty": "Incertitude (redétections)",
+  "diagnostics.stage.score": "Scores et Monte-Carlo",
+  "diagnostics.stage.render": "Préparation de l’affichage",
+  "diagnostics.worker": "Analyse en arrière-plan",
+  "diagnostics.worker.unsupported": "Indisponible (analyse dans la page)",
+  "diagnostics.worker.loading": "Chargement…",
+  "diagnostics.worker.ready": "Prête",
+  "diagnostics.worker.error": "Échec, analyse dans la page",
+  "diagnostics.worker.failure": "Analyse en arrière-plan indisponible : {error}",
+  "worker.notReady": "Le worker d’analyse n’est pas initialisé.",
+  "worker.crashed": "Le worker d’analyse s’est arrêté ; les analyses se poursuivent dans la page.",
+  "worker.restarted": "Analyse interrompue par le changement de moteur d’inférence.",
+  "detection.noFace": "Aucun visage détecté. Fournissez une vue de face nette et centrée.",
+  "detection.notConfirmed": "Le visage n’a pas pu être confirmé après alignement.",
+  "image.loadFailed": "Image illisible : {name}",
+  "image.unsupported": "Format d’image non reconnu : {name}",
+  "image.heicFailed": "Conversion HEIC impossible : {name}",
+  "image.formatNotDecoded": "Ce navigateur ne sait pas décoder le format {format} : {name}",
+  "video.loadFailed": "Vidéo illisible par ce navigateur : {name}",
+  "video.noDuration": "Durée de la vidéo inconnue : {name}. Réenregistrez-la ou convertissez-la en MP4.",
+  "video.tooFewFrames": "{kept} frame(s) retenue(s) : il en faut au moins {min} pour agréger la vidéo.",
+
+  "landmarkFile.notObject": "Fichier de landmarks invalide : objet JSON attendu.",
+  "landmarkFile.dimensions": "Dimensions d’image manquantes ou invalides (width/height).",
+  "landmarkFile.missing": "Champ `landmarks` manquant.",
+  "landmarkFile.count": "Nombre de landmarks inattendu : {count} (468 ou 478 attendus).",
+  "landmarkFile.invalidPoint": "Landmark {index} invalide.",
+  "landmarkFile.outOfRange": "Landmark {index} hors de [0,1] : les coordonnées doivent être normalisées.",
+
+  "methodology.harmonie.name": "Harmonie (défaut)",
+  "methodology.harmonie.description": "Méthodologie historique de l’application : symétrie, nombre d’or et espacement inter-oculaire.",
+  "methodology.golden-canon.name": "Canon du nombre d’or",
+  "methodology.golden-canon.description": "Toutes les cibles sont des puissances de φ ; la concordance au nombre d’or pèse davantage.",
+  "methodology.neoclassical.name": "Canon néoclassique",
+  "methodology.neoclassical.description":
+    "Canons néoclassiques (Farkas) : distance inter-oculaire ≈ largeur du nez, bouche ≈ 1,5 nez, visage ≈ 4 nez, étage inférieur ≈ ⅓ de la hauteur.",
+  "methodology.active": "Profil actif",
+  "methodology.custom": "(personnalisé)",
+  "methodology.copySuffix": "{name} (copie)",
+  "methodology.duplicate": "Dupliquer",
+  "methodology.edit": "Modifier",
+  "methodology.remove": "Supprimer",
+  "methodology.export": "Exporter JSON",
+  "methodology.import": "Importer JSON",
+  "methodology.name": "Nom",
+  "methodology.version": "Version",
+  "methodology.save": "Enregistrer",
+  "methodology.cancel": "Annuler",
+  "methodology.group.weights": "Pondérations de l’indice global",
+  "methodology.group.eyeSpacing": "Espacement inter-oculaire (rapport à la largeur du visage)",
+  "methodology.group.quality": "Contrôles qualité",
+  "methodology.group.uncertainty": "Incertitude et cadrage",
+  "methodology.group.pose": "Orientation de la tête (degrés)",
+  "methodology.group.gates": "Contrôle de pose, de qualité et d’incertitude",
+  "methodology.group.targets": "Cibles des ratios",
+  "methodology.field.weights.symmetry": "Symétrie",
+  "methodology.field.weights.golden": "Nombre d’or",
+  "methodology.field.weights.harmony": "Harmonie",
+  "methodology.field.eyeSpacing.low": "Bas",
+  "methodology.field.eyeSpacing.idealMin": "Idéal min",
+  "methodology.field.eyeSpacing.idealMax": "Idéal max",
+  "methodology.field.eyeSpacing.high": "Haut",
+  "methodology.field.quality.laplacianVarMin": "Variance du laplacien min",
+  "methodology.field.quality.luminanceMin": "Luminance min",
+  "methodology.field.quality.luminanceMax": "Luminance max",
+  "methodology.field.quality.contrastMin": "Contraste min",
+  "methodology.field.quality.lightingImbalanceMax": "Déséquilibre d’éclairage max",
+  "methodology.field.quality.faceWidthMinPx": "Largeur du visage min (px)",
+  "methodology.field.quality.eyeOpennessMin": "Ouverture des yeux min",
+  "methodology.field.quality.mouthOpennessMax": "Ouverture de la bouche max",
+  "methodology.field.quality.fairCIFactor": "Facteur d’IC (qualité moyenne)",
+  "methodology.field.quality.poorCIFactor": "Facteur d’IC (qualité insuffisante)",
+  "methodology.field.uncertainty.repeats": "Tirages Monte-Carlo",
+  "methodology.field.uncertainty.jitterSigma": "σ du bruit gaussien",
+  "methodology.field.uncertainty.seed": "Graine aléatoire",
+  "methodology.field.faces.minSizePx": "Taille min. d’un visage (px)",
+  "methodology.field.faces.maxOutsideFraction": "Part max. de points hors cadre",
+  "methodology.field.pose.maxYawDeg": "Lacet max.",
+  "methodology.field.pose.maxPitchDeg": "Tangage max.",
+  "methodology.field.pose.maxRollDeg": "Roulis max.",
+  "methodology.uncertaintyMode": "Source de l’incertitude",
+  "methodology.uncertaintyMode.jitter": "Bruit gaussien sur les landmarks",
+  "methodology.uncertaintyMode.detector": "Redétection sur des copies perturbées (plus lent)",
+  "methodology.onPoor": "Qualité insuffisante",
+  "methodology.onPoor.widen": "Élargir les IC",
+  "methodology.onPoor.block": "Refuser le score",
+  "methodology.poseGate": "Pose au-delà des limites",
+  "methodology.poseGate.warn": "Avertir",
+  "methodology.poseGate.refuse": "Refuser le score",
+  "methodology.normalize": "Ramener les landmarks en pose frontale avant les calculs",
+  "methodology.error.notObject": "Profil invalide : objet JSON attendu.",
+  "methodology.error.unreadable": "Fichier JSON illisible.",
+  "methodology.error.builtIn": "Un profil intégré ne peut pas être modifié.",
+  "methodology.error.id": "Identifiant invalide (minuscules, chiffres et tirets).",
+  "methodology.error.name": "Nom manquant.",
+  "methodology.error.version": "Version invalide (format x.y.z attendu).",
+  "methodology.error.weights": "Pondérations manquantes ou négatives.",
+  "methodology.error.weightSum": "La somme des pondérations doit valoir 1.",
+  "methodology.error.eyeSpacing": "Bornes d’espacement inter-oculaire manquantes.",
+  "methodology.error.eyeSpacingOrder": "Espacement inter-oculaire : l’ordre low < idealMin < idealMax < high doit être respecté.",
+  "methodology.error.qualityThresholds": "Seuils de qualité manquants ou négatifs.",
+  "methodology.error.qualityLuminance": "Qualité : luminanceMin doit être inférieure à luminanceMax.",
+  "methodology.error.qualityCIFactors": "Qualité : les facteurs d’IC doivent vérifier 1 ≤ moyen ≤ mauvais.",
+  "methodology.error.qualityOnPoor": "Qualité : onPoor doit valoir « widen » ou « block ».",
+  "methodology.error.repeats": "Incertitude : repeats doit être un entier entre 0 et 2000.",
+  "methodology.error.jitterSigma": "Incertitude : jitterSigma doit être compris entre 0 et 0.05.",
+  "methodology.error.seed": "Incertitude : seed doit être un entier positif (32 bits).",
+  "methodology.error.uncertaintyMode": "Incertitude : mode doit valoir « jitter » ou « detector ».",
+  "methodology.error.faces": "Seuils de cadrage des visages invalides.",
+  "methodology.error.poseAngles": "Pose : les angles maximaux doivent être compris entre 0 et 90°.",
+  "methodology.error.poseGate": "Pose : gate doit valoir « warn » ou « refuse ».",
+  "methodology.error.poseNormalize": "Pose : normalize doit être un booléen.",
+  "methodology.error.targets": "Cibles des ratios manquantes.",
+  "methodology.error.target": "Cible manquante ou non positive : « {id} ».",
+
+  "cohort.literature.name": "Plages de référence de la littérature",
+  "cohort.literature.description":
+    "Chaque plage de référence du catalogue est lue comme moyenne ± 2 écarts-types, sans corrélation entre grandeurs : une approximation, à remplacer par une cohorte mesurée.",
+  "cohort.select": "Cohorte",
+  "cohort.none": "Aucune (indice d’originalité heuristique)",
+  "cohort.custom": "(importée)",
+  "cohort.group": "Groupe",
+  "cohort.allGroups": "Tous les sujets ({n})",
+  "cohort.groupOption": "{group} ({n})",
+  "cohort.import": "Importer JSON / CSV",
+  "cohort.remove": "Supprimer",
+  "cohort.subjects": "{n} sujets",
+  "cohort.summaryOnly": "Résumé publié (moyennes et écarts-types)",
+  "cohort.features": "{count} grandeurs de référence, dont {ratios} ratios pour la distance de Mahalanobis.",
+  "cohort.source": "Source : {source}",
+  "cohort.format":
+    "Une ligne (CSV) ou un objet (JSON) par sujet, colonnes nommées par identifiant stable (nasal_index, face_width…) et colonne « group » facultative pour stratifier. Les distances, dans n’importe quelle unité, sont rapportées à face_width. Un résumé publié s’importe en JSON : { \"summary\": { \"<id>\": { \"mean\": …, \"sd\": … } } }. Les données restent dans ce navigateur.",
+  "cohort.empty": "Cohorte vide : aucun sujet ni résumé.",
+  "cohort.unreadable": "Fichier de cohorte illisible : {error}",
+  "cohort.noFeatures": "Aucune grandeur du catalogue reconnue : les colonnes doivent porter les identifiants stables (ex. nasal_index).",
+  "cohort.tooSmall": "Effectif insuffisant : {count} sujet(s), {min} au minimum.",
+  "cohort.invalidSummary": "Résumé invalide pour « {id} » : moyenne et écart-type (> 0) attendus.",
+  "cohort.storageFull": "Stockage local plein : la cohorte n’a pas pu être enregistrée.",
+
+  "export.title": "Exporter le rapport",
+  "export.hint": "Les fichiers sont générés localement ; rien n’est envoyé sur un serveur.",
+  "export.html": "HTML autonome",
+  "export.print": "Imprimer / PDF",
+  "export.json": "JSON",
+  "export.csv": "CSV des ratios",
+  "export.failed": "Export impossible : {error}",
+  "export.popupBlocked": "Fenêtre bloquée : autorisez les fenêtres surgissantes pour imprimer le rapport.",
+  "export.htmlTitle": "Rapport d’harmonie faciale",
+  "export.meta.image": "Image : {name} ({width}×{height}) — visage {id}",
+  "export.meta.sha": "SHA-256 : {sha}",
+  "export.meta.methodology": "Méthodologie : {name} v{version} — modèle : {model}",
+  "export.meta.generated": "Généré le {date}, localement dans le navigateur.",
+  "export.scores": "Scores (IC95)",
+  "export.measures": "Mesures (px, image alignée)",
+  "export.ratios": "Ratios",
+  "export.quality": "Qualité de l’image — {grade}",
+
+  "batch.drop": "Déposez ici des images ou un dossier entier.",
+  "batch.chooseFiles": "Choisir des fichiers",
+  "batch.chooseFolder": "Choisir un dossier",
+  "batch.cancel": "Annuler",
+  "batch.start": "Lancer le lot",
+  "batch.retry": "Relancer échecs et annulés",
+  "batch.clear": "Vider la liste",
+  "batch.progress": "{done} / {total} image(s) traitée(s)",
+  "batch.failures": " — {count} échec(s)",
+  "batch.file": "Fichier",
+  "batch.status": "Statut",
+  "batch.status.pending": "En attente",
+  "batch.status.running": "En cours",
+  "batch.status.done": "Terminé",
+  "batch.status.failed": "Échec",
+  "batch.status.cancelled": "Annulé",
+
+  "compare.before": "Avant",
+  "compare.after": "Après",
+  "compare.run": "Comparer",
+  "compare.running": "Analyse en cours…",
+  "compare.view.side": "Côte à côte",
+  "compare.view.swipe": "Balayage",
+  "compare.view.blend": "Fondu",
+  "compare.position": "Position",
+  "compare.vectors": "Vecteurs de déplacement",
+  "compare.beforeAligned": "Avant, aligné",
+  "compare.afterAligned": "Après, aligné",
+  "compare.vectorsHint":
+    "Vecteurs tracés sur l’image « avant » après recalage sur les yeux ; déplacement max. {max} px, amplifié ×{factor}.",
+  "compare.group.score": "Scores",
+  "compare.group.measure": "Mesures (px)",
+  "compare.group.ratio": "Ratios",
+  "compare.indicator": "Indicateur",
+  "compare.delta": "Δ",
+  "compare.ci": "± IC95",
+  "compare.significant": "Significatif",
+  "compare.yes": "Oui",
+  "compare.no": "Non",
+  "compare.significanceHint":
+    "Une différence est jugée significative lorsqu’elle dépasse l’IC95 combiné des deux analyses (√(IC₁² + IC₂²)), issu du passage Monte-Carlo.",
+
+  "history.subject": "Sujet des prochaines analyses",
+  "history.subjectPlaceholder": "ex. Patient A",
+  "history.thumbnails": "Conserver une miniature du visage",
+  "history.hint": "Chaque analyse est enregistrée dans ce navigateur (IndexedDB) avec ses scores, IC95, landmarks et la version du profil.",
+  "history.empty": "Aucune analyse enregistrée.",
+  "history.subjectFilter": "Sujet",
+  "history.noSubject": "(sans sujet)",
+  "history.indicator": "Indicateur",
+  "history.scores": "Scores",
+  "history.ratios": "Ratios",
+  "history.mixedVersions":
+    "Ces analyses ont été calculées avec plusieurs profils ou versions méthodologiques : les valeurs ne sont pas strictement comparables.",
+  "history.pointLabel": "{file} — profil {name} v{version}",
+  "history.entryFace": " (visage {id})",
+  "history.entrySummary": "Global {overall} · symétrie {symmetry} · profil {name} v{version}",
+  "history.remove": "Supprimer",
+  "history.clear": "Effacer tout l’historique",
+  "history.confirmClear": "Effacer définitivement tout l’historique de ce navigateur ?",
+  "history.unavailable": "Historique indisponible (IndexedDB désactivé ou navigation privée).",
+  "history.saveFailed": "L’analyse n’a pas pu être enregistrée dans l’historique.",
+  "history.deleteFailed": "L’historique n’a pas pu être modifié : les entrées sont inchangées.",
+
+  "chart.empty": "Aucune donnée pour cet indicateur.",
+  "chart.label": "Évolution dans le temps",
+  "chart.target": "Cible : {value}",
+  "chart.title": "Graphiques",
+  "chart.radar.title": "Profil des indices",
+  "chart.radar.desc": "Radar des cinq indices, chacun rapporté à son maximum ; la bande claire couvre l’IC95.",
+  "chart.radar.point": "{label} : {value} / {max}",
+  "chart.radar.pointCI": "{label} : {value} / {max} (IC95 {low}–{high})",
+  "chart.deviation.title": "Écart des ratios à leur cible",
+  "chart.deviation.desc":
+    "Écart relatif signé de chaque ratio à sa cible : en orange au-dessus, en bleu en dessous ; les moustaches montrent l’IC95 bootstrap.",
+  "chart.deviation.point": "{label} : {error} % par rapport à la cible",
+  "chart.deviation.pointCI": "{label} : {error} % par rapport à la cible (IC95 {low} % à {high} %)",
+  "chart.deviation.tick": "{value} %",
+  "chart.deviation.empty": "Aucun ratio de ce profil n’a de cible numérique.",
+  "chart.histogram.title": "Distributions Monte-Carlo",
+  "chart.histogram.hint":
+    "Répartition des scores sur les tirages perturbés. Trait orange : valeur mesurée ; pointillés : bornes de l’IC95.",
+  "chart.histogram.summary": "{label} : {samples} tirages, médiane {median}, valeur mesurée {value}",
+  "chart.histogram.summaryCI": "{label} : {samples} tirages, médiane {median}, IC95 {low}–{high}, valeur mesurée {value}",
+  "chart.histogram.bin": "{from}–{to} : {count} tirages",
+  "chart.histogram.empty": "Intervalles de confiance désactivés : aucune distribution à afficher.",
+  "chart.histogram.titleTemporal": "Distributions frame par frame",
+  "chart.histogram.hintTemporal":
+    "Répartition des scores sur les frames retenues de la vidéo. Trait orange : médiane ; pointillés : bornes 2,5 % et 97,5 % de la dispersion temporelle.",
+
+  "video.timeline.title": "Vidéo : {name}",
+  "video.timeline.summary": "{kept} frame(s) retenue(s) sur {sampled}, vidéo de {duration} s.",
+  "video.timeline.metric": "Grandeur",
+  "video.timeline.scores": "Scores",
+  "video.timeline.ratios": "Ratios",
+  "video.timeline.label": "Évolution frame par frame",
+  "video.timeline.time": "{time} s",
+  "video.timeline.point": "{time} s : {value}",
+  "video.timeline.rejectedPoint": "{time} s, écartée : {reasons}",
+  "video.timeline.hint":
+    "Points bleus : frames retenues ; croix grises : frames écartées. Pointillés : médiane ; bande : dispersion temporelle (2,5 %–97,5 %). Cliquez une frame retenue pour en faire l’image du rapport.",
+  "video.timeline.visual": "Image du rapport : frame à {time} s.",
+  "video.timeline.rejected": "Frames écartées ({count})",
+
+  "landmark.point": "Point {index}",
+  "landmark.0": "Bord supérieur du vermillon",
+  "landmark.1": "Pointe du nez",
+  "landmark.2": "Subnasal",
+  "landmark.9": "Glabelle",
+  "landmark.10": "Haut du front",
+  "landmark.13": "Lèvre supérieure",
+  "landmark.14": "Lèvre inférieure",
+  "landmark.17": "Bord inférieur du vermillon",
+  "landmark.33": "Canthus externe (côté image gauche)",
+  "landmark.61": "Commissure (côté image gauche)",
+  "landmark.105": "Sommet du sourcil (côté image gauche)",
+  "landmark.129": "Aile du nez (côté image gauche)",
+  "landmark.133": "Canthus interne (côté image gauche)",
+  "landmark.152": "Menton",
+  "landmark.159": "Paupière supérieure (côté image gauche)",
+  "landmark.168": "Nasion",
+  "landmark.172": "Angle de la mâchoire (côté image gauche)",
+  "landmark.234": "Bord du visage (côté image gauche)",
+  "landmark.263": "Canthus externe (côté image droit)",
+  "landmark.291": "Commissure (côté image droit)",
+  "landmark.334": "Sommet du sourcil (côté image droit)",
+  "landmark.358": "Aile du nez (côté image droit)",
+  "landmark.362": "Canthus interne (côté image droit)",
+  "landmark.386": "Paupière supérieure (côté image droit)",
+  "landmark.397": "Angle de la mâchoire (côté image droit)",
+  "landmark.454": "Bord du visage (côté image droit)",
+
+  "measure.face_length": "Longueur du visage",
+  "measure.face_length.description": "Haut du front → menton (le trichion n’est pas détecté).",
+  "measure.face_width": "Largeur du visage",
+  "measure.face_width.description": "Largeur bizygomatique approchée par les bords du visage.",
+  "measure.intercanthal_width": "Distance inter-oculaire",
+  "measure.intercanthal_width.description": "Entre les canthus internes.",
+  "measure.mouth_width": "Largeur de la bouche",
+  "measure.nose_tip_chin": "Nez→Menton",
+  "measure.lip_gap": "Hauteur des lèvres",
+  "measure.lip_gap.description": "Ouverture entre les bords internes des lèvres.",
+  "measure.upper_third": "Tiers supérieur (front → glabelle)",
+  "measure.upper_third.description": "Tronqué : le haut du front FaceMesh est sous la lisière des cheveux.",
+  "measure.middle_third": "Tiers moyen (glabelle → subnasal)",
+  "measure.lower_third": "Tiers inférieur (subnasal → menton)",
+  "measure.lateral_fifth_left": "Cinquième latéral (côté image gauche)",
+  "measure.eye_width_left": "Largeur de l’œil (côté image gauche)",
+  "measure.eye_width_right": "Largeur de l’œil (côté image droit)",
+  "measure.lateral_fifth_right": "Cinquième latéral (côté image droit)",
+  "measure.nose_width": "Largeur du nez (ailes)",
+  "measure.nose_height": "Hauteur du nez (nasion → subnasal)",
+  "measure.upper_lip_height": "Étage labial supérieur (subnasal → stomion)",
+  "measure.lower_lip_chin_height": "Étage labio-mentonnier (stomion → menton)",
+  "measure.upper_vermilion": "Vermillon supérieur",
+  "measure.lower_vermilion": "Vermillon inférieur",
+  "measure.brow_height_left": "Hauteur du sourcil (côté image gauche)",
+  "measure.brow_height_left.description": "Paupière supérieure → sommet du sourcil.",
+  "measure.brow_height_right": "Hauteur du sourcil (côté image droit)",
+  "measure.brow_height_right.description": "Paupière supérieure → sommet du sourcil.",
+  "measure.bigonial_width": "Largeur bigoniaque",
+  "measure.bigonial_width.description": "Entre les angles de la mâchoire (gonions approchés).",
+  "measure.face_length_to_width": "Rapport Longueur/ Largeur du visage",
+  "measure.intercanthal_to_mouth": "Distance inter-oculaire / Largeur bouche",
+  "measure.intercanthal_to_face_width": "Distance inter-oculaire / Largeur visage",
+  "measure.nose_chin_to_face_length": "Nez→Menton / Longueur visage",
+  "measure.lip_gap_to_mouth": "Hauteur lèvres / Largeur bouche",
+  "measure.middle_to_lower_third": "Tiers moyen / Tiers inférieur",
+  "measure.middle_to_lower_third.description": "Les trois étages du visage sont idéalement égaux.",
+  "measure.upper_to_middle_third": "Tiers supérieur / Tiers moyen",
+  "measure.upper_to_middle_third.description": "Indicatif seulement : le tiers supérieur est tronqué, aucune norme n’est appliquée.",
+  "measure.fifth_1": "1er cinquième / Largeur visage",
+  "measure.fifth_1.description": "La largeur du visage se divise idéalement en cinq largeurs d’œil.",
+  "measure.fifth_2": "2e cinquième / Largeur visage",
+  "measure.fifth_2.description": "La largeur du visage se divise idéalement en cinq largeurs d’œil.",
+  "measure.fifth_3": "3e cinquième / Largeur visage",
+  "measure.fifth_3.description": "La largeur du visage se divise idéalement en cinq largeurs d’œil.",
+  "measure.fifth_4": "4e cinquième / Largeur visage",
+  "measure.fifth_4.description": "La largeur du visage se divise idéalement en cinq largeurs d’œil.",
+  "measure.fifth_5": "5e cinquième / Largeur visage",
+  "measure.fifth_5.description": "La largeur du visage se divise idéalement en cinq largeurs d’œil.",
+  "measure.canthal_tilt": "Inclinaison canthale",
+  "measure.canthal_tilt.description": "Moyenne des deux yeux, relative à la ligne inter-canthale ; positive si le canthus externe est plus haut.",
+  "measure.nasal_index": "Indice nasal",
+  "measure.nasal_index.description": "Largeur / hauteur du nez × 100 (leptorhinien < 70, mésorhinien 70–85, platyrhinien > 85).",
+  "measure.philtrum_to_chin": "Philtrum / menton",
+  "measure.philtrum_to_chin.description": "L’étage labial supérieur vaut idéalement la moitié de l’étage labio-mentonnier.",
+  "measure.vermilion_ratio": "Vermillon supérieur / inférieur",
+  "measure.vermilion_ratio.description": "Rapport de volume des lèvres ; 1:2 est jugé le plus attractif par Popenko et al.",
+  "measure.brow_height_ratio": "Hauteur des sourcils gauche / droite",
+  "measure.bigonial_to_bizygomatic": "Largeur bigoniaque / bizygomatique",
+
+  "cli.usage": `Usage : npm run score -- [options] <fichier.json | dossier>...
+
+Calcule les scores d’harmonie faciale à partir de landmarks FaceMesh archivés
+(468 ou 478 points normalisés + dimensions de l’image alignée). Les distances sont
+converties en millimètres par le diamètre de l’iris (478 points) ou par la référence
+tracée enregistrée dans un rapport JSON exporté.
+
+Options :
+  -f, --format <json|table>  Format de sortie (défaut : json)
+  -m, --methodology <id|fichier.json>
+                             Profil méthodologique : {methodologies}
+                             ou profil exporté depuis l’application (défaut : {default})
+  -r, --repeats <n>          Tirages Monte-Carlo (défaut : celui du profil)
+  -s, --seed <n>             Graine du générateur aléatoire (défaut : celle du profil) ;
+                             à graine égale, les IC95 sont reproduits à l’identique
+  -c, --cohort <literature|none|fichier>
+                             Cohorte de référence des rangs centiles et de l’indice
+                             d’originalité : plages de la littérature, aucune, ou
+                             fichier JSON/CSV de sujets ou de résumé (défaut : {cohort})
+  -g, --group <nom>          Restreint la cohorte à un groupe déclaré
+  -l, --lang <fr|en>         Langue des tableaux et des messages (défaut : fr)
+      --no-ci                Désactive les IC95
+  -h, --help                 Affiche cette aide`,
+  "cli.invalidMethodology": "Profil méthodologique invalide ({file}) :",
+  "cli.unreadable": "Lecture impossible : {error}",
+  "cli.versionMismatch": "Méthodologie v{file} dans le fichier, v{used} utilisée.",
+  "cli.error": "Erreur : {error}",
+  "cli.scores": "Scores",
+  "cli.pose": "Pose : lacet {yaw}°, tangage {pitch}°, roulis {roll}°",
+  "cli.poseNormalized": " (normalisée)",
+  "cli.measures": "Mesures",
+  "cli.target": "Cible",
+  "cli.unknownFormat": "Format inconnu : {format}",
+  "cli.unknownLang": "Langue inconnue : {lang}",
+  "cli.invalidRepeats": "Nombre de tirages invalide : {value}",
+  "cli.invalidSeed": "Graine invalide : {value}",
+
+  raw: "{text}",
+} as const;
+
+export type MessageKey = keyof typeof fr;
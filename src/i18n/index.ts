@@ -0,0 +1,68 @@
+import type { Message } from "../engine/messages";
+import { en } from "./en";
+import { fr, type MessageKey } from "./fr";
+
+export type { MessageKey };
+export { en, fr };
+
+export type Locale = "fr" | "en";
+
+/** Langues disponibles ; `intl` sert au formatage des nombres et des dates. */
+export const LOCALES: Record<Locale, { label: string; intl: string; messages: Record<MessageKey, string> }> = {
+  fr: { label: "Français", intl: "fr-FR", messages: fr },
+  en: { label: "English", intl: "en-GB", messages: en },
+};
+
+export const DEFAULT_LOCALE: Locale = "fr";
+
+export const isLocale = (v: unknown): v is Locale => typeof v === "string" && v in LOCALES;
+
+export function formatNumber(locale: Locale, v: number, digits?: number) {
+  return new Intl.NumberFormat(LOCALES[locale].intl, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits ?? 3,
+  }).format(v);
+}
+
+/**
+ * Traduit une clé et interpole `{nom}` ; une clé absente retombe sur le français puis sur
+ * la clé elle-même. Les paramètres numériques sont formatés selon la langue.
+ */
+export function translate(locale: Locale, key: string, params?: Message["params"]) {
+  const text = (LOCALES[locale].messages as Record<string, string>)[key] ?? (fr as Record<string, string>)[key] ?? key;
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (all, name: string) => {
+    const v = params[name];
+    if (v === undefined) return all;
+    return typeof v === "number" ? formatNumber(locale, v) : v;
+  });
+}
+
+export function createTranslator(locale: Locale) {
+  const has = (key: string) => key in LOCALES[locale].messages;
+  /** Nom d’une cohorte de référence : traduit pour la cohorte intégrée, tel qu’importé pour les autres. */
+  const cohortName = (c: { id: string; name: string }) => (has(`cohort.${c.id}.name`) ? translate(locale, `cohort.${c.id}.name`) : c.name);
+  return {
+    locale,
+    t: (key: MessageKey, params?: Message["params"]) => translate(locale, key, params),
+    m: (message: Message) => translate(locale, message.code, message.params),
+    num: (v: number, digits?: number) => formatNumber(locale, v, digits),
+    has,
+    /** Libellé d’une mesure ou d’un ratio du catalogue ; l’identifiant sinon. */
+    measure: (id: string) => (`measure.${id}` in fr ? translate(locale, `measure.${id}`) : id),
+    /** Nom anatomique d’un landmark FaceMesh, ou son numéro s’il n’est pas nommé. */
+    landmark: (index: number) =>
+      `landmark.${index}` in fr ? translate(locale, `landmark.${index}`) : translate(locale, "landmark.point", { index: String(index) }),
+    /** Nom d’un profil : traduit pour les profils intégrés, tel que saisi pour les autres. */
+    methodologyName: (m: { id: string; name: string }) =>
+      has(`methodology.${m.id}.name`) ? translate(locale, `methodology.${m.id}.name`) : m.name,
+    methodologyDescription: (m: { id: string; description?: string }) =>
+      has(`methodology.${m.id}.description`) ? translate(locale, `methodology.${m.id}.description`) : m.description ?? "",
+    cohortName,
+    /** Nom de la cohorte d’une comparaison, suivi du groupe retenu. */
+    cohortLabel: (ref: { id: string; name: string; group: string | null }) =>
+      ref.group ? translate(locale, "report.population.group", { name: cohortName(ref), group: ref.group }) : cohortName(ref),
+  };
+}
+
+export type Translator = ReturnType<typeof createTranslator>;
@@ -0,0 +1,140 @@
+/**
+ * Worker d’analyse : détection, alignement, redétection, qualité, incertitude et scores hors du
+ * fil principal, pour les photos, les lots, la comparaison et les vidéos, ainsi que la détection
+ * des landmarks du temps réel et le rapport de la frame figée. Il possède le seul modèle de l’application tant qu’il fonctionne ;
+ * les demandes sont traitées une à une et une annulation prend effet au début de l’étape suivante.
+ */
+import { MessageError, errorMessage, msg, type LM, type Message, type Methodology } from "../engine";
+import {
+  createFaceDetector,
+  memoryUsage,
+  negotiateBackend,
+  warmUp,
+  type BackendAttempt,
+  type BackendChoice,
+  type BackendName,
+} from "./backend";
+import {
+  analyzeFaces,
+  detectLandmarks,
+  scoreStableFrame,
+  type Detector,
+  type FaceResult,
+  type StageEvent,
+  type StageTimings,
+} from "./detection";
+import type { Canvas2D } from "./image";
+
+type Memory = ReturnType<typeof memoryUsage>;
+
+export type WorkerRequest =
+  | { type: "init"; backend: BackendChoice }
+  | { type: "analyze"; id: number; image: ImageBitmap; multi: boolean; methodology: Methodology }
+  | { type: "landmarks"; id: number; image: ImageBitmap }
+  | { type: "stableFrame"; id: number; image: ImageBitmap; landmarks: LM[]; methodology: Methodology }
+  | { type: "cancel"; id: number };
+
+export type WorkerResponse =
+  | { type: "ready"; backend: BackendName; attempts: BackendAttempt[]; loadMs: number; warmupMs: number; memory: Memory }
+  | { type: "initFailed"; error: Message }
+  | { type: "stage"; id: number; event: StageEvent }
+  | { type: "done"; id: number; faces: FaceResult<ImageBitmap>[]; timings: StageTimings; memory: Memory }
+  | { type: "landmarks"; id: number; landmarks: LM[] | null }
+  | { type: "failed"; id: number; error: Message }
+  | { type: "cancelled"; id: number };
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+/** Les images alignées repartent vers la page sous forme de bitmaps transférés, sans copie. */
+function postFaces(id: number, faces: FaceResult<Canvas2D>[], timings: StageTimings) {
+  const out = faces.map((f) => ({ ...f, aligned: f.aligned instanceof OffscreenCanvas ? f.aligned.transferToImageBitmap() : undefined }));
+  post({ type: "done", id, faces: out, timings, memory: memoryUsage() }, out.flatMap((f) => (f.aligned ? [f.aligned] : [])));
+}
+
+let detector: Promise<Detector> | null = null;
+let queue: Promise<void> = Promise.resolve();
+const jobs = new Map<number, AbortController>();
+
+async function init(choice: BackendChoice) {
+  try {
+    const { backend, attempts } = await negotiateBackend(choice);
+    const t0 = performance.now();
+    const loaded = await createFaceDetector();
+    const loadMs = performance.now() - t0;
+    const warmupMs = await warmUp(loaded);
+    post({ type: "ready", backend, attempts, loadMs, warmupMs, memory: memoryUsage() });
+    return loaded;
+  } catch (e) {
+    post({ type: "initFailed", error: errorMessage(e) });
+    throw e;
+  }
+}
+
+async function analyze(req: Extract<WorkerRequest, { type: "analyze" }>, signal: AbortSignal) {
+  const { id, image, multi, methodology } = req;
+  try {
+    if (!detector) throw new MessageError(msg("worker.notReady"));
+    const model = await detector;
+    const timings: StageTimings = {};
+    const faces = await analyzeFaces(model, image, multi, methodology, {
+      timings,
+      signal,
+      onStage: (event) => post({ type: "stage", id, event }),
+    });
+    postFaces(id, faces, timings);
+  } catch (e) {
+    post(signal.aborted ? { type: "cancelled", id } : { type: "failed", id, error: errorMessage(e) });
+  } finally {
+    image.close();
+  }
+}
+
+async function landmarks(req: Extract<WorkerRequest, { type: "landmarks" }>, signal: AbortSignal) {
+  const { id, image } = req;
+  try {
+    if (!detector) throw new MessageError(msg("worker.notReady"));
+    const model = await detector;
+    signal.throwIfAborted();
+    post({ type: "landmarks", id, landmarks: await detectLandmarks(model, image) });
+  } catch (e) {
+    post(signal.aborted ? { type: "cancelled", id } : { type: "failed", id, error: errorMessage(e) });
+  } finally {
+    image.close();
+  }
+}
+
+/** Rapport d’une frame figée du temps réel : ses landmarks sont déjà stabilisés, sans détection. */
+function stableFrame(req: Extract<WorkerRequest, { type: "stableFrame" }>, signal: AbortSignal) {
+  const { id, image, landmarks, methodology } = req;
+  try {
+    signal.throwIfAborted();
+    const t0 = performance.now();
+    const face = scoreStableFrame(image, landmarks, methodology);
+    postFaces(id, [face], { score: performance.now() - t0 });
+  } catch (e) {
+    post(signal.aborted ? { type: "cancelled", id } : { type: "failed", id, error: errorMessage(e) });
+  } finally {
+    image.close();
+  }
+}
+
+self.onmessage = (e: MessageEvent<WorkerRequest>) => {
+  const req = e.data;
+  if (req.type === "init") {
+    detector = init(req.backend);
+    // L’échec est déjà signalé à la page ; chaque analyse le reçoit ensuite pour son compte.
+    detector.catch(() => undefined);
+  } else if (req.type === "cancel") {
+    jobs.get(req.id)?.abort();
+  } else {
+    const controller = new AbortController();
+    jobs.set(req.id, controller);
+    const run =
+      req.type === "analyze"
+        ? () => analyze(req, controller.signal)
+        : req.type === "landmarks"
+          ? () => landmarks(req, controller.signal)
+          : async () => stableFrame(req, controller.signal);
+    queue = queue.then(run).finally(() => jobs.delete(req.id));
+  }
+};
@@ -0,0 +1,115 @@
+import * as tf from "@tensorflow/tfjs";
+import * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
+import "@tensorflow/tfjs-backend-webgl";
+import { setWasmPaths } from "@tensorflow/tfjs-backend-wasm";
+import wasmPlain from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm.wasm?url";
+import wasmSimd from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-simd.wasm?url";
+import wasmThreaded from "@tensorflow/tfjs-backend-wasm/dist/tfjs-backend-wasm-threaded-simd.wasm?url";
+import { MessageError, msg, type Message } from "../engine";
+import { MAX_FACES, MODEL_URLS, type Detector } from "./detection";
+import { createCanvas, pixelInput } from "./image";
+
+/** Moteurs d’inférence, du plus rapide au plus universel. */
+export const BACKENDS = ["webgl", "wasm", "cpu"] as const;
+export type BackendName = (typeof BACKENDS)[number];
+export type BackendChoice = BackendName | "auto";
+
+export const isBackendChoice = (v: unknown): v is BackendChoice => v === "auto" || BACKENDS.includes(v as BackendName);
+
+// Binaires WASM servis par l’application, comme les poids du modèle.
+setWasmPaths({
+  "tfjs-backend-wasm.wasm": wasmPlain,
+  "tfjs-backend-wasm-simd.wasm": wasmSimd,
+  "tfjs-backend-wasm-threaded-simd.wasm": wasmThreaded,
+});
+
+/** `error` est absent quand le moteur a refusé de s’initialiser sans donner de motif. */
+export type BackendAttempt = { backend: BackendName; ok: boolean; error?: string };
+
+/**
+ * Active le premier moteur disponible : celui demandé d’abord, puis WebGL → WASM → CPU.
+ * Renvoie le moteur retenu et chaque tentative, échecs compris.
+ */
+export async function negotiateBackend(choice: BackendChoice) {
+  const order = choice === "auto" ? [...BACKENDS] : [choice, ...BACKENDS.filter((b) => b !== choice)];
+  const attempts: BackendAttempt[] = [];
+  for (const backend of order) {
+    try {
+      // setBackend renvoie false (sans lever) quand l’initialisation échoue.
+      if (!(await tf.setBackend(backend))) {
+        attempts.push({ backend, ok: false });
+        continue;
+      }
+      await tf.ready();
+      attempts.push({ backend, ok: true });
+      return { backend, attempts };
+    } catch (e) {
+      attempts.push({ backend, ok: false, error: (e as Error).message });
+    }
+  }
+  throw new MessageError(msg("backend.none", { details: attempts.map((a) => (a.error ? `${a.backend} : ${a.error}` : a.backend)).join(" ; ") }));
+}
+
+/** Message actionnable pour un échec de chargement des poids. */
+function modelLoadMessage(e: unknown): Message {
+  const text = e instanceof Error ? e.message : String(e);
+  if (/404|status code|Failed to fetch|NetworkError/i.test(text)) return msg("model.notFound", { url: MODEL_URLS.landmarks });
+  if (/JSON/i.test(text)) return msg("model.corrupted", { error: text });
+  return msg("model.loadFailed", { error: text });
+}
+
+export async function createFaceDetector(): Promise<Detector> {
+  try {
+    return await faceLandmarksDetection.createDetector(faceLandmarksDetection.SupportedModels.MediaPipeFaceMesh, {
+      runtime: "tfjs",
+      refineLandmarks: true,
+      maxFaces: MAX_FACES,
+      detectorModelUrl: MODEL_URLS.detector,
+      landmarkModelUrl: MODEL_URLS.landmarks,
+    });
+  } catch (e) {
+    throw new MessageError(modelLoadMessage(e));
+  }
+}
+
+/**
+ * Chauffe le modèle (compilation des shaders, allocation des tampons) puis mesure la durée
+ * médiane d’une inférence sur une image neutre de 256 px.
+ */
+export async function warmUp(detector: Detector, runs = 3) {
+  const input = pixelInput(createCanvas(256, 256));
+  const durations: number[] = [];
+  for (let i = 0; i <= runs; i++) {
+    const t0 = performance.now();
+    await detector.estimateFaces(input, { flipHorizontal: false });
+    // Le premier passage, dominé par la compilation, n’entre pas dans la mesure.
+    if (i > 0) durations.push(performance.now() - t0);
+  }
+  durations.sort((a, b) => a - b);
+  return durations[Math.floor(durations.length / 2)];
+}
+
+/** Mémoire suivie par TF.js (tenseurs et octets ; GPU pour WebGL). */
+export function memoryUsage() {
+  const mem = tf.memory() as tf.MemoryInfo & { numBytesInGPU?: number };
+  return { tensors: mem.numTensors, bytes: mem.numBytes, gpuBytes: mem.numBytesInGPU ?? null };
+}
+
+const BACKEND_KEY = "harmonie-faciale.backend";
+
+export function loadBackendChoice(): BackendChoice {
+  try {
+    const saved = localStorage.getItem(BACKEND_KEY);
+    return isBackendChoice(saved) ? saved : "auto";
+  } catch {
+    return "auto";
+  }
+}
+
+export function saveBackendChoice(choice: BackendChoice) {
+  try {
+    localStorage.setItem(BACKEND_KEY, choice);
+  } catch {
+    // Stockage indisponible : le choix vaut pour la session.
+  }
+}
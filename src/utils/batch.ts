@@ -0,0 +1,138 @@
+import { MEASURE_SEGMENTS, SYMMETRY_REGIONS, errorMessage, qualityRecommendations, round2, round3, toCSV, type Message, type Methodology, type ScoreReport } from "../engine";
+import type { Translator } from "../i18n";
+import type { Analyzer } from "./detection";
+import { ingestImage } from "./ingest";
+import { SCORE_KEYS } from "./labels";
+
+export type BatchStatus = "pending" | "running" | "done" | "failed" | "cancelled";
+
+export type BatchItem = {
+  id: number;
+  file: File;
+  /** Chemin relatif dans le dossier déposé, sinon nom du fichier. */
+  path: string;
+  status: BatchStatus;
+  /** Motifs d’échec ou conseils de qualité. */
+  reasons?: Message[];
+  faces?: number;
+  report?: ScoreReport;
+};
+
+const IMAGE_EXT = /\.(jpe?g|png|webp|gif|bmp|avif|heic|heif)$/i;
+
+export const isImageFile = (f: File) => f.type.startsWith("image/") || IMAGE_EXT.test(f.name);
+
+/** Parcourt récursivement un dossier déposé (API File and Directory Entries). */
+async function readEntry(entry: FileSystemEntry, path: string): Promise<Array<{ file: File; path: string }>> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((res, rej) => (entry as FileSystemFileEntry).file(res, rej));
+    return [{ file, path: path + file.name }];
+  }
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries renvoie les entrées par lots jusqu’à un lot vide.
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((res, rej) => reader.readEntries(res, rej));
+    if (!batch.length) break;
+    children.push(...batch);
+  }
+  const nested = await Promise.all(children.map((c) => readEntry(c, `${path}${entry.name}/`)));
+  return nested.flat();
+}
+
+/** Fichiers image d’un glisser-déposer, dossiers compris. */
+export async function filesFromDrop(dt: DataTransfer) {
+  const entries = [...dt.items].map((i) => i.webkitGetAsEntry()).filter((e): e is FileSystemEntry => Boolean(e));
+  const found = entries.length ? (await Promise.all(entries.map((e) => readEntry(e, "")))).flat() : [...dt.files].map((file) => ({ file, path: file.name }));
+  return found.filter((f) => isImageFile(f.file));
+}
+
+export function filesFromInput(list: FileList) {
+  return [...list].filter(isImageFile).map((file) => ({ file, path: file.webkitRelativePath || file.name }));
+}
+
+/**
+ * Traite la file séquentiellement : contrôle qualité, détection, alignement et scores.
+ * Un échec est consigné dans l’élément et n’interrompt pas le lot ; l’annulation interrompt
+ * l’image en cours et marque les éléments restants comme annulés.
+ */
+export async function runBatch(
+  analyze: Analyzer,
+  items: BatchItem[],
+  methodology: Methodology,
+  signal: AbortSignal,
+  onUpdate: (item: BatchItem) => void
+) {
+  for (const item of items) {
+    if (item.status !== "pending") continue;
+    if (signal.aborted) {
+      onUpdate({ ...item, status: "cancelled" });
+      continue;
+    }
+    onUpdate({ ...item, status: "running" });
+    try {
+      const { canvas, url } = await ingestImage(item.file);
+      URL.revokeObjectURL(url);
+      const { faces } = await analyze(canvas, false, methodology, { signal });
+      const [face] = faces;
+      if (face.report) {
+        const advice = face.report.quality ? qualityRecommendations(face.report.quality) : [];
+        onUpdate({ ...item, status: "done", faces: faces.length, report: face.report, reasons: advice.length ? advice : undefined });
+      } else {
+        onUpdate({ ...item, status: "failed", faces: faces.length, reasons: face.error ? [face.error] : face.flags });
+      }
+    } catch (e) {
+      onUpdate(signal.aborted ? { ...item, status: "cancelled" } : { ...item, status: "failed", reasons: [errorMessage(e)] });
+    }
+    // Laisse le navigateur rafraîchir l’interface entre deux images.
+    await new Promise((r) => setTimeout(r, 0));
+  }
+}
+
+/** Une ligne plate par image, partagée par les exports CSV et JSON ; les motifs sont traduits. */
+export function batchRows(items: BatchItem[], tr: Translator) {
+  return items.map((it) => {
+    const r = it.report;
+    const row: Record<string, string | number | boolean | null> = {
+      file: it.path,
+      status: it.status,
+      reason: (it.reasons ?? []).map(tr.m).join(" "),
+      quality: r?.quality?.grade ?? null,
+      ci_factor: r?.quality?.ciFactor ?? null,
+      yaw: r?.pose?.yaw ?? null,
+      pitch: r?.pose?.pitch ?? null,
+      roll: r?.pose?.roll ?? null,
+      methodology: r?.methodology.id ?? "",
+      methodology_version: r?.methodologyVersion ?? "",
+      cohort: r?.population?.ref.id ?? "",
+      cohort_group: r?.population?.ref.group ?? "",
+      mahalanobis: r?.population?.mahalanobis ? round3(r.population.mahalanobis.distance) : null,
+      mahalanobis_percentile: r?.population?.mahalanobis ? round2(r.population.mahalanobis.percentile) : null,
+      calibration: r?.calibration?.method ?? "",
+      mm_per_px: r?.calibration?.mmPerPx ?? null,
+    };
+    for (const k of SCORE_KEYS) {
+      row[k] = r?.scores[k] ?? null;
+      row[`${k}_ci95`] = r?.ci[k] ?? null;
+    }
+    for (const c of r?.quality?.checks ?? []) {
+      row[`quality_${c.id}`] = c.value;
+      row[`quality_${c.id}_grade`] = c.grade;
+    }
+    for (const k of SYMMETRY_REGIONS) row[`symmetry_${k}`] = r?.symmetry.regions[k].score ?? null;
+    for (const [k, v] of Object.entries(r?.ratios ?? {})) row[k] = round3(v);
+    for (const [k, f] of Object.entries(r?.population?.features ?? {})) row[`${k}_percentile`] = round2(f.percentile);
+    if (r) for (const k of Object.keys(MEASURE_SEGMENTS)) row[`${k}_px`] = round2(r.measures[k]);
+    for (const [k, v] of Object.entries(r?.calibration?.measures ?? {})) {
+      row[`${k}_mm`] = v;
+      row[`${k}_mm_ci95`] = r!.calibration!.measureCI[k];
+    }
+    return row;
+  });
+}
+
+export function batchCSV(items: BatchItem[], tr: Translator) {
+  const rows = batchRows(items, tr);
+  const header = [...new Set(rows.flatMap((r) => Object.keys(r)))];
+  return toCSV([header, ...rows.map((r) => header.map((h) => (r[h] === null || r[h] === undefined ? "" : String(r[h]))))]);
+}
@@ -0,0 +1,41 @@
+import type { ScoreReport } from "../engine";
+
+/** Écart signé d’un ratio à sa cible, avec l’IC95 bootstrap ramené sur la même échelle. */
+export type RatioDeviation = { key: string; error: number; interval?: [number, number] };
+
+/** Écart relatif signé ((mesuré − cible) / cible) des ratios qui ont une cible numérique. */
+export function ratioDeviations(report: Pick<ScoreReport, "ratios" | "targets" | "ratioIntervals">): RatioDeviation[] {
+  const out: RatioDeviation[] = [];
+  for (const key of Object.keys(report.ratios)) {
+    const target = report.targets[key];
+    if (typeof target !== "number" || !(target > 0)) continue;
+    const rel = (v: number) => (v - target) / target;
+    const bounds = report.ratioIntervals?.[key];
+    out.push({ key, error: rel(report.ratios[key]), interval: bounds && [rel(bounds[0]), rel(bounds[1])] });
+  }
+  return out;
+}
+
+export type HistogramBin = { from: number; to: number; count: number };
+
+/** Répartition de `values` en `bins` classes de même largeur, sur `[min, max]` s’ils sont donnés. */
+export function histogram(values: number[], bins = 20, min = Math.min(...values), max = Math.max(...values)): HistogramBin[] {
+  if (values.length === 0) return [];
+  // Distribution dégénérée : une seule classe centrée sur la valeur.
+  if (max - min < 1e-9) return [{ from: min - 0.5, to: max + 0.5, count: values.length }];
+  const width = (max - min) / bins;
+  const out = Array.from({ length: bins }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  for (const v of values) {
+    const i = Math.min(bins - 1, Math.max(0, Math.floor((v - min) / width)));
+    out[i].count++;
+  }
+  return out;
+}
+
+/** Plus petit pas « rond » (1, 2, 2,5 ou 5 × 10ⁿ) tel que `steps` pas couvrent `span`. */
+export function niceStep(span: number, steps: number) {
+  const raw = span / steps;
+  if (!(raw > 0)) return 1;
+  const p = 10 ** Math.floor(Math.log10(raw));
+  return [1, 2, 2.5, 5, 10].map((f) => f * p).find((s) => s >= raw)!;
+}
@@ -0,0 +1,46 @@
+import { LITERATURE_COHORT_ID, MIN_COHORT_SUBJECTS, type ReferenceCohort } from "../engine";
+
+const CUSTOM_KEY = "harmonie-faciale.cohorts";
+const ACTIVE_KEY = "harmonie-faciale.cohort.active";
+
+/** Cohorte retenue (`null` : aucune) et groupe éventuel. */
+export type CohortSelection = { id: string | null; group: string | null };
+
+const isCohort = (c: unknown): c is ReferenceCohort => {
+  const o = c as Partial<ReferenceCohort> | null;
+  if (!o || typeof o.id !== "string" || typeof o.name !== "string" || !Array.isArray(o.subjects)) return false;
+  return o.subjects.length >= MIN_COHORT_SUBJECTS || Boolean(o.summary);
+};
+
+/** Cohortes importées, enregistrées localement ; les entrées invalides sont ignorées. */
+export function loadCustomCohorts(): ReferenceCohort[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CUSTOM_KEY) ?? "[]");
+    return Array.isArray(raw) ? raw.filter(isCohort) : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Lève une exception si le stockage local est plein. */
+export function saveCustomCohorts(list: ReferenceCohort[]) {
+  localStorage.setItem(CUSTOM_KEY, JSON.stringify(list));
+}
+
+export function loadCohortSelection(): CohortSelection {
+  try {
+    const raw = JSON.parse(localStorage.getItem(ACTIVE_KEY) ?? "null");
+    if (raw && typeof raw === "object" && (raw.id === null || typeof raw.id === "string")) {
+      return { id: raw.id, group: typeof raw.group === "string" ? raw.group : null };
+    }
+  } catch {
+    // Sélection illisible : cohorte par défaut.
+  }
+  return { id: LITERATURE_COHORT_ID, group: null };
+}
+
+export function saveCohortSelection(selection: CohortSelection) {
+  localStorage.setItem(ACTIVE_KEY, JSON.stringify(selection));
+}
+
+export const newCohortId = () => `cohort-${Date.now().toString(36)}`;
@@ -0,0 +1,331 @@
+import * as faceLandmarksDetection from "@tensorflow-models/face-landmarks-detection";
+import {
+  alignLandmarks,
+  assessFaceFraming,
+  compareToPopulation,
+  computeAlignment,
+  createRng,
+  errorMessage,
+  estimatePose,
+  euclid,
+  gaussian,
+  medianLandmarks,
+  MessageError,
+  msg,
+  qualityRecommendations,
+  scoreLandmarks,
+  sortFacesLeftToRight,
+  type FaceBox,
+  type HeadPose,
+  type LM,
+  type ManualCalibration,
+  type Message,
+  type Methodology,
+  type Point,
+  type PopulationModel,
+  type ScoreReport,
+} from "../engine";
+import { alignAndCrop, context2d, createCanvas, faceQuality, pixelInput, sourceSize, type Canvas2D, type ImageSource } from "./image";
+
+export type Detector = faceLandmarksDetection.FaceLandmarksDetector;
+
+export const MAX_FACES = 10;
+
+/** Poids FaceMesh servis par l’application (`npm run models`) : le chargement n’appelle aucun service tiers. */
+export const MODEL_URLS = {
+  detector: `${import.meta.env.BASE_URL}models/face_detection_short/model.json`,
+  landmarks: `${import.meta.env.BASE_URL}models/face_landmarks_attention_mesh/model.json`,
+};
+
+/** Résultat par visage ; `C` est le type de l’image alignée (`<canvas>` dans la page, bitmap à la sortie d’un worker). */
+export type FaceResult<C = HTMLCanvasElement> = {
+  /** Numéro affiché (1 = visage le plus à gauche). */
+  id: number;
+  box: FaceBox;
+  status: "ok" | "flagged" | "failed";
+  flags: Message[];
+  error?: Message;
+  aligned?: C;
+  /** Landmarks courants (éventuellement corrigés à la main). */
+  landmarks?: LM[];
+  /** Sortie brute du détecteur, conservée comme référence des corrections. */
+  detectedLandmarks?: LM[];
+  /** Largeur du visage (234 ↔ 454) dans l’image source, pour le contrôle de taille. */
+  faceWidthPx?: number;
+  /** Déplacements mesurés par redétection (mode « détecteur »), réutilisés lors des recalculs. */
+  perturbations?: LM[][];
+  /** Référence d’échelle tracée à la main ; à défaut, l’étalonnage se fait sur l’iris. */
+  calibration?: ManualCalibration | null;
+  /** Orientation de la tête dans l’image source, avant alignement ; reprise lors des recalculs. */
+  sourcePose?: HeadPose | null;
+  report?: ScoreReport;
+};
+
+/** Étapes d’une analyse d’image ; `render` (préparation de l’affichage) a lieu dans la page. */
+export const STAGES = ["detect", "align", "landmarks", "quality", "uncertainty", "score", "render"] as const;
+export type Stage = (typeof STAGES)[number];
+/** Durées cumulées (ms) par étape, tous visages confondus. */
+export type StageTimings = Partial<Record<Stage, number>>;
+/** Début d’étape ; `face`/`faces` situent l’étape dans une photo de groupe. */
+export type StageEvent = { stage: Stage; face?: number; faces?: number };
+
+export type AnalysisOptions = {
+  timings?: StageTimings;
+  /** Interrompt l’analyse au début de l’étape suivante. */
+  signal?: AbortSignal;
+  onStage?: (event: StageEvent) => void;
+};
+
+export type AnalysisOutcome = { faces: FaceResult[]; timings: StageTimings };
+
+/**
+ * Analyse d’une image, dans le worker ou dans la page à défaut ; une annulation via `opts.signal`
+ * rejette la promesse avec la raison de l’abandon.
+ */
+export type Analyzer = (
+  img: HTMLImageElement | HTMLCanvasElement,
+  multi: boolean,
+  methodology: Methodology,
+  opts?: Pick<AnalysisOptions, "signal" | "onStage">
+) => Promise<AnalysisOutcome>;
+
+/** Landmarks du premier visage d’une frame vidéo, par le worker ou dans la page ; `null` sans visage. */
+export type LandmarkDetector = (video: HTMLVideoElement) => Promise<LM[] | null>;
+
+type StageContext = AnalysisOptions & { face?: number; faces?: number };
+
+async function timed<T>(ctx: StageContext, stage: Stage, run: () => T | Promise<T>): Promise<T> {
+  ctx.signal?.throwIfAborted();
+  ctx.onStage?.({ stage, face: ctx.face, faces: ctx.faces });
+  const t0 = performance.now();
+  try {
+    return await run();
+  } finally {
+    if (ctx.timings) ctx.timings[stage] = (ctx.timings[stage] ?? 0) + performance.now() - t0;
+  }
+}
+
+/** Landmarks du premier visage d’une frame (vidéo dans la page, image dans un worker), normalisés dans [0,1]. */
+export async function detectLandmarks(detector: Detector, frame: HTMLVideoElement | ImageSource): Promise<LM[] | null> {
+  const video = typeof HTMLVideoElement !== "undefined" && frame instanceof HTMLVideoElement ? frame : null;
+  const { w, h } = video ? { w: video.videoWidth, h: video.videoHeight } : sourceSize(frame as ImageSource);
+  const preds = await detector.estimateFaces(video ?? pixelInput(frame as ImageSource), { flipHorizontal: false });
+  if (!preds?.[0]) return null;
+  return preds[0].keypoints.map((k) => ({ x: k.x / w, y: k.y / h, z: k.z === undefined ? undefined : k.z / w }));
+}
+
+export async function estimateStableLandmarks(detector: Detector, video: HTMLVideoElement, frames = 7) {
+  const all: LM[][] = [];
+  for (let i = 0; i < frames; i++) {
+    const kps = await detectLandmarks(detector, video);
+    if (kps) all.push(kps);
+    await new Promise((r) => setTimeout(r, 100));
+  }
+  return medianLandmarks(all);
+}
+
+/**
+ * Aligne des landmarks stabilisés (normalisés sur la frame) sans redétection :
+ * renvoie les landmarks dans le repère de l’image alignée et ses dimensions.
+ */
+export function alignStableLandmarks(lms: LM[], frameW: number, frameH: number) {
+  const px = lms.map((p) => ({ x: p.x * frameW, y: p.y * frameH, z: p.z === undefined ? undefined : p.z * frameW }));
+  const alignment = computeAlignment([px[133].x, px[133].y], [px[362].x, px[362].y], frameW, frameH);
+  return { landmarks: alignLandmarks(px, alignment), width: alignment.output.width, height: alignment.output.height };
+}
+
+/**
+ * Rapport complet (avec IC) d’une frame figée à partir de ses landmarks stabilisés. Fonctionne
+ * dans la page comme dans un worker.
+ */
+export function scoreStableFrame(frame: ImageSource, lms: LM[], methodology: Methodology): FaceResult<Canvas2D> {
+  const { w, h } = sourceSize(frame);
+  const eyeL: Point = [lms[133].x * w, lms[133].y * h];
+  const eyeR: Point = [lms[362].x * w, lms[362].y * h];
+  const aligned = alignAndCrop(frame, eyeL, eyeR);
+  const { landmarks, width, height } = alignStableLandmarks(lms, w, h);
+  const xs = lms.map((p) => p.x * w), ys = lms.map((p) => p.y * h);
+  const box = { xMin: Math.min(...xs), yMin: Math.min(...ys), width: Math.max(...xs) - Math.min(...xs), height: Math.max(...ys) - Math.min(...ys) };
+  const faceWidthPx = Math.hypot((lms[454].x - lms[234].x) * w, (lms[454].y - lms[234].y) * h);
+  const quality = faceQuality(aligned, landmarks, faceWidthPx, methodology);
+  const sourcePose = estimatePose(lms, w, h);
+  const report = scoreLandmarks(landmarks, width, height, { methodology, quality, pose: sourcePose });
+  return applyGates({ id: 1, box, status: "ok", flags: [], aligned, landmarks, detectedLandmarks: landmarks, faceWidthPx, sourcePose, report }, methodology);
+}
+
+/**
+ * Recalcule le rapport d’un visage déjà aligné, après correction manuelle des landmarks,
+ * changement de profil méthodologique ou d’étalonnage.
+ */
+export function rescoreFace(face: FaceResult, methodology: Methodology, landmarks = face.landmarks, calibration = face.calibration): FaceResult {
+  if (!face.aligned || !landmarks) return face;
+  const quality = faceQuality(face.aligned, landmarks, face.faceWidthPx ?? face.box.width, methodology);
+  const perturbations = methodology.uncertainty.mode === "detector" ? face.perturbations : undefined;
+  const report = scoreLandmarks(landmarks, face.aligned.width, face.aligned.height, { methodology, quality, perturbations, calibration, pose: face.sourcePose });
+  return applyGates({ ...face, landmarks, calibration, status: "ok", flags: [], report }, methodology);
+}
+
+/**
+ * Situe le rapport d’un visage dans la cohorte de référence. Les rapports conservés restent bruts :
+ * la comparaison est refaite à chaque changement de cohorte.
+ */
+export function withPopulation<C>(face: FaceResult<C>, population: PopulationModel | null): FaceResult<C> {
+  return face.report && population ? { ...face, report: compareToPopulation(face.report, population) } : face;
+}
+
+/**
+ * Un visage de qualité insuffisante (profil en mode « block ») ou hors des limites de pose
+ * (mode « refuse ») est signalé et son rapport retiré.
+ */
+function applyGates<C>(face: FaceResult<C>, methodology: Methodology): FaceResult<C> {
+  const quality = face.report?.quality;
+  if (quality?.blocked) return { ...face, status: "flagged", flags: qualityRecommendations(quality), report: undefined };
+  const warnings = face.report?.poseWarnings ?? [];
+  if (methodology.pose.gate !== "refuse" || !warnings.length) return face;
+  return { ...face, status: "flagged", flags: warnings, report: undefined };
+}
+
+/**
+ * Réaligne un visage détecté, le redétecte sur le recadrage et calcule ses scores. La pose vient
+ * de la première détection : le recadrage remet les yeux à l’horizontale et n’a plus de roulis.
+ */
+async function scoreFace(detector: Detector, img: ImageSource, keypoints: Point[], sourcePose: HeadPose | null, methodology: Methodology, ctx: StageContext) {
+  const eyeL0 = keypoints[133];
+  const eyeR0 = keypoints[362];
+  const alignedCanvas = await timed(ctx, "align", () => alignAndCrop(img, eyeL0, eyeR0));
+
+  const secondPreds = await timed(ctx, "landmarks", () => detector.estimateFaces(pixelInput(alignedCanvas), { flipHorizontal: false }));
+  if (!secondPreds || secondPreds.length === 0) throw new MessageError(msg("detection.notConfirmed"));
+  const useW = alignedCanvas.width;
+  const useH = alignedCanvas.height;
+
+  // Dans une photo de groupe, le recadrage peut contenir des visages voisins :
+  // on retient celui dont le milieu inter-oculaire est le plus proche du centre du cadre.
+  const pred = closestFace(secondPreds, [useW / 2, useH * (0.6 / 1.1)]);
+
+  const landmarks: LM[] = pred.keypoints.map((k) => ({ x: k.x / useW, y: k.y / useH, z: k.z === undefined ? undefined : k.z / useW }));
+  const faceWidthPx = euclid(keypoints[234], keypoints[454]);
+  const quality = await timed(ctx, "quality", () => faceQuality(alignedCanvas, landmarks, faceWidthPx, methodology));
+  const perturbations =
+    methodology.uncertainty.mode === "detector"
+      ? await timed(ctx, "uncertainty", () => detectorPerturbations(detector, alignedCanvas, landmarks, methodology, ctx.signal))
+      : undefined;
+  return {
+    aligned: alignedCanvas,
+    landmarks,
+    detectedLandmarks: landmarks,
+    faceWidthPx,
+    perturbations,
+    sourcePose,
+    report: await timed(ctx, "score", () => scoreLandmarks(landmarks, useW, useH, { methodology, quality, perturbations, pose: sourcePose })),
+  };
+}
+
+type Prediction = Awaited<ReturnType<Detector["estimateFaces"]>>[number];
+
+/** Prédiction dont le milieu inter-oculaire (px) est le plus proche de `target`. */
+function closestFace(preds: Prediction[], target: Point) {
+  const dist = (p: Prediction) =>
+    Math.hypot((p.keypoints[133].x + p.keypoints[362].x) / 2 - target[0], (p.keypoints[133].y + p.keypoints[362].y) / 2 - target[1]);
+  return preds.reduce((best, p) => (dist(p) < dist(best) ? p : best));
+}
+
+/**
+ * Mode « détecteur » de l’incertitude : redétecte le visage sur des copies de l’image alignée
+ * légèrement tournées (σ 1,5°), mises à l’échelle (σ 2 %) et éclaircies ou assombries (σ 12 niveaux),
+ * ramène chaque détection dans le repère d’origine et renvoie ses déplacements par rapport à `landmarks`.
+ */
+async function detectorPerturbations(detector: Detector, aligned: Canvas2D, landmarks: LM[], methodology: Methodology, signal?: AbortSignal) {
+  const { repeats, seed } = methodology.uncertainty;
+  const rng = createRng(seed);
+  const w = aligned.width, h = aligned.height;
+  const ctx = context2d(createCanvas(w, h), { willReadFrequently: true });
+  const eyes: Point = [((landmarks[133].x + landmarks[362].x) / 2) * w, ((landmarks[133].y + landmarks[362].y) / 2) * h];
+  const out: LM[][] = [];
+
+  for (let i = 0; i < repeats; i++) {
+    signal?.throwIfAborted();
+    const angle = (gaussian(rng) * 1.5 * Math.PI) / 180;
+    const scale = 1 + gaussian(rng) * 0.02;
+    const shift = gaussian(rng) * 12;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, w, h);
+    ctx.translate(w / 2, h / 2);
+    ctx.rotate(angle);
+    ctx.scale(scale, scale);
+    ctx.translate(-w / 2, -h / 2);
+    ctx.drawImage(aligned, 0, 0);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    const pixels = ctx.getImageData(0, 0, w, h);
+    for (let p = 0; p < pixels.data.length; p += 4) {
+      pixels.data[p] += shift; pixels.data[p + 1] += shift; pixels.data[p + 2] += shift;
+    }
+
+    const preds = await detector.estimateFaces(pixels, { flipHorizontal: false });
+    if (!preds?.length) continue;
+    // Position attendue des yeux dans la copie transformée : p' = c + s·R(a)(p − c).
+    const [ex, ey] = [eyes[0] - w / 2, eyes[1] - h / 2];
+    const target: Point = [w / 2 + scale * (ex * Math.cos(angle) - ey * Math.sin(angle)), h / 2 + scale * (ex * Math.sin(angle) + ey * Math.cos(angle))];
+    const pred = closestFace(preds, target);
+    // Transformation inverse : p = c + R(−a)(p′ − c)/s.
+    const cos = Math.cos(-angle), sin = Math.sin(-angle);
+    out.push(
+      landmarks.map((ref, j) => {
+        const k = pred.keypoints[j];
+        const dx = (k.x - w / 2) / scale, dy = (k.y - h / 2) / scale;
+        return { x: (w / 2 + dx * cos - dy * sin) / w - ref.x, y: (h / 2 + dx * sin + dy * cos) / h - ref.y };
+      })
+    );
+  }
+  return out;
+}
+
+/**
+ * Détecte les visages de l’image et analyse chacun séparément.
+ * En mode simple, seul le visage le plus grand est retenu. Fonctionne dans la page comme dans
+ * un worker ; une annulation via `opts.signal` rejette la promesse avec l’erreur d’abandon.
+ */
+export async function analyzeFaces(
+  detector: Detector,
+  img: ImageSource,
+  multi: boolean,
+  methodology: Methodology,
+  opts: AnalysisOptions = {}
+): Promise<FaceResult<Canvas2D>[]> {
+  const preds = await timed(opts, "detect", () => detector.estimateFaces(pixelInput(img), { flipHorizontal: false }));
+  if (!preds || preds.length === 0) throw new MessageError(msg("detection.noFace"));
+
+  const selected = multi
+    ? preds
+    : [preds.reduce((best, p) => (p.box.width * p.box.height > best.box.width * best.box.height ? p : best))];
+
+  const { w, h } = sourceSize(img);
+  const faces = sortFacesLeftToRight(
+    selected.map((p) => ({
+      box: { xMin: p.box.xMin, yMin: p.box.yMin, width: p.box.width, height: p.box.height },
+      keypoints: p.keypoints.map((k): Point => [k.x, k.y]),
+      pose: estimatePose(p.keypoints.map((k) => ({ x: k.x / w, y: k.y / h, z: k.z === undefined ? undefined : k.z / w })), w, h),
+    }))
+  );
+
+  const results: FaceResult<Canvas2D>[] = [];
+  for (const [i, face] of faces.entries()) {
+    const flags = assessFaceFraming(face.box, face.keypoints, w, h, methodology);
+    if (flags.length) {
+      results.push({ id: i + 1, box: face.box, status: "flagged", flags });
+      continue;
+    }
+    try {
+      const scored = await scoreFace(detector, img, face.keypoints, face.pose, methodology, { ...opts, face: i + 1, faces: faces.length });
+      results.push(applyGates({ id: i + 1, box: face.box, status: "ok", flags, ...scored }, methodology));
+    } catch (e) {
+      if (opts.signal?.aborted) throw e;
+      results.push({ id: i + 1, box: face.box, status: "failed", flags, error: errorMessage(e) });
+    }
+  }
+  return results;
+}
+
+/** Analyse dans la page (repli sans worker) : les canevas de travail y sont des `<canvas>`. */
+export const analyzeFacesInPage = (...args: Parameters<typeof analyzeFaces>) =>
+  analyzeFaces(...args) as Promise<FaceResult[]>;
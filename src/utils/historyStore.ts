@@ -0,0 +1,101 @@
+import { upgradeReport, type FaceBox, type LM, type ScoreReport, type StoredReport } from "../engine";
+
+const DB_NAME = "harmonie-faciale";
+const DB_VERSION = 1;
+const STORE = "analyses";
+const PREFS_KEY = "harmonie-faciale.history.prefs";
+
+/** Analyse archivée dans l’historique local (IndexedDB). */
+export type HistoryEntry = {
+  id?: number;
+  /** Date ISO de l’analyse. */
+  createdAt: string;
+  /** Libellé libre permettant de suivre une même personne d’une session à l’autre. */
+  subject: string;
+  fileName: string;
+  faceId: number;
+  box: FaceBox;
+  report: ScoreReport;
+  landmarks: LM[];
+  detectedLandmarks?: LM[];
+  /** Miniature JPEG du visage aligné (data URL), si activée. */
+  thumbnail?: string;
+};
+
+export type HistoryPrefs = { subject: string; thumbnails: boolean };
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDB() {
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const store = req.result.createObjectStore(STORE, { keyPath: "id", autoIncrement: true });
+      store.createIndex("createdAt", "createdAt");
+      store.createIndex("subject", "subject");
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error);
+    };
+  });
+  return dbPromise;
+}
+
+/** Résout à la validation de la transaction : un abandon au commit (quota dépassé) rejette. */
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDB();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = run(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error);
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction annulée", "AbortError"));
+  });
+}
+
+/** Entrées triées par date croissante ; les rapports anciens sont mis à niveau à la lecture. */
+export async function loadHistory() {
+  const entries = await withStore<HistoryEntry[]>("readonly", (s) => s.index("createdAt").getAll());
+  return entries.map((e) => ({ ...e, report: upgradeReport(e.report as StoredReport) }));
+}
+
+export async function addHistoryEntry(entry: HistoryEntry) {
+  const id = await withStore<IDBValidKey>("readwrite", (s) => s.add(entry));
+  return { ...entry, id: id as number };
+}
+
+export async function deleteHistoryEntry(id: number) {
+  await withStore("readwrite", (s) => s.delete(id));
+}
+
+export async function clearHistory() {
+  await withStore("readwrite", (s) => s.clear());
+}
+
+export function loadHistoryPrefs(): HistoryPrefs {
+  try {
+    const raw = JSON.parse(localStorage.getItem(PREFS_KEY) ?? "{}");
+    return { subject: typeof raw.subject === "string" ? raw.subject : "", thumbnails: raw.thumbnails === true };
+  } catch {
+    return { subject: "", thumbnails: false };
+  }
+}
+
+export function saveHistoryPrefs(prefs: HistoryPrefs) {
+  try {
+    localStorage.setItem(PREFS_KEY, JSON.stringify(prefs));
+  } catch {
+    // Stockage indisponible ou plein : préférences conservées pour la session seulement.
+  }
+}
+
+/** Réduit le visage aligné en miniature JPEG. */
+export function makeThumbnail(aligned: HTMLCanvasElement, width = 96) {
+  const c = document.createElement("canvas");
+  c.width = width;
+  c.height = Math.round((aligned.height / aligned.width) * width);
+  c.getContext("2d")!.drawImage(aligned, 0, 0, c.width, c.height);
+  return c.toDataURL("image/jpeg", 0.7);
+}
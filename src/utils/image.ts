@@ -0,0 +1,80 @@
+import { METHODOLOGY, MessageError, assessQuality, computeAlignment, lumaFromRGBA, msg, type LM, type Methodology, type Point } from "../engine";
+
+/** Fond des zones du cadre situées hors de l’image : gris neutre, sans contour pour le détecteur. */
+const PAD_COLOR = "#808080";
+
+/** Canevas de travail : `<canvas>` dans la page, `OffscreenCanvas` dans un worker. */
+export type Canvas2D = HTMLCanvasElement | OffscreenCanvas;
+export type ImageSource = HTMLImageElement | Canvas2D | ImageBitmap;
+/** Entrée acceptée par le détecteur. */
+export type PixelInput = HTMLImageElement | HTMLCanvasElement | ImageBitmap | ImageData;
+
+const inDocument = typeof document !== "undefined";
+
+export function createCanvas(w: number, h: number): Canvas2D {
+  if (!inDocument) return new OffscreenCanvas(w, h);
+  const c = document.createElement("canvas");
+  c.width = w; c.height = h;
+  return c;
+}
+
+export const context2d = (c: Canvas2D, opts?: CanvasRenderingContext2DSettings) =>
+  c.getContext("2d", opts) as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+export function getImageData(el: ImageSource) {
+  const { w, h } = sourceSize(el);
+  const g = context2d(createCanvas(w, h), { willReadFrequently: true });
+  g.drawImage(el, 0, 0);
+  return g.getImageData(0, 0, w, h);
+}
+
+/** Le détecteur lit directement images et canevas de la page ; dans un worker, il reçoit les pixels. */
+export const pixelInput = (src: ImageSource): PixelInput => (inDocument ? (src as PixelInput) : getImageData(src));
+
+/** Bilan qualité d’un visage, calculé sur la luminance de son image alignée. */
+export function faceQuality(aligned: Canvas2D, landmarks: LM[], sourceFaceWidthPx: number, methodology: Methodology = METHODOLOGY) {
+  const { data, width, height } = getImageData(aligned);
+  return assessQuality(lumaFromRGBA(data, width, height), landmarks, sourceFaceWidthPx, methodology);
+}
+
+export function sourceSize(src: ImageSource) {
+  return inDocument && src instanceof HTMLImageElement ? { w: src.naturalWidth, h: src.naturalHeight } : { w: src.width, h: src.height };
+}
+
+/**
+ * Tourne l’image autour de son centre pour mettre les yeux à l’horizontale et la recadre en un
+ * seul tracé ; la partie du cadre qui déborde de l’image est remplie plutôt que rognée.
+ */
+export function alignAndCrop(img: ImageSource, eyeL: Point, eyeR: Point) {
+  const { w, h } = sourceSize(img);
+  const { angle, crop, output } = computeAlignment(eyeL, eyeR, w, h);
+
+  const canvas = createCanvas(output.width, output.height);
+  const ctx = context2d(canvas);
+  ctx.fillStyle = PAD_COLOR;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(output.width / crop.width, output.height / crop.height);
+  ctx.translate(w / 2 - crop.x, h / 2 - crop.y);
+  ctx.rotate(-angle);
+  ctx.drawImage(img, -w / 2, -h / 2);
+  return canvas;
+}
+
+/** Copie un bitmap (reçu d’un worker) dans un `<canvas>` de la page. */
+export function bitmapToCanvas(bitmap: ImageBitmap) {
+  const canvas = document.createElement("canvas");
+  canvas.width = bitmap.width; canvas.height = bitmap.height;
+  canvas.getContext("2d")!.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return canvas;
+}
+
+/** Charge une image (URL blob: ou data:) et attend son décodage. */
+export function loadImage(url: string, name = "") {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new MessageError(msg("image.loadFailed", { name })));
+    img.src = url;
+  });
+}
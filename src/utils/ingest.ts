@@ -0,0 +1,90 @@
+import {
+  MessageError,
+  WORKING_MAX_DIM,
+  msg,
+  orientationTransform,
+  orientedSize,
+  readExifOrientation,
+  sniffImageFormat,
+  workingScale,
+  type ImageSourceInfo,
+} from "../engine";
+import { loadImage } from "./image";
+
+/** Image prête à l’analyse : orientée, réduite et réencodée sans métadonnées. */
+export type IngestedImage = {
+  name: string;
+  /** URL blob: de l’image de travail (à libérer avec `URL.revokeObjectURL`). */
+  url: string;
+  canvas: HTMLCanvasElement;
+  info: ImageSourceInfo;
+  /** Empreinte SHA-256 du fichier d’origine, avant toute transformation. */
+  sha256: string;
+};
+
+/** Les navigateurs récents appliquent eux-mêmes l’orientation EXIF au décodage d’un `<img>`. */
+const browserAppliesOrientation = () => typeof CSS !== "undefined" && CSS.supports("image-orientation", "from-image");
+
+/** Empreinte SHA-256 en hexadécimal. */
+export async function sha256Hex(buf: ArrayBuffer) {
+  const digest = await crypto.subtle.digest("SHA-256", buf);
+  return [...new Uint8Array(digest)].map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Convertit un HEIC/HEIF en PNG dans le navigateur ; le décodeur n’est chargé qu’à la demande. */
+async function decodeHeic(file: File) {
+  try {
+    const { default: heic2any } = await import("heic2any");
+    const out = await heic2any({ blob: file, toType: "image/png" });
+    return Array.isArray(out) ? out[0] : out;
+  } catch {
+    throw new MessageError(msg("image.heicFailed", { name: file.name }));
+  }
+}
+
+/**
+ * Importe un fichier image entièrement en local : reconnaissance du format par sa signature,
+ * décodage (HEIC compris), orientation EXIF, réduction à `maxDim` et réencodage, qui retire
+ * les métadonnées. `info` permet de ramener les coordonnées dans l’original.
+ */
+export async function ingestImage(file: File, maxDim = WORKING_MAX_DIM): Promise<IngestedImage> {
+  const buf = await file.arrayBuffer();
+  const bytes = new Uint8Array(buf);
+  const format = sniffImageFormat(bytes);
+  if (!format) throw new MessageError(msg("image.unsupported", { name: file.name }));
+
+  const blob = format === "heic" ? await decodeHeic(file) : file;
+  const exif = format === "jpeg" ? readExifOrientation(bytes) : 1;
+  const src = URL.createObjectURL(blob);
+  let img: HTMLImageElement;
+  try {
+    img = await loadImage(src, file.name);
+  } catch {
+    throw new MessageError(msg(format === "avif" || format === "webp" ? "image.formatNotDecoded" : "image.loadFailed", { name: file.name, format }));
+  } finally {
+    URL.revokeObjectURL(src);
+  }
+
+  // Sans prise en charge native, l’orientation est appliquée ici à partir des dimensions brutes.
+  const manual = browserAppliesOrientation() ? 1 : exif;
+  const original = orientedSize(img.naturalWidth, img.naturalHeight, manual);
+  const scale = workingScale(original.width, original.height, maxDim);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(original.width * scale);
+  canvas.height = Math.round(original.height * scale);
+  const ctx = canvas.getContext("2d")!;
+  ctx.imageSmoothingQuality = "high";
+  ctx.scale(canvas.width / original.width, canvas.height / original.height);
+  ctx.transform(...orientationTransform(manual, img.naturalWidth, img.naturalHeight));
+  ctx.drawImage(img, 0, 0);
+
+  const clean = await new Promise<Blob | null>((res) => canvas.toBlob(res, "image/jpeg", 0.95));
+  if (!clean) throw new MessageError(msg("image.loadFailed", { name: file.name }));
+  return {
+    name: file.name,
+    url: URL.createObjectURL(clean),
+    canvas,
+    info: { format, orientation: exif, original, scale: canvas.width / original.width },
+    sha256: await sha256Hex(buf),
+  };
+}
@@ -0,0 +1,19 @@
+import type { QualityCheckId, ScoreKey } from "../engine";
+
+/** Bornes des scores, dans l’ordre de présentation du rapport. */
+export const SCORE_MAX: Record<ScoreKey, number> = { symmetry: 100, golden: 100, harmony: 100, overall: 10, uniqueness: 10 };
+
+export const SCORE_KEYS = Object.keys(SCORE_MAX) as ScoreKey[];
+
+/** Unité de la valeur mesurée par chaque contrôle qualité. */
+export const QUALITY_CHECK_UNITS: Record<QualityCheckId, string> = {
+  blur: "",
+  exposure: "/255",
+  contrast: "",
+  lighting: "",
+  faceSize: "px",
+  eyes: "",
+  mouth: "",
+  glasses: "",
+  hair: "",
+};
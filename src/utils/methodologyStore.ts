@@ -0,0 +1,29 @@
+import { validateMethodology, type Methodology } from "../engine";
+
+const CUSTOM_KEY = "harmonie-faciale.methodologies";
+const ACTIVE_KEY = "harmonie-faciale.methodology.active";
+
+/** Profils personnalisés enregistrés localement ; les entrées invalides sont ignorées. */
+export function loadCustomMethodologies(): Methodology[] {
+  try {
+    const raw = JSON.parse(localStorage.getItem(CUSTOM_KEY) ?? "[]");
+    if (!Array.isArray(raw)) return [];
+    return raw.map((r) => validateMethodology(r).methodology).filter((m): m is Methodology => Boolean(m));
+  } catch {
+    return [];
+  }
+}
+
+export function saveCustomMethodologies(list: Methodology[]) {
+  localStorage.setItem(CUSTOM_KEY, JSON.stringify(list));
+}
+
+export function loadActiveMethodologyId(): string | null {
+  return localStorage.getItem(ACTIVE_KEY);
+}
+
+export function saveActiveMethodologyId(id: string) {
+  localStorage.setItem(ACTIVE_KEY, id);
+}
+
+export const newMethodologyId = () => `custom-${Date.now().toString(36)}`;
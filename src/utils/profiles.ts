@@ -0,0 +1,93 @@
+import { SYMMETRIZE_MODES, symmetrizeLandmarks, triangleAffine, type LM, type SymmetrizeMode, type SymmetrizedMesh } from "../engine";
+
+type V2 = { x: number; y: number };
+
+/** Élargissement des triangles de destination (px) : masque les liserés entre triangles voisins. */
+const SEAM = 0.6;
+
+function tracePolygon(ctx: CanvasRenderingContext2D, pts: V2[]) {
+  ctx.beginPath();
+  pts.forEach((p, i) => (i ? ctx.lineTo(p.x, p.y) : ctx.moveTo(p.x, p.y)));
+  ctx.closePath();
+}
+
+/** Dessine `source` déformé triangle par triangle, de `from` vers `to` (transformation affine par morceaux). */
+function drawWarped(ctx: CanvasRenderingContext2D, source: CanvasImageSource, w: number, h: number, triangles: SymmetrizedMesh["triangles"], from: V2[], to: V2[]) {
+  for (const tri of triangles) {
+    const s = tri.map((i) => from[i]) as [V2, V2, V2];
+    const d = tri.map((i) => to[i]) as [V2, V2, V2];
+    const m = triangleAffine(s, d);
+    if (!m) continue;
+    const g = { x: (d[0].x + d[1].x + d[2].x) / 3, y: (d[0].y + d[1].y + d[2].y) / 3 };
+    ctx.save();
+    tracePolygon(
+      ctx,
+      d.map((p) => {
+        const len = Math.hypot(p.x - g.x, p.y - g.y) || 1;
+        return { x: p.x + ((p.x - g.x) / len) * SEAM, y: p.y + ((p.y - g.y) / len) * SEAM };
+      })
+    );
+    ctx.clip();
+    ctx.setTransform(...m);
+    // Seul le rectangle englobant du triangle source est copié.
+    const x0 = Math.max(0, Math.floor(Math.min(s[0].x, s[1].x, s[2].x)) - 2), y0 = Math.max(0, Math.floor(Math.min(s[0].y, s[1].y, s[2].y)) - 2);
+    const x1 = Math.min(w, Math.ceil(Math.max(s[0].x, s[1].x, s[2].x)) + 2), y1 = Math.min(h, Math.ceil(Math.max(s[0].y, s[1].y, s[2].y)) + 2);
+    if (x1 > x0 && y1 > y0) ctx.drawImage(source, x0, y0, x1 - x0, y1 - y0, x0, y0, x1 - x0, y1 - y0);
+    ctx.restore();
+  }
+}
+
+/**
+ * Fond d’un composite : pour `left` / `right`, la moitié conservée et son reflet à travers la
+ * ligne médiane ajustée ; pour `average`, l’image et son reflet fondus à parts égales.
+ */
+function drawBackground(ctx: CanvasRenderingContext2D, source: CanvasImageSource, w: number, h: number, mesh: SymmetrizedMesh, mode: SymmetrizeMode) {
+  const { top, bottom } = mesh.midline;
+  ctx.drawImage(source, 0, 0);
+  ctx.save();
+  if (mode === "average") ctx.globalAlpha = 0.5;
+  else tracePolygon(ctx, mode === "left" ? [top, { x: w, y: 0 }, { x: w, y: h }, bottom] : [{ x: 0, y: 0 }, top, bottom, { x: 0, y: h }]);
+  if (mode !== "average") ctx.clip();
+  ctx.setTransform(...mesh.mirror);
+  ctx.drawImage(source, 0, 0);
+  ctx.restore();
+}
+
+/**
+ * Composites symétriques d’une image alignée (`left`, `average`, `right`), chacun dans un canevas
+ * de même taille : landmarks réfléchis à travers la ligne médiane, texture déformée sur le maillage.
+ */
+export function renderSymmetrized(source: HTMLCanvasElement, landmarks: LM[]): Record<SymmetrizeMode, HTMLCanvasElement> {
+  const w = source.width, h = source.height;
+  const mesh = symmetrizeLandmarks(landmarks, w, h);
+  const out = {} as Record<SymmetrizeMode, HTMLCanvasElement>;
+  for (const mode of SYMMETRIZE_MODES) {
+    const canvas = document.createElement("canvas");
+    canvas.width = w;
+    canvas.height = h;
+    const ctx = canvas.getContext("2d");
+    if (ctx) {
+      drawBackground(ctx, source, w, h, mesh, mode);
+      const { target, layers } = mesh.composites[mode];
+      for (const layer of layers) {
+        ctx.globalAlpha = layer.alpha;
+        drawWarped(ctx, source, w, h, mesh.triangles, layer.source, target);
+      }
+      ctx.globalAlpha = 1;
+    }
+    out[mode] = canvas;
+  }
+  return out;
+}
+
+/** Fondu de l’image d’origine (`amount` = 0) vers un composite (`amount` = 1), dessiné dans `target`. */
+export function drawFaded(target: HTMLCanvasElement, original: HTMLCanvasElement, composite: HTMLCanvasElement, amount: number) {
+  const ctx = target.getContext("2d");
+  if (!ctx) return;
+  target.width = original.width;
+  target.height = original.height;
+  ctx.drawImage(original, 0, 0);
+  ctx.globalAlpha = amount;
+  ctx.drawImage(composite, 0, 0);
+  ctx.globalAlpha = 1;
+}
@@ -0,0 +1,219 @@
+import * as tf from "@tensorflow/tfjs";
+import { createElement, type ReactElement } from "react";
+import { MEASURE_SEGMENTS, SYMMETRIZE_MODES, SYMMETRY_REGIONS, buildReportJSON, calibrationNote, describeDeviation, measureDef, normDeviation, ratiosCSV, relativeErrors, round1, round3, uniquenessNote, type LM, type Methodology, type ScoreKey, type ScoreReport, type SymmetryRegion } from "../engine";
+import { DeviationChart } from "../components/DeviationChart";
+import { ScoreHistograms } from "../components/HistogramChart";
+import { RadarChart } from "../components/RadarChart";
+import { I18nContext } from "../hooks/useI18n";
+import { LOCALES, type Translator } from "../i18n";
+import type { FaceResult } from "./detection";
+import { sha256Hex, type IngestedImage } from "./ingest";
+import { renderSymmetrized } from "./profiles";
+import { SCORE_KEYS, SCORE_MAX } from "./labels";
+
+export type ExportContext = {
+  face: FaceResult;
+  methodology: Methodology;
+  imageURL: string | null;
+  fileName: string;
+  /** Provenance de l’image importée ; absente pour une capture webcam. */
+  source?: Pick<IngestedImage, "sha256" | "info"> | null;
+};
+
+export const MODEL_INFO = {
+  name: "MediaPipeFaceMesh",
+  runtime: "tfjs",
+  refineLandmarks: true,
+  package: `@tensorflow-models/face-landmarks-detection@${__FACE_MODEL_VERSION__}`,
+};
+
+/** Empreinte SHA-256 de l’image source, calculée localement (URL blob: ou data:). */
+export async function hashImage(imageURL: string) {
+  return sha256Hex(await (await fetch(imageURL)).arrayBuffer());
+}
+
+/** Empreinte du fichier d’origine si connue, sinon celle de l’image affichée. */
+export async function imageSHA256(ctx: ExportContext) {
+  if (ctx.source) return ctx.source.sha256;
+  return ctx.imageURL ? hashImage(ctx.imageURL) : "";
+}
+
+export function baseFileName(ctx: ExportContext) {
+  const stem = (ctx.fileName || "image").replace(/\.[^.]+$/, "").replace(/[^\w-]+/g, "_");
+  return `rapport-${stem}-visage${ctx.face.id}`;
+}
+
+export async function exportJSON(ctx: ExportContext) {
+  const { face, methodology, fileName } = ctx;
+  const report = face.report!;
+  return buildReportJSON({
+    report,
+    landmarks: face.landmarks ?? [],
+    detectedLandmarks: face.detectedLandmarks,
+    methodology,
+    image: {
+      name: fileName,
+      sha256: await imageSHA256(ctx),
+      width: report.image.width,
+      height: report.image.height,
+      source: ctx.source?.info,
+    },
+    face: { id: face.id, box: face.box },
+    model: { ...MODEL_INFO, tfjs: tf.version["tfjs-core"], backend: tf.getBackend() },
+  });
+}
+
+export const exportCSV = (report: ScoreReport, tr: Translator) => ratiosCSV(report, tr.measure);
+
+const esc = (s: string | number) =>
+  String(s).replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!);
+
+function profileImages(aligned: HTMLCanvasElement, landmarks: LM[], tr: Translator) {
+  const composites = renderSymmetrized(aligned, landmarks);
+  return SYMMETRIZE_MODES.map((mode) => ({ label: tr.t(`report.profiles.${mode}`), src: composites[mode].toDataURL("image/jpeg", 0.9) }));
+}
+
+/**
+ * Graphiques de l’écran rendus en SVG statique dans la langue du rapport. Le rendu serveur de
+ * React n’est chargé qu’à l’export ; chaque graphique a son préfixe d’identifiants.
+ */
+async function chartMarkup(tr: Translator) {
+  const { renderToStaticMarkup } = await import("react-dom/server");
+  const value = { ...tr, setLocale: () => {} };
+  return (name: string, caption: string, chart: ReactElement) =>
+    `<figure class="chart ${name}">${renderToStaticMarkup(createElement(I18nContext.Provider, { value }, chart), { identifierPrefix: `${name}-` })}<figcaption>${esc(caption)}</figcaption></figure>`;
+}
+
+/** Rapport HTML autonome : styles en ligne, images et graphiques intégrés, imprimable tel quel. */
+export async function buildReportHTML(ctx: ExportContext, sha256: string, tr: Translator) {
+  const { face, methodology, fileName } = ctx;
+  const { t, m, num } = tr;
+  const r = face.report!;
+  const chart = await chartMarkup(tr);
+  const errors = relativeErrors(r.ratios, r.targets);
+  const norms = r.norms ?? {};
+  const ci = (k: ScoreKey) => (r.ci[k] ? ` ± ${num(r.ci[k]!)}` : "");
+  const aligned = face.aligned?.toDataURL("image/jpeg", 0.9);
+  const profiles = face.aligned && face.landmarks ? profileImages(face.aligned, face.landmarks, tr) : [];
+  const population = r.population;
+  const rankedMeasures = Object.keys(MEASURE_SEGMENTS).some((k) => population?.features[k]);
+  const rank = (k: string) => {
+    const f = population?.features[k];
+    return f ? t("report.population.cell", { percentile: round1(f.percentile), z: f.z > 0 ? `+${num(f.z)}` : num(f.z) }) : "—";
+  };
+  const calibration = r.calibration;
+  const mm = (k: string) => (calibration && k in calibration.measures ? `${num(calibration.measures[k])} ± ${num(calibration.measureCI[k])} mm` : "—");
+  const direction = (k: SymmetryRegion) => describeDeviation(r.symmetry.regions[k]).map(m).join(", ") || t("deviation.none");
+
+  return `<!doctype html>
+<html lang="${tr.locale}">
+<head>
+<meta charset="utf-8">
+<title>${esc(t("export.htmlTitle"))} — ${esc(fileName)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #171717; max-width: 900px; margin: 2rem auto; padding: 0 1rem; }
+  h1 { font-size: 1.6rem; margin-bottom: .25rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #e5e5e5; padding-bottom: .25rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: .35rem .5rem; border-bottom: 1px solid #e5e5e5; }
+  td.num { text-align: right; font-variant-numeric: tabular-nums; }
+  .meta { color: #525252; font-size: 12px; }
+  .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: .75rem; }
+  .grid figure { margin: 0; } .grid img { width: 100%; border: 1px solid #e5e5e5; border-radius: 6px; }
+  .feedback { background: #fafafa; border: 1px solid #e5e5e5; border-radius: 6px; padding: .75rem; }
+  .feedback p { margin: 0 0 .5rem; } .feedback p:last-child { margin: 0; }
+  figcaption { font-size: 12px; color: #525252; text-align: center; }
+  img.aligned { max-width: 320px; border: 1px solid #e5e5e5; border-radius: 6px; }
+  figure.chart { margin: 1rem 0; } figure.chart svg { display: block; width: 100%; height: auto; margin: 0 auto; }
+  figure.chart.radar svg { max-width: 420px; }
+  figure.histograms > div { display: grid; grid-template-columns: repeat(3, 1fr); gap: .75rem; }
+  @media print { body { margin: 0; } h2 { break-after: avoid; } .grid, table, figure.chart { break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${esc(t("export.htmlTitle"))}</h1>
+<p class="meta">
+  ${esc(t("export.meta.image", { name: fileName || "—", width: String(r.image.width), height: String(r.image.height), id: face.id }))}<br>
+  ${esc(t("export.meta.sha", { sha: sha256 || "—" }))}<br>
+  ${esc(t("export.meta.methodology", { name: tr.methodologyName(methodology), version: r.methodologyVersion, model: MODEL_INFO.package }))}<br>
+  ${esc(t("export.meta.generated", { date: new Date().toLocaleString(LOCALES[tr.locale].intl) }))}${r.temporal ? `<br>
+  ${esc(t("report.temporal", { kept: r.temporal.kept, sampled: r.temporal.sampled, time: num(r.temporal.visualTime, 1) }))}` : ""}
+</p>
+
+<h2>${esc(t("export.scores"))}</h2>
+<table>
+${SCORE_KEYS.map((k) => `<tr><th>${esc(t(`score.${k}`))}</th><td class="num">${num(r.scores[k])}${ci(k)} / ${SCORE_MAX[k]}</td></tr>`).join("\n")}
+</table>
+<p class="meta">${esc(m(uniquenessNote(r, tr.cohortLabel)))}</p>
+${r.uncertainty.warning ? `<p>${esc(m(r.uncertainty.warning))}</p>` : ""}
+${chart("radar", t("chart.radar.title"), createElement(RadarChart, { report: r }))}
+${Object.keys(r.distributions?.scores ?? {}).length ? `
+<h2>${esc(t(r.temporal ? "chart.histogram.titleTemporal" : "chart.histogram.title"))}</h2>
+${chart("histograms", t(r.temporal ? "chart.histogram.hintTemporal" : "chart.histogram.hint"), createElement(ScoreHistograms, { report: r }))}` : ""}
+
+${r.pose ? `
+<h2>${esc(t("report.pose.title"))}</h2>
+<p>${esc(t("report.pose.angles", r.pose))}${r.poseNormalized ? ` — ${esc(t("report.pose.normalized"))}` : ""}</p>
+${r.poseWarnings.length ? `<ul>${r.poseWarnings.map((w) => `<li>${esc(m(w))}</li>`).join("")}</ul>` : ""}` : ""}
+
+<h2>${esc(t("report.symmetry.title"))}</h2>
+<table>
+<tr><th>${esc(t("report.symmetry.region"))}</th><th>${esc(t("report.symmetry.score"))}</th><th>${esc(t("report.symmetry.deviation"))}</th><th>${esc(t("report.symmetry.direction"))}</th></tr>
+${SYMMETRY_REGIONS.map((k) => `<tr><td>${esc(t(`region.${k}`))}</td><td class="num">${num(r.symmetry.regions[k].score)}</td><td class="num">${num(r.symmetry.regions[k].deviation)} %</td><td>${esc(direction(k))}</td></tr>`).join("\n")}
+</table>
+<p class="meta">${esc(t("report.symmetry.midline", { angle: r.symmetry.midline.angleDeg, offset: r.symmetry.midline.offsetPx }))}</p>
+
+<h2>${esc(t("export.measures"))}</h2>
+<p class="meta">${esc(m(calibrationNote(calibration)))}${calibration?.warning ? ` ${esc(m(calibration.warning))}` : ""}</p>
+${rankedMeasures ? `<p class="meta">${esc(t("report.measures.populationHint", { name: tr.cohortLabel(population!.ref) }))}</p>` : ""}
+<table>
+${Object.keys(MEASURE_SEGMENTS).map((k) => `<tr><th>${esc(tr.measure(k))}</th>${calibration ? `<td class="num">${esc(mm(k))}</td>` : ""}<td class="num">${num(r.measures[k])} px</td>${rankedMeasures ? `<td class="num">${esc(rank(k))}</td>` : ""}</tr>`).join("\n")}
+</table>
+
+<h2>${esc(t("export.ratios"))}</h2>
+<table>
+<tr><th>${esc(t("report.ratios.ratio"))}</th><th>${esc(t("report.ratios.measured"))}</th><th>${esc(t("report.ratios.reference"))}</th><th>${esc(t("report.ratios.relativeError"))}</th>${population ? `<th>${esc(t("report.ratios.population"))}</th>` : ""}</tr>
+${Object.keys(r.ratios).map((k) => {
+  const norm = norms[k];
+  const ref = k in r.targets ? num(r.targets[k]) : norm ? `${num(norm[0])}–${num(norm[1])}` : "—";
+  const dev = k in errors ? errors[k] : norm ? normDeviation(r.ratios[k], norm) : null;
+  return `<tr><td>${esc(tr.measure(k))}</td><td class="num">${num(round3(r.ratios[k]))}</td><td class="num">${esc(ref)}</td><td class="num">${dev === null ? "—" : `${num(dev * 100, 1)} %`}</td>${population ? `<td class="num">${esc(rank(k))}</td>` : ""}</tr>`;
+}).join("\n")}
+</table>
+${chart("deviation", t("chart.deviation.title"), createElement(DeviationChart, { report: r }))}
+<p class="meta">${esc(t("report.ratios.sources", { sources: [...new Set(Object.keys(r.ratios).map((k) => measureDef(k)?.reference).filter((s): s is string => Boolean(s)))].join(" ; ") }))}</p>
+
+<h2>${esc(t("report.conclusions"))}</h2>
+<div class="feedback">${r.feedback.map((f) => `<p>${esc(m(f))}</p>`).join("")}</div>
+${r.quality ? `
+<h2>${esc(t("export.quality", { grade: t(`quality.grade.${r.quality.grade}`) }))}</h2>
+${r.quality.ciFactor > 1 ? `<p class="meta">${esc(t("quality.widened", { factor: r.quality.ciFactor }))}</p>` : ""}
+<table>
+${r.quality.checks.map((c) => `<tr><th>${esc(t(`quality.check.${c.id}`))}</th><td class="num">${num(c.value)}</td><td>${esc(t(`quality.grade.${c.grade}`))}</td><td>${c.recommendation ? esc(m(c.recommendation)) : ""}</td></tr>`).join("\n")}
+</table>` : ""}
+${aligned ? `
+<h2>${esc(t("report.aligned"))}</h2>
+<img class="aligned" src="${aligned}" alt="${esc(t("report.aligned"))}">` : ""}
+${profiles.length ? `
+<h2>${esc(t("report.profiles.title"))}</h2>
+<div class="grid">
+${profiles.map((p) => `<figure><img src="${p.src}" alt="${esc(p.label)}"><figcaption>${esc(p.label)}</figcaption></figure>`).join("\n")}
+</div>` : ""}
+
+<h2>${esc(t("report.limits.title"))}</h2>
+<p class="meta">${esc(t("report.limits.body"))}</p>
+</body>
+</html>
+`;
+}
+
+/** Ouvre le rapport HTML dans une nouvelle fenêtre et lance l’impression (« Enregistrer en PDF »). */
+export function printReport(html: string) {
+  const win = window.open("", "_blank");
+  if (!win) return false;
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  win.addEventListener("load", () => win.print());
+  return true;
+}
@@ -0,0 +1,193 @@
+import {
+  MIN_VIDEO_FRAMES,
+  MessageError,
+  WORKING_MAX_DIM,
+  aggregateFrames,
+  errorMessage,
+  frameRejection,
+  msg,
+  representativeFrame,
+  workingScale,
+  type LM,
+  type ManualCalibration,
+  type Message,
+  type Methodology,
+} from "../engine";
+import { rescoreFace, type Analyzer, type FaceResult } from "./detection";
+
+export const VIDEO_SAMPLING = {
+  /** Cadences d’échantillonnage proposées (frames analysées par seconde de vidéo). */
+  rates: [1, 2, 4],
+  defaultRate: 2,
+  /** Plafond de frames analysées, quelle que soit la durée : chacune garde son image alignée en mémoire. */
+  maxFrames: 40,
+};
+
+/** Frame échantillonnée : retenue si `reasons` est vide, avec son visage analysé et l’image de la frame. */
+export type VideoFrameResult = {
+  index: number;
+  /** Instant dans la vidéo (s). */
+  time: number;
+  reasons: Message[];
+  face?: FaceResult;
+  /** Frame entière (JPEG), affichée en aperçu lorsqu’elle porte le rapport visuel. */
+  imageURL?: string;
+  width: number;
+  height: number;
+};
+
+export type VideoResult = {
+  name: string;
+  durationS: number;
+  frames: VideoFrameResult[];
+  /** Index de la frame retenue qui porte le rapport visuel. */
+  visual: number;
+};
+
+export type VideoProgress = { done: number; total: number };
+
+const VIDEO_EXT = /\.(mp4|m4v|mov|webm|ogv|mkv)$/i;
+
+export const isVideoFile = (f: File) => f.type.startsWith("video/") || VIDEO_EXT.test(f.name);
+
+export const isKept = (f: VideoFrameResult) => f.reasons.length === 0 && Boolean(f.face?.report);
+
+/**
+ * Profil appliqué à chaque frame : sans tirages Monte-Carlo, l’incertitude d’une vidéo étant
+ * la dispersion de ses frames.
+ */
+export const frameMethodology = (m: Methodology): Methodology => ({ ...m, uncertainty: { ...m.uncertainty, repeats: 0, mode: "jitter" } });
+
+/** Instants échantillonnés, au centre de `n` intervalles égaux. */
+export function sampleTimes(durationS: number, rate: number) {
+  const n = Math.max(1, Math.min(VIDEO_SAMPLING.maxFrames, Math.floor(durationS * rate)));
+  return Array.from({ length: n }, (_, i) => ((i + 0.5) * durationS) / n);
+}
+
+function once(target: EventTarget, ok: string) {
+  return new Promise<void>((resolve, reject) => {
+    const done = () => { target.removeEventListener(ok, done); target.removeEventListener("error", fail); resolve(); };
+    const fail = () => { target.removeEventListener(ok, done); target.removeEventListener("error", fail); reject(new Error(ok)); };
+    target.addEventListener(ok, done);
+    target.addEventListener("error", fail);
+  });
+}
+
+/** Ouvre une vidéo locale sans la lire ; la durée doit être connue (métadonnées chargées). */
+async function openVideo(file: File) {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.playsInline = true;
+  video.preload = "auto";
+  const url = URL.createObjectURL(file);
+  const loaded = once(video, "loadeddata");
+  video.src = url;
+  try {
+    await loaded;
+  } catch {
+    URL.revokeObjectURL(url);
+    throw new MessageError(msg("video.loadFailed", { name: file.name }));
+  }
+  if (!Number.isFinite(video.duration) || video.duration <= 0 || !video.videoWidth) {
+    URL.revokeObjectURL(url);
+    throw new MessageError(msg("video.noDuration", { name: file.name }));
+  }
+  return { video, url };
+}
+
+/** Image de la vidéo à l’instant `time`, réduite comme une image importée. */
+async function grabFrame(video: HTMLVideoElement, time: number) {
+  const seeked = once(video, "seeked");
+  video.currentTime = time;
+  await seeked;
+  const scale = workingScale(video.videoWidth, video.videoHeight, WORKING_MAX_DIM);
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(video.videoWidth * scale);
+  canvas.height = Math.round(video.videoHeight * scale);
+  canvas.getContext("2d")!.drawImage(video, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/**
+ * Échantillonne une vidéo à `rate` frames par seconde et analyse chaque frame (visage principal,
+ * sans IC). Les frames sans visage, hors des limites de pose ou de qualité insuffisante sont
+ * écartées avec leurs motifs. L’annulation via `signal` rejette la promesse.
+ */
+export async function analyzeVideo(
+  analyze: Analyzer,
+  file: File,
+  methodology: Methodology,
+  rate: number,
+  signal: AbortSignal,
+  onProgress: (p: VideoProgress) => void
+): Promise<VideoResult> {
+  const { video, url } = await openVideo(file);
+  const frameM = frameMethodology(methodology);
+  const times = sampleTimes(video.duration, rate);
+  const frames: VideoFrameResult[] = [];
+  try {
+    for (const [index, time] of times.entries()) {
+      signal.throwIfAborted();
+      onProgress({ done: index, total: times.length });
+      const canvas = await grabFrame(video, time);
+      const frame: VideoFrameResult = { index, time, reasons: [], width: canvas.width, height: canvas.height };
+      try {
+        const { faces: [face] } = await analyze(canvas, false, frameM, { signal });
+        frame.reasons = face.report ? frameRejection(face.report) : face.error ? [face.error] : face.flags;
+        if (!frame.reasons.length) {
+          frame.face = face;
+          frame.imageURL = canvas.toDataURL("image/jpeg", 0.9);
+        }
+      } catch (e) {
+        if (signal.aborted) throw e;
+        frame.reasons = [errorMessage(e)];
+      }
+      frames.push(frame);
+    }
+    onProgress({ done: times.length, total: times.length });
+  } finally {
+    URL.revokeObjectURL(url);
+    video.removeAttribute("src");
+    video.load();
+  }
+  const result = { name: file.name, durationS: video.duration, frames, visual: frames.findIndex(isKept) };
+  return { ...result, visual: suggestedFrame(result, methodology) };
+}
+
+const timed = (frames: VideoFrameResult[]) => frames.filter(isKept).map((f) => ({ time: f.time, report: f.face!.report! }));
+
+/** Frame retenue la plus représentative des médianes, proposée par défaut pour le rapport visuel. */
+export function suggestedFrame(result: VideoResult, methodology: Methodology) {
+  const kept = result.frames.filter(isKept);
+  if (kept.length < MIN_VIDEO_FRAMES) return result.frames.findIndex(isKept);
+  const frames = timed(result.frames);
+  return kept[representativeFrame(frames, aggregateFrames(frames, 0, methodology, { sampled: result.frames.length, durationS: result.durationS }))].index;
+}
+
+/**
+ * Visage agrégé de la vidéo : rapport des médianes et de la dispersion temporelle, image alignée
+ * et landmarks de la frame choisie. `null` sous le minimum de frames retenues.
+ */
+export function videoFace(result: VideoResult, methodology: Methodology): FaceResult | null {
+  const kept = result.frames.filter(isKept);
+  if (kept.length < MIN_VIDEO_FRAMES) return null;
+  const frames = timed(result.frames);
+  const visual = Math.max(0, kept.findIndex((f) => f.index === result.visual));
+  const report = aggregateFrames(frames, visual, methodology, { sampled: result.frames.length, durationS: result.durationS });
+  return { ...kept[visual].face!, report };
+}
+
+/**
+ * Recalcule les frames retenues (changement de profil) ou, avec `edit`, la seule frame visuelle
+ * (landmarks corrigés, étalonnage). Une frame qui ne passe plus les contrôles est écartée.
+ */
+export function rescoreVideo(result: VideoResult, methodology: Methodology, edit?: { landmarks?: LM[]; calibration?: ManualCalibration | null }): VideoResult {
+  const frameM = frameMethodology(methodology);
+  const frames = result.frames.map((f) => {
+    if (!f.face || (edit && f.index !== result.visual)) return f;
+    const face = rescoreFace(f.face, frameM, edit?.landmarks ?? f.face.landmarks, edit && "calibration" in edit ? edit.calibration : f.face.calibration);
+    return { ...f, face, reasons: face.report ? frameRejection(face.report) : face.flags };
+  });
+  const next = { ...result, frames };
+  return frames[result.visual] && isKept(frames[result.visual]) ? next : { ...next, visual: suggestedFrame(next, methodology) };
+}
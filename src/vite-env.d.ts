@@ -0,0 +1,5 @@
+/// <reference types="vite/client" />
+/// <reference types="vite-plugin-pwa/react" />
+
+/** Version de @tensorflow-models/face-landmarks-detection, injectée par Vite. */
+declare const __FACE_MODEL_VERSION__: string;
@@ -1,7 +1,45 @@
+import { readFileSync } from 'node:fs'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
+import { VitePWA } from 'vite-plugin-pwa'
+
+const faceModelPkg = JSON.parse(
+  readFileSync(new URL('./node_modules/@tensorflow-models/face-landmarks-detection/package.json', import.meta.url), 'utf8'),
+)
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // Service worker : précache de l’application et des poids du modèle (public/models) pour un usage hors ligne.
+    VitePWA({
+      registerType: 'prompt',
+      includeAssets: ['vite.svg', 'apple-touch-icon.png'],
+      manifest: {
+        name: 'Rapport d’harmonie faciale',
+        short_name: 'Harmonie faciale',
+        description: 'Analyse locale des proportions et de la symétrie du visage, sans envoi de données.',
+        lang: 'fr',
+        display: 'standalone',
+        start_url: '.',
+        theme_color: '#171717',
+        background_color: '#ffffff',
+        icons: [
+          { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+          { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+          { src: 'pwa-maskable-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' },
+        ],
+      },
+      workbox: {
+        globPatterns: ['**/*.{js,css,html,svg,png,json,bin,wasm}'],
+        // Le bundle TF.js, le décodeur HEIC et les poids dépassent la limite par défaut de 2 Mo.
+        maximumFileSizeToCacheInBytes: 16 * 1024 * 1024,
+      },
+    }),
+  ],
+  // Le worker d’analyse est un module ES (new Worker(…, { type: 'module' })).
+  worker: { format: 'es' },
+  define: {
+    __FACE_MODEL_VERSION__: JSON.stringify(faceModelPkg.version),
+  },
 })